@@ -0,0 +1,157 @@
+import type { ReactNode } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import type { Credentials } from "@shared/api";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useLocale } from "@/hooks/use-locale";
+import { ApiError } from "@/lib/api";
+import type { MessageKey, Translate } from "@/lib/i18n";
+
+interface AuthFormProps {
+  title: string;
+  description: string;
+  submitLabel: string;
+  /** Sign-up asks for a new password, with the server's length rule */
+  newPassword?: boolean;
+  onSubmit: (credentials: Credentials) => Promise<unknown>;
+  /** Link to the other form, under the submit button */
+  footer: ReactNode;
+}
+
+const schema = (newPassword: boolean, t: Translate) =>
+  z.object({
+    email: z.string().trim().email(t("auth.invalidEmail")),
+    password: newPassword
+      ? z.string().min(8, t("auth.shortPassword")).max(200)
+      : z.string().min(1, t("auth.enterPassword")),
+  });
+
+/** What the server's auth errors mean to the person filling in the form */
+const SERVER_ERRORS: Record<number, MessageKey> = {
+  400: "auth.invalid",
+  401: "auth.incorrect",
+  409: "auth.emailTaken",
+};
+
+/**
+ * The email and password card behind the log-in and sign-up pages. Errors
+ * from the server are shown on the form rather than as toasts.
+ */
+export function AuthForm({
+  title,
+  description,
+  submitLabel,
+  newPassword = false,
+  onSubmit,
+  footer,
+}: AuthFormProps) {
+  const { t } = useLocale();
+  const form = useForm<Credentials>({
+    resolver: zodResolver(schema(newPassword, t)),
+    defaultValues: { email: "", password: "" },
+  });
+
+  const submit = form.handleSubmit(async (credentials) => {
+    try {
+      await onSubmit(credentials);
+    } catch (error) {
+      form.setError("root", {
+        message: t(
+          (error instanceof ApiError && SERVER_ERRORS[error.status]) ||
+            "auth.unreachable",
+        ),
+      });
+    }
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="neumorph-outset w-full max-w-md rounded-3xl border-0 bg-card/50 backdrop-blur-sm">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold">{title}</CardTitle>
+          <CardDescription>{description}</CardDescription>
+        </CardHeader>
+        <Form {...form}>
+          <form onSubmit={submit} noValidate>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("auth.email")}</FormLabel>
+                    <FormControl>
+                      <Input {...field} type="email" autoComplete="email" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("auth.password")}</FormLabel>
+                    <FormControl>
+                      <Input
+                        {...field}
+                        type="password"
+                        autoComplete={
+                          newPassword ? "new-password" : "current-password"
+                        }
+                      />
+                    </FormControl>
+                    {newPassword && (
+                      <FormDescription>
+                        {t("auth.passwordHelp")}
+                      </FormDescription>
+                    )}
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {form.formState.errors.root && (
+                <p
+                  role="alert"
+                  className="text-sm font-medium text-destructive"
+                >
+                  {form.formState.errors.root.message}
+                </p>
+              )}
+            </CardContent>
+            <CardFooter className="flex flex-col gap-4">
+              <Button
+                type="submit"
+                className="w-full rounded-xl"
+                disabled={form.formState.isSubmitting}
+              >
+                {submitLabel}
+              </Button>
+              <p className="text-sm text-muted-foreground">{footer}</p>
+            </CardFooter>
+          </form>
+        </Form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+import { useMemo } from "react";
+import { AlertTriangle, Scale } from "lucide-react";
+import {
+  calculateAffordability,
+  defaultAffordabilityProfile,
+  type AffordabilityProfile,
+  type LoanData,
+} from "@shared/finance";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { useLocale } from "@/hooks/use-locale";
+import { currencySymbol, formatCurrency } from "@/lib/format";
+import { cn } from "@/lib/utils";
+
+interface AffordabilityPanelProps {
+  affordability: AffordabilityProfile | undefined;
+  loan: LoanData;
+  onChange: (affordability: AffordabilityProfile | undefined) => void;
+}
+
+const toAmount = (value: string) => Math.max(0, Number(value) || 0);
+
+const formatPercent = (value: number) =>
+  Number.isFinite(value) ? `${value.toFixed(1)}%` : "—";
+
+export function AffordabilityPanel({
+  affordability,
+  loan,
+  onChange,
+}: AffordabilityPanelProps) {
+  const { t } = useLocale();
+  const currency = currencySymbol();
+  const result = useMemo(
+    () => (affordability ? calculateAffordability(affordability, loan) : null),
+    [affordability, loan],
+  );
+  const update = (updates: Partial<AffordabilityProfile>) =>
+    onChange({ ...affordability, ...updates });
+
+  const amountField = (
+    id: string,
+    label: string,
+    key: "monthlyIncome" | "existingEmis" | "propertyValue",
+    step: number,
+  ) => (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        step={step}
+        value={affordability[key]}
+        onChange={(e) => update({ [key]: toAmount(e.target.value) })}
+      />
+    </div>
+  );
+
+  return (
+    <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm mb-12">
+      <CardHeader className="pb-6">
+        <CardTitle className="text-2xl font-bold flex items-center justify-center gap-3">
+          <Scale className="h-7 w-7 text-financial-500" />
+          {t("afford.title")}
+          <Switch
+            checked={!!affordability}
+            onCheckedChange={(enabled) =>
+              onChange(enabled ? defaultAffordabilityProfile(loan) : undefined)
+            }
+            aria-label={t("afford.toggle")}
+          />
+        </CardTitle>
+      </CardHeader>
+      {affordability && (
+        <CardContent className="grid lg:grid-cols-3 gap-8">
+          <div className="space-y-4">
+            {amountField(
+              "monthly-income",
+              t("afford.income", { currency }),
+              "monthlyIncome",
+              5000,
+            )}
+            {amountField(
+              "existing-emis",
+              t("afford.existing", { currency }),
+              "existingEmis",
+              1000,
+            )}
+            {amountField(
+              "property-value",
+              t("afford.property", { currency }),
+              "propertyValue",
+              100000,
+            )}
+          </div>
+
+          <div className="space-y-5">
+            <div className="space-y-3">
+              <div className="flex justify-between">
+                <Label>{t("afford.foirLimit")}</Label>
+                <span className="text-sm font-semibold text-financial-600">
+                  {affordability.foirLimit}%
+                </span>
+              </div>
+              <Slider
+                value={[affordability.foirLimit]}
+                onValueChange={([foirLimit]) => update({ foirLimit })}
+                min={20}
+                max={75}
+                step={5}
+                className="neumorph rounded-full p-2"
+              />
+              <p className="text-xs text-muted-foreground">
+                {t("afford.foirHelp")}
+              </p>
+            </div>
+            <div className="space-y-3">
+              <div className="flex justify-between">
+                <Label>{t("afford.maxLtv")}</Label>
+                <span className="text-sm font-semibold text-financial-600">
+                  {affordability.maxLtv}%
+                </span>
+              </div>
+              <Slider
+                value={[affordability.maxLtv]}
+                onValueChange={([maxLtv]) => update({ maxLtv })}
+                min={50}
+                max={90}
+                step={5}
+                className="neumorph rounded-full p-2"
+              />
+              <p className="text-xs text-muted-foreground">
+                {t("afford.ltvHelp")}
+              </p>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="cap-loan">{t("afford.capLoan")}</Label>
+              <Switch
+                id="cap-loan"
+                checked={!!affordability.capLoan}
+                onCheckedChange={(capLoan) => update({ capLoan })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3 text-sm">
+            <div>
+              <p className="text-xs text-muted-foreground">
+                {result.limitedBy === "foir"
+                  ? t("afford.maxLoanByIncome")
+                  : t("afford.maxLoanByLtv")}
+              </p>
+              <p className="text-2xl font-bold text-financial-500">
+                {formatCurrency(result.maxEligibleLoan)}
+              </p>
+            </div>
+            {(
+              [
+                [
+                  t("afford.eligiblePayment"),
+                  formatCurrency(result.eligibleEmi),
+                ],
+                [t("afford.room"), formatCurrency(result.maxEmi)],
+                [t("afford.downPayment"), formatCurrency(result.downPayment)],
+                [
+                  t("afford.minDownPayment"),
+                  formatCurrency(result.minDownPayment),
+                ],
+              ] as const
+            ).map(([label, value]) => (
+              <div key={label} className="flex justify-between">
+                <span className="text-muted-foreground">{label}</span>
+                <span>{value}</span>
+              </div>
+            ))}
+            {(
+              [
+                ["foir", t("afford.foir"), result.foir],
+                ["ltv", t("afford.ltv"), result.ltv],
+              ] as const
+            ).map(([limit, label, value]) => (
+              <div key={limit} className="flex justify-between">
+                <span className="text-muted-foreground">{label}</span>
+                <span
+                  className={cn(
+                    "font-semibold",
+                    result.breaches.includes(limit)
+                      ? "text-destructive"
+                      : "text-green-500",
+                  )}
+                >
+                  {formatPercent(value)}
+                </span>
+              </div>
+            ))}
+            {result.breaches.length > 0 && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {t(
+                    result.breaches.length > 1
+                      ? "afford.overBoth"
+                      : result.breaches[0] === "foir"
+                        ? "afford.overFoir"
+                        : "afford.overLtv",
+                    { amount: formatCurrency(result.maxEligibleLoan) },
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,99 @@
+import { useMemo } from "react";
+import {
+  groupScheduleByYear,
+  type AmortizationEntry,
+  type AmortizationYear,
+} from "@shared/finance";
+import { useLocale } from "@/hooks/use-locale";
+import { formatCurrency } from "@/lib/format";
+import type { Translate } from "@/lib/i18n";
+import {
+  ScheduleTable,
+  type RowStyle,
+  type ScheduleColumn,
+} from "./ScheduleTable";
+
+const prepaid = (amount: number) => (amount > 0 ? formatCurrency(amount) : "–");
+
+const columns = (
+  t: Translate,
+): ScheduleColumn<AmortizationEntry, AmortizationYear>[] => [
+  {
+    header: t("table.month"),
+    month: (e) => (
+      <>
+        {e.month}
+        {e.rateReset && (
+          <span className="ms-1 text-amber-600">↻ {e.rate}%</span>
+        )}
+      </>
+    ),
+    year: (e) => (
+      <>
+        {t("table.year", { year: e.year })}
+        {e.rateReset && (
+          <span className="ms-1 text-amber-600">↻ {e.rate}%</span>
+        )}
+      </>
+    ),
+  },
+  {
+    header: t("table.payment"),
+    month: (e) => formatCurrency(e.emi),
+    year: (e) => formatCurrency(e.emi),
+  },
+  {
+    header: t("table.principal"),
+    month: (e) => formatCurrency(e.principal),
+    year: (e) => formatCurrency(e.principal),
+    className: "text-green-600",
+  },
+  {
+    header: t("table.interest"),
+    month: (e) => formatCurrency(e.interest),
+    year: (e) => formatCurrency(e.interest),
+    className: "text-red-600",
+  },
+  {
+    header: t("table.prepaid"),
+    month: (e) => prepaid(e.prepayment),
+    year: (e) => prepaid(e.prepayment),
+    className: "text-financial-600",
+  },
+  {
+    header: t("table.balance"),
+    month: (e) => formatCurrency(e.balance),
+    year: (e) => formatCurrency(e.balance),
+  },
+];
+
+const resetRow =
+  (t: Translate) =>
+  (entry: AmortizationEntry | AmortizationYear): RowStyle =>
+    entry.rateReset
+      ? {
+          className: "bg-amber-500/10",
+          title: t("table.rateReset", { rate: entry.rate }),
+        }
+      : {};
+
+export function AmortizationTable({
+  schedule,
+}: {
+  schedule: AmortizationEntry[];
+}) {
+  const { t } = useLocale();
+  const yearly = useMemo(() => groupScheduleByYear(schedule), [schedule]);
+  const tableColumns = useMemo(() => columns(t), [t]);
+  const rowStyle = useMemo(() => resetRow(t), [t]);
+  return (
+    <ScheduleTable<AmortizationEntry, AmortizationYear>
+      label={t("schedule.amortization")}
+      monthly={schedule}
+      yearly={yearly}
+      columns={tableColumns}
+      monthRow={rowStyle}
+      yearRow={rowStyle}
+    />
+  );
+}
@@ -0,0 +1,228 @@
+import { useMemo } from "react";
+import { Receipt } from "lucide-react";
+import {
+  calculateSIPRedemption,
+  EQUITY_CAPITAL_GAINS,
+  type CapitalGainsProfile,
+  type SIPData,
+  type SIPTaxBasis,
+} from "@shared/finance";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useLocale } from "@/hooks/use-locale";
+import { currencySymbol, formatCurrency } from "@/lib/format";
+
+interface CapitalGainsPanelProps {
+  sip: SIPData;
+  onChange: (capitalGains: CapitalGainsProfile | undefined) => void;
+  /** Which SIP corpus the net position is measured on */
+  sipBasis: SIPTaxBasis;
+  onSipBasisChange: (basis: SIPTaxBasis) => void;
+}
+
+const toAmount = (value: string) => Math.max(0, Number(value) || 0);
+
+function NumberField({
+  id,
+  label,
+  value,
+  step,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: number;
+  step: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(toAmount(e.target.value))}
+      />
+    </div>
+  );
+}
+
+export function CapitalGainsPanel({
+  sip,
+  onChange,
+  sipBasis,
+  onSipBasisChange,
+}: CapitalGainsPanelProps) {
+  const { t } = useLocale();
+  const profile = sip.capitalGains;
+  const redemption = useMemo(
+    () => (profile ? calculateSIPRedemption(sip) : null),
+    [sip, profile],
+  );
+  const update = (updates: Partial<CapitalGainsProfile>) =>
+    onChange({ ...profile, ...updates });
+
+  const rows: [string, number][] = redemption
+    ? [
+        [t("gains.corpus"), redemption.grossValue],
+        [t("gains.exitLoad"), -redemption.exitLoad],
+        [t("gains.shortTerm"), redemption.shortTermGain],
+        [t("gains.longTerm"), redemption.longTermGain],
+        [t("gains.exempt"), redemption.exemptGain],
+        [t("gains.tax"), -redemption.tax],
+      ]
+    : [];
+
+  return (
+    <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm mb-12">
+      <CardHeader className="pb-6">
+        <CardTitle className="text-2xl font-bold flex items-center justify-center gap-3">
+          <Receipt className="h-7 w-7 text-green-500" />
+          {t("gains.title")}
+          <Switch
+            checked={!!profile}
+            onCheckedChange={(enabled) =>
+              onChange(enabled ? EQUITY_CAPITAL_GAINS : undefined)
+            }
+            aria-label={t("gains.toggle")}
+          />
+        </CardTitle>
+      </CardHeader>
+      {profile && (
+        <CardContent className="grid lg:grid-cols-3 gap-8">
+          <div className="space-y-5">
+            <div className="grid grid-cols-2 gap-4">
+              <NumberField
+                id="stcg-rate"
+                label={t("gains.stcgRate")}
+                value={profile.stcgRate}
+                step={0.5}
+                onChange={(stcgRate) => update({ stcgRate })}
+              />
+              <NumberField
+                id="ltcg-rate"
+                label={t("gains.ltcgRate")}
+                value={profile.ltcgRate}
+                step={0.5}
+                onChange={(ltcgRate) => update({ ltcgRate })}
+              />
+              <NumberField
+                id="ltcg-exemption"
+                label={t("gains.ltcgExemption", { currency: currencySymbol() })}
+                value={profile.ltcgExemption}
+                step={5000}
+                onChange={(ltcgExemption) => update({ ltcgExemption })}
+              />
+              <NumberField
+                id="long-term-after"
+                label={t("gains.longTermAfter")}
+                value={profile.longTermAfterMonths}
+                step={1}
+                onChange={(months) =>
+                  update({ longTermAfterMonths: Math.round(months) })
+                }
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {t("gains.lotsHelp")}
+            </p>
+          </div>
+
+          <div className="space-y-5">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="exit-load">{t("gains.exitLoad")}</Label>
+              <Switch
+                id="exit-load"
+                checked={!!profile.exitLoad}
+                onCheckedChange={(enabled) =>
+                  update({
+                    exitLoad: enabled
+                      ? EQUITY_CAPITAL_GAINS.exitLoad
+                      : undefined,
+                  })
+                }
+              />
+            </div>
+            {profile.exitLoad && (
+              <div className="grid grid-cols-2 gap-4">
+                <NumberField
+                  id="exit-load-rate"
+                  label={t("gains.loadRate")}
+                  value={profile.exitLoad.rate}
+                  step={0.25}
+                  onChange={(rate) =>
+                    update({ exitLoad: { ...profile.exitLoad, rate } })
+                  }
+                />
+                <NumberField
+                  id="exit-load-months"
+                  label={t("gains.loadWithin")}
+                  value={profile.exitLoad.withinMonths}
+                  step={1}
+                  onChange={(months) =>
+                    update({
+                      exitLoad: {
+                        ...profile.exitLoad,
+                        withinMonths: Math.round(months),
+                      },
+                    })
+                  }
+                />
+              </div>
+            )}
+            <div className="space-y-3">
+              <Label>{t("gains.basis")}</Label>
+              <ToggleGroup
+                type="single"
+                value={sipBasis}
+                onValueChange={(basis: SIPTaxBasis) =>
+                  basis && onSipBasisChange(basis)
+                }
+                className="justify-start"
+              >
+                <ToggleGroupItem
+                  value="pre-tax"
+                  variant="outline"
+                  className="rounded-xl"
+                >
+                  {t("gains.preTax")}
+                </ToggleGroupItem>
+                <ToggleGroupItem
+                  value="post-tax"
+                  variant="outline"
+                  className="rounded-xl"
+                >
+                  {t("gains.postTax")}
+                </ToggleGroupItem>
+              </ToggleGroup>
+            </div>
+          </div>
+
+          <div className="space-y-2 text-sm">
+            <Label>{t("gains.redemption")}</Label>
+            {rows.map(([label, amount]) => (
+              <div key={label} className="flex justify-between">
+                <span className="text-muted-foreground">{label}</span>
+                <span>{formatCurrency(amount)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between border-t pt-2 font-semibold">
+              <span>{t("gains.inHand")}</span>
+              <span className="text-green-500">
+                {formatCurrency(redemption.netValue)}
+              </span>
+            </div>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { BarChart3 } from "lucide-react";
+import {
+  seriesKey,
+  type ChartPoint,
+  type ChartSeries,
+} from "@shared/chart-data";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useLocale } from "@/hooks/use-locale";
+import { formatCurrency, formatShorthand } from "@/lib/format";
+import type { MessageKey } from "@/lib/i18n";
+import type { Scenario } from "@/lib/scenario";
+
+type LoanSeries = Exclude<ChartSeries, "sip">;
+
+const SERIES: {
+  key: LoanSeries;
+  label: MessageKey;
+  strokeWidth: number;
+  strokeDasharray?: string;
+}[] = [
+  { key: "net", label: "charts.net", strokeWidth: 3 },
+  {
+    key: "loan",
+    label: "charts.balance",
+    strokeWidth: 2,
+    strokeDasharray: "6 4",
+  },
+  {
+    key: "interest",
+    label: "charts.cumulativeInterest",
+    strokeWidth: 2,
+    strokeDasharray: "2 3",
+  },
+  {
+    key: "principal",
+    label: "charts.cumulativePrincipal",
+    strokeWidth: 2,
+    strokeDasharray: "10 3 2 3",
+  },
+];
+
+interface ComparisonChartProps {
+  data: ChartPoint[];
+  scenarios: Scenario[];
+}
+
+export function ComparisonChart({ data, scenarios }: ComparisonChartProps) {
+  const { t } = useLocale();
+  const [visible, setVisible] = useState<LoanSeries[]>(["net"]);
+
+  return (
+    <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader className="space-y-4">
+        <CardTitle className="flex items-center gap-3">
+          <BarChart3 className="h-6 w-6 text-financial-500" />
+          {t("charts.projection")}
+        </CardTitle>
+        <ToggleGroup
+          type="multiple"
+          value={visible}
+          onValueChange={(value: LoanSeries[]) => setVisible(value)}
+          className="flex-wrap justify-start"
+          aria-label={t("charts.series")}
+        >
+          {SERIES.map((series) => (
+            <ToggleGroupItem
+              key={series.key}
+              value={series.key}
+              variant="outline"
+              size="sm"
+              className="rounded-xl text-xs"
+            >
+              {t(series.label)}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </CardHeader>
+      <CardContent>
+        <div className="h-96">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis dataKey="year" />
+              <YAxis tickFormatter={formatShorthand} />
+              <RechartsTooltip
+                formatter={(value: number) => formatCurrency(value)}
+                labelFormatter={(year) => t("table.year", { year })}
+                contentStyle={{
+                  backgroundColor: "hsl(var(--card))",
+                  border: "none",
+                  borderRadius: "12px",
+                  boxShadow: "0 8px 32px rgba(0,0,0,0.1)",
+                }}
+              />
+              <Legend />
+              {SERIES.filter((series) => visible.includes(series.key)).map(
+                (series) =>
+                  scenarios.map((scenario) => (
+                    <Line
+                      key={seriesKey(series.key, scenario.id)}
+                      type="monotone"
+                      dataKey={seriesKey(series.key, scenario.id)}
+                      stroke={scenario.color}
+                      strokeWidth={series.strokeWidth}
+                      strokeDasharray={series.strokeDasharray}
+                      name={t("charts.seriesName", {
+                        name: scenario.name,
+                        series: t(series.label),
+                      })}
+                      dot={series.key === "net" ? { r: 4 } : false}
+                    />
+                  )),
+              )}
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,281 @@
+import { useMemo, useState } from "react";
+import { Scale, Trophy } from "lucide-react";
+import {
+  compareResults,
+  COMPARISON_METRICS,
+  METRIC_DIRECTIONS,
+  rankScenarios,
+  type CalculationResults,
+  type ComparisonCell,
+  type ComparisonMetric,
+  type RankingWeights,
+} from "@shared/finance";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useLocale } from "@/hooks/use-locale";
+import { formatCurrency } from "@/lib/format";
+import type { Scenario } from "@/lib/scenario";
+import { cn } from "@/lib/utils";
+
+interface ComparisonTableProps {
+  results: { scenario: Scenario; results: CalculationResults }[];
+}
+
+const DEFAULT_WEIGHTS: RankingWeights = {
+  netPosition: 3,
+  totalInterest: 2,
+  emi: 1,
+};
+
+/** Metrics a scenario can be ranked on */
+const CRITERIA = COMPARISON_METRICS.filter(
+  (metric) => METRIC_DIRECTIONS[metric],
+);
+
+const formatValue = (metric: ComparisonMetric, value: number) => {
+  switch (metric) {
+    case "monthsSaved":
+      return String(Math.round(value));
+    case "postTaxEffectiveRate":
+      return `${value.toFixed(2)}%`;
+    default:
+      return formatCurrency(value);
+  }
+};
+
+const formatDelta = (metric: ComparisonMetric, cell: ComparisonCell) => {
+  const sign = cell.delta > 0 ? "+" : cell.delta < 0 ? "−" : "±";
+  const amount = `${sign}${formatValue(metric, Math.abs(cell.delta))}`;
+  return cell.deltaPercent === null
+    ? amount
+    : `${amount} (${sign}${Math.abs(cell.deltaPercent).toFixed(1)}%)`;
+};
+
+export function ComparisonTable({ results }: ComparisonTableProps) {
+  const { t } = useLocale();
+  const [baselineId, setBaselineId] = useState(results[0].scenario.id);
+  const [weights, setWeights] = useState<RankingWeights>(DEFAULT_WEIGHTS);
+
+  // Fall back to the first scenario when the baseline is removed
+  const baseline = Math.max(
+    0,
+    results.findIndex(({ scenario }) => scenario.id === baselineId),
+  );
+  const values = useMemo(() => results.map((r) => r.results), [results]);
+  const rows = useMemo(
+    () => compareResults(values, baseline),
+    [values, baseline],
+  );
+  const ranking = useMemo(
+    () => rankScenarios(values, weights),
+    [values, weights],
+  );
+  const criteria = Object.keys(weights) as ComparisonMetric[];
+
+  const pickCriteria = (picked: ComparisonMetric[]) =>
+    setWeights(
+      Object.fromEntries(
+        picked.map((metric) => [metric, weights[metric] ?? 1]),
+      ),
+    );
+
+  return (
+    <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm mb-12">
+      <CardHeader className="pb-6">
+        <CardTitle className="text-2xl font-bold flex items-center justify-center gap-3">
+          <Scale className="h-7 w-7 text-financial-500" />
+          {t("compare.title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="flex items-center gap-3">
+          <Label>{t("compare.baseline")}</Label>
+          <Select
+            value={String(results[baseline].scenario.id)}
+            onValueChange={(id) => setBaselineId(Number(id))}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {results.map(({ scenario }) => (
+                <SelectItem key={scenario.id} value={String(scenario.id)}>
+                  {scenario.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("compare.metric")}</TableHead>
+              {results.map(({ scenario }, index) => (
+                <TableHead key={scenario.id} className="text-end">
+                  <span className="inline-flex items-center gap-2">
+                    <span
+                      className="h-3 w-3 rounded-full"
+                      style={{ backgroundColor: scenario.color }}
+                    />
+                    {scenario.name}
+                    {index === baseline && (
+                      <Badge variant="secondary">{t("compare.baseline")}</Badge>
+                    )}
+                  </span>
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map(({ metric, direction, cells }) => (
+              <TableRow key={metric}>
+                <TableCell>
+                  <p className="font-medium">{t(`metric.${metric}`)}</p>
+                  {direction && (
+                    <p className="text-xs text-muted-foreground">
+                      {t(
+                        direction === "higher"
+                          ? "compare.higherBetter"
+                          : "compare.lowerBetter",
+                      )}
+                    </p>
+                  )}
+                </TableCell>
+                {cells.map((cell, index) => (
+                  <TableCell
+                    key={results[index].scenario.id}
+                    className={cn("text-end", cell.best && "bg-green-500/10")}
+                  >
+                    <span className="inline-flex items-center gap-1 font-semibold">
+                      {cell.best && (
+                        <Trophy
+                          className="h-4 w-4 text-green-500"
+                          aria-label={t("compare.best")}
+                        />
+                      )}
+                      {formatValue(metric, cell.value)}
+                    </span>
+                    {index !== baseline && (
+                      <p
+                        className={cn(
+                          "text-xs",
+                          cell.versusBaseline === "better" && "text-green-600",
+                          cell.versusBaseline === "worse" && "text-destructive",
+                          cell.versusBaseline === "same" &&
+                            "text-muted-foreground",
+                        )}
+                      >
+                        {formatDelta(metric, cell)}
+                      </p>
+                    )}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <div className="grid lg:grid-cols-2 gap-8">
+          <div className="space-y-4">
+            <Label>{t("compare.criteria")}</Label>
+            <ToggleGroup
+              type="multiple"
+              size="sm"
+              value={criteria}
+              onValueChange={pickCriteria}
+              className="flex-wrap justify-start"
+            >
+              {CRITERIA.map((metric) => (
+                <ToggleGroupItem
+                  key={metric}
+                  value={metric}
+                  variant="outline"
+                  className="rounded-xl text-xs"
+                >
+                  {t(`metric.${metric}`)}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            {criteria.map((metric) => (
+              <div key={metric} className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span>{t(`metric.${metric}`)}</span>
+                  <span className="text-muted-foreground">
+                    {t("compare.weight")} {weights[metric]}
+                  </span>
+                </div>
+                <Slider
+                  value={[weights[metric]]}
+                  onValueChange={([weight]) =>
+                    setWeights({ ...weights, [metric]: weight })
+                  }
+                  min={1}
+                  max={5}
+                  step={1}
+                  className="neumorph rounded-full p-2"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-4">
+            <Label>{t("compare.ranking")}</Label>
+            {criteria.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {t("compare.noCriteria")}
+              </p>
+            ) : (
+              <ol className="space-y-3">
+                {ranking.map(({ index, score, rank }) => {
+                  const { scenario } = results[index];
+                  return (
+                    <li
+                      key={scenario.id}
+                      className="flex items-center justify-between rounded-xl bg-muted/50 px-4 py-3"
+                    >
+                      <span className="flex items-center gap-3 font-medium">
+                        <span className="text-lg font-bold text-financial-500">
+                          {rank}
+                        </span>
+                        <span
+                          className="h-3 w-3 rounded-full"
+                          style={{ backgroundColor: scenario.color }}
+                        />
+                        {scenario.name}
+                        {rank === 1 && (
+                          <Trophy className="h-4 w-4 text-green-500" />
+                        )}
+                      </span>
+                      <span className="text-sm text-muted-foreground">
+                        {t("compare.score", { score: Math.round(score) })}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
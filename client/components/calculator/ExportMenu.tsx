@@ -0,0 +1,120 @@
+import { Download, FileDown, FileSpreadsheet, FileText } from "lucide-react";
+import type { ValueBasis } from "@shared/finance";
+import {
+  buildScheduleSheets,
+  EXPORT_CONTENT_TYPES,
+  exportFileName,
+  renderSheets,
+  type ExportFormat,
+} from "@shared/export";
+import {
+  renderReport,
+  REPORT_CONTENT_TYPE,
+  reportFileName,
+} from "@shared/report";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useLocale } from "@/hooks/use-locale";
+import { downloadFile } from "@/lib/download";
+import type { Scenario } from "@/lib/scenario";
+
+interface ExportMenuProps {
+  scenarios: Scenario[];
+  activeScenario: number;
+  valueBasis: ValueBasis;
+}
+
+const FORMATS = [
+  { format: "csv", label: "CSV", Icon: FileText },
+  { format: "xlsx", label: "Excel (.xlsx)", Icon: FileSpreadsheet },
+] as const;
+
+export function ExportMenu({
+  scenarios,
+  activeScenario,
+  valueBasis,
+}: ExportMenuProps) {
+  const { locale, t } = useLocale();
+  const active = scenarios.find((s) => s.id === activeScenario);
+
+  const download = (
+    selected: Scenario[],
+    label: string,
+    format: ExportFormat,
+  ) => {
+    const sheets = buildScheduleSheets(
+      selected.map(({ name, ...inputs }) => ({ name, inputs })),
+      { basis: valueBasis },
+    );
+    downloadFile(
+      renderSheets(sheets, format),
+      exportFileName(label, format),
+      EXPORT_CONTENT_TYPES[format],
+    );
+  };
+
+  const generateReport = () =>
+    downloadFile(
+      renderReport(scenarios, {
+        basis: valueBasis,
+        locale: { locale: locale.id, currency: locale.currency },
+      }),
+      reportFileName(scenarios.length === 1 ? scenarios[0].name : "plan"),
+      REPORT_CONTENT_TYPE,
+    );
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="neumorph rounded-xl">
+          <Download className="me-2 h-4 w-4" />
+          {t("export.button")}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={generateReport}>
+          <FileDown className="me-2 h-4 w-4" />
+          {t("export.report")}
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>
+          {t("export.schedulesFor", { name: active?.name })}
+        </DropdownMenuLabel>
+        {FORMATS.map(({ format, label, Icon }) => (
+          <DropdownMenuItem
+            key={format}
+            disabled={!active}
+            onSelect={() => download([active], active.name, format)}
+          >
+            <Icon className="me-2 h-4 w-4" />
+            {label}
+          </DropdownMenuItem>
+        ))}
+        {scenarios.length > 1 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>
+              {t("export.all", { count: scenarios.length })}
+            </DropdownMenuLabel>
+            {FORMATS.map(({ format, label, Icon }) => (
+              <DropdownMenuItem
+                key={format}
+                onSelect={() => download(scenarios, "all scenarios", format)}
+              >
+                <Icon className="me-2 h-4 w-4" />
+                {label}
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
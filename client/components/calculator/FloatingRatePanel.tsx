@@ -0,0 +1,338 @@
+import { Plus, Trash2, TrendingUp } from "lucide-react";
+import type {
+  FloatingRatePlan,
+  RateChange,
+  RateResetMode,
+  RepoLinkedRate,
+  RepoRatePoint,
+} from "@shared/finance";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useLocale } from "@/hooks/use-locale";
+import type { MessageKey } from "@/lib/i18n";
+
+interface FloatingRatePanelProps {
+  plan: FloatingRatePlan | undefined;
+  /** Opening annual rate of the loan */
+  interestRate: number;
+  /** Loan tenure in years, used to bound the month inputs */
+  tenure: number;
+  onChange: (plan: FloatingRatePlan | undefined) => void;
+}
+
+const RESET_FREQUENCIES: { months: number; label: MessageKey }[] = [
+  { months: 3, label: "floating.quarterly" },
+  { months: 6, label: "floating.halfYearly" },
+  { months: 12, label: "floating.yearly" },
+];
+
+const DEFAULT_REPO_RATE = 6.5;
+
+const toNumber = (value: string) => Math.max(0, Number(value) || 0);
+
+export function FloatingRatePanel({
+  plan,
+  interestRate,
+  tenure,
+  onChange,
+}: FloatingRatePanelProps) {
+  const { t } = useLocale();
+  const totalMonths = Math.round(tenure * 12);
+  const clampMonth = (value: string) =>
+    Math.min(Math.max(2, toNumber(value)), totalMonths);
+
+  const enable = (enabled: boolean) =>
+    onChange(
+      enabled ? { mode: "keep-emi", source: "manual", changes: [] } : undefined,
+    );
+
+  const repoLinked: RepoLinkedRate = plan?.repoLinked ?? {
+    spread: Math.round((interestRate - DEFAULT_REPO_RATE) * 100) / 100,
+    resetFrequency: 3,
+    repoPath: [{ month: 1, repoRate: DEFAULT_REPO_RATE }],
+  };
+
+  const setChanges = (changes: RateChange[]) => onChange({ ...plan, changes });
+  const setRepoLinked = (updates: Partial<RepoLinkedRate>) =>
+    onChange({ ...plan, repoLinked: { ...repoLinked, ...updates } });
+  const setRepoPath = (repoPath: RepoRatePoint[]) =>
+    setRepoLinked({ repoPath });
+
+  return (
+    <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm mb-12">
+      <CardHeader className="pb-6">
+        <CardTitle className="text-2xl font-bold flex items-center justify-center gap-3">
+          <TrendingUp className="h-7 w-7 text-financial-500" />
+          {t("floating.title")}
+          <Switch
+            checked={!!plan}
+            onCheckedChange={enable}
+            aria-label={t("floating.toggle")}
+          />
+        </CardTitle>
+      </CardHeader>
+      {plan && (
+        <CardContent className="grid lg:grid-cols-3 gap-8">
+          <div className="space-y-3">
+            <Label>{t("floating.resetMode")}</Label>
+            <ToggleGroup
+              type="single"
+              value={plan.mode}
+              onValueChange={(mode: RateResetMode) =>
+                mode && onChange({ ...plan, mode })
+              }
+              className="justify-start"
+            >
+              <ToggleGroupItem
+                value="keep-emi"
+                variant="outline"
+                className="rounded-xl"
+              >
+                {t("floating.keepPayment")}
+              </ToggleGroupItem>
+              <ToggleGroupItem
+                value="keep-tenure"
+                variant="outline"
+                className="rounded-xl"
+              >
+                {t("floating.keepTenure")}
+              </ToggleGroupItem>
+            </ToggleGroup>
+            <p className="text-xs text-muted-foreground">
+              {plan.mode === "keep-emi"
+                ? t("floating.keepPaymentHelp")
+                : t("floating.keepTenureHelp")}
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <Label>{t("floating.source")}</Label>
+            <ToggleGroup
+              type="single"
+              value={plan.source}
+              onValueChange={(source: FloatingRatePlan["source"]) =>
+                source && onChange({ ...plan, source, repoLinked })
+              }
+              className="justify-start"
+            >
+              <ToggleGroupItem
+                value="manual"
+                variant="outline"
+                className="rounded-xl"
+              >
+                {t("floating.manual")}
+              </ToggleGroupItem>
+              <ToggleGroupItem
+                value="repo-linked"
+                variant="outline"
+                className="rounded-xl"
+              >
+                {t("floating.repoLinked")}
+              </ToggleGroupItem>
+            </ToggleGroup>
+            {plan.source === "repo-linked" && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="repo-spread" className="text-xs">
+                      {t("floating.spread")}
+                    </Label>
+                    <Input
+                      id="repo-spread"
+                      type="number"
+                      step={0.05}
+                      value={repoLinked.spread}
+                      onChange={(e) =>
+                        setRepoLinked({ spread: Number(e.target.value) || 0 })
+                      }
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-xs">{t("floating.reset")}</Label>
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      value={String(repoLinked.resetFrequency)}
+                      onValueChange={(months) =>
+                        months &&
+                        setRepoLinked({ resetFrequency: Number(months) })
+                      }
+                      className="justify-start flex-wrap"
+                    >
+                      {RESET_FREQUENCIES.map(({ months, label }) => (
+                        <ToggleGroupItem
+                          key={months}
+                          value={String(months)}
+                          variant="outline"
+                          className="rounded-xl text-xs"
+                        >
+                          {t(label)}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {t("floating.repoHelp")}
+                </p>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            {plan.source === "manual" ? (
+              <>
+                <Label>{t("floating.changes")}</Label>
+                {plan.changes.map((change, index) => (
+                  <div
+                    key={index}
+                    className="grid grid-cols-[1fr_1fr_auto] gap-3"
+                  >
+                    <Input
+                      type="number"
+                      min={2}
+                      max={totalMonths}
+                      aria-label={t("floating.month")}
+                      value={change.month}
+                      onChange={(e) =>
+                        setChanges(
+                          plan.changes.map((c, i) =>
+                            i === index
+                              ? { ...c, month: clampMonth(e.target.value) }
+                              : c,
+                          ),
+                        )
+                      }
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.05}
+                      aria-label={t("floating.rate")}
+                      value={change.rate}
+                      onChange={(e) =>
+                        setChanges(
+                          plan.changes.map((c, i) =>
+                            i === index
+                              ? { ...c, rate: toNumber(e.target.value) }
+                              : c,
+                          ),
+                        )
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        setChanges(plan.changes.filter((_, i) => i !== index))
+                      }
+                      aria-label={t("floating.removeChange")}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  className="neumorph rounded-xl"
+                  onClick={() =>
+                    setChanges([
+                      ...plan.changes,
+                      { month: Math.min(13, totalMonths), rate: interestRate },
+                    ])
+                  }
+                >
+                  <Plus className="me-2 h-4 w-4" />
+                  {t("floating.addChange")}
+                </Button>
+              </>
+            ) : (
+              <>
+                <Label>{t("floating.repoPath")}</Label>
+                {repoLinked.repoPath.map((point, index) => (
+                  <div
+                    key={index}
+                    className="grid grid-cols-[1fr_1fr_auto] gap-3"
+                  >
+                    <Input
+                      type="number"
+                      min={1}
+                      max={totalMonths}
+                      aria-label={t("floating.month")}
+                      value={point.month}
+                      onChange={(e) =>
+                        setRepoPath(
+                          repoLinked.repoPath.map((p, i) =>
+                            i === index
+                              ? {
+                                  ...p,
+                                  month: Math.min(
+                                    Math.max(1, toNumber(e.target.value)),
+                                    totalMonths,
+                                  ),
+                                }
+                              : p,
+                          ),
+                        )
+                      }
+                    />
+                    <Input
+                      type="number"
+                      min={0}
+                      step={0.25}
+                      aria-label={t("floating.repoRate")}
+                      value={point.repoRate}
+                      onChange={(e) =>
+                        setRepoPath(
+                          repoLinked.repoPath.map((p, i) =>
+                            i === index
+                              ? { ...p, repoRate: toNumber(e.target.value) }
+                              : p,
+                          ),
+                        )
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        setRepoPath(
+                          repoLinked.repoPath.filter((_, i) => i !== index),
+                        )
+                      }
+                      aria-label={t("floating.removeRepo")}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  className="neumorph rounded-xl"
+                  onClick={() => {
+                    const last =
+                      repoLinked.repoPath[repoLinked.repoPath.length - 1];
+                    setRepoPath([
+                      ...repoLinked.repoPath,
+                      {
+                        month: Math.min((last?.month ?? 0) + 12, totalMonths),
+                        repoRate: last?.repoRate ?? DEFAULT_REPO_RATE,
+                      },
+                    ]);
+                  }}
+                >
+                  <Plus className="me-2 h-4 w-4" />
+                  {t("floating.addRepo")}
+                </Button>
+              </>
+            )}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,277 @@
+import { useEffect, useState } from "react";
+import { Crosshair } from "lucide-react";
+import {
+  calculateResults,
+  solveGoal,
+  type GoalMetric,
+  type ScenarioInputs,
+  type SIPTaxBasis,
+  type SolverGoal,
+  type SolverResult,
+  type SolverVariable,
+  type ValueBasis,
+} from "@shared/finance";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useLocale } from "@/hooks/use-locale";
+import { currencySymbol, formatCurrency, formatYears } from "@/lib/format";
+import type { MessageKey } from "@/lib/i18n";
+
+interface GoalSolverPanelProps {
+  inputs: ScenarioInputs;
+  scenarioName: string;
+  basis: ValueBasis;
+  sipBasis: SIPTaxBasis;
+  /** Load the solved inputs into the scenario being edited */
+  onApply: (inputs: ScenarioInputs) => void;
+  /** Load the solved inputs into a new scenario; omitted when none can be added */
+  onApplyAsNew?: (inputs: ScenarioInputs) => void;
+}
+
+type Metric = GoalMetric | "corpusAtYear";
+
+const LOAN_VARIABLES: SolverVariable[] = [
+  "loanAmount",
+  "tenure",
+  "interestRate",
+];
+const SIP_VARIABLES: SolverVariable[] = ["sipAmount", "sipTenure"];
+
+const METRICS: Record<
+  Metric,
+  { label: MessageKey; variables: SolverVariable[] }
+> = {
+  netPosition: {
+    label: "solver.netPosition",
+    variables: [...SIP_VARIABLES, ...LOAN_VARIABLES],
+  },
+  sipMaturityValue: {
+    label: "solver.maturity",
+    variables: SIP_VARIABLES,
+  },
+  corpusAtYear: {
+    label: "solver.corpus",
+    variables: SIP_VARIABLES,
+  },
+  emi: { label: "solver.payment", variables: LOAN_VARIABLES },
+  totalInterest: { label: "solver.totalInterest", variables: LOAN_VARIABLES },
+};
+
+const VARIABLES: Record<
+  SolverVariable,
+  { label: MessageKey; format: (value: number) => string }
+> = {
+  sipAmount: { label: "solver.sipAmount", format: formatCurrency },
+  sipTenure: {
+    label: "solver.sipTenure",
+    format: (value) => formatYears(Number(value.toFixed(2))),
+  },
+  loanAmount: { label: "solver.loanAmount", format: formatCurrency },
+  tenure: {
+    label: "solver.tenure",
+    format: (value) => formatYears(Number(value.toFixed(2))),
+  },
+  interestRate: {
+    label: "solver.interestRate",
+    format: (value) => `${value.toFixed(2)}%`,
+  },
+};
+
+export function GoalSolverPanel({
+  inputs,
+  scenarioName,
+  basis,
+  sipBasis,
+  onApply,
+  onApplyAsNew,
+}: GoalSolverPanelProps) {
+  const { t } = useLocale();
+  const [metric, setMetric] = useState<Metric>("corpusAtYear");
+  const [variable, setVariable] = useState<SolverVariable>("sipAmount");
+  const [target, setTarget] = useState(1000000);
+  const [year, setYear] = useState(15);
+  const [result, setResult] = useState<SolverResult | null>(null);
+
+  // An answer is only good for the inputs it was solved from
+  useEffect(() => setResult(null), [inputs, basis, sipBasis]);
+
+  const variables = METRICS[metric].variables;
+  const goal: SolverGoal =
+    metric === "corpusAtYear" ? { metric, year, target } : { metric, target };
+
+  const changeMetric = (next: Metric) => {
+    setMetric(next);
+    if (!METRICS[next].variables.includes(variable)) {
+      setVariable(METRICS[next].variables[0]);
+    }
+    setResult(null);
+  };
+
+  const solve = () =>
+    setResult(solveGoal(inputs, goal, variable, { basis, sipBasis }));
+
+  return (
+    <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm mb-12">
+      <CardHeader className="pb-6">
+        <CardTitle className="text-2xl font-bold flex items-center justify-center gap-3">
+          <Crosshair className="h-7 w-7 text-financial-500" />
+          {t("solver.title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="grid lg:grid-cols-3 gap-8">
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t("solver.goal")}</Label>
+            <Select
+              value={metric}
+              onValueChange={(value: Metric) => changeMetric(value)}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(METRICS).map(([key, { label }]) => (
+                  <SelectItem key={key} value={key}>
+                    {t(label)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {metric === "corpusAtYear" && (
+            <div className="space-y-1">
+              <Label htmlFor="solver-year" className="text-xs">
+                {t("solver.year")}
+              </Label>
+              <Input
+                id="solver-year"
+                type="number"
+                min={1}
+                max={50}
+                value={year}
+                onChange={(e) => {
+                  setYear(
+                    Math.min(50, Math.max(1, Number(e.target.value) || 1)),
+                  );
+                  setResult(null);
+                }}
+              />
+            </div>
+          )}
+          <div className="space-y-1">
+            <Label htmlFor="solver-target" className="text-xs">
+              {t("solver.target", { currency: currencySymbol() })}
+            </Label>
+            <Input
+              id="solver-target"
+              type="number"
+              step={1000}
+              value={target}
+              onChange={(e) => {
+                setTarget(Number(e.target.value) || 0);
+                setResult(null);
+              }}
+            />
+            {(metric === "sipMaturityValue" || metric === "corpusAtYear") && (
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0 text-xs"
+                onClick={() => {
+                  setTarget(calculateResults(inputs, basis).totalInterest);
+                  setResult(null);
+                }}
+              >
+                {t("solver.useInterest")}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t("solver.variable")}</Label>
+            <Select
+              value={variable}
+              onValueChange={(value: SolverVariable) => {
+                setVariable(value);
+                setResult(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {variables.map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {t(VARIABLES[key].label)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {t("solver.keepRest", { name: scenarioName })}
+            </p>
+          </div>
+          <Button onClick={solve} className="w-full rounded-xl">
+            {t("solver.solve")}
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <Label>{t("solver.answer")}</Label>
+          {result ? (
+            <>
+              <p className="text-2xl font-bold text-financial-500">
+                {t(VARIABLES[variable].label)}:{" "}
+                {VARIABLES[variable].format(result.value)}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {t(
+                  result.status === "solved"
+                    ? "solver.solved"
+                    : "solver.unreachable",
+                  {
+                    metric: t(METRICS[metric].label),
+                    amount: formatCurrency(result.achieved),
+                  },
+                )}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="rounded-xl"
+                  onClick={() => onApply(result.inputs)}
+                >
+                  {t("solver.apply", { name: scenarioName })}
+                </Button>
+                {onApplyAsNew && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="rounded-xl"
+                    onClick={() => onApplyAsNew(result.inputs)}
+                  >
+                    {t("solver.applyAsNew")}
+                  </Button>
+                )}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">{t("solver.empty")}</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,137 @@
+import { useEffect } from "react";
+import { History as HistoryIcon, Redo2, Undo2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { useLocale } from "@/hooks/use-locale";
+import type { History } from "@/lib/history";
+import { getLocale } from "@/lib/locale";
+import { cn } from "@/lib/utils";
+
+interface HistoryPanelProps {
+  history: History<unknown>;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+}
+
+const formatTime = (at: number) =>
+  new Date(at).toLocaleTimeString(getLocale().id, { timeStyle: "short" });
+
+/** Text fields keep the browser's own undo for what's being typed */
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/**
+ * Undo/redo buttons with their keyboard shortcuts, and a sheet listing every
+ * recorded change, newest first, to jump back (or forward) to.
+ */
+export function HistoryPanel({
+  history,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onJump,
+}: HistoryPanelProps) {
+  const { t } = useLocale();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextField(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        onUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        onRedo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onUndo, onRedo]);
+
+  const entries = history.entries
+    .map((entry, index) => ({ ...entry, index }))
+    .reverse();
+
+  return (
+    <div className="flex gap-2">
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={onUndo}
+        disabled={!canUndo}
+        className="neumorph rounded-xl"
+        aria-label={t("history.undo")}
+        title={t("history.undo")}
+      >
+        <Undo2 className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={onRedo}
+        disabled={!canRedo}
+        className="neumorph rounded-xl"
+        aria-label={t("history.redo")}
+        title={t("history.redo")}
+      >
+        <Redo2 className="h-4 w-4" />
+      </Button>
+
+      <Sheet>
+        <SheetTrigger asChild>
+          <Button variant="outline" className="neumorph rounded-xl">
+            <HistoryIcon className="me-2 h-4 w-4" />
+            {t("history.title")}
+          </Button>
+        </SheetTrigger>
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>{t("history.title")}</SheetTitle>
+            <SheetDescription>{t("history.description")}</SheetDescription>
+          </SheetHeader>
+          <p className="mt-2 text-xs text-muted-foreground">
+            {t("history.shortcuts")}
+          </p>
+
+          <ol className="mt-6 space-y-2">
+            {entries.map(({ index, label, at }) => (
+              <li key={index}>
+                <button
+                  type="button"
+                  onClick={() => onJump(index)}
+                  aria-current={index === history.index ? "step" : undefined}
+                  className={cn(
+                    "flex w-full items-center justify-between gap-3 rounded-xl border px-3 py-2 text-start text-sm transition-colors hover:bg-muted/50",
+                    index === history.index && "border-financial-500 bg-muted",
+                    index > history.index && "text-muted-foreground",
+                  )}
+                >
+                  <span>{label}</span>
+                  <span className="shrink-0 text-xs text-muted-foreground">
+                    {index === history.index
+                      ? t("history.current")
+                      : formatTime(at)}
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
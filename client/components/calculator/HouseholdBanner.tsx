@@ -0,0 +1,68 @@
+import { Link } from "react-router-dom";
+import { Home, Wand2 } from "lucide-react";
+import type { Household } from "@shared/api";
+import { householdTotals, RISK_RETURN_RATES } from "@shared/household";
+import { RISK_LABELS } from "@/components/households/HouseholdForm";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { useLocale } from "@/hooks/use-locale";
+import { formatCurrency, formatRate } from "@/lib/format";
+
+interface HouseholdBannerProps {
+  household: Household;
+  /** Put the household's income and EMIs into the active scenario */
+  onApply: () => void;
+}
+
+/**
+ * Shown above the calculator while planning for a household, with the
+ * figures new scenarios start from.
+ */
+export function HouseholdBanner({ household, onApply }: HouseholdBannerProps) {
+  const { t } = useLocale();
+  const { monthlyIncome, existingEmis } = householdTotals(household);
+
+  return (
+    <Card className="neumorph-outset mb-8 rounded-3xl border-0 bg-card/50 backdrop-blur-sm">
+      <CardContent className="flex flex-wrap items-center gap-x-6 gap-y-3 py-4">
+        <Link
+          to={`/households/${household.id}`}
+          className="flex items-center gap-2 font-semibold hover:underline"
+        >
+          <Home className="h-4 w-4" />
+          {household.name}
+        </Link>
+        <span className="text-sm text-muted-foreground">
+          {t("household.income")}{" "}
+          <span className="font-medium text-foreground tabular-nums">
+            {formatCurrency(monthlyIncome)}
+          </span>
+          {t("household.perMonth")}
+        </span>
+        <span className="text-sm text-muted-foreground">
+          {t("household.existing")}{" "}
+          <span className="font-medium text-foreground tabular-nums">
+            {formatCurrency(existingEmis)}
+          </span>
+          {t("household.perMonth")}
+        </span>
+        <Badge variant="secondary">
+          {t("household.riskReturn", {
+            risk: t(RISK_LABELS[household.riskProfile]),
+            rate: formatRate(RISK_RETURN_RATES[household.riskProfile]),
+          })}
+        </Badge>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={onApply}
+          className="neumorph ms-auto rounded-xl"
+        >
+          <Wand2 className="me-2 h-4 w-4" />
+          {t("household.apply")}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
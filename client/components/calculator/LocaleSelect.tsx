@@ -0,0 +1,36 @@
+import { Globe } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useLocale } from "@/hooks/use-locale";
+import { LOCALES, type LocaleId } from "@/lib/locale";
+
+interface LocaleSelectProps {
+  onChange: (locale: LocaleId) => void;
+}
+
+export function LocaleSelect({ onChange }: LocaleSelectProps) {
+  const { locale, t } = useLocale();
+  return (
+    <Select value={locale.id} onValueChange={onChange} dir={locale.direction}>
+      <SelectTrigger
+        className="neumorph rounded-xl w-auto gap-2"
+        aria-label={t("locale.label")}
+      >
+        <Globe className="h-4 w-4" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {Object.values(LOCALES).map(({ id, label }) => (
+          <SelectItem key={id} value={id}>
+            {label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
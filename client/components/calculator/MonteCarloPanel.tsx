@@ -0,0 +1,182 @@
+import { Dices, Loader2 } from "lucide-react";
+import type { MonteCarloResult } from "@shared/finance";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useLocale } from "@/hooks/use-locale";
+import { formatCurrency } from "@/lib/format";
+import {
+  DEFAULT_SIMULATION,
+  HISTORICAL_SERIES,
+  type SimulationSettings,
+} from "@/lib/simulation";
+
+interface MonteCarloPanelProps {
+  settings: SimulationSettings | null;
+  onChange: (settings: SimulationSettings | null) => void;
+  result: MonteCarloResult | null;
+  running: boolean;
+  /** Total loan outflow the corpus is measured against */
+  target: number;
+}
+
+const PATH_COUNTS = [1000, 5000, 10000];
+
+const historyYears = `${HISTORICAL_SERIES.startYear}–${
+  HISTORICAL_SERIES.startYear + HISTORICAL_SERIES.returns.length - 1
+}`;
+
+export function MonteCarloPanel({
+  settings,
+  onChange,
+  result,
+  running,
+  target,
+}: MonteCarloPanelProps) {
+  const { locale, t } = useLocale();
+  const update = (updates: Partial<SimulationSettings>) =>
+    onChange({ ...settings, ...updates });
+
+  return (
+    <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm mb-12">
+      <CardHeader className="pb-6">
+        <CardTitle className="text-2xl font-bold flex items-center justify-center gap-3">
+          <Dices className="h-7 w-7 text-green-500" />
+          {t("simulation.title")}
+          <Switch
+            checked={!!settings}
+            onCheckedChange={(enabled) =>
+              onChange(enabled ? DEFAULT_SIMULATION : null)
+            }
+            aria-label={t("simulation.toggle")}
+          />
+        </CardTitle>
+      </CardHeader>
+      {settings && (
+        <CardContent className="grid lg:grid-cols-2 gap-8">
+          <div className="space-y-5">
+            <div className="space-y-3">
+              <Label>{t("simulation.returns")}</Label>
+              <ToggleGroup
+                type="single"
+                value={settings.model}
+                onValueChange={(model: SimulationSettings["model"]) =>
+                  model && update({ model })
+                }
+                className="justify-start"
+              >
+                <ToggleGroupItem
+                  value="volatility"
+                  variant="outline"
+                  className="rounded-xl"
+                >
+                  {t("simulation.volatilityModel")}
+                </ToggleGroupItem>
+                <ToggleGroupItem
+                  value="historical"
+                  variant="outline"
+                  className="rounded-xl"
+                >
+                  {t("simulation.historical")}
+                </ToggleGroupItem>
+              </ToggleGroup>
+              <p className="text-xs text-muted-foreground">
+                {settings.model === "volatility"
+                  ? t("simulation.volatilityHelp")
+                  : t("simulation.historicalHelp", {
+                      series: HISTORICAL_SERIES.name,
+                      years: historyYears,
+                    })}
+              </p>
+            </div>
+            {settings.model === "volatility" && (
+              <div className="space-y-3">
+                <div className="flex justify-between">
+                  <Label>{t("simulation.volatility")}</Label>
+                  <span className="text-sm font-semibold text-green-600">
+                    {settings.volatility}%
+                  </span>
+                </div>
+                <Slider
+                  value={[settings.volatility]}
+                  onValueChange={([volatility]) => update({ volatility })}
+                  min={5}
+                  max={35}
+                  step={1}
+                  className="neumorph rounded-full p-2"
+                />
+              </div>
+            )}
+            <div className="space-y-3">
+              <Label>{t("simulation.paths")}</Label>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={String(settings.paths)}
+                onValueChange={(paths) =>
+                  paths && update({ paths: Number(paths) })
+                }
+                className="justify-start"
+              >
+                {PATH_COUNTS.map((count) => (
+                  <ToggleGroupItem
+                    key={count}
+                    value={String(count)}
+                    variant="outline"
+                    className="rounded-xl text-xs"
+                  >
+                    {count.toLocaleString(locale.id)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Label>{t("simulation.outcome")}</Label>
+              {running && (
+                <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+              )}
+            </div>
+            {result ? (
+              <>
+                <div>
+                  <p className="text-3xl font-bold text-green-500">
+                    {Math.round(result.probabilityAboveTarget * 100)}%
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {t("simulation.odds", { amount: formatCurrency(target) })}
+                  </p>
+                </div>
+                <div className="grid grid-cols-3 gap-4 text-sm">
+                  {(
+                    [
+                      [t("simulation.p10"), result.maturity.p10],
+                      [t("simulation.p50"), result.maturity.p50],
+                      [t("simulation.p90"), result.maturity.p90],
+                    ] as const
+                  ).map(([label, value]) => (
+                    <div key={label}>
+                      <p className="text-xs text-muted-foreground">{label}</p>
+                      <p className="font-semibold">{formatCurrency(value)}</p>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {t("simulation.bands")}
+                </p>
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {t("simulation.running")}
+              </p>
+            )}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
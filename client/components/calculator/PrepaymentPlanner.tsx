@@ -0,0 +1,202 @@
+import { CalendarClock, Plus, Trash2 } from "lucide-react";
+import type {
+  AnnualPrepayment,
+  LumpSumPrepayment,
+  PrepaymentPlan,
+  PrepaymentStrategy,
+} from "@shared/finance";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useLocale } from "@/hooks/use-locale";
+
+interface PrepaymentPlannerProps {
+  plan: PrepaymentPlan | undefined;
+  /** Loan tenure in years, used to bound the month inputs */
+  tenure: number;
+  onChange: (plan: PrepaymentPlan) => void;
+}
+
+const EMPTY_PLAN: PrepaymentPlan = { strategy: "reduce-tenure", events: [] };
+
+const toNumber = (value: string) => Math.max(0, Number(value) || 0);
+
+export function PrepaymentPlanner({
+  plan = EMPTY_PLAN,
+  tenure,
+  onChange,
+}: PrepaymentPlannerProps) {
+  const { t } = useLocale();
+  const totalMonths = Math.round(tenure * 12);
+  const annual = plan.events.find(
+    (event): event is AnnualPrepayment => event.kind === "annual",
+  );
+  const lumpSums = plan.events.filter(
+    (event): event is LumpSumPrepayment => event.kind === "lump-sum",
+  );
+
+  const setEvents = (
+    annualEvent: AnnualPrepayment | undefined,
+    lumps: LumpSumPrepayment[],
+  ) =>
+    onChange({
+      ...plan,
+      events: annualEvent ? [annualEvent, ...lumps] : lumps,
+    });
+
+  const updateAnnual = (updates: Partial<AnnualPrepayment>) =>
+    setEvents(
+      { kind: "annual", startMonth: 12, amount: 0, ...annual, ...updates },
+      lumpSums,
+    );
+
+  const updateLumpSum = (index: number, updates: Partial<LumpSumPrepayment>) =>
+    setEvents(
+      annual,
+      lumpSums.map((event, i) =>
+        i === index ? { ...event, ...updates } : event,
+      ),
+    );
+
+  return (
+    <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm mb-12">
+      <CardHeader className="text-center pb-6">
+        <CardTitle className="text-2xl font-bold flex items-center justify-center gap-3">
+          <CalendarClock className="h-7 w-7 text-financial-500" />
+          {t("prepay.title")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="grid lg:grid-cols-3 gap-8">
+        <div className="space-y-3">
+          <Label>{t("prepay.strategy")}</Label>
+          <ToggleGroup
+            type="single"
+            value={plan.strategy}
+            onValueChange={(strategy: PrepaymentStrategy) =>
+              strategy && onChange({ ...plan, strategy })
+            }
+            className="justify-start"
+          >
+            <ToggleGroupItem
+              value="reduce-tenure"
+              variant="outline"
+              className="rounded-xl"
+            >
+              {t("prepay.reduceTenure")}
+            </ToggleGroupItem>
+            <ToggleGroupItem
+              value="reduce-emi"
+              variant="outline"
+              className="rounded-xl"
+            >
+              {t("prepay.reducePayment")}
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <p className="text-xs text-muted-foreground">
+            {plan.strategy === "reduce-emi"
+              ? t("prepay.reducePaymentHelp")
+              : t("prepay.reduceTenureHelp")}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <Label htmlFor="annual-prepayment">{t("prepay.annual")}</Label>
+          <div className="grid grid-cols-2 gap-3">
+            <Input
+              id="annual-prepayment"
+              type="number"
+              min={0}
+              step={10000}
+              placeholder={t("prepay.amount")}
+              value={annual?.amount || ""}
+              onChange={(e) =>
+                updateAnnual({ amount: toNumber(e.target.value) })
+              }
+            />
+            <Input
+              type="number"
+              min={1}
+              max={tenure}
+              aria-label={t("prepay.startYear")}
+              placeholder={t("prepay.fromYear")}
+              value={annual ? Math.ceil(annual.startMonth / 12) : ""}
+              onChange={(e) =>
+                updateAnnual({
+                  startMonth:
+                    Math.min(Math.max(1, toNumber(e.target.value)), tenure) *
+                    12,
+                })
+              }
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t("prepay.annualHelp")}
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <Label>{t("prepay.lumpSums")}</Label>
+          {lumpSums.map((event, index) => (
+            <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-3">
+              <Input
+                type="number"
+                min={1}
+                max={totalMonths}
+                aria-label={t("prepay.month")}
+                placeholder={t("prepay.month")}
+                value={event.month}
+                onChange={(e) =>
+                  updateLumpSum(index, {
+                    month: Math.min(
+                      Math.max(1, toNumber(e.target.value)),
+                      totalMonths,
+                    ),
+                  })
+                }
+              />
+              <Input
+                type="number"
+                min={0}
+                step={10000}
+                aria-label={t("prepay.amount")}
+                placeholder={t("prepay.amount")}
+                value={event.amount || ""}
+                onChange={(e) =>
+                  updateLumpSum(index, { amount: toNumber(e.target.value) })
+                }
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() =>
+                  setEvents(
+                    annual,
+                    lumpSums.filter((_, i) => i !== index),
+                  )
+                }
+                aria-label={t("prepay.removeLumpSum")}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            className="neumorph rounded-xl"
+            onClick={() =>
+              setEvents(annual, [
+                ...lumpSums,
+                { kind: "lump-sum", month: 12, amount: 0 },
+              ])
+            }
+          >
+            <Plus className="me-2 h-4 w-4" />
+            {t("prepay.addLumpSum")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,115 @@
+import { useMemo } from "react";
+import {
+  Area,
+  Bar,
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ResponsiveContainer,
+  Tooltip as RechartsTooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { TrendingUp } from "lucide-react";
+import type { MonteCarloYear } from "@shared/finance";
+import { seriesKey, type ChartPoint } from "@shared/chart-data";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useLocale } from "@/hooks/use-locale";
+import { formatCurrency, formatShorthand } from "@/lib/format";
+import type { Scenario } from "@/lib/scenario";
+
+/** Years shown on the chart */
+const YEARS = 10;
+
+interface SIPGrowthChartProps {
+  data: ChartPoint[];
+  scenarios: Scenario[];
+  /** Simulated percentile bands for one scenario, if a simulation is running */
+  simulation?: { scenario: Scenario; years: MonteCarloYear[] } | null;
+}
+
+export function SIPGrowthChart({
+  data,
+  scenarios,
+  simulation,
+}: SIPGrowthChartProps) {
+  const { t } = useLocale();
+  const rows = useMemo(() => {
+    const shown = data.slice(0, YEARS);
+    if (!simulation) return shown;
+    return shown.map((point) => {
+      const band = simulation.years[point.year - 1];
+      return band
+        ? { ...point, band: [band.p10, band.p90], median: band.p50 }
+        : point;
+    });
+  }, [data, simulation]);
+
+  return (
+    <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          <TrendingUp className="h-6 w-6 text-financial-500" />
+          {t("charts.growthTitle")}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="h-96">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={rows}>
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis dataKey="year" />
+              <YAxis tickFormatter={formatShorthand} />
+              <RechartsTooltip
+                formatter={(value: number | number[]) =>
+                  Array.isArray(value)
+                    ? value.map(formatCurrency).join(" – ")
+                    : formatCurrency(value)
+                }
+                labelFormatter={(year) => t("table.year", { year })}
+                contentStyle={{
+                  backgroundColor: "hsl(var(--card))",
+                  border: "none",
+                  borderRadius: "12px",
+                  boxShadow: "0 8px 32px rgba(0,0,0,0.1)",
+                }}
+              />
+              <Legend />
+              {scenarios.map((scenario) => (
+                <Bar
+                  key={seriesKey("sip", scenario.id)}
+                  dataKey={seriesKey("sip", scenario.id)}
+                  fill={scenario.color}
+                  name={t("charts.investmentValue", { name: scenario.name })}
+                  radius={[4, 4, 0, 0]}
+                />
+              ))}
+              {simulation && (
+                <Area
+                  dataKey="band"
+                  name={t("charts.band", { name: simulation.scenario.name })}
+                  stroke="none"
+                  fill={simulation.scenario.color}
+                  fillOpacity={0.2}
+                  isAnimationActive={false}
+                />
+              )}
+              {simulation && (
+                <Line
+                  dataKey="median"
+                  name={t("charts.median", { name: simulation.scenario.name })}
+                  stroke={simulation.scenario.color}
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              )}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+import { useMemo } from "react";
+import {
+  groupSIPGrowthByYear,
+  type SIPGrowthEntry,
+  type SIPGrowthYear,
+} from "@shared/finance";
+import { useLocale } from "@/hooks/use-locale";
+import { formatCurrency } from "@/lib/format";
+import type { Translate } from "@/lib/i18n";
+import { ScheduleTable, type ScheduleColumn } from "./ScheduleTable";
+
+const columns = (
+  t: Translate,
+): ScheduleColumn<SIPGrowthEntry, SIPGrowthYear>[] => [
+  {
+    header: t("table.month"),
+    month: (e) => e.month,
+    year: (e) => t("table.year", { year: e.year }),
+  },
+  {
+    header: t("table.contribution"),
+    month: (e) => formatCurrency(e.contribution),
+    year: (e) => formatCurrency(e.contribution),
+  },
+  {
+    header: t("table.invested"),
+    month: (e) => formatCurrency(e.investment),
+    year: (e) => formatCurrency(e.investment),
+  },
+  {
+    header: t("table.returns"),
+    month: (e) => formatCurrency(e.returns),
+    year: (e) => formatCurrency(e.returns),
+    className: "text-green-600",
+  },
+  {
+    header: t("table.total"),
+    month: (e) => formatCurrency(e.balance),
+    year: (e) => formatCurrency(e.balance),
+    className: "font-medium",
+  },
+];
+
+export function SIPGrowthTable({ schedule }: { schedule: SIPGrowthEntry[] }) {
+  const { t } = useLocale();
+  const yearly = useMemo(() => groupSIPGrowthByYear(schedule), [schedule]);
+  const tableColumns = useMemo(() => columns(t), [t]);
+  return (
+    <ScheduleTable
+      label={t("schedule.growth")}
+      monthly={schedule}
+      yearly={yearly}
+      columns={tableColumns}
+    />
+  );
+}
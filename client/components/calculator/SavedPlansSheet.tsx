@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Copy,
+  FolderOpen,
+  LogOut,
+  RefreshCw,
+  Save,
+  Trash2,
+  Users,
+} from "lucide-react";
+import type { Household, Plan } from "@shared/api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { useAuth } from "@/hooks/use-auth";
+import { useLocale } from "@/hooks/use-locale";
+import { useSavedPlans } from "@/hooks/use-saved-plans";
+import type { Scenario } from "@/lib/scenario";
+import { getLocale } from "@/lib/locale";
+
+interface SavedPlansSheetProps {
+  scenarios: Scenario[];
+  onLoad: (plan: Plan) => void;
+  /** The household being planned for; new plans are saved to it */
+  household?: Household;
+}
+
+const formatSavedAt = (iso: string) =>
+  new Date(iso).toLocaleString(getLocale().id, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+
+/**
+ * The plan name, saved when the field loses focus rather than on every
+ * keystroke, so each rename is a single versioned update
+ */
+function PlanName({
+  plan,
+  onRename,
+}: {
+  plan: Plan;
+  onRename: (name: string) => void;
+}) {
+  const { t } = useLocale();
+  const [draft, setDraft] = useState(plan.name);
+  const [seen, setSeen] = useState(plan.name);
+  if (plan.name !== seen) {
+    setSeen(plan.name);
+    setDraft(plan.name);
+  }
+
+  const commit = () => {
+    const name = draft.trim();
+    if (!name) setDraft(plan.name);
+    else if (name !== plan.name) onRename(name);
+  };
+
+  return (
+    <Input
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") e.currentTarget.blur();
+      }}
+      maxLength={100}
+      aria-label={t("plans.rename")}
+      className="h-8 font-medium"
+    />
+  );
+}
+
+export function SavedPlansSheet({
+  scenarios,
+  onLoad,
+  household,
+}: SavedPlansSheetProps) {
+  const {
+    plans,
+    isLoading,
+    isError,
+    isSaving,
+    savePlan,
+    renamePlan,
+    overwritePlan,
+    duplicatePlan,
+    deletePlan,
+  } = useSavedPlans();
+  const { user, logout } = useAuth();
+  const { t } = useLocale();
+  const [name, setName] = useState("");
+
+  const handleSave = () => {
+    savePlan(
+      name.trim() || t("plans.defaultName", { n: plans.length + 1 }),
+      scenarios,
+      household?.id,
+    );
+    setName("");
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="outline" className="neumorph rounded-xl">
+          <FolderOpen className="me-2 h-4 w-4" />
+          {t("plans.title")}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>{t("plans.title")}</SheetTitle>
+          <SheetDescription>{t("plans.description")}</SheetDescription>
+        </SheetHeader>
+
+        {!user ? (
+          <div className="my-6 space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {t("plans.signedOut")}
+            </p>
+            <div className="flex gap-2">
+              <Button asChild>
+                <Link to="/login">{t("plans.login")}</Link>
+              </Button>
+              <Button asChild variant="outline">
+                <Link to="/signup">{t("plans.signup")}</Link>
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="mt-4 flex items-center justify-between gap-2 text-sm text-muted-foreground">
+              <span className="truncate">
+                {t("plans.signedIn", { email: user.email })}
+              </span>
+              <Button asChild size="sm" variant="ghost">
+                <Link to="/households">
+                  <Users className="me-2 h-4 w-4" />
+                  {t("plans.households")}
+                </Link>
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => logout.mutate()}
+                disabled={logout.isPending}
+              >
+                <LogOut className="me-2 h-4 w-4" />
+                {t("plans.logout")}
+              </Button>
+            </div>
+
+            <form
+              className="flex gap-2 my-6"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleSave();
+              }}
+            >
+              <Input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t("plans.namePlaceholder")}
+                aria-label={t("plans.name")}
+                maxLength={100}
+              />
+              <Button type="submit" disabled={isSaving || isError}>
+                <Save className="me-2 h-4 w-4" />
+                {t("plans.save")}
+              </Button>
+            </form>
+            {household && (
+              <p className="-mt-4 mb-6 text-xs text-muted-foreground">
+                {t("plans.savingTo", { name: household.name })}
+              </p>
+            )}
+
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">
+                {t("plans.loading")}
+              </p>
+            ) : isError ? (
+              <p className="text-sm text-destructive">{t("plans.error")}</p>
+            ) : plans.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {t("plans.empty")}
+              </p>
+            ) : (
+              <ul className="space-y-3">
+                {plans.map((plan) => (
+                  <li key={plan.id} className="rounded-xl border p-3 space-y-2">
+                    <PlanName
+                      plan={plan}
+                      onRename={(name) => renamePlan(plan, name)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      {t("plans.summary", {
+                        count: plan.scenarios.length,
+                        date: formatSavedAt(plan.updatedAt),
+                      })}
+                    </p>
+                    <div className="flex gap-2">
+                      <Button size="sm" onClick={() => onLoad(plan)}>
+                        {t("plans.load")}
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => overwritePlan(plan, scenarios)}
+                        disabled={isSaving}
+                        aria-label={t("plans.overwrite", { name: plan.name })}
+                        title={t("plans.overwriteHint")}
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => duplicatePlan(plan)}
+                        disabled={isSaving}
+                        aria-label={t("plans.duplicate", { name: plan.name })}
+                      >
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => deletePlan(plan)}
+                        disabled={isSaving}
+                        aria-label={t("plans.delete", { name: plan.name })}
+                      >
+                        <Trash2 className="h-4 w-4 text-destructive" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import {
+  AlertTriangle,
+  ArrowLeft,
+  ArrowRight,
+  Check,
+  Copy,
+  GripVertical,
+  MoreHorizontal,
+  Trash2,
+} from "lucide-react";
+import { scenarioColor } from "@shared/palette";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { useLocale } from "@/hooks/use-locale";
+import type { Scenario } from "@/lib/scenario";
+import { cn } from "@/lib/utils";
+
+interface ScenarioTabsProps {
+  scenarios: Scenario[];
+  activeScenario: number;
+  onSelect: (id: number) => void;
+  onAdd: () => void;
+  onUpdate: (id: number, updates: Partial<Scenario>) => void;
+  onDuplicate: (id: number) => void;
+  /** Move the scenario at one position in the list to another */
+  onMove: (from: number, to: number) => void;
+  onRemove: (id: number) => void;
+  /** Whether to flag a scenario as over its eligibility limits */
+  isOverLimits: (scenario: Scenario) => boolean;
+}
+
+/** Swatches offered before the custom colour picker */
+const SWATCHES = Array.from({ length: 10 }, (_, index) => scenarioColor(index));
+
+/**
+ * The scenario switcher: one chip per scenario, which can be dragged to
+ * reorder, plus an options popover to rename, recolour, duplicate, move or
+ * remove it.
+ */
+export function ScenarioTabs({
+  scenarios,
+  activeScenario,
+  onSelect,
+  onAdd,
+  onUpdate,
+  onDuplicate,
+  onMove,
+  onRemove,
+  isOverLimits,
+}: ScenarioTabsProps) {
+  const { t } = useLocale();
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+
+  const endDrag = () => {
+    setDragging(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <>
+      {scenarios.map((scenario, index) => (
+        <div
+          key={scenario.id}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = "move";
+            e.dataTransfer.setData("text/plain", String(index));
+            setDragging(index);
+          }}
+          onDragOver={(e) => {
+            if (dragging === null) return;
+            e.preventDefault();
+            setDropTarget(index);
+          }}
+          onDragLeave={() =>
+            setDropTarget((target) => (target === index ? null : target))
+          }
+          onDrop={(e) => {
+            e.preventDefault();
+            if (dragging !== null) onMove(dragging, index);
+            endDrag();
+          }}
+          onDragEnd={endDrag}
+          className={cn(
+            "relative flex items-center gap-1 rounded-xl transition-opacity",
+            dragging === index && "opacity-50",
+            dropTarget === index &&
+              dragging !== index &&
+              "ring-2 ring-financial-500 ring-offset-2",
+          )}
+        >
+          <Button
+            variant={activeScenario === scenario.id ? "default" : "outline"}
+            onClick={() => onSelect(scenario.id)}
+            className="neumorph rounded-xl cursor-grab active:cursor-grabbing"
+            style={{ borderColor: scenario.color }}
+            title={t("scenario.dragHint")}
+          >
+            <GripVertical className="h-4 w-4 me-1 opacity-50" />
+            <div
+              className="w-3 h-3 rounded-full me-2"
+              style={{ backgroundColor: scenario.color }}
+            />
+            {scenario.name}
+            {isOverLimits(scenario) && (
+              <AlertTriangle
+                className="h-4 w-4 ms-2 text-destructive"
+                aria-label={t("scenario.overLimits")}
+              />
+            )}
+          </Button>
+
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 rounded-full"
+                aria-label={t("scenario.options", { name: scenario.name })}
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor={`scenario-name-${scenario.id}`}>
+                  {t("scenario.rename")}
+                </Label>
+                <Input
+                  id={`scenario-name-${scenario.id}`}
+                  value={scenario.name}
+                  maxLength={100}
+                  onChange={(e) =>
+                    onUpdate(scenario.id, { name: e.target.value })
+                  }
+                  onBlur={(e) => {
+                    if (!e.target.value.trim()) {
+                      onUpdate(scenario.id, {
+                        name: t("scenario.name", { n: scenario.id }),
+                      });
+                    }
+                  }}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>{t("scenario.colour")}</Label>
+                <div className="flex flex-wrap items-center gap-2">
+                  {SWATCHES.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      onClick={() => onUpdate(scenario.id, { color })}
+                      className="flex h-7 w-7 items-center justify-center rounded-full"
+                      style={{ backgroundColor: color }}
+                      aria-label={color}
+                      aria-pressed={
+                        scenario.color.toUpperCase() === color.toUpperCase()
+                      }
+                    >
+                      {scenario.color.toUpperCase() === color.toUpperCase() && (
+                        <Check className="h-4 w-4 text-white" />
+                      )}
+                    </button>
+                  ))}
+                  <input
+                    type="color"
+                    value={scenario.color}
+                    onChange={(e) =>
+                      onUpdate(scenario.id, { color: e.target.value })
+                    }
+                    className="h-7 w-10 cursor-pointer rounded border-0 bg-transparent"
+                    aria-label={t("scenario.customColour")}
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={index === 0}
+                  onClick={() => onMove(index, index - 1)}
+                >
+                  <ArrowLeft className="me-2 h-4 w-4 rtl:rotate-180" />
+                  {t("scenario.moveEarlier")}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={index === scenarios.length - 1}
+                  onClick={() => onMove(index, index + 1)}
+                >
+                  <ArrowRight className="me-2 h-4 w-4 rtl:rotate-180" />
+                  {t("scenario.moveLater")}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => onDuplicate(scenario.id)}
+                >
+                  <Copy className="me-2 h-4 w-4" />
+                  {t("scenario.duplicate")}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={scenarios.length === 1}
+                  onClick={() => onRemove(scenario.id)}
+                  className="text-destructive"
+                >
+                  <Trash2 className="me-2 h-4 w-4" />
+                  {t("scenario.delete")}
+                </Button>
+              </div>
+            </PopoverContent>
+          </Popover>
+        </div>
+      ))}
+
+      <Button variant="outline" onClick={onAdd} className="neumorph rounded-xl">
+        {t("scenario.add")}
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,307 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useLocale } from "@/hooks/use-locale";
+import { useVirtualRows } from "@/hooks/use-virtual-rows";
+import type { MessageKey } from "@/lib/i18n";
+import { pageItems } from "@/lib/pagination";
+import { cn } from "@/lib/utils";
+
+export type Grouping = "monthly" | "yearly";
+
+export interface ScheduleColumn<M, Y> {
+  header: string;
+  month: (entry: M) => ReactNode;
+  year: (entry: Y) => ReactNode;
+  className?: string;
+}
+
+export interface RowStyle {
+  className?: string;
+  title?: string;
+}
+
+interface ScheduleTableProps<
+  M extends { month: number },
+  Y extends { year: number },
+> {
+  /** Accessible name for the table */
+  label: string;
+  monthly: M[];
+  yearly: Y[];
+  columns: ScheduleColumn<M, Y>[];
+  monthRow?: (entry: M) => RowStyle;
+  yearRow?: (entry: Y) => RowStyle;
+}
+
+const ROW_HEIGHT = 32;
+// Ten years of months, or 25 years, per page
+const PAGE_SIZE: Record<Grouping, number> = { monthly: 120, yearly: 25 };
+const MESSAGES: Record<
+  Grouping,
+  { jump: MessageKey; empty: MessageKey; range: MessageKey }
+> = {
+  monthly: {
+    jump: "table.jumpToMonth",
+    empty: "table.noMonths",
+    range: "table.monthRange",
+  },
+  yearly: {
+    jump: "table.jumpToYear",
+    empty: "table.noYears",
+    range: "table.yearRange",
+  },
+};
+
+/**
+ * Full-length schedule with monthly/yearly grouping, pages, jump-to and a
+ * virtualized body so long tenures stay smooth
+ */
+export function ScheduleTable<
+  M extends { month: number },
+  Y extends { year: number },
+>({
+  label,
+  monthly,
+  yearly,
+  columns,
+  monthRow,
+  yearRow,
+}: ScheduleTableProps<M, Y>) {
+  const { t } = useLocale();
+  const [grouping, setGrouping] = useState<Grouping>("monthly");
+  const [page, setPage] = useState(0);
+  const [jumpTo, setJumpTo] = useState("");
+  const [selected, setSelected] = useState<number | null>(null);
+
+  const rows: (M | Y)[] = grouping === "monthly" ? monthly : yearly;
+  const pageSize = PAGE_SIZE[grouping];
+  const pageCount = Math.max(1, Math.ceil(rows.length / pageSize));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageRows = rows.slice(
+    currentPage * pageSize,
+    (currentPage + 1) * pageSize,
+  );
+
+  const { containerRef, start, end, paddingTop, paddingBottom, scrollToIndex } =
+    useVirtualRows({ count: pageRows.length, rowHeight: ROW_HEIGHT });
+
+  // Scroll the selected row into view once its page has rendered
+  useEffect(() => {
+    if (selected === null) return;
+    scrollToIndex(Math.max(0, (selected % pageSize) - 2));
+  }, [selected, currentPage, pageSize, scrollToIndex]);
+
+  const goToPage = (next: number) => {
+    setPage(Math.min(Math.max(next, 0), pageCount - 1));
+    setSelected(null);
+    scrollToIndex(0);
+  };
+
+  const changeGrouping = (next: Grouping) => {
+    if (!next) return;
+    setGrouping(next);
+    setSelected(null);
+    setJumpTo("");
+    setPage(0);
+    scrollToIndex(0);
+  };
+
+  const handleJump = () => {
+    const target = Math.round(Number(jumpTo));
+    if (!Number.isFinite(target) || rows.length === 0) return;
+    const index = Math.min(Math.max(target, 1), rows.length) - 1;
+    setJumpTo(String(index + 1));
+    setPage(Math.floor(index / pageSize));
+    setSelected(index);
+  };
+
+  const first = currentPage * pageSize + 1;
+  const last = currentPage * pageSize + pageRows.length;
+  const messages = MESSAGES[grouping];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={grouping}
+          onValueChange={changeGrouping}
+          aria-label={t("table.groupBy")}
+        >
+          <ToggleGroupItem
+            value="monthly"
+            variant="outline"
+            className="rounded-xl"
+          >
+            {t("table.monthly")}
+          </ToggleGroupItem>
+          <ToggleGroupItem
+            value="yearly"
+            variant="outline"
+            className="rounded-xl"
+          >
+            {t("table.yearly")}
+          </ToggleGroupItem>
+        </ToggleGroup>
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleJump();
+          }}
+        >
+          <Input
+            type="number"
+            min={1}
+            max={rows.length}
+            value={jumpTo}
+            onChange={(e) => setJumpTo(e.target.value)}
+            placeholder={t(messages.jump)}
+            aria-label={t(messages.jump)}
+            className="h-8 w-32"
+          />
+          <Button type="submit" size="sm" variant="outline">
+            {t("table.go")}
+          </Button>
+        </form>
+      </div>
+
+      <Table
+        aria-label={label}
+        aria-rowcount={rows.length + 1}
+        className="text-xs"
+        containerRef={containerRef}
+        containerClassName="max-h-96"
+      >
+        <TableHeader className="sticky top-0 z-10 bg-card shadow-sm">
+          <TableRow className="hover:bg-transparent">
+            {columns.map((column) => (
+              <TableHead
+                key={column.header}
+                className={cn("h-9 px-2 whitespace-nowrap", column.className)}
+              >
+                {column.header}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {paddingTop > 0 && <tr aria-hidden style={{ height: paddingTop }} />}
+          {pageRows.slice(start, end).map((row, offset) => {
+            const index = currentPage * pageSize + start + offset;
+            const style =
+              grouping === "monthly"
+                ? monthRow?.(row as M)
+                : yearRow?.(row as Y);
+            return (
+              <TableRow
+                key={index}
+                aria-rowindex={index + 2}
+                data-state={index === selected ? "selected" : undefined}
+                className={style?.className}
+                title={style?.title}
+                style={{ height: ROW_HEIGHT }}
+              >
+                {columns.map((column) => (
+                  <TableCell
+                    key={column.header}
+                    className={cn(
+                      "px-2 py-0 whitespace-nowrap",
+                      column.className,
+                    )}
+                  >
+                    {grouping === "monthly"
+                      ? column.month(row as M)
+                      : column.year(row as Y)}
+                  </TableCell>
+                ))}
+              </TableRow>
+            );
+          })}
+          {paddingBottom > 0 && (
+            <tr aria-hidden style={{ height: paddingBottom }} />
+          )}
+        </TableBody>
+      </Table>
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {rows.length === 0
+            ? t(messages.empty)
+            : t(messages.range, { first, last, count: rows.length })}
+        </p>
+        {pageCount > 1 && (
+          <Pagination className="mx-0 w-auto">
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    goToPage(currentPage - 1);
+                  }}
+                  aria-disabled={currentPage === 0}
+                  className={cn(
+                    currentPage === 0 && "pointer-events-none opacity-50",
+                  )}
+                />
+              </PaginationItem>
+              {pageItems(currentPage, pageCount).map((item, i) => (
+                <PaginationItem key={`${item}-${i}`}>
+                  {item === "ellipsis" ? (
+                    <PaginationEllipsis />
+                  ) : (
+                    <PaginationLink
+                      href="#"
+                      isActive={item === currentPage}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        goToPage(item);
+                      }}
+                    >
+                      {item + 1}
+                    </PaginationLink>
+                  )}
+                </PaginationItem>
+              ))}
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    goToPage(currentPage + 1);
+                  }}
+                  aria-disabled={currentPage === pageCount - 1}
+                  className={cn(
+                    currentPage === pageCount - 1 &&
+                      "pointer-events-none opacity-50",
+                  )}
+                />
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { useMutation } from "@tanstack/react-query";
+import { Link2, Share2 } from "lucide-react";
+import { toast } from "sonner";
+import type { ShareLinkRequest, ShareLinkResponse } from "@shared/api";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useLocale } from "@/hooks/use-locale";
+import { apiRequest } from "@/lib/api";
+import type { Translate } from "@/lib/i18n";
+import type { Scenario } from "@/lib/scenario";
+import { buildShareHash, encodeScenarios } from "@/lib/share";
+
+interface ShareMenuProps {
+  scenarios: Scenario[];
+  activeScenario: number;
+}
+
+const copy = async (url: string, message: string, t: Translate) => {
+  try {
+    await navigator.clipboard.writeText(url);
+    toast.success(message);
+  } catch {
+    toast.error(t("share.copyFailed"), { description: url });
+  }
+};
+
+export function ShareMenu({ scenarios, activeScenario }: ShareMenuProps) {
+  const { t } = useLocale();
+  const shortLink = useMutation({
+    mutationFn: (request: ShareLinkRequest) =>
+      apiRequest<ShareLinkResponse>("/api/share", {
+        method: "POST",
+        body: request,
+      }),
+    onSuccess: ({ id }) =>
+      copy(`${window.location.origin}/s/${id}`, t("share.shortCopied"), t),
+    onError: () =>
+      toast.error(t("share.shortFailed"), {
+        description: t("share.shortFailedHelp"),
+      }),
+  });
+
+  const encoded = () => encodeScenarios(scenarios, activeScenario);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="neumorph rounded-xl">
+          <Share2 className="me-2 h-4 w-4" />
+          {t("share.button")}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem
+          onSelect={() =>
+            copy(
+              `${window.location.origin}/${buildShareHash(encoded())}`,
+              t("share.copied"),
+              t,
+            )
+          }
+        >
+          <Share2 className="me-2 h-4 w-4" />
+          {t("share.copyLink")}
+        </DropdownMenuItem>
+        <DropdownMenuItem
+          disabled={shortLink.isPending}
+          onSelect={() => shortLink.mutate({ payload: encoded() })}
+        >
+          <Link2 className="me-2 h-4 w-4" />
+          {t("share.copyShortLink")}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
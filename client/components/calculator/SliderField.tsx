@@ -0,0 +1,149 @@
+import { useMemo, type ReactNode } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Info } from "lucide-react";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useLocale } from "@/hooks/use-locale";
+import { parseAmount } from "@/lib/format";
+import type { InputRange } from "@/lib/input-ranges";
+
+interface SliderFieldProps {
+  label: string;
+  tooltip: string;
+  value: number;
+  onChange: (value: number) => void;
+  range: InputRange;
+  /** How the value and the range ends are shown */
+  format: (value: number) => string;
+  /** Replaces the formatted maximum under the slider */
+  maxLabel?: ReactNode;
+}
+
+interface FieldValues {
+  value: string;
+}
+
+/**
+ * A slider paired with a text input for exact values. The input accepts
+ * Lakh/Crore shorthand ("25L", "1.2Cr"), is validated against the range as
+ * you type and is applied on Enter or when it loses focus.
+ */
+export function SliderField({
+  label,
+  tooltip,
+  value,
+  onChange,
+  range,
+  format,
+  maxLabel,
+}: SliderFieldProps) {
+  const { locale, t } = useLocale();
+  const schema = useMemo(
+    () =>
+      z.object({
+        value: z
+          .string()
+          .trim()
+          .min(1, t("field.required"))
+          .transform(parseAmount)
+          .pipe(
+            z
+              .number({
+                invalid_type_error: t("field.number", {
+                  example: locale.shorthand === "indian" ? "25L" : "2.5M",
+                }),
+              })
+              .min(range.min, t("field.min", { value: format(range.min) }))
+              .max(range.max, t("field.max", { value: format(range.max) })),
+          ),
+      }),
+    // Messages are formatted for the locale they were built in
+    [range.min, range.max, format, locale, t],
+  );
+  const form = useForm<FieldValues, unknown, { value: number }>({
+    resolver: zodResolver(schema),
+    mode: "onChange",
+    values: { value: String(value) },
+    resetOptions: { keepDirtyValues: true },
+  });
+
+  const commit = form.handleSubmit(({ value: next }) => {
+    onChange(next);
+    form.reset({ value: String(next) });
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={commit} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="value"
+          render={({ field }) => (
+            <FormItem className="space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-2">
+                  <FormLabel className="text-sm font-medium text-foreground">
+                    {label}
+                  </FormLabel>
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger type="button">
+                        <Info className="h-4 w-4 text-muted-foreground" />
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        <p>{tooltip}</p>
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+                </div>
+                <FormControl>
+                  <Input
+                    {...field}
+                    inputMode="decimal"
+                    onBlur={() => {
+                      field.onBlur();
+                      commit();
+                    }}
+                    className="w-36 text-end font-semibold text-financial-600"
+                  />
+                </FormControl>
+              </div>
+              <FormMessage className="text-end text-xs" />
+            </FormItem>
+          )}
+        />
+        <Slider
+          value={[value]}
+          onValueChange={([next]) => onChange(next)}
+          min={range.min}
+          max={range.max}
+          step={range.step}
+          className="neumorph rounded-full p-2"
+        />
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{format(range.min)}</span>
+          <span className="text-sm font-semibold text-financial-600">
+            {format(value)}
+          </span>
+          <span>{maxLabel ?? format(range.max)}</span>
+        </div>
+      </form>
+    </Form>
+  );
+}
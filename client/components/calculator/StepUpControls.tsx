@@ -0,0 +1,140 @@
+import { Info } from "lucide-react";
+import {
+  sipContributionForMonth,
+  type SIPData,
+  type SIPStepUp,
+} from "@shared/finance";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useLocale } from "@/hooks/use-locale";
+import { currencySymbol, formatCurrency } from "@/lib/format";
+
+interface StepUpControlsProps {
+  sip: SIPData;
+  onChange: (stepUp: SIPStepUp | undefined) => void;
+}
+
+const RANGES: Record<SIPStepUp["kind"], { max: number; step: number }> = {
+  percent: { max: 25, step: 1 },
+  amount: { max: 25000, step: 500 },
+};
+
+const DEFAULT_STEP_UP: SIPStepUp = { kind: "percent", value: 10 };
+
+export function StepUpControls({ sip, onChange }: StepUpControlsProps) {
+  const { t } = useLocale();
+  const { stepUp } = sip;
+  const range = stepUp ? RANGES[stepUp.kind] : RANGES.percent;
+  const finalAmount = sipContributionForMonth(
+    sip,
+    Math.round(sip.sipTenure * 12),
+  );
+  const formatStep = (step: SIPStepUp) =>
+    step.kind === "percent" ? `${step.value}%` : formatCurrency(step.value);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium text-foreground">
+            {t("invest.stepUp")}
+          </label>
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger>
+                <Info className="h-4 w-4 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>{t("invest.stepUpHelp")}</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </div>
+        <div className="flex items-center gap-3">
+          {stepUp && (
+            <span className="text-lg font-semibold text-financial-600">
+              {formatStep(stepUp)}
+            </span>
+          )}
+          <Switch
+            checked={!!stepUp}
+            onCheckedChange={(enabled) =>
+              onChange(enabled ? DEFAULT_STEP_UP : undefined)
+            }
+            aria-label={t("invest.stepUp")}
+          />
+        </div>
+      </div>
+
+      {stepUp && (
+        <>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={stepUp.kind}
+            onValueChange={(kind: SIPStepUp["kind"]) =>
+              kind &&
+              onChange({
+                ...stepUp,
+                kind,
+                value: kind === "percent" ? 10 : 1000,
+              })
+            }
+            className="justify-start"
+          >
+            <ToggleGroupItem
+              value="percent"
+              variant="outline"
+              className="rounded-xl"
+            >
+              {t("invest.stepUpPercent")}
+            </ToggleGroupItem>
+            <ToggleGroupItem
+              value="amount"
+              variant="outline"
+              className="rounded-xl"
+            >
+              {t("invest.stepUpAmount", { currency: currencySymbol() })}
+            </ToggleGroupItem>
+          </ToggleGroup>
+          <Slider
+            value={[stepUp.value]}
+            onValueChange={([value]) => onChange({ ...stepUp, value })}
+            min={0}
+            max={range.max}
+            step={range.step}
+            className="neumorph rounded-full p-2"
+          />
+          <Input
+            type="number"
+            min={0}
+            step={1000}
+            placeholder={t("invest.stepUpCap")}
+            aria-label={t("invest.stepUpCap")}
+            value={stepUp.maxMonthlyAmount ?? ""}
+            onChange={(e) =>
+              onChange({
+                ...stepUp,
+                maxMonthlyAmount: Number(e.target.value) || undefined,
+              })
+            }
+          />
+          <p className="text-xs text-muted-foreground">
+            {t("invest.stepUpReach", {
+              amount: formatCurrency(finalAmount),
+              year: Math.ceil(sip.sipTenure),
+            })}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+import { useMemo } from "react";
+import { Landmark } from "lucide-react";
+import {
+  calculateTaxBenefits,
+  SECTION_24B_LIMIT,
+  SECTION_80C_LIMIT,
+  type LoanData,
+  type PropertyUse,
+  type TaxProfile,
+  type TaxRegime,
+} from "@shared/finance";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useLocale } from "@/hooks/use-locale";
+import { currencySymbol, formatCurrency } from "@/lib/format";
+
+interface TaxPanelProps {
+  tax: TaxProfile | undefined;
+  loan: LoanData;
+  onChange: (tax: TaxProfile | undefined) => void;
+}
+
+const SLAB_RATES = [5, 10, 15, 20, 25, 30];
+
+const DEFAULT_TAX: TaxProfile = {
+  regime: "old",
+  slabRate: 30,
+  propertyUse: "self-occupied",
+};
+
+const toAmount = (value: string) => Math.max(0, Number(value) || 0);
+
+export function TaxPanel({ tax, loan, onChange }: TaxPanelProps) {
+  const { t } = useLocale();
+  const summary = useMemo(
+    () => (tax ? calculateTaxBenefits(loan, tax) : null),
+    [loan, tax],
+  );
+  const update = (updates: Partial<TaxProfile>) =>
+    onChange({ ...tax, ...updates });
+
+  return (
+    <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm mb-12">
+      <CardHeader className="pb-6">
+        <CardTitle className="text-2xl font-bold flex items-center justify-center gap-3">
+          <Landmark className="h-7 w-7 text-financial-500" />
+          {t("tax.title")}
+          <Switch
+            checked={!!tax}
+            onCheckedChange={(enabled) =>
+              onChange(enabled ? DEFAULT_TAX : undefined)
+            }
+            aria-label={t("tax.toggle")}
+          />
+        </CardTitle>
+      </CardHeader>
+      {tax && (
+        <CardContent className="grid lg:grid-cols-3 gap-8">
+          <div className="space-y-5">
+            <div className="space-y-3">
+              <Label>{t("tax.regime")}</Label>
+              <ToggleGroup
+                type="single"
+                value={tax.regime}
+                onValueChange={(regime: TaxRegime) =>
+                  regime && update({ regime })
+                }
+                className="justify-start"
+              >
+                <ToggleGroupItem
+                  value="old"
+                  variant="outline"
+                  className="rounded-xl"
+                >
+                  {t("tax.oldRegime")}
+                </ToggleGroupItem>
+                <ToggleGroupItem
+                  value="new"
+                  variant="outline"
+                  className="rounded-xl"
+                >
+                  {t("tax.newRegime")}
+                </ToggleGroupItem>
+              </ToggleGroup>
+              {tax.regime === "new" && (
+                <p className="text-xs text-muted-foreground">
+                  {t("tax.newRegimeHelp")}
+                </p>
+              )}
+            </div>
+            <div className="space-y-3">
+              <Label>{t("tax.slab")}</Label>
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={String(tax.slabRate)}
+                onValueChange={(rate) =>
+                  rate && update({ slabRate: Number(rate) })
+                }
+                className="justify-start flex-wrap"
+              >
+                {SLAB_RATES.map((rate) => (
+                  <ToggleGroupItem
+                    key={rate}
+                    value={String(rate)}
+                    variant="outline"
+                    className="rounded-xl text-xs"
+                  >
+                    {rate}%
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              <p className="text-xs text-muted-foreground">
+                {t("tax.slabHelp")}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-5">
+            <div className="space-y-3">
+              <Label>{t("tax.property")}</Label>
+              <ToggleGroup
+                type="single"
+                value={tax.propertyUse}
+                onValueChange={(propertyUse: PropertyUse) =>
+                  propertyUse && update({ propertyUse })
+                }
+                className="justify-start"
+              >
+                <ToggleGroupItem
+                  value="self-occupied"
+                  variant="outline"
+                  className="rounded-xl"
+                >
+                  {t("tax.selfOccupied")}
+                </ToggleGroupItem>
+                <ToggleGroupItem
+                  value="let-out"
+                  variant="outline"
+                  className="rounded-xl"
+                >
+                  {t("tax.letOut")}
+                </ToggleGroupItem>
+              </ToggleGroup>
+              {tax.propertyUse === "let-out" && (
+                <div className="space-y-1">
+                  <Label htmlFor="annual-rent" className="text-xs">
+                    {t("tax.rent", { currency: currencySymbol() })}
+                  </Label>
+                  <Input
+                    id="annual-rent"
+                    type="number"
+                    min={0}
+                    step={10000}
+                    value={tax.annualRent ?? ""}
+                    onChange={(e) =>
+                      update({ annualRent: toAmount(e.target.value) })
+                    }
+                  />
+                </div>
+              )}
+            </div>
+            <div className="space-y-3">
+              <div className="flex justify-between">
+                <Label>{t("tax.coBorrower")}</Label>
+                <span className="text-sm font-semibold text-financial-600">
+                  {tax.coBorrowerShare ?? 0}%
+                </span>
+              </div>
+              <Slider
+                value={[tax.coBorrowerShare ?? 0]}
+                onValueChange={([coBorrowerShare]) =>
+                  update({ coBorrowerShare })
+                }
+                min={0}
+                max={100}
+                step={5}
+                className="neumorph rounded-full p-2"
+              />
+              <p className="text-xs text-muted-foreground">
+                {t("tax.coBorrowerHelp", {
+                  interest: formatCurrency(SECTION_24B_LIMIT),
+                  principal: formatCurrency(SECTION_80C_LIMIT),
+                })}
+              </p>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="pre-construction" className="text-xs">
+                {t("tax.preConstruction", { currency: currencySymbol() })}
+              </Label>
+              <Input
+                id="pre-construction"
+                type="number"
+                min={0}
+                step={10000}
+                value={tax.preConstructionInterest ?? ""}
+                onChange={(e) =>
+                  update({ preConstructionInterest: toAmount(e.target.value) })
+                }
+              />
+              <p className="text-xs text-muted-foreground">
+                {t("tax.preConstructionHelp")}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>{t("tax.byYear")}</Label>
+            <Table className="text-xs" containerClassName="max-h-72">
+              <TableHeader className="sticky top-0 bg-card">
+                <TableRow>
+                  <TableHead className="h-8 px-2">{t("tax.year")}</TableHead>
+                  <TableHead className="h-8 px-2">24(b)</TableHead>
+                  <TableHead className="h-8 px-2">80C</TableHead>
+                  <TableHead className="h-8 px-2">{t("tax.saved")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {summary.years.map((year) => (
+                  <TableRow key={year.year}>
+                    <TableCell className="px-2 py-1.5">{year.year}</TableCell>
+                    <TableCell className="px-2 py-1.5">
+                      {formatCurrency(year.interestDeduction)}
+                    </TableCell>
+                    <TableCell className="px-2 py-1.5">
+                      {formatCurrency(year.principalDeduction)}
+                    </TableCell>
+                    <TableCell className="px-2 py-1.5 text-financial-600">
+                      {formatCurrency(year.taxSaved)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,113 @@
+import type { ReactNode } from "react";
+import { Info, Landmark, Percent, Target } from "lucide-react";
+import type { CalculationResults } from "@shared/finance";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useLocale } from "@/hooks/use-locale";
+import { formatCurrency, formatRate } from "@/lib/format";
+import { cn } from "@/lib/utils";
+
+interface TaxResultCardsProps {
+  results: CalculationResults;
+  /** The loan's contract rate, to compare the post-tax rate against */
+  interestRate: number;
+}
+
+interface ResultCardProps {
+  icon: ReactNode;
+  iconClassName: string;
+  tooltip: string;
+  title: string;
+  value: string;
+  valueClassName: string;
+  detail: string;
+}
+
+function ResultCard({
+  icon,
+  iconClassName,
+  tooltip,
+  title,
+  value,
+  valueClassName,
+  detail,
+}: ResultCardProps) {
+  return (
+    <Card className="neumorph-outset rounded-2xl border-0 bg-card/50 backdrop-blur-sm overflow-hidden group hover:scale-105 transition-transform duration-300">
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <div className={cn("p-3 rounded-full", iconClassName)}>{icon}</div>
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger>
+                <Info className="h-4 w-4 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>{tooltip}</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        </div>
+        <h3 className="text-sm font-medium text-muted-foreground mb-2">
+          {title}
+        </h3>
+        <p className={cn("text-2xl font-bold", valueClassName)}>{value}</p>
+        <p className="text-xs text-muted-foreground mt-2">{detail}</p>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Post-tax figures shown under the main results cards when a tax profile is
+ * set
+ */
+export function TaxResultCards({ results, interestRate }: TaxResultCardsProps) {
+  const { t } = useLocale();
+  const positive = results.postTaxNetPosition >= 0;
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-12">
+      <ResultCard
+        icon={<Landmark className="h-6 w-6 text-financial-500" />}
+        iconClassName="bg-financial-500/10"
+        tooltip={t("taxResults.savedHelp")}
+        title={t("taxResults.saved")}
+        value={formatCurrency(results.taxSaved)}
+        valueClassName="text-financial-500"
+        detail={t("taxResults.savedDetail")}
+      />
+      <ResultCard
+        icon={<Percent className="h-6 w-6 text-financial-500" />}
+        iconClassName="bg-financial-500/10"
+        tooltip={t("taxResults.rateHelp")}
+        title={t("taxResults.rate")}
+        value={formatRate(Number(results.postTaxEffectiveRate.toFixed(2)))}
+        valueClassName="text-financial-500"
+        detail={t("taxResults.rateDetail", { rate: formatRate(interestRate) })}
+      />
+      <ResultCard
+        icon={
+          <Target
+            className={cn(
+              "h-6 w-6",
+              positive ? "text-green-500" : "text-destructive",
+            )}
+          />
+        }
+        iconClassName={positive ? "bg-green-500/10" : "bg-destructive/10"}
+        tooltip={t("taxResults.netHelp")}
+        title={t("taxResults.net")}
+        value={formatCurrency(results.postTaxNetPosition)}
+        valueClassName={positive ? "text-green-500" : "text-destructive"}
+        detail={t("taxResults.netDetail", {
+          amount: formatCurrency(results.netPosition),
+        })}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+import { Info } from "lucide-react";
+import type { ValueBasis } from "@shared/finance";
+import { Card, CardContent } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipProvider,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { useLocale } from "@/hooks/use-locale";
+import { currencySymbol } from "@/lib/format";
+
+interface ValuationControlsProps {
+  basis: ValueBasis;
+  onBasisChange: (basis: ValueBasis) => void;
+  /** Inflation rate of the active scenario */
+  inflationRate: number;
+  onInflationRateChange: (rate: number) => void;
+}
+
+export function ValuationControls({
+  basis,
+  onBasisChange,
+  inflationRate,
+  onInflationRateChange,
+}: ValuationControlsProps) {
+  const { t, ranges } = useLocale();
+  return (
+    <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm mb-12">
+      <CardContent className="p-6 grid md:grid-cols-2 gap-8 items-center">
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-medium text-foreground">
+              {t("valuation.basis")}
+            </label>
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger>
+                  <Info className="h-4 w-4 text-muted-foreground" />
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{t("valuation.basisHelp")}</p>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          </div>
+          <ToggleGroup
+            type="single"
+            value={basis}
+            onValueChange={(value: ValueBasis) => value && onBasisChange(value)}
+            className="justify-start"
+          >
+            <ToggleGroupItem
+              value="nominal"
+              variant="outline"
+              className="rounded-xl"
+            >
+              {t("valuation.nominal")}
+            </ToggleGroupItem>
+            <ToggleGroupItem
+              value="real"
+              variant="outline"
+              className="rounded-xl"
+            >
+              {t("valuation.real", { currency: currencySymbol() })}
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <label className="text-sm font-medium text-foreground">
+              {t("valuation.inflation")}
+            </label>
+            <span className="text-lg font-semibold text-financial-600">
+              {inflationRate}%
+            </span>
+          </div>
+          <Slider
+            value={[inflationRate]}
+            onValueChange={([value]) => onInflationRateChange(value)}
+            min={ranges.inflationRate.min}
+            max={ranges.inflationRate.max}
+            step={ranges.inflationRate.step}
+            className="neumorph rounded-full p-2"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,258 @@
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Plus, Trash2 } from "lucide-react";
+import type { HouseholdProfile, RiskProfile } from "@shared/api";
+import { RISK_PROFILES, RISK_RETURN_RATES } from "@shared/household";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useLocale } from "@/hooks/use-locale";
+import { currencySymbol, formatRate } from "@/lib/format";
+import type { MessageKey, Translate } from "@/lib/i18n";
+
+interface HouseholdFormProps {
+  household: HouseholdProfile;
+  onSubmit: (household: HouseholdProfile) => void;
+  disabled?: boolean;
+}
+
+export const RISK_LABELS: Record<RiskProfile, MessageKey> = {
+  conservative: "household.conservative",
+  moderate: "household.moderate",
+  aggressive: "household.aggressive",
+};
+
+const schema = (t: Translate) => {
+  const amount = z.coerce
+    .number({ invalid_type_error: t("household.enterAmount") })
+    .min(0, t("household.negative"));
+  return z.object({
+    name: z.string().trim().min(1, t("household.enterName")).max(100),
+    incomes: z.array(
+      z.object({ label: z.string().trim().max(100), monthlyAmount: amount }),
+    ),
+    liabilities: z.array(
+      z.object({
+        label: z.string().trim().max(100),
+        monthlyEmi: amount,
+        outstanding: amount,
+      }),
+    ),
+    riskProfile: z.enum(RISK_PROFILES as [RiskProfile, ...RiskProfile[]]),
+  });
+};
+
+/**
+ * Edits a household's name, incomes, existing loans and risk profile. The
+ * form resets whenever a newer version of the household comes in.
+ */
+export function HouseholdForm({
+  household,
+  onSubmit,
+  disabled,
+}: HouseholdFormProps) {
+  const { t } = useLocale();
+  const form = useForm<HouseholdProfile>({
+    resolver: zodResolver(schema(t)),
+    values: household,
+  });
+  const incomes = useFieldArray({ control: form.control, name: "incomes" });
+  const liabilities = useFieldArray({
+    control: form.control,
+    name: "liabilities",
+  });
+  const currency = currencySymbol();
+
+  const amountField = (
+    name:
+      | `incomes.${number}.monthlyAmount`
+      | `liabilities.${number}.monthlyEmi`
+      | `liabilities.${number}.outstanding`,
+    label: string,
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="w-40">
+          <FormLabel className="text-xs">
+            {label} ({currency})
+          </FormLabel>
+          <FormControl>
+            <Input {...field} type="number" min={0} inputMode="decimal" />
+          </FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  const labelField = (
+    name: `incomes.${number}.label` | `liabilities.${number}.label`,
+    label: string,
+    placeholder: string,
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex-1">
+          <FormLabel className="text-xs">{label}</FormLabel>
+          <FormControl>
+            <Input {...field} placeholder={placeholder} />
+          </FormControl>
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-8">
+        <div className="grid gap-6 md:grid-cols-2">
+          <FormField
+            control={form.control}
+            name="name"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("household.name")}</FormLabel>
+                <FormControl>
+                  <Input {...field} maxLength={100} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="riskProfile"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("household.risk")}</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {RISK_PROFILES.map((risk) => (
+                      <SelectItem key={risk} value={risk}>
+                        {t(RISK_LABELS[risk])}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  {t("household.riskHelp", {
+                    rate: formatRate(RISK_RETURN_RATES[field.value]),
+                  })}
+                </FormDescription>
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <section className="space-y-3">
+          <h3 className="font-semibold">{t("household.incomes")}</h3>
+          {incomes.fields.map((income, index) => (
+            <div key={income.id} className="flex flex-wrap items-end gap-3">
+              {labelField(
+                `incomes.${index}.label`,
+                t("household.source"),
+                t("household.sourcePlaceholder"),
+              )}
+              {amountField(
+                `incomes.${index}.monthlyAmount`,
+                t("household.netPerMonth"),
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => incomes.remove(index)}
+                aria-label={t("household.removeIncome")}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => incomes.append({ label: "", monthlyAmount: 0 })}
+          >
+            <Plus className="me-2 h-4 w-4" />
+            {t("household.addIncome")}
+          </Button>
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="font-semibold">{t("household.loans")}</h3>
+          {liabilities.fields.map((liability, index) => (
+            <div key={liability.id} className="flex flex-wrap items-end gap-3">
+              {labelField(
+                `liabilities.${index}.label`,
+                t("household.loan"),
+                t("household.loanPlaceholder"),
+              )}
+              {amountField(
+                `liabilities.${index}.monthlyEmi`,
+                t("table.payment"),
+              )}
+              {amountField(
+                `liabilities.${index}.outstanding`,
+                t("household.outstanding"),
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => liabilities.remove(index)}
+                aria-label={t("household.removeLoan")}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              liabilities.append({ label: "", monthlyEmi: 0, outstanding: 0 })
+            }
+          >
+            <Plus className="me-2 h-4 w-4" />
+            {t("household.addLoan")}
+          </Button>
+        </section>
+
+        <Button
+          type="submit"
+          disabled={disabled || !form.formState.isDirty}
+          className="rounded-xl"
+        >
+          {t("household.save")}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,125 @@
+import type { ReactNode } from "react";
+import { Link, Navigate, useParams } from "react-router-dom";
+import { Calculator, Home, LogOut, Users } from "lucide-react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInset,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+  SidebarProvider,
+  SidebarTrigger,
+} from "@/components/ui/sidebar";
+import { useAuth } from "@/hooks/use-auth";
+import { useHouseholds } from "@/hooks/use-households";
+import { useLocale } from "@/hooks/use-locale";
+
+interface HouseholdsLayoutProps {
+  title: string;
+  /** Buttons shown at the end of the page header */
+  actions?: ReactNode;
+  children: ReactNode;
+}
+
+/**
+ * The frame of the household pages: a sidebar listing the user's
+ * households, with the page in the inset beside it. Sends signed-out users
+ * to the log-in page.
+ */
+export function HouseholdsLayout({
+  title,
+  actions,
+  children,
+}: HouseholdsLayoutProps) {
+  const { user, isLoading: authLoading, logout } = useAuth();
+  const { households, isLoading } = useHouseholds();
+  const { t } = useLocale();
+  const { id: activeId } = useParams<{ id: string }>();
+
+  if (!authLoading && !user) return <Navigate to="/login" replace />;
+
+  return (
+    <SidebarProvider>
+      <Sidebar>
+        <SidebarHeader>
+          <SidebarMenu>
+            <SidebarMenuItem>
+              <SidebarMenuButton asChild isActive={!activeId}>
+                <Link to="/households">
+                  <Users />
+                  <span>{t("household.list")}</span>
+                </Link>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+            <SidebarMenuItem>
+              <SidebarMenuButton asChild>
+                <Link to="/">
+                  <Calculator />
+                  <span>{t("household.calculator")}</span>
+                </Link>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          </SidebarMenu>
+        </SidebarHeader>
+        <SidebarContent>
+          <SidebarGroup>
+            <SidebarGroupLabel>{t("household.clients")}</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {isLoading
+                  ? Array.from({ length: 3 }, (_, index) => (
+                      <SidebarMenuItem key={index}>
+                        <SidebarMenuSkeleton showIcon />
+                      </SidebarMenuItem>
+                    ))
+                  : households.map((household) => (
+                      <SidebarMenuItem key={household.id}>
+                        <SidebarMenuButton
+                          asChild
+                          isActive={household.id === activeId}
+                        >
+                          <Link to={`/households/${household.id}`}>
+                            <Home />
+                            <span>{household.name}</span>
+                          </Link>
+                        </SidebarMenuButton>
+                      </SidebarMenuItem>
+                    ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+        {user && (
+          <SidebarFooter>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton
+                  onClick={() => logout.mutate()}
+                  tooltip={t("plans.logout")}
+                >
+                  <LogOut />
+                  <span className="truncate">{user.email}</span>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarFooter>
+        )}
+      </Sidebar>
+      <SidebarInset>
+        <header className="flex h-16 items-center gap-3 border-b px-4">
+          <SidebarTrigger />
+          <h1 className="flex-1 truncate text-xl font-bold">{title}</h1>
+          {actions}
+        </header>
+        <main className="flex-1 p-6">{children}</main>
+      </SidebarInset>
+    </SidebarProvider>
+  );
+}
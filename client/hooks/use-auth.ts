@@ -0,0 +1,56 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { AuthResponse, AuthUser, Credentials } from "@shared/api";
+import { ApiError, apiRequest } from "@/lib/api";
+
+export const AUTH_KEY = ["auth"];
+
+/** The signed-in user, or null when signed out */
+const fetchUser = () =>
+  apiRequest<AuthResponse>("/api/auth/me").then(
+    ({ user }) => user,
+    (error) => {
+      if (error instanceof ApiError && error.status === 401) return null;
+      throw error;
+    },
+  );
+
+/**
+ * The account behind the session cookie, with sign-up, log-in and sign-out.
+ * Signing in or out drops any cached plans, which belong to the account.
+ */
+export function useAuth() {
+  const queryClient = useQueryClient();
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: AUTH_KEY,
+    queryFn: fetchUser,
+    retry: false,
+    staleTime: Infinity,
+  });
+
+  const signedIn = (next: AuthUser | null) => {
+    queryClient.removeQueries({ queryKey: ["plans"] });
+    queryClient.setQueryData(AUTH_KEY, next);
+  };
+
+  const authenticate = (path: string) => (credentials: Credentials) =>
+    apiRequest<AuthResponse>(path, { method: "POST", body: credentials }).then(
+      ({ user }) => user,
+    );
+
+  const signup = useMutation({
+    mutationFn: authenticate("/api/auth/signup"),
+    onSuccess: signedIn,
+  });
+
+  const login = useMutation({
+    mutationFn: authenticate("/api/auth/login"),
+    onSuccess: signedIn,
+  });
+
+  const logout = useMutation({
+    mutationFn: () => apiRequest<void>("/api/auth/logout", { method: "POST" }),
+    onSuccess: () => signedIn(null),
+  });
+
+  return { user: user ?? null, isLoading, signup, login, logout };
+}
@@ -0,0 +1,49 @@
+import * as React from "react";
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  jumpTo,
+  present,
+  recordChange,
+  redo,
+  undo,
+  type ChangeOptions,
+} from "@/lib/history";
+
+/**
+ * State with undo/redo. `set` records a labelled change; `undo`, `redo`
+ * and `jumpTo` move through the recorded states.
+ */
+export function useHistory<T>(initial: () => T, initialLabel: string) {
+  const [history, setHistory] = React.useState(() =>
+    createHistory(initial(), initialLabel),
+  );
+
+  const set = React.useCallback(
+    (update: T | ((prev: T) => T), options: ChangeOptions) =>
+      setHistory((prev) => {
+        const current = present(prev);
+        const next =
+          typeof update === "function"
+            ? (update as (prev: T) => T)(current)
+            : update;
+        return recordChange(prev, next, options);
+      }),
+    [],
+  );
+
+  return {
+    state: present(history),
+    history,
+    set,
+    undo: React.useCallback(() => setHistory(undo), []),
+    redo: React.useCallback(() => setHistory(redo), []),
+    jumpTo: React.useCallback(
+      (index: number) => setHistory((prev) => jumpTo(prev, index)),
+      [],
+    ),
+    canUndo: canUndo(history),
+    canRedo: canRedo(history),
+  };
+}
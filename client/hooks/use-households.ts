@@ -0,0 +1,110 @@
+import * as React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import type {
+  CreateHouseholdRequest,
+  Household,
+  HouseholdConflictResponse,
+  HouseholdListResponse,
+  UpdateHouseholdRequest,
+} from "@shared/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useLocale } from "@/hooks/use-locale";
+import { ApiError, apiRequest } from "@/lib/api";
+
+/**
+ * The signed-in user's client households, versioned like saved plans: a
+ * change based on an old version shows the latest household instead.
+ */
+export function useHouseholds() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { t } = useLocale();
+  const householdsKey = React.useMemo(() => ["households", user?.id], [user]);
+  const { data, isLoading, isError } = useQuery({
+    queryKey: householdsKey,
+    queryFn: () =>
+      apiRequest<HouseholdListResponse>("/api/households").then(
+        ({ households }) => households,
+      ),
+    enabled: !!user,
+  });
+
+  const putHousehold = React.useCallback(
+    (household: Household) =>
+      queryClient.setQueryData<Household[]>(householdsKey, (prev = []) =>
+        [...prev.filter((other) => other.id !== household.id), household].sort(
+          (a, b) => a.name.localeCompare(b.name),
+        ),
+      ),
+    [queryClient, householdsKey],
+  );
+
+  const onError = (error: Error) => {
+    if (error instanceof ApiError && error.status === 409) {
+      putHousehold((error.body as HouseholdConflictResponse).household);
+      toast.error(t("household.conflict"), {
+        description: t("household.conflictHelp"),
+      });
+    } else if (error instanceof ApiError && error.status === 404) {
+      queryClient.invalidateQueries({ queryKey: householdsKey });
+      toast.error(t("household.gone"));
+    } else {
+      toast.error(t("household.saveFailed"), { description: error.message });
+    }
+  };
+
+  const create = useMutation({
+    mutationFn: (request: CreateHouseholdRequest) =>
+      apiRequest<Household>("/api/households", {
+        method: "POST",
+        body: request,
+      }),
+    onSuccess: putHousehold,
+    onError,
+  });
+
+  const update = useMutation({
+    mutationFn: ({ id, ...request }: UpdateHouseholdRequest & { id: string }) =>
+      apiRequest<Household>(`/api/households/${encodeURIComponent(id)}`, {
+        method: "PUT",
+        body: request,
+      }),
+    onSuccess: putHousehold,
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: (household: Household) =>
+      apiRequest<void>(
+        `/api/households/${encodeURIComponent(household.id)}?version=${household.version}`,
+        { method: "DELETE" },
+      ),
+    onSuccess: (_, household) => {
+      queryClient.setQueryData<Household[]>(householdsKey, (prev = []) =>
+        prev.filter((other) => other.id !== household.id),
+      );
+      // Its plans were detached, so their versions moved on
+      queryClient.invalidateQueries({ queryKey: ["plans"] });
+    },
+    onError,
+  });
+
+  return {
+    households: data ?? [],
+    isLoading,
+    isError,
+    isSaving: create.isPending || update.isPending || remove.isPending,
+    createHousehold: create.mutateAsync,
+    updateHousehold: (
+      household: Household,
+      changes: Omit<UpdateHouseholdRequest, "version">,
+    ) =>
+      update.mutate({
+        id: household.id,
+        version: household.version,
+        ...changes,
+      }),
+    deleteHousehold: remove.mutateAsync,
+  };
+}
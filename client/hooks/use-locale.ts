@@ -0,0 +1,16 @@
+import * as React from "react";
+import { translator } from "@/lib/i18n";
+import { getLocale, localeRanges, subscribeLocale } from "@/lib/locale";
+
+/**
+ * The active locale, with its translate function and slider ranges.
+ * Components using it re-render when the locale is switched (setLocale).
+ */
+export function useLocale() {
+  const locale = React.useSyncExternalStore(subscribeLocale, getLocale);
+  return {
+    locale,
+    t: translator(locale),
+    ranges: localeRanges(locale),
+  };
+}
@@ -0,0 +1,78 @@
+import * as React from "react";
+import type {
+  MonteCarloOptions,
+  MonteCarloResult,
+  SIPData,
+} from "@shared/finance";
+import type {
+  SimulationRequest,
+  SimulationResponse,
+} from "@/lib/monte-carlo.worker";
+
+/** Wait this long after the last input change before simulating */
+const DEBOUNCE_MS = 250;
+
+/**
+ * Simulate the SIP in a Web Worker whenever its inputs change. A run that is
+ * still going when the inputs change again is abandoned by restarting the
+ * worker; the previous result stays on screen until the new one arrives.
+ * Pass `null` options to switch it off.
+ */
+export function useMonteCarlo(sip: SIPData, options: MonteCarloOptions | null) {
+  const workerRef = React.useRef<Worker | null>(null);
+  const latestRef = React.useRef(0);
+  const busyRef = React.useRef(false);
+  const [result, setResult] = React.useState<MonteCarloResult | null>(null);
+  const [running, setRunning] = React.useState(false);
+
+  React.useEffect(
+    () => () => {
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    },
+    [],
+  );
+
+  // Re-run only when the inputs actually change, not on every render
+  const key = options ? JSON.stringify({ sip, options }) : null;
+
+  React.useEffect(() => {
+    if (!key) {
+      latestRef.current++;
+      setResult(null);
+      setRunning(false);
+      return;
+    }
+
+    const timeout = window.setTimeout(() => {
+      if (busyRef.current) {
+        workerRef.current?.terminate();
+        workerRef.current = null;
+      }
+      if (!workerRef.current) {
+        workerRef.current = new Worker(
+          new URL("../lib/monte-carlo.worker.ts", import.meta.url),
+          { type: "module" },
+        );
+        workerRef.current.onmessage = (
+          event: MessageEvent<SimulationResponse>,
+        ) => {
+          if (event.data.id !== latestRef.current) return;
+          busyRef.current = false;
+          setResult(event.data.result);
+          setRunning(false);
+        };
+      }
+      const request: SimulationRequest = {
+        id: ++latestRef.current,
+        ...JSON.parse(key),
+      };
+      busyRef.current = true;
+      setRunning(true);
+      workerRef.current.postMessage(request);
+    }, DEBOUNCE_MS);
+    return () => window.clearTimeout(timeout);
+  }, [key]);
+
+  return { result, running };
+}
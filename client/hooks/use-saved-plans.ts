@@ -0,0 +1,158 @@
+import * as React from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import type {
+  CreatePlanRequest,
+  Plan,
+  PlanConflictResponse,
+  PlanListResponse,
+  UpdatePlanRequest,
+} from "@shared/api";
+import { useAuth } from "@/hooks/use-auth";
+import { useLocale } from "@/hooks/use-locale";
+import { ApiError, apiRequest } from "@/lib/api";
+import type { Translate } from "@/lib/i18n";
+import type { Scenario } from "@/lib/scenario";
+import { loadSavedPlans, saveSavedPlans } from "@/lib/storage";
+
+const createPlan = (request: CreatePlanRequest) =>
+  apiRequest<Plan>("/api/plans", { method: "POST", body: request });
+
+let localUploadStarted = false;
+
+/**
+ * Upload the plans kept in this browser's storage, once per page load however
+ * many components use the hook. Only the plans the server accepted are
+ * removed from storage, so the rest are tried again on the next load.
+ */
+function uploadLocalPlans(t: Translate, onUploaded: (plans: Plan[]) => void) {
+  if (localUploadStarted) return;
+  localUploadStarted = true;
+  const local = loadSavedPlans().filter(
+    (plan) => plan.name.trim() && plan.scenarios.length > 0,
+  );
+  if (local.length === 0) return;
+
+  Promise.allSettled(
+    local.map(({ name, scenarios }) => createPlan({ name, scenarios })),
+  ).then((results) => {
+    const uploaded = results.flatMap((result) =>
+      result.status === "fulfilled" ? [result.value] : [],
+    );
+    saveSavedPlans(
+      local.filter((_, index) => results[index].status === "rejected"),
+    );
+    if (uploaded.length > 0) {
+      onUploaded(uploaded);
+      toast.success(t("plans.moved", { count: uploaded.length }));
+    }
+    const failed = local.length - uploaded.length;
+    if (failed > 0) {
+      toast.error(t("plans.moveFailed", { count: failed }), {
+        description: t("plans.moveFailedHelp"),
+      });
+    }
+  });
+}
+
+/**
+ * The signed-in user's named scenario sets, saved on the server so they
+ * follow them across devices. Changes are sent with the version they were
+ * based on; when someone else saved first the newer plan is shown instead
+ * and the user is told.
+ */
+export function useSavedPlans() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { t } = useLocale();
+  const plansKey = React.useMemo(() => ["plans", user?.id], [user]);
+  const { data, isLoading, isError } = useQuery({
+    queryKey: plansKey,
+    queryFn: () =>
+      apiRequest<PlanListResponse>("/api/plans").then(({ plans }) => plans),
+    enabled: !!user,
+  });
+
+  const putPlan = React.useCallback(
+    (plan: Plan) =>
+      queryClient.setQueryData<Plan[]>(plansKey, (prev = []) =>
+        prev.some((other) => other.id === plan.id)
+          ? prev.map((other) => (other.id === plan.id ? plan : other))
+          : [plan, ...prev],
+      ),
+    [queryClient, plansKey],
+  );
+
+  const onError = (error: Error) => {
+    if (error instanceof ApiError && error.status === 409) {
+      putPlan((error.body as PlanConflictResponse).plan);
+      toast.error(t("plans.conflict"), {
+        description: t("plans.conflictHelp"),
+      });
+    } else if (error instanceof ApiError && error.status === 404) {
+      queryClient.invalidateQueries({ queryKey: plansKey });
+      toast.error(t("plans.gone"));
+    } else {
+      toast.error(t("plans.saveFailed"), { description: error.message });
+    }
+  };
+
+  const create = useMutation({
+    mutationFn: createPlan,
+    onSuccess: putPlan,
+    onError,
+  });
+
+  const update = useMutation({
+    mutationFn: ({ id, ...request }: UpdatePlanRequest & { id: string }) =>
+      apiRequest<Plan>(`/api/plans/${encodeURIComponent(id)}`, {
+        method: "PUT",
+        body: request,
+      }),
+    onSuccess: putPlan,
+    onError,
+  });
+
+  const remove = useMutation({
+    mutationFn: (plan: Plan) =>
+      apiRequest<void>(
+        `/api/plans/${encodeURIComponent(plan.id)}?version=${plan.version}`,
+        { method: "DELETE" },
+      ),
+    onSuccess: (_, plan) =>
+      queryClient.setQueryData<Plan[]>(plansKey, (prev = []) =>
+        prev.filter((other) => other.id !== plan.id),
+      ),
+    onError,
+  });
+
+  // Plans saved in this browser before they moved to the server go to the
+  // first account that signs in here
+  React.useEffect(() => {
+    if (!data) return;
+    uploadLocalPlans(t, (plans) => plans.reverse().forEach(putPlan));
+  }, [data, putPlan, t]);
+
+  return {
+    plans: data ?? [],
+    isLoading,
+    isError,
+    isSaving: create.isPending || update.isPending || remove.isPending,
+    savePlan: (name: string, scenarios: Scenario[], householdId?: string) =>
+      create.mutate({ name, scenarios, householdId }),
+    renamePlan: (plan: Plan, name: string) =>
+      update.mutate({ id: plan.id, version: plan.version, name }),
+    overwritePlan: (plan: Plan, scenarios: Scenario[]) =>
+      update.mutate({ id: plan.id, version: plan.version, scenarios }),
+    /** Attach the plan to a household, or detach it with `null` */
+    attachPlan: (plan: Plan, householdId: string | null) =>
+      update.mutate({ id: plan.id, version: plan.version, householdId }),
+    duplicatePlan: (plan: Plan) =>
+      create.mutate({
+        name: `${plan.name} (copy)`,
+        scenarios: plan.scenarios,
+        householdId: plan.householdId,
+      }),
+    deletePlan: (plan: Plan) => remove.mutate(plan),
+  };
+}
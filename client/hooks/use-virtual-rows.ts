@@ -0,0 +1,65 @@
+import * as React from "react";
+
+interface VirtualRowsOptions {
+  count: number;
+  /** Fixed height of every row, in pixels */
+  rowHeight: number;
+  /** Rows rendered beyond each edge of the viewport */
+  overscan?: number;
+}
+
+/**
+ * Windowed rendering for long fixed-height lists: only the rows in view (plus
+ * an overscan margin) are rendered, with spacers standing in for the rest.
+ * Attach `containerRef` to the scrolling element.
+ */
+export function useVirtualRows<T extends HTMLElement = HTMLDivElement>({
+  count,
+  rowHeight,
+  overscan = 10,
+}: VirtualRowsOptions) {
+  const containerRef = React.useRef<T>(null);
+  const [scrollTop, setScrollTop] = React.useState(0);
+  const [viewportHeight, setViewportHeight] = React.useState(0);
+
+  React.useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const update = () => {
+      setScrollTop(container.scrollTop);
+      setViewportHeight(container.clientHeight);
+    };
+    update();
+    container.addEventListener("scroll", update, { passive: true });
+    const observer = new ResizeObserver(update);
+    observer.observe(container);
+    return () => {
+      container.removeEventListener("scroll", update);
+      observer.disconnect();
+    };
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(
+    count,
+    Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan,
+  );
+
+  const scrollToIndex = React.useCallback(
+    (index: number) => {
+      const container = containerRef.current;
+      if (container) container.scrollTop = index * rowHeight;
+    },
+    [rowHeight],
+  );
+
+  return {
+    containerRef,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, count - end) * rowHeight,
+    scrollToIndex,
+  };
+}
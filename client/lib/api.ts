@@ -0,0 +1,41 @@
+import type { ApiErrorResponse } from "@shared/api";
+
+/**
+ * Thrown for any non-2xx API response, carrying the server's error body
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly body: ApiErrorResponse,
+  ) {
+    super(body.error);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * JSON fetch against the Express API. Bodies are sent as JSON and non-2xx
+ * responses are turned into an `ApiError`.
+ */
+export async function apiRequest<T>(
+  path: string,
+  { body, ...init }: Omit<RequestInit, "body"> & { body?: unknown } = {},
+): Promise<T> {
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      ...(body !== undefined ? { "Content-Type": "application/json" } : {}),
+      ...init.headers,
+    },
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new ApiError(
+      response.status,
+      data ?? { error: `Request failed with status ${response.status}` },
+    );
+  }
+  return data as T;
+}
@@ -0,0 +1,18 @@
+/**
+ * Save generated content as a file via a temporary object URL
+ */
+export function downloadFile(
+  content: BlobPart,
+  fileName: string,
+  type: string,
+): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a tick to start the download before revoking
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,79 @@
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  formatCurrency,
+  formatShorthand,
+  formatYears,
+  parseAmount,
+} from "./format";
+import { setLocale } from "./locale";
+
+describe("parseAmount", () => {
+  it("should read plain and grouped numbers", () => {
+    expect(parseAmount("2500000")).toBe(2500000);
+    expect(parseAmount("25,00,000")).toBe(2500000);
+    expect(parseAmount("₹ 2,500,000")).toBe(2500000);
+    expect(parseAmount("8.75")).toBe(8.75);
+  });
+
+  it("should expand Lakh and Crore shorthand", () => {
+    expect(parseAmount("25L")).toBe(2500000);
+    expect(parseAmount("1.2Cr")).toBe(12000000);
+    expect(parseAmount("5 crore")).toBe(50000000);
+    expect(parseAmount("3.5 lakhs")).toBe(350000);
+    expect(parseAmount("Rs. 15k")).toBe(15000);
+  });
+
+  it("should reject anything else", () => {
+    expect(parseAmount("")).toBeNaN();
+    expect(parseAmount("abc")).toBeNaN();
+    expect(parseAmount("25X")).toBeNaN();
+    expect(parseAmount("1.2.3")).toBeNaN();
+  });
+});
+
+describe("formatShorthand", () => {
+  it("should pick the largest Indian unit", () => {
+    expect(formatShorthand(5000)).toBe("₹5K");
+    expect(formatShorthand(2500000)).toBe("₹25L");
+    expect(formatShorthand(12000000)).toBe("₹1.2Cr");
+    expect(formatShorthand(500)).toBe("₹500");
+  });
+
+  it("should round trip through parseAmount", () => {
+    for (const value of [5000, 250000, 2500000, 12000000]) {
+      expect(parseAmount(formatShorthand(value))).toBe(value);
+    }
+  });
+});
+
+describe("formatting in other locales", () => {
+  afterEach(() => setLocale("en-IN"));
+
+  it("should use the locale's currency and short units", () => {
+    setLocale("en-US");
+    expect(formatCurrency(400000)).toBe("$400,000");
+    expect(formatShorthand(2500000)).toBe("$2.5M");
+    expect(formatShorthand(250000)).toBe("$250K");
+
+    setLocale("en-GB");
+    expect(formatShorthand(1500000000)).toBe("£1.5B");
+
+    setLocale("en-AE");
+    expect(formatShorthand(1500000)).toBe("AED 1.5M");
+  });
+
+  it("should read amounts typed in any supported currency", () => {
+    expect(parseAmount("$2.5M")).toBe(2500000);
+    expect(parseAmount("£250,000")).toBe(250000);
+    expect(parseAmount("AED 1.5mn")).toBe(1500000);
+    expect(parseAmount("1,500,000 د.إ.‏")).toBe(1500000);
+  });
+
+  it("should word periods in the locale's language", () => {
+    expect(formatYears(1)).toBe("1 year");
+    expect(formatYears(20)).toBe("20 years");
+    setLocale("ar-AE");
+    expect(formatYears(5)).toBe("5 سنوات");
+    expect(formatYears(20)).toBe("20 سنة");
+  });
+});
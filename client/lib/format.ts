@@ -0,0 +1,105 @@
+import { translate } from "./i18n";
+import { getLocale } from "./locale";
+
+/*
+ * Formatters for the active locale (see locale.ts). They read the locale on
+ * every call, so anything that re-renders after a switch picks it up.
+ */
+const currencyFormats = new Map<string, Intl.NumberFormat>();
+
+const currencyFormat = () => {
+  const { id, currency } = getLocale();
+  const key = `${id}:${currency}`;
+  if (!currencyFormats.has(key)) {
+    currencyFormats.set(
+      key,
+      new Intl.NumberFormat(id, {
+        style: "currency",
+        currency,
+        maximumFractionDigits: 0,
+      }),
+    );
+  }
+  return currencyFormats.get(key);
+};
+
+export const formatCurrency = (amount: number) =>
+  currencyFormat().format(amount);
+
+/** The active currency's symbol, e.g. "₹", "$" or "AED" */
+export const currencySymbol = () =>
+  currencyFormat()
+    .formatToParts(0)
+    .find((part) => part.type === "currency").value;
+
+const SHORTHAND_SIZES: Record<"indian" | "western", [number, string][]> = {
+  indian: [
+    [1e7, "Cr"],
+    [1e5, "L"],
+    [1e3, "K"],
+  ],
+  western: [
+    [1e9, "B"],
+    [1e6, "M"],
+    [1e3, "K"],
+  ],
+};
+
+/**
+ * Short amount label in the locale's number system, e.g. 2500000 -> "₹25L"
+ * in India or 2500000 -> "$2.5M" in the US
+ */
+export const formatShorthand = (value: number) => {
+  const { shorthand } = getLocale();
+  const [size, suffix] = SHORTHAND_SIZES[shorthand].find(
+    ([size]) => Math.abs(value) >= size,
+  ) ?? [1, ""];
+  const symbol = currencySymbol();
+  const separator = /^[A-Za-z]+$/.test(symbol) ? " " : "";
+  return `${symbol}${separator}${Number((value / size).toFixed(2))}${suffix}`;
+};
+
+const SHORTHAND_UNITS: Record<string, number> = {
+  k: 1e3,
+  l: 1e5,
+  lac: 1e5,
+  lakh: 1e5,
+  lakhs: 1e5,
+  cr: 1e7,
+  crore: 1e7,
+  crores: 1e7,
+  m: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9,
+};
+
+/**
+ * Read a typed amount, allowing a currency sign or code, digit grouping and
+ * Lakh/Crore or million/billion shorthand: "25L" -> 2500000,
+ * "1.2Cr" -> 12000000, "$2.5M" -> 2500000, "₹25,00,000" -> 2500000.
+ * Returns NaN for anything else.
+ */
+export function parseAmount(text: string): number {
+  const match = text
+    .replace(/[\u200e\u200f\u061c]/g, "")
+    .trim()
+    .toLowerCase()
+    .replace(/^(₹|rs\.?|inr|\$|usd|£|gbp|aed|د\.إ\.?)\s*/, "")
+    .replace(/\s*(aed|د\.إ\.?)$/, "")
+    .replace(/,/g, "")
+    .match(/^(-?\d*\.?\d+)\s*([a-z]*)$/);
+  if (!match) return NaN;
+  const [, amount, unit] = match;
+  const multiplier = unit ? SHORTHAND_UNITS[unit] : 1;
+  return multiplier ? Number(amount) * multiplier : NaN;
+}
+
+/** Rate label, e.g. 8.5 -> "8.5%" */
+export const formatRate = (value: number) => `${value}%`;
+
+/** Period label, e.g. 20 -> "20 years" */
+export const formatYears = (value: number) =>
+  translate(getLocale(), "unit.years", { count: value });
@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import {
+  canRedo,
+  canUndo,
+  createHistory,
+  HISTORY_LIMIT,
+  jumpTo,
+  MERGE_WINDOW_MS,
+  present,
+  recordChange,
+  redo,
+  undo,
+} from "./history";
+
+const start = () => createHistory(0, "start", 0);
+
+describe("recordChange", () => {
+  it("should add a step that can be undone and redone", () => {
+    const history = recordChange(start(), 1, { label: "one", at: 10 });
+    expect(present(history)).toBe(1);
+    expect(canUndo(history)).toBe(true);
+
+    const undone = undo(history);
+    expect(present(undone)).toBe(0);
+    expect(canRedo(undone)).toBe(true);
+    expect(present(redo(undone))).toBe(1);
+  });
+
+  it("should merge a drag into one step", () => {
+    let history = start();
+    for (let value = 1; value <= 5; value++) {
+      history = recordChange(history, value, {
+        label: "slide",
+        mergeKey: "loan",
+        at: value * 100,
+      });
+    }
+    expect(history.entries).toHaveLength(2);
+    expect(present(history)).toBe(5);
+    expect(present(undo(history))).toBe(0);
+  });
+
+  it("should start a new step after a pause or a different field", () => {
+    let history = recordChange(start(), 1, {
+      label: "a",
+      mergeKey: "loan",
+      at: 100,
+    });
+    history = recordChange(history, 2, {
+      label: "b",
+      mergeKey: "loan",
+      at: 100 + MERGE_WINDOW_MS + 1,
+    });
+    history = recordChange(history, 3, {
+      label: "c",
+      mergeKey: "sip",
+      at: 100 + MERGE_WINDOW_MS + 2,
+    });
+    expect(history.entries.map((entry) => entry.label)).toEqual([
+      "start",
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("should drop undone steps when a new change is made", () => {
+    let history = recordChange(start(), 1, { label: "one", at: 10 });
+    history = recordChange(history, 2, { label: "two", at: 20 });
+    history = recordChange(jumpTo(history, 0), 3, { label: "three", at: 30 });
+    expect(history.entries.map((entry) => entry.state)).toEqual([0, 3]);
+    expect(canRedo(history)).toBe(false);
+  });
+
+  it("should ignore a change to the same state", () => {
+    const history = start();
+    expect(recordChange(history, 0, { label: "none" })).toBe(history);
+  });
+
+  it("should keep at most HISTORY_LIMIT steps", () => {
+    let history = start();
+    for (let value = 1; value <= HISTORY_LIMIT + 10; value++) {
+      history = recordChange(history, value, { label: "step", at: value });
+    }
+    expect(history.entries).toHaveLength(HISTORY_LIMIT);
+    expect(present(history)).toBe(HISTORY_LIMIT + 10);
+  });
+});
+
+describe("jumpTo", () => {
+  it("should ignore indexes outside the history", () => {
+    const history = start();
+    expect(jumpTo(history, 3)).toBe(history);
+    expect(undo(history)).toBe(history);
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Undo/redo history: a list of states with a pointer to the current one.
+ * Recording a change drops anything that had been undone, and changes that
+ * share a merge key within MERGE_WINDOW_MS of each other (a slider being
+ * dragged, a name being typed) fold into a single step.
+ */
+export interface HistoryEntry<T> {
+  state: T;
+  /** What the change was, shown in the history panel */
+  label: string;
+  /** Epoch ms of the latest change folded into this entry */
+  at: number;
+  mergeKey?: string;
+}
+
+export interface History<T> {
+  entries: HistoryEntry<T>[];
+  /** Index of the entry currently shown */
+  index: number;
+}
+
+export interface ChangeOptions {
+  label: string;
+  mergeKey?: string;
+  at?: number;
+}
+
+export const MERGE_WINDOW_MS = 1000;
+
+/** Oldest entries are dropped beyond this many */
+export const HISTORY_LIMIT = 100;
+
+export function createHistory<T>(
+  state: T,
+  label: string,
+  at = Date.now(),
+): History<T> {
+  return { entries: [{ state, label, at }], index: 0 };
+}
+
+export const present = <T>(history: History<T>): T =>
+  history.entries[history.index].state;
+
+export const canUndo = <T>(history: History<T>) => history.index > 0;
+
+export const canRedo = <T>(history: History<T>) =>
+  history.index < history.entries.length - 1;
+
+export function recordChange<T>(
+  history: History<T>,
+  state: T,
+  { label, mergeKey, at = Date.now() }: ChangeOptions,
+): History<T> {
+  if (state === present(history)) return history;
+
+  const current = history.entries[history.index];
+  const merges =
+    mergeKey !== undefined &&
+    history.index > 0 &&
+    !canRedo(history) &&
+    current.mergeKey === mergeKey &&
+    at - current.at <= MERGE_WINDOW_MS;
+  if (merges) {
+    const entries = [...history.entries];
+    entries[history.index] = { ...current, state, at };
+    return { entries, index: history.index };
+  }
+
+  const entries = [
+    ...history.entries.slice(0, history.index + 1),
+    { state, label, at, mergeKey },
+  ].slice(-HISTORY_LIMIT);
+  return { entries, index: entries.length - 1 };
+}
+
+/** Show the entry at `index`, keeping everything after it for redo */
+export function jumpTo<T>(history: History<T>, index: number): History<T> {
+  if (index < 0 || index >= history.entries.length) return history;
+  return { ...history, index };
+}
+
+export const undo = <T>(history: History<T>) =>
+  jumpTo(history, history.index - 1);
+
+export const redo = <T>(history: History<T>) =>
+  jumpTo(history, history.index + 1);
@@ -0,0 +1,51 @@
+import { describe, it, expect } from "vitest";
+import { translate } from "./i18n";
+import { LOCALES } from "./locale";
+
+describe("translate", () => {
+  it("should use Indian product names only in India", () => {
+    expect(translate(LOCALES["en-IN"], "invest.amount")).toBe(
+      "Monthly SIP Amount",
+    );
+    expect(translate(LOCALES["en-US"], "invest.amount")).toBe(
+      "Monthly Investment",
+    );
+    expect(translate(LOCALES["en-IN"], "table.payment")).toBe("EMI");
+    expect(translate(LOCALES["en-GB"], "table.payment")).toBe("Payment");
+  });
+
+  it("should fill in placeholders", () => {
+    expect(
+      translate(LOCALES["en-IN"], "results.payment", { amount: "₹43,391" }),
+    ).toBe("EMI: ₹43,391");
+    expect(translate(LOCALES["en-US"], "scenario.name", { n: 2 })).toBe(
+      "Scenario 2",
+    );
+  });
+
+  it("should pick the plural form for a count", () => {
+    const us = LOCALES["en-US"];
+    expect(translate(us, "results.monthsSaved", { count: 1 })).toBe(
+      "Loan closes 1 month sooner",
+    );
+    expect(translate(us, "results.monthsSaved", { count: 14 })).toBe(
+      "Loan closes 14 months sooner",
+    );
+    expect(
+      translate(us, "table.yearRange", { first: 1, last: 1, count: 1 }),
+    ).toBe("Year 1 of 1");
+    expect(
+      translate(us, "table.yearRange", { first: 1, last: 25, count: 30 }),
+    ).toBe("Years 1–25 of 30");
+    expect(translate(LOCALES["ar-AE"], "unit.years", { count: 2 })).toBe(
+      "سنتان",
+    );
+  });
+
+  it("should translate to Arabic", () => {
+    expect(translate(LOCALES["ar-AE"], "loan.amount")).toBe("مبلغ القرض");
+    expect(translate(LOCALES["ar-AE"], "invest.amount")).toBe(
+      "الاستثمار الشهري",
+    );
+  });
+});
@@ -0,0 +1,1187 @@
+import type { LocaleSettings } from "./locale";
+
+/**
+ * UI copy for every locale. English uses generic product names ("monthly
+ * investment", "monthly payment"); India overlays its own vocabulary (SIP,
+ * EMI) on top of it, and Arabic falls back to English for anything it
+ * doesn't translate. Placeholders are written `{name}`; messages that vary
+ * with a count have one form per plural category.
+ */
+type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+type Message = string | PluralForms;
+
+const en = {
+  "hero.tagline": "Home Loan + Investment Planner",
+  "hero.intro":
+    "Make informed financial decisions with our comprehensive loan and investment calculator. Plan your home loan payments alongside monthly investments for optimal wealth creation.",
+  "hero.start": "Get Started",
+  "calculator.title": "Financial Calculator",
+  "calculator.intro":
+    "Configure your loan and monthly investment to see detailed projections and make informed decisions",
+  "scenario.name": "Scenario {n}",
+  "scenario.add": "+ Add Scenario",
+  "scenario.overLimits": "Over the eligibility limits",
+  "scenario.options": "Options for {name}",
+  "scenario.rename": "Name",
+  "scenario.colour": "Colour",
+  "scenario.customColour": "Custom colour",
+  "scenario.duplicate": "Duplicate",
+  "scenario.copyName": "{name} (copy)",
+  "scenario.moveEarlier": "Move earlier",
+  "scenario.moveLater": "Move later",
+  "scenario.delete": "Remove",
+  "scenario.dragHint": "Drag to reorder",
+  "history.title": "History",
+  "history.description":
+    "Every change to your scenarios in this session. Pick one to go back to it; the changes after it stay available to redo.",
+  "history.undo": "Undo",
+  "history.redo": "Redo",
+  "history.shortcuts": "Ctrl+Z to undo, Ctrl+Shift+Z to redo",
+  "history.current": "Current",
+  "history.start": "Opened the calculator",
+  "history.added": "Added {name}",
+  "history.removed": "Removed {name}",
+  "history.duplicated": "Duplicated {name}",
+  "history.moved": "Moved {name}",
+  "history.loaded": "Loaded plan {name}",
+  "history.newPlan": "Started a plan for {name}",
+  "history.edited": "{name}: {field}",
+  "history.field.stepUp": "Annual step-up",
+  "history.field.prepayment": "Prepayments",
+  "history.field.floatingRate": "Rate changes",
+  "history.field.capitalGains": "Capital gains tax",
+  "history.field.tax": "Tax settings",
+  "history.field.affordability": "Eligibility check",
+  "history.field.inflationRate": "Inflation rate",
+  "history.field.other": "Settings",
+  "locale.label": "Region and currency",
+  "locale.switched": "Showing amounts in {currency}",
+  "locale.keepAmounts":
+    "Your figures are unchanged. Start this scenario from typical local values instead?",
+  "locale.useDefaults": "Use local values",
+  "share.unreadable": "This link couldn't be read",
+  "share.unreadableHelp": "Showing your last saved scenarios instead.",
+  "share.adjusted": "Some values in this link were adjusted",
+  "share.button": "Share",
+  "share.copyLink": "Copy link",
+  "share.copyShortLink": "Copy short link",
+  "share.copied": "Link copied",
+  "share.shortCopied": "Short link copied",
+  "share.copyFailed": "Couldn't copy to the clipboard",
+  "share.shortFailed": "Couldn't create a short link",
+  "share.shortFailedHelp": "The full link still works; copy that instead.",
+  "share.missing": "{scenario}: {field} was missing, using the default",
+  "share.clamped":
+    "{scenario}: {field} {value} is out of range, clamped to {clamped}",
+  "share.dropped":
+    "{scenario}: the {field} in the link was invalid and was dropped",
+  "loan.title": "Home Loan Calculator",
+  "loan.amount": "Loan Amount",
+  "loan.amountHelp": "Total amount you want to borrow for your home",
+  "loan.rate": "Interest Rate",
+  "loan.rateHelp": "Annual interest rate offered by your lender",
+  "loan.tenure": "Loan Term",
+  "loan.tenureHelp": "Number of years to repay the loan",
+  "loan.eligible": "{amount} (eligible)",
+  "invest.title": "Monthly Investment Calculator",
+  "invest.amount": "Monthly Investment",
+  "invest.amountHelp": "Amount you plan to invest every month",
+  "invest.return": "Expected Annual Returns",
+  "invest.returnHelp": "Expected annual return on your monthly investments",
+  "invest.period": "Investment Period",
+  "invest.periodHelp": "Number of years you plan to keep investing",
+  "invest.stepUpHelp":
+    "Raise your monthly investment at the start of every year",
+  "invest.stepUpCap": "Maximum monthly investment (optional)",
+  "invest.stepUp": "Annual Step-up",
+  "invest.stepUpPercent": "By %",
+  "invest.stepUpAmount": "By {currency}",
+  "invest.stepUpReach": "Reaches {amount}/month by year {year}",
+  "results.interest": "Total Interest Paid",
+  "results.interestHelp": "Total interest you'll pay over the loan term",
+  "results.payment": "Monthly payment: {amount}",
+  "results.returns": "Investment Returns",
+  "results.returnsHelp": "Total returns from your monthly investments",
+  "results.maturity": "Maturity: {amount}",
+  "results.afterTax": "After tax: {amount}",
+  "results.net": "Net Financial Position",
+  "results.netHelp":
+    "Net financial position (investment value at maturity - total loan payment)",
+  "results.netHelpAfterTax":
+    "Net financial position (investment value at maturity after tax - total loan payment)",
+  "results.positive": "Positive",
+  "results.negative": "Negative",
+  "results.savings": "Early Closure Savings",
+  "results.savingsHelp": "Interest saved by your prepayment plan",
+  "results.monthsSaved": {
+    one: "Loan closes {count} month sooner",
+    other: "Loan closes {count} months sooner",
+  },
+  "results.noPrepayments": "Add prepayments to see savings",
+  "charts.comparison": "Comparison Chart",
+  "charts.breakdown": "Loan Breakdown",
+  "charts.growth": "Investment Growth",
+  "charts.breakdownTitle": "Loan Payment Breakdown",
+  "charts.growthTitle": "Monthly Investment Growth",
+  "charts.investmentValue": "{name} Investment Value",
+  "charts.principal": "Principal",
+  "charts.interest": "Interest",
+  "charts.band": "{name} 10th–90th percentile",
+  "charts.median": "{name} simulated median",
+  "charts.projection": "Financial Projection Comparison",
+  "charts.series": "Chart series",
+  "charts.net": "Net Position",
+  "charts.balance": "Outstanding Balance",
+  "charts.cumulativeInterest": "Cumulative Interest",
+  "charts.cumulativePrincipal": "Cumulative Principal",
+  "charts.seriesName": "{name} {series}",
+  "schedule.amortization": "Loan Amortization Schedule",
+  "schedule.growth": "Investment Growth Schedule",
+  "table.month": "Month",
+  "table.year": "Year {year}",
+  "table.payment": "Payment",
+  "table.principal": "Principal",
+  "table.interest": "Interest",
+  "table.prepaid": "Prepaid",
+  "table.balance": "Balance",
+  "table.contribution": "Contribution",
+  "table.invested": "Investment",
+  "table.returns": "Returns",
+  "table.total": "Total Value",
+  "table.rateReset": "Rate reset to {rate}%",
+  "table.groupBy": "Group schedule by",
+  "table.monthly": "Monthly",
+  "table.yearly": "Yearly",
+  "table.jumpToMonth": "Jump to month",
+  "table.jumpToYear": "Jump to year",
+  "table.go": "Go",
+  "table.noMonths": "No months to show",
+  "table.noYears": "No years to show",
+  "table.monthRange": {
+    one: "Month {first} of {count}",
+    other: "Months {first}–{last} of {count}",
+  },
+  "table.yearRange": {
+    one: "Year {first} of {count}",
+    other: "Years {first}–{last} of {count}",
+  },
+  "prepay.reduceTenure": "Reduce term",
+  "prepay.reducePayment": "Reduce payment",
+  "prepay.reducePaymentHelp":
+    "The monthly payment is recalculated so the loan still ends on time.",
+  "prepay.reduceTenureHelp":
+    "The monthly payment stays the same and the loan closes sooner.",
+  "prepay.title": "Prepayment Planner",
+  "prepay.strategy": "After each prepayment",
+  "prepay.annual": "Annual prepayment",
+  "prepay.amount": "Amount",
+  "prepay.startYear": "Starting year",
+  "prepay.fromYear": "From year",
+  "prepay.annualHelp":
+    "Paid at the end of every loan year from the chosen year on.",
+  "prepay.lumpSums": "One-time lump sums",
+  "prepay.month": "Month",
+  "prepay.removeLumpSum": "Remove lump sum",
+  "prepay.addLumpSum": "Add lump sum",
+  "floating.keepPayment": "Keep payment",
+  "floating.keepTenure": "Keep term",
+  "floating.keepPaymentHelp":
+    "The monthly payment stays the same and the term stretches or shrinks.",
+  "floating.keepTenureHelp":
+    "The term stays the same and the monthly payment is recalculated.",
+  "floating.title": "Floating Rate",
+  "floating.toggle": "Floating-rate loan",
+  "floating.resetMode": "When the rate resets",
+  "floating.source": "Rate changes",
+  "floating.manual": "Enter by hand",
+  "floating.repoLinked": "Repo-linked",
+  "floating.spread": "Spread over repo (%)",
+  "floating.reset": "Reset",
+  "floating.quarterly": "Quarterly",
+  "floating.halfYearly": "Half-yearly",
+  "floating.yearly": "Yearly",
+  "floating.repoHelp":
+    "Lending rate = repo rate + spread, re-read at every reset.",
+  "floating.changes": "New rate from month",
+  "floating.month": "Month",
+  "floating.rate": "Annual rate (%)",
+  "floating.removeChange": "Remove rate change",
+  "floating.addChange": "Add rate change",
+  "floating.repoPath": "Repo rate from month",
+  "floating.repoRate": "Repo rate (%)",
+  "floating.removeRepo": "Remove repo rate",
+  "floating.addRepo": "Add repo move",
+  "afford.income": "Net monthly income ({currency})",
+  "afford.existing": "Existing loan payments per month ({currency})",
+  "afford.property": "Property value ({currency})",
+  "afford.eligiblePayment": "Payment on the eligible loan",
+  "afford.room": "Room for loan payments",
+  "afford.title": "Loan Eligibility",
+  "afford.toggle": "Check loan eligibility",
+  "afford.foirLimit": "Debt-to-income limit",
+  "afford.foirHelp": "Share of income all loan payments together may take.",
+  "afford.maxLtv": "Maximum loan-to-value",
+  "afford.ltvHelp": "Share of the property value the lender will fund.",
+  "afford.capLoan": "Cap the loan at the eligible amount",
+  "afford.maxLoanByIncome": "Maximum eligible loan (limited by income)",
+  "afford.maxLoanByLtv": "Maximum eligible loan (limited by loan-to-value)",
+  "afford.downPayment": "Down payment needed",
+  "afford.minDownPayment": "Minimum down payment",
+  "afford.foir": "Debt-to-income with this loan",
+  "afford.ltv": "Loan-to-value with this loan",
+  "afford.overFoir":
+    "This loan is over the debt-to-income limit. The most a lender would offer is {amount}.",
+  "afford.overLtv":
+    "This loan is over the loan-to-value limit. The most a lender would offer is {amount}.",
+  "afford.overBoth":
+    "This loan is over the debt-to-income and loan-to-value limits. The most a lender would offer is {amount}.",
+  "gains.title": "Capital Gains on Investments",
+  "gains.toggle": "Include capital-gains tax on the investments",
+  "gains.corpus": "Corpus at maturity",
+  "gains.exitLoad": "Exit load",
+  "gains.shortTerm": "Short-term gains",
+  "gains.longTerm": "Long-term gains",
+  "gains.exempt": "Exempt long-term gains",
+  "gains.tax": "Capital-gains tax",
+  "gains.stcgRate": "Short-term gains tax (%)",
+  "gains.ltcgRate": "Long-term gains tax (%)",
+  "gains.ltcgExemption": "Long-term gains exemption ({currency})",
+  "gains.longTermAfter": "Long-term after (months)",
+  "gains.lotsHelp":
+    "Each monthly investment is a separate lot, redeemed first-in-first-out at maturity. The 4% cess is added on top.",
+  "gains.loadRate": "Load (%)",
+  "gains.loadWithin": "Within (months)",
+  "gains.basis": "Net position uses",
+  "gains.preTax": "Pre-tax corpus",
+  "gains.postTax": "Post-tax corpus",
+  "gains.redemption": "Redemption at maturity",
+  "gains.inHand": "In hand",
+  "simulation.toggle": "Simulate investment returns",
+  "simulation.volatilityHelp":
+    "Monthly returns vary randomly around the expected return.",
+  "simulation.odds":
+    "chance the investment corpus beats the total loan outflow of {amount}",
+  "simulation.bands": "Bands are drawn on the Investment Growth chart.",
+  "simulation.title": "Return Simulation",
+  "simulation.returns": "Returns",
+  "simulation.volatilityModel": "Expected return ± volatility",
+  "simulation.historical": "Replay history",
+  "simulation.historicalHelp":
+    "Each year's return is drawn at random from {series} calendar years {years} (price index, without dividends).",
+  "simulation.volatility": "Annual volatility",
+  "simulation.paths": "Simulated paths",
+  "simulation.outcome": "Outcome at maturity",
+  "simulation.p10": "Pessimistic (10th)",
+  "simulation.p50": "Median",
+  "simulation.p90": "Optimistic (90th)",
+  "simulation.running": "Simulating…",
+  "solver.netPosition": "Net financial position",
+  "solver.maturity": "Investment value at maturity",
+  "solver.corpus": "Investment corpus by year",
+  "solver.payment": "Monthly payment",
+  "solver.totalInterest": "Total interest",
+  "solver.sipAmount": "Monthly investment",
+  "solver.sipTenure": "Investment period",
+  "solver.loanAmount": "Loan amount",
+  "solver.tenure": "Loan term",
+  "solver.interestRate": "Interest rate",
+  "solver.title": "Goal Solver",
+  "solver.goal": "I want my",
+  "solver.year": "At the end of year",
+  "solver.target": "Target ({currency})",
+  "solver.useInterest": "Use the loan's total interest",
+  "solver.variable": "By changing",
+  "solver.keepRest": "Everything else in {name} stays as it is.",
+  "solver.solve": "Solve",
+  "solver.answer": "Answer",
+  "solver.solved": "{metric}: {amount}, as targeted.",
+  "solver.unreachable":
+    "The target is out of reach; this is as close as it gets ({amount}).",
+  "solver.apply": "Apply to {name}",
+  "solver.applyAsNew": "Add as new scenario",
+  "solver.empty": "Pick a target and the input to solve for.",
+  "solver.applied": "Updated {name}",
+  "compare.title": "Scenario Comparison",
+  "compare.baseline": "Baseline",
+  "compare.metric": "Metric",
+  "compare.best": "Best in row",
+  "compare.ranking": "Overall ranking",
+  "compare.criteria": "Rank by",
+  "compare.weight": "Weight",
+  "compare.score": "score {score}",
+  "compare.noCriteria": "Pick at least one criterion to rank the scenarios.",
+  "compare.higherBetter": "higher is better",
+  "compare.lowerBetter": "lower is better",
+  "metric.emi": "Monthly payment",
+  "metric.totalInterest": "Total interest",
+  "metric.totalPayment": "Total loan payment",
+  "metric.sipMaturityValue": "Investment value at maturity",
+  "metric.sipTotalInvestment": "Amount invested",
+  "metric.sipReturns": "Investment returns",
+  "metric.netPosition": "Net financial position",
+  "metric.earlyClosureSavings": "Early closure savings",
+  "metric.monthsSaved": "Months saved",
+  "metric.sipPostTaxMaturityValue": "Investment value after tax",
+  "metric.sipRedemptionCost": "Tax and exit load on redemption",
+  "metric.taxSaved": "Tax saved",
+  "metric.postTaxEffectiveRate": "Post-tax interest rate",
+  "metric.postTaxNetPosition": "Net position after tax benefits",
+  "unit.years": { one: "{count} year", other: "{count} years" },
+  "tax.title": "Tax Benefits",
+  "tax.toggle": "Include tax benefits",
+  "tax.regime": "Tax regime",
+  "tax.oldRegime": "Old regime",
+  "tax.newRegime": "New regime",
+  "tax.newRegimeHelp":
+    "The new regime allows no 24(b) or 80C deduction on a self-occupied home.",
+  "tax.slab": "Tax slab",
+  "tax.slabHelp": "Your marginal rate; the 4% cess is added on top.",
+  "tax.property": "Property",
+  "tax.selfOccupied": "Self-occupied",
+  "tax.letOut": "Let out",
+  "tax.rent": "Annual rent ({currency})",
+  "tax.coBorrower": "Co-borrower share",
+  "tax.coBorrowerHelp":
+    "Each co-owner claims their share up to {interest} interest and {principal} principal a year.",
+  "tax.preConstruction": "Pre-construction interest ({currency})",
+  "tax.preConstructionHelp": "Claimed in five equal parts from the first year.",
+  "tax.byYear": "Deductions by loan year",
+  "tax.year": "Year",
+  "tax.saved": "Tax saved",
+  "valuation.basis": "Show figures as",
+  "valuation.basisHelp":
+    "Real values discount every future amount back to today's money using the scenario's inflation rate",
+  "valuation.nominal": "Nominal",
+  "valuation.real": "Real (today's {currency})",
+  "valuation.inflation": "Expected Inflation",
+  "field.required": "Enter a value",
+  "field.number": "Enter a number such as {example}",
+  "field.min": "At least {value}",
+  "field.max": "At most {value}",
+  "plans.title": "Saved Plans",
+  "plans.description":
+    "Save the current scenarios as a named plan, or load one you saved earlier. Plans are kept on the server, so they're available on every device.",
+  "plans.signedOut": "Log in to save plans and see the ones you saved before.",
+  "plans.login": "Log in",
+  "plans.signup": "Sign up",
+  "plans.signedIn": "Signed in as {email}",
+  "plans.households": "Households",
+  "plans.logout": "Log out",
+  "plans.name": "Plan name",
+  "plans.namePlaceholder": "Plan name, e.g. Smith family",
+  "plans.defaultName": "Plan {n}",
+  "plans.save": "Save",
+  "plans.savingTo": "New plans are saved to {name}.",
+  "plans.loading": "Loading plans…",
+  "plans.error":
+    "Couldn't reach the server. Your saved plans will show here once it's back.",
+  "plans.empty": "No saved plans yet.",
+  "plans.summary": {
+    one: "{count} scenario · saved {date}",
+    other: "{count} scenarios · saved {date}",
+  },
+  "plans.rename": "Rename plan",
+  "plans.load": "Load",
+  "plans.overwrite": "Save the current scenarios to {name}",
+  "plans.overwriteHint": "Save the current scenarios to this plan",
+  "plans.duplicate": "Duplicate {name}",
+  "plans.delete": "Delete {name}",
+  "plans.moved": {
+    one: "Moved {count} saved plan from this browser",
+    other: "Moved {count} saved plans from this browser",
+  },
+  "plans.moveFailed": {
+    one: "Couldn't move {count} saved plan from this browser",
+    other: "Couldn't move {count} saved plans from this browser",
+  },
+  "plans.moveFailedHelp": "They'll be tried again next time you open the app.",
+  "plans.conflict": "This plan was changed on another device",
+  "plans.conflictHelp": "Showing the latest version. Make your change again.",
+  "plans.gone": "This plan no longer exists",
+  "plans.saveFailed": "Couldn't save the change",
+  "household.existing": "Existing loan payments",
+  "household.list": "Households",
+  "household.title": "Household",
+  "household.calculator": "Calculator",
+  "household.clients": "Clients",
+  "household.conflict": "This household was changed on another device",
+  "household.conflictHelp":
+    "Showing the latest version. Make your change again.",
+  "household.gone": "This household no longer exists",
+  "household.saveFailed": "Couldn't save the change",
+  "household.conservative": "Conservative",
+  "household.moderate": "Moderate",
+  "household.aggressive": "Aggressive",
+  "household.enterAmount": "Enter an amount",
+  "household.negative": "Can't be negative",
+  "household.enterName": "Enter a name",
+  "household.name": "Household name",
+  "household.risk": "Risk profile",
+  "household.riskHelp":
+    "New scenarios assume a {rate} annual investment return.",
+  "household.incomes": "Monthly incomes",
+  "household.source": "Source",
+  "household.sourcePlaceholder": "Salary",
+  "household.netPerMonth": "Net per month",
+  "household.removeIncome": "Remove income",
+  "household.addIncome": "Add income",
+  "household.loans": "Existing loans",
+  "household.loan": "Loan",
+  "household.loanPlaceholder": "Car loan",
+  "household.outstanding": "Outstanding",
+  "household.removeLoan": "Remove loan",
+  "household.addLoan": "Add loan",
+  "household.save": "Save household",
+  "household.income": "Income",
+  "household.perMonth": "/month",
+  "household.riskReturn": "{risk} · {rate} return",
+  "household.apply": "Use household figures",
+  "household.newName": "New household name",
+  "household.add": "Add household",
+  "household.loadFailed":
+    "Couldn't load your households. Try again in a moment.",
+  "household.empty":
+    "No households yet. Add one above to plan scenarios around its income and existing loans.",
+  "household.nameColumn": "Name",
+  "household.monthlyIncome": "Monthly income",
+  "household.plans": "Plans",
+  "household.notFound": "This household doesn't exist or was deleted.",
+  "household.delete": "Delete household",
+  "household.deleteTitle": "Delete {name}?",
+  "household.deleteHelp":
+    "Its saved plans are kept and no longer belong to a household.",
+  "household.cancel": "Cancel",
+  "household.confirmDelete": "Delete",
+  "household.outstandingLoans": "Outstanding loans",
+  "household.profile": "Profile",
+  "household.profileHelp":
+    "Scenarios planned for this household start from these figures.",
+  "household.plansHelp": "Saved scenario sets for this household.",
+  "household.noPlans":
+    "No plans yet. Start a new plan, or attach one you've saved.",
+  "household.planSummary": {
+    one: "{count} scenario · updated {date}",
+    other: "{count} scenarios · updated {date}",
+  },
+  "household.open": "Open",
+  "household.detach": "Detach {name}",
+  "household.attach": "Attach a saved plan…",
+  "export.button": "Export",
+  "export.report": "Generate report (PDF)",
+  "export.schedulesFor": "Schedules for {name}",
+  "export.all": { other: "All {count} scenarios" },
+  "taxResults.saved": "Tax Saved",
+  "taxResults.savedHelp":
+    "Income tax saved through the home loan's interest and principal deductions",
+  "taxResults.savedDetail": "Over the life of the loan",
+  "taxResults.rate": "Post-tax Interest Rate",
+  "taxResults.rateHelp":
+    "The loan's cost once the interest deduction is credited back each year",
+  "taxResults.rateDetail": "Against {rate} on paper",
+  "taxResults.net": "Post-tax Net Position",
+  "taxResults.netHelp": "Net financial position with the tax saved added back",
+  "taxResults.netDetail": "{amount} before tax",
+  "shareField.loanAmount": "loan amount",
+  "shareField.interestRate": "interest rate",
+  "shareField.tenure": "loan term",
+  "shareField.sipAmount": "monthly investment",
+  "shareField.sipReturnRate": "investment return",
+  "shareField.sipTenure": "investment period",
+  "shareField.inflationRate": "inflation rate",
+  "shareField.prepayment": "prepayment plan",
+  "shareField.floatingRate": "floating-rate plan",
+  "shareField.stepUp": "investment step-up",
+  "shareField.capitalGains": "capital-gains profile",
+  "shareField.tax": "tax profile",
+  "shareField.affordability": "affordability check",
+  "shareLink.notFound": "Link not found",
+  "shareLink.notFoundHelp": "This share link has expired or never existed",
+  "shareLink.open": "Open the calculator",
+  "shareLink.loading": "Loading shared plan…",
+  "auth.login": "Log in",
+  "auth.loginDescription": "Sign in to see the plans you've saved.",
+  "auth.noAccount": "No account yet?",
+  "auth.signup": "Sign up",
+  "auth.signupTitle": "Create an account",
+  "auth.signupDescription":
+    "Save your clients' plans and open them on any device.",
+  "auth.haveAccount": "Already have an account?",
+  "auth.email": "Email",
+  "auth.password": "Password",
+  "auth.passwordHelp": "At least 8 characters.",
+  "auth.invalidEmail": "Enter a valid email address",
+  "auth.shortPassword": "Use at least 8 characters",
+  "auth.enterPassword": "Enter your password",
+  "auth.invalid": "Check your email address and password.",
+  "auth.incorrect": "Incorrect email or password",
+  "auth.emailTaken": "An account with this email already exists",
+  "auth.unreachable": "Couldn't reach the server. Try again in a moment.",
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+type Catalog = Partial<Record<MessageKey, Message>>;
+
+/** India's own product names over the English copy */
+const enIndia: Catalog = {
+  "hero.tagline": "Home Loan + SIP Financial Planner",
+  "hero.intro":
+    "Make informed financial decisions with our comprehensive loan and investment calculator. Plan your home loan EMIs alongside SIP investments for optimal wealth creation.",
+  "calculator.intro":
+    "Configure your loan and SIP parameters to see detailed projections and make informed decisions",
+  "loan.rateHelp": "Annual interest rate offered by your bank",
+  "loan.tenure": "Loan Tenure",
+  "invest.title": "SIP Investment Calculator",
+  "invest.amount": "Monthly SIP Amount",
+  "invest.amountHelp": "Amount you plan to invest monthly in SIP",
+  "invest.returnHelp": "Expected annual return rate from your SIP investments",
+  "invest.periodHelp": "Number of years you plan to continue SIP",
+  "invest.stepUpHelp": "Raise your SIP at the start of every year",
+  "invest.stepUpCap": "Maximum monthly SIP (optional)",
+  "results.interestHelp": "Total interest you'll pay over the loan tenure",
+  "results.payment": "EMI: {amount}",
+  "results.returns": "SIP Returns",
+  "results.returnsHelp": "Total returns from your SIP investments",
+  "results.netHelp":
+    "Net financial position (SIP maturity - Total loan payment)",
+  "results.netHelpAfterTax":
+    "Net financial position (SIP maturity after tax - Total loan payment)",
+  "charts.growth": "SIP Growth",
+  "charts.growthTitle": "SIP Investment Growth",
+  "charts.investmentValue": "{name} SIP Value",
+  "schedule.growth": "SIP Growth Schedule",
+  "table.payment": "EMI",
+  "table.contribution": "SIP",
+  "prepay.reduceTenure": "Reduce tenure",
+  "prepay.reducePayment": "Reduce EMI",
+  "prepay.reducePaymentHelp":
+    "The EMI is recalculated so the loan still ends on time.",
+  "prepay.reduceTenureHelp":
+    "The EMI stays the same and the loan closes sooner.",
+  "floating.keepPayment": "Keep EMI",
+  "floating.keepTenure": "Keep tenure",
+  "floating.keepPaymentHelp":
+    "The EMI stays the same and the tenure stretches or shrinks.",
+  "floating.keepTenureHelp":
+    "The tenure stays the same and the EMI is recalculated.",
+  "afford.existing": "Existing EMIs per month ({currency})",
+  "afford.eligiblePayment": "EMI on the eligible loan",
+  "afford.room": "Room for EMIs",
+  "afford.foirLimit": "FOIR limit",
+  "afford.foirHelp": "Share of income all EMIs together may take.",
+  "afford.maxLtv": "Maximum LTV",
+  "afford.maxLoanByLtv": "Maximum eligible loan (limited by LTV)",
+  "afford.foir": "FOIR with this loan",
+  "afford.ltv": "LTV with this loan",
+  "afford.overFoir":
+    "This loan is over the FOIR limit. The most a lender would offer is {amount}.",
+  "afford.overLtv":
+    "This loan is over the LTV limit. The most a lender would offer is {amount}.",
+  "afford.overBoth":
+    "This loan is over the FOIR and LTV limits. The most a lender would offer is {amount}.",
+  "gains.title": "SIP Capital Gains",
+  "gains.toggle": "Include capital-gains tax on the SIP",
+  "gains.stcgRate": "STCG rate (%)",
+  "gains.ltcgRate": "LTCG rate (%)",
+  "gains.ltcgExemption": "LTCG exemption ({currency})",
+  "gains.lotsHelp":
+    "Each SIP instalment is a separate lot, redeemed first-in-first-out at maturity. The 4% cess is added on top.",
+  "simulation.toggle": "Simulate SIP returns",
+  "simulation.volatilityHelp":
+    "Monthly returns vary randomly around the SIP's expected return.",
+  "simulation.odds":
+    "chance the SIP corpus beats the total loan outflow of {amount}",
+  "simulation.bands": "Bands are drawn on the SIP Growth chart.",
+  "solver.maturity": "SIP maturity value",
+  "solver.corpus": "SIP corpus by year",
+  "solver.payment": "EMI",
+  "solver.sipAmount": "Monthly SIP",
+  "solver.sipTenure": "SIP period",
+  "solver.tenure": "Loan tenure",
+  "metric.emi": "EMI",
+  "metric.sipMaturityValue": "SIP maturity value",
+  "metric.sipTotalInvestment": "Total SIP investment",
+  "metric.sipReturns": "SIP returns",
+  "metric.sipPostTaxMaturityValue": "SIP maturity after tax",
+  "valuation.basisHelp":
+    "Real values discount every future amount back to today's rupees using the scenario's inflation rate",
+  "plans.namePlaceholder": "Plan name, e.g. Sharma family",
+  "household.existing": "Existing EMIs",
+  "taxResults.savedHelp":
+    "Income tax saved through Section 24(b) and 80C deductions",
+  "shareField.tenure": "loan tenure",
+  "shareField.sipAmount": "SIP amount",
+  "shareField.sipReturnRate": "SIP return",
+  "shareField.sipTenure": "SIP period",
+  "shareField.stepUp": "SIP step-up",
+};
+
+const ar: Catalog = {
+  "hero.tagline": "مخطط التمويل العقاري والاستثمار",
+  "hero.intro":
+    "اتخذ قرارات مالية مدروسة باستخدام حاسبة شاملة للقروض والاستثمار. خطّط لأقساط تمويلك العقاري إلى جانب استثماراتك الشهرية لتنمية ثروتك.",
+  "hero.start": "ابدأ الآن",
+  "calculator.title": "الحاسبة المالية",
+  "calculator.intro":
+    "اضبط تفاصيل القرض والاستثمار الشهري لعرض توقعات مفصّلة واتخاذ قرارات مدروسة",
+  "scenario.name": "السيناريو {n}",
+  "scenario.add": "+ إضافة سيناريو",
+  "scenario.overLimits": "يتجاوز حدود الأهلية",
+  "scenario.options": "خيارات {name}",
+  "scenario.rename": "الاسم",
+  "scenario.colour": "اللون",
+  "scenario.customColour": "لون مخصص",
+  "scenario.duplicate": "نسخ",
+  "scenario.copyName": "{name} (نسخة)",
+  "scenario.moveEarlier": "نقل للأمام",
+  "scenario.moveLater": "نقل للخلف",
+  "scenario.delete": "إزالة",
+  "scenario.dragHint": "اسحب لإعادة الترتيب",
+  "history.title": "السجل",
+  "history.description":
+    "كل تغيير على سيناريوهاتك في هذه الجلسة. اختر أحدها للعودة إليه؛ وتبقى التغييرات التي بعده متاحة للإعادة.",
+  "history.undo": "تراجع",
+  "history.redo": "إعادة",
+  "history.shortcuts": "Ctrl+Z للتراجع، Ctrl+Shift+Z للإعادة",
+  "history.current": "الحالي",
+  "history.start": "فتح الحاسبة",
+  "history.added": "إضافة {name}",
+  "history.removed": "إزالة {name}",
+  "history.duplicated": "تكرار {name}",
+  "history.moved": "نقل {name}",
+  "history.loaded": "تحميل الخطة {name}",
+  "history.newPlan": "بدء خطة لـ {name}",
+  "history.edited": "{name}: {field}",
+  "history.field.stepUp": "الزيادة السنوية",
+  "history.field.prepayment": "الدفعات المسبقة",
+  "history.field.floatingRate": "تغييرات سعر الفائدة",
+  "history.field.capitalGains": "ضريبة الأرباح الرأسمالية",
+  "history.field.tax": "إعدادات الضريبة",
+  "history.field.affordability": "فحص الأهلية",
+  "history.field.inflationRate": "معدل التضخم",
+  "history.field.other": "الإعدادات",
+  "locale.label": "المنطقة والعملة",
+  "locale.switched": "تُعرض المبالغ بعملة {currency}",
+  "locale.keepAmounts":
+    "لم تتغير أرقامك. هل تريد بدء هذا السيناريو بقيم محلية نموذجية بدلًا منها؟",
+  "locale.useDefaults": "استخدام القيم المحلية",
+  "share.unreadable": "تعذّرت قراءة هذا الرابط",
+  "share.unreadableHelp": "تُعرض آخر السيناريوهات المحفوظة لديك بدلًا منه.",
+  "share.adjusted": "عُدّلت بعض القيم في هذا الرابط",
+  "share.button": "مشاركة",
+  "share.copyLink": "نسخ الرابط",
+  "share.copyShortLink": "نسخ الرابط المختصر",
+  "share.copied": "تم نسخ الرابط",
+  "share.shortCopied": "تم نسخ الرابط المختصر",
+  "share.copyFailed": "تعذّر النسخ إلى الحافظة",
+  "share.shortFailed": "تعذّر إنشاء رابط مختصر",
+  "share.shortFailedHelp": "لا يزال الرابط الكامل يعمل؛ انسخه بدلًا من ذلك.",
+  "share.missing":
+    "{scenario}: لم تُحدَّد قيمة {field}، فاستُخدمت القيمة الافتراضية",
+  "share.clamped":
+    "{scenario}: قيمة {field} ({value}) خارج النطاق، فعُدّلت إلى {clamped}",
+  "share.dropped": "{scenario}: كان {field} في الرابط غير صالح فحُذف",
+  "loan.title": "حاسبة التمويل العقاري",
+  "loan.amount": "مبلغ القرض",
+  "loan.amountHelp": "إجمالي المبلغ الذي تريد اقتراضه لشراء منزلك",
+  "loan.rate": "سعر الفائدة",
+  "loan.rateHelp": "سعر الفائدة السنوي الذي يقدمه المُقرض",
+  "loan.tenure": "مدة القرض",
+  "loan.tenureHelp": "عدد سنوات سداد القرض",
+  "loan.eligible": "{amount} (الحد المؤهَّل)",
+  "invest.title": "حاسبة الاستثمار الشهري",
+  "invest.amount": "الاستثمار الشهري",
+  "invest.amountHelp": "المبلغ الذي تنوي استثماره كل شهر",
+  "invest.return": "العائد السنوي المتوقع",
+  "invest.returnHelp": "العائد السنوي المتوقع على استثماراتك الشهرية",
+  "invest.period": "مدة الاستثمار",
+  "invest.periodHelp": "عدد السنوات التي تنوي مواصلة الاستثمار خلالها",
+  "invest.stepUpHelp": "زيادة استثمارك الشهري في بداية كل سنة",
+  "invest.stepUpCap": "الحد الأقصى للاستثمار الشهري (اختياري)",
+  "invest.stepUp": "الزيادة السنوية",
+  "invest.stepUpPercent": "بنسبة مئوية",
+  "invest.stepUpAmount": "بمبلغ ({currency})",
+  "invest.stepUpReach": "يصل إلى {amount} شهريًا بحلول السنة {year}",
+  "results.interest": "إجمالي الفائدة المدفوعة",
+  "results.interestHelp": "إجمالي الفائدة التي ستدفعها طوال مدة القرض",
+  "results.payment": "القسط الشهري: {amount}",
+  "results.returns": "عوائد الاستثمار",
+  "results.returnsHelp": "إجمالي العوائد من استثماراتك الشهرية",
+  "results.maturity": "القيمة عند الاستحقاق: {amount}",
+  "results.afterTax": "بعد الضريبة: {amount}",
+  "results.net": "صافي المركز المالي",
+  "results.netHelp":
+    "صافي المركز المالي (قيمة الاستثمار عند الاستحقاق - إجمالي مدفوعات القرض)",
+  "results.netHelpAfterTax":
+    "صافي المركز المالي (قيمة الاستثمار عند الاستحقاق بعد الضريبة - إجمالي مدفوعات القرض)",
+  "results.positive": "إيجابي",
+  "results.negative": "سلبي",
+  "results.savings": "وفورات السداد المبكر",
+  "results.savingsHelp": "الفائدة التي توفرها خطة السداد المبكر",
+  "results.monthsSaved": {
+    one: "يُغلق القرض قبل موعده بشهر واحد",
+    two: "يُغلق القرض قبل موعده بشهرين",
+    other: "يُغلق القرض قبل موعده بـ {count} شهرًا",
+    few: "يُغلق القرض قبل موعده بـ {count} أشهر",
+  },
+  "results.noPrepayments": "أضف دفعات سداد مبكر لرؤية الوفورات",
+  "charts.comparison": "مخطط المقارنة",
+  "charts.breakdown": "تفاصيل القرض",
+  "charts.growth": "نمو الاستثمار",
+  "charts.breakdownTitle": "تفصيل مدفوعات القرض",
+  "charts.growthTitle": "نمو الاستثمار الشهري",
+  "charts.investmentValue": "قيمة استثمار {name}",
+  "charts.principal": "أصل القرض",
+  "charts.interest": "الفائدة",
+  "charts.band": "{name}: المئين 10 إلى 90",
+  "charts.median": "{name}: الوسيط المحاكى",
+  "charts.projection": "مقارنة التوقعات المالية",
+  "charts.series": "سلاسل المخطط",
+  "charts.net": "صافي المركز",
+  "charts.balance": "الرصيد المتبقي",
+  "charts.cumulativeInterest": "الفائدة التراكمية",
+  "charts.cumulativePrincipal": "أصل القرض التراكمي",
+  "charts.seriesName": "{name}: {series}",
+  "schedule.amortization": "جدول سداد القرض",
+  "schedule.growth": "جدول نمو الاستثمار",
+  "table.month": "الشهر",
+  "table.year": "السنة {year}",
+  "table.payment": "القسط",
+  "table.principal": "أصل القرض",
+  "table.interest": "الفائدة",
+  "table.prepaid": "سداد مبكر",
+  "table.balance": "الرصيد",
+  "table.contribution": "المساهمة",
+  "table.invested": "المبلغ المستثمر",
+  "table.returns": "العوائد",
+  "table.total": "القيمة الإجمالية",
+  "table.rateReset": "أُعيد تسعير الفائدة إلى {rate}%",
+  "table.groupBy": "تجميع الجدول حسب",
+  "table.monthly": "شهري",
+  "table.yearly": "سنوي",
+  "table.jumpToMonth": "انتقل إلى شهر",
+  "table.jumpToYear": "انتقل إلى سنة",
+  "table.go": "انتقال",
+  "table.noMonths": "لا توجد أشهر لعرضها",
+  "table.noYears": "لا توجد سنوات لعرضها",
+  "table.monthRange": {
+    one: "الشهر {first} من شهر واحد",
+    two: "الشهران {first}–{last} من شهرين",
+    few: "الأشهر {first}–{last} من {count} أشهر",
+    other: "الأشهر {first}–{last} من {count} شهرًا",
+  },
+  "table.yearRange": {
+    one: "السنة {first} من سنة واحدة",
+    two: "السنتان {first}–{last} من سنتين",
+    few: "السنوات {first}–{last} من {count} سنوات",
+    other: "السنوات {first}–{last} من {count} سنة",
+  },
+  "prepay.reduceTenure": "تقليص المدة",
+  "prepay.reducePayment": "تخفيض القسط",
+  "prepay.reducePaymentHelp":
+    "يُعاد حساب القسط الشهري بحيث ينتهي القرض في موعده.",
+  "prepay.reduceTenureHelp": "يبقى القسط الشهري كما هو ويُغلق القرض مبكرًا.",
+  "prepay.title": "مخطط السداد المبكر",
+  "prepay.strategy": "بعد كل دفعة سداد مبكر",
+  "prepay.annual": "سداد مبكر سنوي",
+  "prepay.amount": "المبلغ",
+  "prepay.startYear": "سنة البداية",
+  "prepay.fromYear": "من السنة",
+  "prepay.annualHelp":
+    "يُدفع في نهاية كل سنة من سنوات القرض بدءًا من السنة المختارة.",
+  "prepay.lumpSums": "دفعات مقطوعة لمرة واحدة",
+  "prepay.month": "الشهر",
+  "prepay.removeLumpSum": "إزالة الدفعة المقطوعة",
+  "prepay.addLumpSum": "إضافة دفعة مقطوعة",
+  "floating.keepPayment": "تثبيت القسط",
+  "floating.keepTenure": "تثبيت المدة",
+  "floating.keepPaymentHelp": "يبقى القسط الشهري كما هو وتطول المدة أو تقصر.",
+  "floating.keepTenureHelp": "تبقى المدة كما هي ويُعاد حساب القسط الشهري.",
+  "floating.title": "سعر الفائدة المتغير",
+  "floating.toggle": "قرض بسعر فائدة متغير",
+  "floating.resetMode": "عند إعادة تسعير الفائدة",
+  "floating.source": "تغييرات السعر",
+  "floating.manual": "إدخال يدوي",
+  "floating.repoLinked": "مرتبط بسعر الريبو",
+  "floating.spread": "الهامش فوق سعر الريبو (%)",
+  "floating.reset": "إعادة التسعير",
+  "floating.quarterly": "ربع سنوي",
+  "floating.halfYearly": "نصف سنوي",
+  "floating.yearly": "سنوي",
+  "floating.repoHelp":
+    "سعر الإقراض = سعر الريبو + الهامش، ويُعاد احتسابه عند كل إعادة تسعير.",
+  "floating.changes": "سعر جديد اعتبارًا من الشهر",
+  "floating.month": "الشهر",
+  "floating.rate": "السعر السنوي (%)",
+  "floating.removeChange": "إزالة تغيير السعر",
+  "floating.addChange": "إضافة تغيير في السعر",
+  "floating.repoPath": "سعر الريبو اعتبارًا من الشهر",
+  "floating.repoRate": "سعر الريبو (%)",
+  "floating.removeRepo": "إزالة سعر الريبو",
+  "floating.addRepo": "إضافة تغيير في سعر الريبو",
+  "afford.income": "صافي الدخل الشهري ({currency})",
+  "afford.existing": "أقساط القروض الحالية شهريًا ({currency})",
+  "afford.property": "قيمة العقار ({currency})",
+  "afford.eligiblePayment": "القسط على القرض المؤهَّل",
+  "afford.room": "المتاح لأقساط القروض",
+  "afford.title": "أهلية القرض",
+  "afford.toggle": "التحقق من أهلية القرض",
+  "afford.foirLimit": "حد نسبة الدين إلى الدخل",
+  "afford.foirHelp":
+    "الحصة من الدخل التي يجوز أن تستهلكها أقساط القروض مجتمعة.",
+  "afford.maxLtv": "الحد الأقصى لنسبة القرض إلى القيمة",
+  "afford.ltvHelp": "حصة قيمة العقار التي سيموّلها المُقرض.",
+  "afford.capLoan": "تقييد القرض بالمبلغ المؤهَّل",
+  "afford.maxLoanByIncome": "أقصى قرض مؤهَّل (محدود بالدخل)",
+  "afford.maxLoanByLtv": "أقصى قرض مؤهَّل (محدود بنسبة القرض إلى القيمة)",
+  "afford.downPayment": "الدفعة المقدمة المطلوبة",
+  "afford.minDownPayment": "الحد الأدنى للدفعة المقدمة",
+  "afford.foir": "نسبة الدين إلى الدخل مع هذا القرض",
+  "afford.ltv": "نسبة القرض إلى القيمة مع هذا القرض",
+  "afford.overFoir":
+    "يتجاوز هذا القرض حد نسبة الدين إلى الدخل. أقصى ما قد يقدمه المُقرض هو {amount}.",
+  "afford.overLtv":
+    "يتجاوز هذا القرض حد نسبة القرض إلى القيمة. أقصى ما قد يقدمه المُقرض هو {amount}.",
+  "afford.overBoth":
+    "يتجاوز هذا القرض حدّي نسبة الدين إلى الدخل ونسبة القرض إلى القيمة. أقصى ما قد يقدمه المُقرض هو {amount}.",
+  "gains.title": "أرباح رأس المال على الاستثمارات",
+  "gains.toggle": "احتساب ضريبة أرباح رأس المال على الاستثمارات",
+  "gains.corpus": "الحصيلة عند الاستحقاق",
+  "gains.exitLoad": "رسوم الخروج",
+  "gains.shortTerm": "أرباح قصيرة الأجل",
+  "gains.longTerm": "أرباح طويلة الأجل",
+  "gains.exempt": "أرباح طويلة الأجل معفاة",
+  "gains.tax": "ضريبة أرباح رأس المال",
+  "gains.stcgRate": "ضريبة الأرباح قصيرة الأجل (%)",
+  "gains.ltcgRate": "ضريبة الأرباح طويلة الأجل (%)",
+  "gains.ltcgExemption": "إعفاء الأرباح طويلة الأجل ({currency})",
+  "gains.longTermAfter": "تُعد طويلة الأجل بعد (أشهر)",
+  "gains.lotsHelp":
+    "كل دفعة شهرية حصة مستقلة تُسترد عند الاستحقاق بمبدأ الوارد أولًا يُصرف أولًا. ويُضاف رسم إضافي بنسبة 4%.",
+  "gains.loadRate": "الرسوم (%)",
+  "gains.loadWithin": "خلال (أشهر)",
+  "gains.basis": "يُحسب صافي المركز على أساس",
+  "gains.preTax": "الحصيلة قبل الضريبة",
+  "gains.postTax": "الحصيلة بعد الضريبة",
+  "gains.redemption": "الاسترداد عند الاستحقاق",
+  "gains.inHand": "الصافي المستلم",
+  "simulation.toggle": "محاكاة عوائد الاستثمار",
+  "simulation.volatilityHelp":
+    "تتفاوت العوائد الشهرية عشوائيًا حول العائد المتوقع.",
+  "simulation.odds":
+    "احتمال أن تتجاوز حصيلة الاستثمار إجمالي مدفوعات القرض البالغة {amount}",
+  "simulation.bands": "تظهر النطاقات على مخطط نمو الاستثمار.",
+  "simulation.title": "محاكاة العوائد",
+  "simulation.returns": "العوائد",
+  "simulation.volatilityModel": "العائد المتوقع ± التذبذب",
+  "simulation.historical": "إعادة العوائد التاريخية",
+  "simulation.historicalHelp":
+    "يُختار عائد كل سنة عشوائيًا من السنوات الميلادية {years} لمؤشر {series} (مؤشر أسعار من دون توزيعات الأرباح).",
+  "simulation.volatility": "التذبذب السنوي",
+  "simulation.paths": "عدد المسارات المحاكاة",
+  "simulation.outcome": "النتيجة عند الاستحقاق",
+  "simulation.p10": "متشائم (المئين العاشر)",
+  "simulation.p50": "الوسيط",
+  "simulation.p90": "متفائل (المئين التسعون)",
+  "simulation.running": "جارٍ إجراء المحاكاة…",
+  "solver.netPosition": "صافي المركز المالي",
+  "solver.maturity": "قيمة الاستثمار عند الاستحقاق",
+  "solver.corpus": "حصيلة الاستثمار حسب السنة",
+  "solver.payment": "القسط الشهري",
+  "solver.totalInterest": "إجمالي الفائدة",
+  "solver.sipAmount": "الاستثمار الشهري",
+  "solver.sipTenure": "مدة الاستثمار",
+  "solver.loanAmount": "مبلغ القرض",
+  "solver.tenure": "مدة القرض",
+  "solver.interestRate": "سعر الفائدة",
+  "solver.title": "أداة تحقيق الأهداف",
+  "solver.goal": "الهدف",
+  "solver.year": "في نهاية السنة",
+  "solver.target": "القيمة المستهدفة ({currency})",
+  "solver.useInterest": "استخدام إجمالي فائدة القرض",
+  "solver.variable": "بتغيير",
+  "solver.keepRest": "يبقى كل ما عدا ذلك في {name} كما هو.",
+  "solver.solve": "احسب",
+  "solver.answer": "النتيجة",
+  "solver.solved": "{metric}: {amount}، كما هو مستهدف.",
+  "solver.unreachable": "لا يمكن بلوغ الهدف؛ هذه أقرب قيمة ممكنة ({amount}).",
+  "solver.apply": "تطبيق على {name}",
+  "solver.applyAsNew": "إضافة كسيناريو جديد",
+  "solver.empty": "اختر قيمة مستهدفة والمُدخل المراد حسابه.",
+  "solver.applied": "تم تحديث {name}",
+  "compare.title": "مقارنة السيناريوهات",
+  "compare.baseline": "الأساس",
+  "compare.metric": "المؤشر",
+  "compare.best": "الأفضل في الصف",
+  "compare.ranking": "الترتيب العام",
+  "compare.criteria": "الترتيب حسب",
+  "compare.weight": "الوزن",
+  "compare.score": "النتيجة {score}",
+  "compare.noCriteria": "اختر معيارًا واحدًا على الأقل لترتيب السيناريوهات.",
+  "compare.higherBetter": "الأعلى أفضل",
+  "compare.lowerBetter": "الأقل أفضل",
+  "metric.emi": "القسط الشهري",
+  "metric.totalInterest": "إجمالي الفائدة",
+  "metric.totalPayment": "إجمالي مدفوعات القرض",
+  "metric.sipMaturityValue": "قيمة الاستثمار عند الاستحقاق",
+  "metric.sipTotalInvestment": "إجمالي المبلغ المستثمر",
+  "metric.sipReturns": "عوائد الاستثمار",
+  "metric.netPosition": "صافي المركز المالي",
+  "metric.earlyClosureSavings": "وفورات السداد المبكر",
+  "metric.monthsSaved": "الأشهر الموفَّرة",
+  "metric.sipPostTaxMaturityValue": "قيمة الاستثمار بعد الضريبة",
+  "metric.sipRedemptionCost": "الضريبة ورسوم الخروج عند الاسترداد",
+  "metric.taxSaved": "الضريبة الموفَّرة",
+  "metric.postTaxEffectiveRate": "سعر الفائدة بعد الضريبة",
+  "metric.postTaxNetPosition": "صافي المركز بعد المزايا الضريبية",
+  "unit.years": {
+    one: "سنة واحدة",
+    two: "سنتان",
+    few: "{count} سنوات",
+    other: "{count} سنة",
+  },
+  "tax.title": "المزايا الضريبية",
+  "tax.toggle": "احتساب المزايا الضريبية",
+  "tax.regime": "النظام الضريبي",
+  "tax.oldRegime": "النظام القديم",
+  "tax.newRegime": "النظام الجديد",
+  "tax.newRegimeHelp":
+    "لا يسمح النظام الجديد بخصم 24(b) أو 80C على مسكن يشغله مالكه.",
+  "tax.slab": "الشريحة الضريبية",
+  "tax.slabHelp": "معدلك الحدّي، ويُضاف إليه رسم إضافي بنسبة 4%.",
+  "tax.property": "العقار",
+  "tax.selfOccupied": "يشغله المالك",
+  "tax.letOut": "مؤجَّر",
+  "tax.rent": "الإيجار السنوي ({currency})",
+  "tax.coBorrower": "حصة المقترض المشارك",
+  "tax.coBorrowerHelp":
+    "يطالب كل مالك مشارك بحصته حتى {interest} من الفائدة و{principal} من أصل القرض سنويًا.",
+  "tax.preConstruction": "فائدة ما قبل الإنشاء ({currency})",
+  "tax.preConstructionHelp":
+    "تُخصم على خمسة أجزاء متساوية بدءًا من السنة الأولى.",
+  "tax.byYear": "الخصومات حسب سنة القرض",
+  "tax.year": "السنة",
+  "tax.saved": "الضريبة الموفَّرة",
+  "valuation.basis": "عرض الأرقام",
+  "valuation.basisHelp":
+    "تُخصم القيم الحقيقية كل مبلغ مستقبلي إلى قيمته اليوم باستخدام معدل التضخم في السيناريو",
+  "valuation.nominal": "اسمية",
+  "valuation.real": "حقيقية (بقيمة {currency} اليوم)",
+  "valuation.inflation": "التضخم المتوقع",
+  "field.required": "أدخل قيمة",
+  "field.number": "أدخل رقمًا مثل {example}",
+  "field.min": "لا يقل عن {value}",
+  "field.max": "لا يزيد على {value}",
+  "plans.title": "الخطط المحفوظة",
+  "plans.description":
+    "احفظ السيناريوهات الحالية كخطة باسم، أو حمّل خطة حفظتها من قبل. تُحفظ الخطط على الخادم، لذا تتوفر على جميع أجهزتك.",
+  "plans.signedOut": "سجّل الدخول لحفظ الخطط والاطلاع على ما حفظته من قبل.",
+  "plans.login": "تسجيل الدخول",
+  "plans.signup": "إنشاء حساب",
+  "plans.signedIn": "مسجّل الدخول باسم {email}",
+  "plans.households": "الأسر",
+  "plans.logout": "تسجيل الخروج",
+  "plans.name": "اسم الخطة",
+  "plans.namePlaceholder": "اسم الخطة، مثل عائلة أحمد",
+  "plans.defaultName": "الخطة {n}",
+  "plans.save": "حفظ",
+  "plans.savingTo": "تُحفظ الخطط الجديدة في {name}.",
+  "plans.loading": "جارٍ تحميل الخطط…",
+  "plans.error": "تعذّر الوصول إلى الخادم. ستظهر خططك المحفوظة هنا عند عودته.",
+  "plans.empty": "لا توجد خطط محفوظة بعد.",
+  "plans.summary": {
+    one: "سيناريو واحد · حُفظت في {date}",
+    two: "سيناريوهان · حُفظت في {date}",
+    few: "{count} سيناريوهات · حُفظت في {date}",
+    other: "{count} سيناريو · حُفظت في {date}",
+  },
+  "plans.rename": "إعادة تسمية الخطة",
+  "plans.load": "تحميل",
+  "plans.overwrite": "حفظ السيناريوهات الحالية في {name}",
+  "plans.overwriteHint": "حفظ السيناريوهات الحالية في هذه الخطة",
+  "plans.duplicate": "نسخ {name}",
+  "plans.delete": "حذف {name}",
+  "plans.moved": {
+    one: "نُقلت خطة محفوظة واحدة من هذا المتصفح",
+    two: "نُقلت خطتان محفوظتان من هذا المتصفح",
+    few: "نُقلت {count} خطط محفوظة من هذا المتصفح",
+    other: "نُقلت {count} خطة محفوظة من هذا المتصفح",
+  },
+  "plans.moveFailed": {
+    one: "تعذّر نقل خطة محفوظة واحدة من هذا المتصفح",
+    two: "تعذّر نقل خطتين محفوظتين من هذا المتصفح",
+    few: "تعذّر نقل {count} خطط محفوظة من هذا المتصفح",
+    other: "تعذّر نقل {count} خطة محفوظة من هذا المتصفح",
+  },
+  "plans.moveFailedHelp":
+    "ستُعاد المحاولة في المرة القادمة التي تفتح فيها التطبيق.",
+  "plans.conflict": "عُدّلت هذه الخطة من جهاز آخر",
+  "plans.conflictHelp": "تُعرض أحدث نسخة. أعد إجراء التعديل.",
+  "plans.gone": "لم تعد هذه الخطة موجودة",
+  "plans.saveFailed": "تعذّر حفظ التعديل",
+  "household.existing": "أقساط القروض الحالية",
+  "household.list": "الأسر",
+  "household.title": "الأسرة",
+  "household.calculator": "الحاسبة",
+  "household.clients": "العملاء",
+  "household.conflict": "عُدّلت هذه الأسرة من جهاز آخر",
+  "household.conflictHelp": "تُعرض أحدث نسخة. أعد إجراء التعديل.",
+  "household.gone": "لم تعد هذه الأسرة موجودة",
+  "household.saveFailed": "تعذّر حفظ التعديل",
+  "household.conservative": "متحفّظ",
+  "household.moderate": "معتدل",
+  "household.aggressive": "جريء",
+  "household.enterAmount": "أدخل مبلغًا",
+  "household.negative": "لا يمكن أن يكون سالبًا",
+  "household.enterName": "أدخل اسمًا",
+  "household.name": "اسم الأسرة",
+  "household.risk": "مستوى المخاطرة",
+  "household.riskHelp":
+    "تفترض السيناريوهات الجديدة عائدًا سنويًا على الاستثمار قدره {rate}.",
+  "household.incomes": "الدخل الشهري",
+  "household.source": "المصدر",
+  "household.sourcePlaceholder": "الراتب",
+  "household.netPerMonth": "الصافي شهريًا",
+  "household.removeIncome": "إزالة الدخل",
+  "household.addIncome": "إضافة دخل",
+  "household.loans": "القروض الحالية",
+  "household.loan": "القرض",
+  "household.loanPlaceholder": "قرض سيارة",
+  "household.outstanding": "الرصيد المتبقي",
+  "household.removeLoan": "إزالة القرض",
+  "household.addLoan": "إضافة قرض",
+  "household.save": "حفظ الأسرة",
+  "household.income": "الدخل",
+  "household.perMonth": "/شهريًا",
+  "household.riskReturn": "{risk} · عائد {rate}",
+  "household.apply": "استخدام أرقام الأسرة",
+  "household.newName": "اسم الأسرة الجديدة",
+  "household.add": "إضافة أسرة",
+  "household.loadFailed": "تعذّر تحميل الأسر. حاول مرة أخرى بعد قليل.",
+  "household.empty":
+    "لا توجد أسر بعد. أضف أسرة أعلاه لتخطيط السيناريوهات حول دخلها وقروضها الحالية.",
+  "household.nameColumn": "الاسم",
+  "household.monthlyIncome": "الدخل الشهري",
+  "household.plans": "الخطط",
+  "household.notFound": "هذه الأسرة غير موجودة أو حُذفت.",
+  "household.delete": "حذف الأسرة",
+  "household.deleteTitle": "حذف {name}؟",
+  "household.deleteHelp": "تُحفظ خططها ولكنها لن تعود تابعة لأي أسرة.",
+  "household.cancel": "إلغاء",
+  "household.confirmDelete": "حذف",
+  "household.outstandingLoans": "القروض المتبقية",
+  "household.profile": "الملف",
+  "household.profileHelp":
+    "تبدأ السيناريوهات المخططة لهذه الأسرة من هذه الأرقام.",
+  "household.plansHelp": "مجموعات السيناريوهات المحفوظة لهذه الأسرة.",
+  "household.noPlans": "لا توجد خطط بعد. ابدأ خطة جديدة أو أرفق خطة محفوظة.",
+  "household.planSummary": {
+    one: "سيناريو واحد · حُدّثت في {date}",
+    two: "سيناريوهان · حُدّثت في {date}",
+    few: "{count} سيناريوهات · حُدّثت في {date}",
+    other: "{count} سيناريو · حُدّثت في {date}",
+  },
+  "household.open": "فتح",
+  "household.detach": "فصل {name}",
+  "household.attach": "إرفاق خطة محفوظة…",
+  "export.button": "تصدير",
+  "export.report": "إنشاء تقرير (PDF)",
+  "export.schedulesFor": "جداول {name}",
+  "export.all": {
+    two: "السيناريوهان كلاهما",
+    few: "جميع السيناريوهات الـ{count}",
+    many: "جميع السيناريوهات الـ{count}",
+    other: "جميع السيناريوهات الـ{count}",
+  },
+  "taxResults.saved": "الضريبة الموفَّرة",
+  "taxResults.savedHelp":
+    "ضريبة الدخل الموفَّرة من خصم فوائد القرض العقاري وأصله",
+  "taxResults.savedDetail": "على مدى عمر القرض",
+  "taxResults.rate": "سعر الفائدة بعد الضريبة",
+  "taxResults.rateHelp": "تكلفة القرض بعد استرداد خصم الفائدة كل سنة",
+  "taxResults.rateDetail": "مقابل {rate} في العقد",
+  "taxResults.net": "صافي المركز بعد الضريبة",
+  "taxResults.netHelp": "صافي المركز المالي مع إضافة الضريبة الموفَّرة",
+  "taxResults.netDetail": "{amount} قبل الضريبة",
+  "shareField.loanAmount": "مبلغ القرض",
+  "shareField.interestRate": "سعر الفائدة",
+  "shareField.tenure": "مدة القرض",
+  "shareField.sipAmount": "الاستثمار الشهري",
+  "shareField.sipReturnRate": "عائد الاستثمار",
+  "shareField.sipTenure": "مدة الاستثمار",
+  "shareField.inflationRate": "معدل التضخم",
+  "shareField.prepayment": "خطة السداد المبكر",
+  "shareField.floatingRate": "خطة الفائدة المتغيرة",
+  "shareField.stepUp": "الزيادة السنوية للاستثمار",
+  "shareField.capitalGains": "ملف ضريبة الأرباح الرأسمالية",
+  "shareField.tax": "الملف الضريبي",
+  "shareField.affordability": "فحص الأهلية",
+  "shareLink.notFound": "الرابط غير موجود",
+  "shareLink.notFoundHelp":
+    "انتهت صلاحية رابط المشاركة هذا أو لم يكن موجودًا أصلًا",
+  "shareLink.open": "فتح الحاسبة",
+  "shareLink.loading": "جارٍ تحميل الخطة المشتركة…",
+  "auth.login": "تسجيل الدخول",
+  "auth.loginDescription": "سجّل الدخول لعرض الخطط التي حفظتها.",
+  "auth.noAccount": "ليس لديك حساب بعد؟",
+  "auth.signup": "إنشاء حساب",
+  "auth.signupTitle": "إنشاء حساب جديد",
+  "auth.signupDescription": "احفظ خطط عملائك وافتحها من أي جهاز.",
+  "auth.haveAccount": "لديك حساب بالفعل؟",
+  "auth.email": "البريد الإلكتروني",
+  "auth.password": "كلمة المرور",
+  "auth.passwordHelp": "8 أحرف على الأقل.",
+  "auth.invalidEmail": "أدخل بريدًا إلكترونيًا صالحًا",
+  "auth.shortPassword": "استخدم 8 أحرف على الأقل",
+  "auth.enterPassword": "أدخل كلمة المرور",
+  "auth.invalid": "تحقّق من البريد الإلكتروني وكلمة المرور.",
+  "auth.incorrect": "البريد الإلكتروني أو كلمة المرور غير صحيحة",
+  "auth.emailTaken": "يوجد حساب بهذا البريد الإلكتروني بالفعل",
+  "auth.unreachable": "تعذّر الوصول إلى الخادم. حاول مرة أخرى بعد قليل.",
+};
+
+export type Translate = (
+  key: MessageKey,
+  values?: Record<string, string | number>,
+) => string;
+
+/** Catalogs for a locale, most specific first */
+function catalogsFor(locale: LocaleSettings): Catalog[] {
+  const base: Catalog[] = locale.vocabulary === "india" ? [enIndia, en] : [en];
+  return locale.language === "ar" ? [ar, ...base] : base;
+}
+
+/**
+ * Look up a message for a locale and fill in its placeholders. A `count`
+ * value picks the plural form.
+ */
+export function translate(
+  locale: LocaleSettings,
+  key: MessageKey,
+  values: Record<string, string | number> = {},
+): string {
+  const message = catalogsFor(locale)
+    .map((catalog) => catalog[key])
+    .find((found) => found !== undefined);
+  const text =
+    typeof message === "string"
+      ? message
+      : typeof values.count === "number"
+        ? (message[new Intl.PluralRules(locale.id).select(values.count)] ??
+          message.other)
+        : message.other;
+  return text.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    name in values ? String(values[name]) : placeholder,
+  );
+}
+
+const translators = new WeakMap<LocaleSettings, Translate>();
+
+/** A translate function bound to one locale, stable across renders */
+export function translator(locale: LocaleSettings): Translate {
+  if (!translators.has(locale)) {
+    translators.set(locale, (key, values) => translate(locale, key, values));
+  }
+  return translators.get(locale);
+}
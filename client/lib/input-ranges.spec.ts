@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_INPUT_RANGES, resolveInputRanges } from "./input-ranges";
+
+describe("resolveInputRanges", () => {
+  it("should use the defaults without overrides", () => {
+    expect(resolveInputRanges(undefined)).toEqual(DEFAULT_INPUT_RANGES);
+  });
+
+  it("should merge partial overrides from JSON", () => {
+    const ranges = resolveInputRanges(
+      '{"loanAmount":{"max":500000000},"interestRate":{"step":0.25}}',
+    );
+    expect(ranges.loanAmount).toEqual({
+      ...DEFAULT_INPUT_RANGES.loanAmount,
+      max: 500000000,
+    });
+    expect(ranges.interestRate.step).toBe(0.25);
+    expect(ranges.tenure).toBe(DEFAULT_INPUT_RANGES.tenure);
+  });
+
+  it("should clamp overrides to the engine's limits", () => {
+    const ranges = resolveInputRanges({
+      interestRate: { min: -5, max: 80 },
+    });
+    expect(ranges.interestRate).toMatchObject({ min: 0, max: 50 });
+  });
+
+  it("should keep the defaults for invalid overrides", () => {
+    expect(resolveInputRanges("{not json")).toEqual(DEFAULT_INPUT_RANGES);
+    expect(resolveInputRanges({ loanRate: { max: 5 } })).toEqual(
+      DEFAULT_INPUT_RANGES,
+    );
+
+    const inverted = resolveInputRanges({ tenure: { min: 30, max: 10 } });
+    expect(inverted.tenure).toBe(DEFAULT_INPUT_RANGES.tenure);
+  });
+});
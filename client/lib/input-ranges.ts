@@ -0,0 +1,93 @@
+import { z } from "zod";
+import { INPUT_LIMITS } from "@shared/schemas";
+
+/**
+ * Slider bounds and steps for every core input. Each locale adjusts the
+ * defaults for its currency (see locale.ts), and a deployment can override
+ * any of them by setting VITE_INPUT_RANGES to a JSON object at build time,
+ * e.g. `{"loanAmount":{"max":250000000}}`; overrides are kept inside the
+ * limits the finance engine accepts.
+ */
+export type RangeKey = keyof typeof INPUT_LIMITS;
+
+export interface InputRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const DEFAULT_INPUT_RANGES: Record<RangeKey, InputRange> = {
+  loanAmount: { min: 100000, max: 100000000, step: 100000 },
+  interestRate: { min: 0, max: 20, step: 0.05 },
+  tenure: { min: 1, max: 40, step: 1 },
+  sipAmount: { min: 500, max: 1000000, step: 500 },
+  sipReturnRate: { min: 0, max: 30, step: 0.5 },
+  sipTenure: { min: 1, max: 40, step: 1 },
+  inflationRate: { min: 0, max: 15, step: 0.5 },
+};
+
+const rangeOverrideSchema = z
+  .object({
+    min: z.number().finite(),
+    max: z.number().finite(),
+    step: z.number().positive(),
+  })
+  .partial();
+
+const overridesSchema = z
+  .object(
+    Object.fromEntries(
+      Object.keys(DEFAULT_INPUT_RANGES).map((key) => [
+        key,
+        rangeOverrideSchema.optional(),
+      ]),
+    ),
+  )
+  .strict();
+
+/**
+ * Merge overrides (JSON text or an object) over the base ranges, clamped to
+ * the engine's limits. Overrides that don't parse or validate are ignored,
+ * and a range whose min isn't below its max keeps the base bounds.
+ */
+export function resolveInputRanges(
+  overrides: unknown,
+  base: Record<RangeKey, InputRange> = DEFAULT_INPUT_RANGES,
+): Record<RangeKey, InputRange> {
+  const ranges = { ...base };
+  if (overrides === undefined || overrides === "") return ranges;
+
+  let raw = overrides;
+  if (typeof raw === "string") {
+    try {
+      raw = JSON.parse(raw);
+    } catch {
+      return ranges;
+    }
+  }
+  const parsed = overridesSchema.safeParse(raw);
+  if (!parsed.success) return ranges;
+
+  for (const [key, override] of Object.entries(parsed.data)) {
+    const name = key as RangeKey;
+    const limits = INPUT_LIMITS[name];
+    const merged = { ...ranges[name], ...override };
+    const min = Math.max(merged.min, limits.min);
+    const max = Math.min(merged.max, limits.max);
+    if (min < max) ranges[name] = { min, max, step: merged.step };
+  }
+  return ranges;
+}
+
+/**
+ * Ranges for a locale: its own bounds over the defaults, with the
+ * deployment's VITE_INPUT_RANGES applied on top
+ */
+export function inputRangesFor(
+  localeRanges: Partial<Record<RangeKey, InputRange>>,
+): Record<RangeKey, InputRange> {
+  return resolveInputRanges(import.meta.env.VITE_INPUT_RANGES, {
+    ...DEFAULT_INPUT_RANGES,
+    ...localeRanges,
+  });
+}
@@ -0,0 +1,154 @@
+import type { ScenarioInputs } from "@shared/finance";
+import { inputRangesFor, type InputRange, type RangeKey } from "./input-ranges";
+import { DEFAULT_INPUTS } from "./scenario";
+
+/**
+ * Regional settings: number and currency formatting, the vocabulary used in
+ * the copy, text direction, slider ranges and the values new scenarios start
+ * from. The active locale lives in a small module-level store so plain
+ * formatters (format.ts) and components (useLocale) read the same value.
+ */
+export type LocaleId = "en-IN" | "en-US" | "en-GB" | "en-AE" | "ar-AE";
+
+export type Language = "en" | "ar";
+
+export interface LocaleSettings {
+  id: LocaleId;
+  /** Name shown in the picker, in the locale's own language */
+  label: string;
+  language: Language;
+  /** ISO 4217 code */
+  currency: string;
+  direction: "ltr" | "rtl";
+  /** Lakh/Crore ("₹25L") or thousand/million ("$250K") short amounts */
+  shorthand: "indian" | "western";
+  /** Indian product names (SIP, EMI) or generic ones */
+  vocabulary: "india" | "global";
+  /** Slider bounds that differ from the defaults, in this currency */
+  ranges: Partial<Record<RangeKey, InputRange>>;
+  /** What a new scenario starts from */
+  defaults: ScenarioInputs;
+}
+
+const DIRHAM_RANGES: LocaleSettings["ranges"] = {
+  loanAmount: { min: 50000, max: 20000000, step: 50000 },
+  interestRate: { min: 0, max: 15, step: 0.05 },
+  sipAmount: { min: 100, max: 100000, step: 100 },
+};
+
+const DIRHAM_DEFAULTS: ScenarioInputs = {
+  loan: { loanAmount: 1500000, interestRate: 4.5, tenure: 25 },
+  sip: { sipAmount: 5000, sipReturnRate: 8, sipTenure: 25 },
+  inflationRate: 2.5,
+};
+
+export const LOCALES: Record<LocaleId, LocaleSettings> = {
+  "en-IN": {
+    id: "en-IN",
+    label: "India (₹)",
+    language: "en",
+    currency: "INR",
+    direction: "ltr",
+    shorthand: "indian",
+    vocabulary: "india",
+    ranges: {},
+    defaults: DEFAULT_INPUTS,
+  },
+  "en-US": {
+    id: "en-US",
+    label: "United States ($)",
+    language: "en",
+    currency: "USD",
+    direction: "ltr",
+    shorthand: "western",
+    vocabulary: "global",
+    ranges: {
+      loanAmount: { min: 10000, max: 5000000, step: 5000 },
+      interestRate: { min: 0, max: 15, step: 0.05 },
+      sipAmount: { min: 25, max: 50000, step: 25 },
+    },
+    defaults: {
+      loan: { loanAmount: 400000, interestRate: 6.5, tenure: 30 },
+      sip: { sipAmount: 1000, sipReturnRate: 7, sipTenure: 30 },
+      inflationRate: 3,
+    },
+  },
+  "en-GB": {
+    id: "en-GB",
+    label: "United Kingdom (£)",
+    language: "en",
+    currency: "GBP",
+    direction: "ltr",
+    shorthand: "western",
+    vocabulary: "global",
+    ranges: {
+      loanAmount: { min: 10000, max: 5000000, step: 5000 },
+      interestRate: { min: 0, max: 15, step: 0.05 },
+      sipAmount: { min: 25, max: 20000, step: 25 },
+    },
+    defaults: {
+      loan: { loanAmount: 250000, interestRate: 4.5, tenure: 25 },
+      sip: { sipAmount: 500, sipReturnRate: 6, sipTenure: 25 },
+      inflationRate: 2.5,
+    },
+  },
+  "en-AE": {
+    id: "en-AE",
+    label: "UAE (AED)",
+    language: "en",
+    currency: "AED",
+    direction: "ltr",
+    shorthand: "western",
+    vocabulary: "global",
+    ranges: DIRHAM_RANGES,
+    defaults: DIRHAM_DEFAULTS,
+  },
+  "ar-AE": {
+    id: "ar-AE",
+    label: "الإمارات (د.إ)",
+    language: "ar",
+    currency: "AED",
+    direction: "rtl",
+    shorthand: "western",
+    vocabulary: "global",
+    ranges: DIRHAM_RANGES,
+    defaults: DIRHAM_DEFAULTS,
+  },
+};
+
+export const DEFAULT_LOCALE: LocaleId = "en-IN";
+
+export const isLocaleId = (value: unknown): value is LocaleId =>
+  typeof value === "string" && value in LOCALES;
+
+let active = LOCALES[DEFAULT_LOCALE];
+const listeners = new Set<() => void>();
+
+export const getLocale = () => active;
+
+/** Switch the active locale; unknown ids fall back to the default */
+export function setLocale(id: LocaleId) {
+  const next = LOCALES[isLocaleId(id) ? id : DEFAULT_LOCALE];
+  if (next === active) return;
+  active = next;
+  listeners.forEach((listener) => listener());
+}
+
+export function subscribeLocale(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+const rangeCache = new Map<LocaleId, Record<RangeKey, InputRange>>();
+
+/** Slider ranges for a locale, deployment overrides included */
+export function localeRanges(
+  locale: LocaleSettings,
+): Record<RangeKey, InputRange> {
+  if (!rangeCache.has(locale.id)) {
+    rangeCache.set(locale.id, inputRangesFor(locale.ranges));
+  }
+  return rangeCache.get(locale.id);
+}
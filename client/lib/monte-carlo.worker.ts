@@ -0,0 +1,29 @@
+import {
+  simulateSIP,
+  type MonteCarloOptions,
+  type MonteCarloResult,
+  type SIPData,
+} from "@shared/finance";
+
+/**
+ * Runs SIP simulations off the main thread so the sliders stay responsive
+ */
+export interface SimulationRequest {
+  id: number;
+  sip: SIPData;
+  options: MonteCarloOptions;
+}
+
+export interface SimulationResponse {
+  id: number;
+  result: MonteCarloResult;
+}
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const { id, sip, options } = event.data;
+  const response: SimulationResponse = {
+    id,
+    result: simulateSIP(sip, options),
+  };
+  self.postMessage(response);
+};
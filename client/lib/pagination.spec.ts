@@ -0,0 +1,15 @@
+import { describe, it, expect } from "vitest";
+import { pageItems } from "./pagination";
+
+describe("pageItems", () => {
+  it("should list every page when there are only a few", () => {
+    expect(pageItems(0, 3)).toEqual([0, 1, 2]);
+    expect(pageItems(0, 1)).toEqual([0]);
+  });
+
+  it("should collapse distant pages into ellipses", () => {
+    expect(pageItems(0, 10)).toEqual([0, 1, "ellipsis", 9]);
+    expect(pageItems(5, 10)).toEqual([0, "ellipsis", 4, 5, 6, "ellipsis", 9]);
+    expect(pageItems(9, 10)).toEqual([0, "ellipsis", 8, 9]);
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * Page links to show for a pager: the first and last pages, the current page
+ * and its neighbours, with "ellipsis" standing in for the gaps. Pages are
+ * zero-based.
+ */
+export function pageItems(
+  current: number,
+  total: number,
+): (number | "ellipsis")[] {
+  const items: (number | "ellipsis")[] = [];
+  for (let page = 0; page < total; page++) {
+    const show =
+      page === 0 || page === total - 1 || Math.abs(page - current) <= 1;
+    if (show) items.push(page);
+    else if (items[items.length - 1] !== "ellipsis") items.push("ellipsis");
+  }
+  return items;
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import {
+  cappedLoanAmount,
+  changedFields,
+  DEFAULT_INPUTS,
+  moveScenario,
+  nextScenarioId,
+  withUniqueIds,
+  type Scenario,
+} from "./scenario";
+
+const scenario = (id: number, name = `S${id}`): Scenario => ({
+  ...DEFAULT_INPUTS,
+  id,
+  name,
+  color: "#3B82F6",
+});
+
+describe("cappedLoanAmount", () => {
+  const affordability = {
+    monthlyIncome: 200000,
+    existingEmis: 0,
+    foirLimit: 50,
+    maxLtv: 80,
+    propertyValue: 10000000,
+    capLoan: true,
+  };
+
+  it("should bring the loan down to the eligible amount", () => {
+    const capped = cappedLoanAmount(
+      {
+        ...DEFAULT_INPUTS,
+        loan: { ...DEFAULT_INPUTS.loan, loanAmount: 50000000 },
+        affordability,
+      },
+      100000,
+    );
+    expect(capped).toBeLessThan(50000000);
+    expect(capped).toBeGreaterThan(100000);
+  });
+
+  it("should not go below the slider minimum when nothing is eligible", () => {
+    const inputs = {
+      ...DEFAULT_INPUTS,
+      affordability: { ...affordability, monthlyIncome: 0 },
+    };
+    expect(cappedLoanAmount(inputs, 100000)).toBe(100000);
+  });
+
+  it("should leave the loan alone without the cap", () => {
+    const inputs = {
+      ...DEFAULT_INPUTS,
+      affordability: { ...affordability, monthlyIncome: 0, capLoan: false },
+    };
+    expect(cappedLoanAmount(inputs, 100000)).toBe(
+      DEFAULT_INPUTS.loan.loanAmount,
+    );
+  });
+});
+
+describe("nextScenarioId", () => {
+  it("should follow the highest id, not the count", () => {
+    expect(nextScenarioId([])).toBe(1);
+    expect(nextScenarioId([scenario(1), scenario(4)])).toBe(5);
+  });
+});
+
+describe("withUniqueIds", () => {
+  it("should renumber repeated ids and keep the first", () => {
+    const ids = withUniqueIds([scenario(1), scenario(2), scenario(1)]).map(
+      (s) => s.id,
+    );
+    expect(ids).toEqual([1, 2, 3]);
+  });
+});
+
+describe("moveScenario", () => {
+  const list = [scenario(1), scenario(2), scenario(3)];
+
+  it("should move a scenario in either direction", () => {
+    expect(moveScenario(list, 0, 2).map((s) => s.id)).toEqual([2, 3, 1]);
+    expect(moveScenario(list, 2, 0).map((s) => s.id)).toEqual([3, 1, 2]);
+  });
+
+  it("should leave the list alone for out-of-range moves", () => {
+    expect(moveScenario(list, 0, 3)).toBe(list);
+    expect(moveScenario(list, -1, 1)).toBe(list);
+  });
+});
+
+describe("changedFields", () => {
+  it("should name the nested fields a slider changes", () => {
+    const before = scenario(1);
+    expect(
+      changedFields(before, {
+        loan: { ...before.loan, loanAmount: 1 },
+        name: before.name,
+      }),
+    ).toEqual(["loan.loanAmount"]);
+  });
+
+  it("should report other fields by name", () => {
+    expect(
+      changedFields(scenario(1), { name: "New", inflationRate: 6 }),
+    ).toEqual(["name"]);
+  });
+});
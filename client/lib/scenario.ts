@@ -0,0 +1,87 @@
+import { calculateAffordability, type ScenarioInputs } from "@shared/finance";
+
+export interface Scenario extends ScenarioInputs {
+  id: number;
+  name: string;
+  color: string;
+}
+
+/**
+ * Calculation inputs every new scenario starts from
+ */
+export const DEFAULT_INPUTS: ScenarioInputs = {
+  loan: { loanAmount: 5000000, interestRate: 8.5, tenure: 20 },
+  sip: { sipAmount: 25000, sipReturnRate: 12, sipTenure: 20 },
+  inflationRate: 6,
+};
+
+/**
+ * The loan amount with the affordability cap applied when it's switched on:
+ * no more than the eligible loan, but never below `min`, the smallest amount
+ * the loan slider (and the API) accept
+ */
+export function cappedLoanAmount(inputs: ScenarioInputs, min: number): number {
+  const { affordability, loan } = inputs;
+  if (!affordability?.capLoan) return loan.loanAmount;
+  const { maxEligibleLoan } = calculateAffordability(affordability, loan);
+  return Math.max(min, Math.min(loan.loanAmount, maxEligibleLoan));
+}
+
+/** An id no scenario in the list uses yet */
+export const nextScenarioId = (scenarios: Scenario[]) =>
+  scenarios.reduce((max, scenario) => Math.max(max, scenario.id), 0) + 1;
+
+/**
+ * Give every scenario whose id repeats an earlier one a fresh id. Lists
+ * saved before ids were kept unique can contain duplicates.
+ */
+export function withUniqueIds(scenarios: Scenario[]): Scenario[] {
+  const seen = new Set<number>();
+  let next = nextScenarioId(scenarios);
+  return scenarios.map((scenario) => {
+    if (!seen.has(scenario.id)) {
+      seen.add(scenario.id);
+      return scenario;
+    }
+    return { ...scenario, id: next++ };
+  });
+}
+
+/** The list with the scenario at `from` moved to position `to` */
+export function moveScenario(
+  scenarios: Scenario[],
+  from: number,
+  to: number,
+): Scenario[] {
+  if (from === to || !scenarios[from] || to < 0 || to >= scenarios.length) {
+    return scenarios;
+  }
+  const moved = [...scenarios];
+  const [scenario] = moved.splice(from, 1);
+  moved.splice(to, 0, scenario);
+  return moved;
+}
+
+/**
+ * Which fields an update actually changes, as paths such as
+ * "loan.loanAmount". Nested loan and investment inputs are compared field by
+ * field; anything else counts as changed when it's a different value.
+ */
+export function changedFields(
+  scenario: Scenario,
+  updates: Partial<Scenario>,
+): string[] {
+  const nested = (key: "loan" | "sip", before: object, after: object) =>
+    Object.keys({ ...before, ...after })
+      .filter((field) => before[field] !== after[field])
+      .map((field) => `${key}.${field}`);
+
+  return Object.entries(updates).flatMap(([key, value]) => {
+    const before = scenario[key as keyof Scenario];
+    if (value === before) return [];
+    if ((key === "loan" || key === "sip") && before && value) {
+      return nested(key, before as object, value as object);
+    }
+    return [key];
+  });
+}
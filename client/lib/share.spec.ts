@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildShareHash,
+  decodeScenarios,
+  describeShareIssue,
+  encodeScenarios,
+  readShareHash,
+} from "./share";
+import { translator } from "./i18n";
+import { LOCALES } from "./locale";
+import { DEFAULT_INPUTS, type Scenario } from "./scenario";
+
+const scenario = (id: number, overrides: Partial<Scenario> = {}): Scenario => ({
+  id,
+  name: `Scenario ${id}`,
+  color: "#3B82F6",
+  ...DEFAULT_INPUTS,
+  ...overrides,
+});
+
+const encodeRaw = (payload: unknown) =>
+  btoa(JSON.stringify(payload))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+describe("shared links", () => {
+  it("should round-trip a scenario set through the URL hash", () => {
+    const scenarios = [
+      scenario(1),
+      scenario(2, {
+        name: "Prepay ₹ plan",
+        loan: {
+          ...DEFAULT_INPUTS.loan,
+          prepayment: {
+            strategy: "reduce-emi",
+            events: [{ kind: "lump-sum", month: 12, amount: 200000 }],
+          },
+        },
+        tax: {
+          regime: "old",
+          slabRate: 30,
+          propertyUse: "self-occupied",
+          coBorrowerShare: 50,
+        },
+      }),
+    ];
+    const hash = buildShareHash(encodeScenarios(scenarios, 2));
+    const decoded = decodeScenarios(readShareHash(hash));
+
+    expect(decoded.issues).toEqual([]);
+    expect(decoded.activeScenario).toBe(2);
+    expect(decoded.scenarios).toEqual(scenarios);
+  });
+
+  it("should clamp out-of-range values and report them", () => {
+    const decoded = decodeScenarios(
+      encodeRaw({
+        v: 1,
+        a: 0,
+        s: [
+          {
+            name: "Big",
+            loan: { loanAmount: 1e12, interestRate: -2, tenure: 20 },
+          },
+        ],
+      }),
+    );
+    expect(decoded.scenarios[0].loan.loanAmount).toBe(1e10);
+    expect(decoded.scenarios[0].loan.interestRate).toBe(0);
+    expect(decoded.issues).toContainEqual({
+      key: "share.clamped",
+      scenario: "Big",
+      field: "shareField.loanAmount",
+      value: 1e12,
+      clamped: 1e10,
+    });
+    // The missing SIP fields fall back to defaults
+    expect(decoded.scenarios[0].sip).toEqual(DEFAULT_INPUTS.sip);
+  });
+
+  it("should drop invalid nested plans instead of failing", () => {
+    const decoded = decodeScenarios(
+      encodeRaw({
+        v: 1,
+        a: 0,
+        s: [
+          {
+            ...DEFAULT_INPUTS,
+            sip: { ...DEFAULT_INPUTS.sip, stepUp: { kind: "x" } },
+          },
+        ],
+      }),
+    );
+    expect(decoded.scenarios[0].sip.stepUp).toBeUndefined();
+    expect(decoded.issues).toHaveLength(1);
+  });
+
+  it("should load every scenario in the link, with distinct ids", () => {
+    const decoded = decodeScenarios(
+      encodeRaw({ v: 1, a: 9, s: [{}, {}, {}, {}, {}] }),
+    );
+    expect(decoded.scenarios).toHaveLength(5);
+    expect(new Set(decoded.scenarios.map((s) => s.id)).size).toBe(5);
+    expect(decoded.activeScenario).toBe(1);
+  });
+
+  it("should return null for unreadable payloads", () => {
+    expect(decodeScenarios("%%%")).toBeNull();
+    expect(decodeScenarios(encodeRaw({ v: 1, s: [] }))).toBeNull();
+    expect(readShareHash("#other=1")).toBeNull();
+  });
+});
+
+describe("describeShareIssue", () => {
+  it("should describe a fix-up in the locale's words", () => {
+    const issue = {
+      key: "share.missing",
+      scenario: "Base",
+      field: "shareField.sipAmount",
+    } as const;
+    expect(describeShareIssue(translator(LOCALES["en-IN"]), issue)).toBe(
+      "Base: SIP amount was missing, using the default",
+    );
+    expect(describeShareIssue(translator(LOCALES["en-US"]), issue)).toBe(
+      "Base: monthly investment was missing, using the default",
+    );
+  });
+});
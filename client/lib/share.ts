@@ -0,0 +1,244 @@
+import type { ZodType } from "zod";
+import {
+  affordabilityProfileSchema,
+  capitalGainsProfileSchema,
+  floatingRatePlanSchema,
+  INPUT_LIMITS,
+  prepaymentPlanSchema,
+  stepUpSchema,
+  taxProfileSchema,
+} from "@shared/schemas";
+import { scenarioColor } from "@shared/palette";
+import type { MessageKey, Translate } from "./i18n";
+import { DEFAULT_INPUTS, type Scenario } from "./scenario";
+import { isObject } from "./utils";
+
+/**
+ * Shareable links: the full scenario set, serialized as base64url JSON into
+ * the `#s=` fragment of the URL. Decoding never throws; anything out of range
+ * is clamped and anything unreadable falls back to defaults, with an issue
+ * recorded for each fix-up.
+ */
+const HASH_PARAM = "s";
+const SHARE_VERSION = 1;
+
+interface SharePayload {
+  v: number;
+  /** Index of the active scenario */
+  a: number;
+  s: Omit<Scenario, "id">[];
+}
+
+/** A fix-up made while decoding, translated with describeShareIssue */
+export interface ShareIssue {
+  key: "share.missing" | "share.clamped" | "share.dropped";
+  scenario: string;
+  /** Message key naming the input or plan that was fixed */
+  field: MessageKey;
+  value?: number;
+  clamped?: number;
+}
+
+export interface DecodedShare {
+  scenarios: Scenario[];
+  activeScenario: number;
+  issues: ShareIssue[];
+}
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+export function encodeScenarios(
+  scenarios: Scenario[],
+  activeScenario: number,
+): string {
+  const payload: SharePayload = {
+    v: SHARE_VERSION,
+    a: Math.max(
+      0,
+      scenarios.findIndex((s) => s.id === activeScenario),
+    ),
+    s: scenarios.map(({ id, ...scenario }) => scenario),
+  };
+  return toBase64Url(JSON.stringify(payload));
+}
+
+const FIELD_LABELS: Record<keyof typeof INPUT_LIMITS, MessageKey> = {
+  loanAmount: "shareField.loanAmount",
+  interestRate: "shareField.interestRate",
+  tenure: "shareField.tenure",
+  sipAmount: "shareField.sipAmount",
+  sipReturnRate: "shareField.sipReturnRate",
+  sipTenure: "shareField.sipTenure",
+  inflationRate: "shareField.inflationRate",
+};
+
+export const describeShareIssue = (
+  t: Translate,
+  { key, field, ...values }: ShareIssue,
+) => t(key, { ...values, field: t(field) });
+
+function decodeScenario(
+  raw: unknown,
+  index: number,
+  issues: ShareIssue[],
+): Scenario {
+  const source = isObject(raw) ? raw : {};
+  const name =
+    typeof source.name === "string" && source.name.trim()
+      ? source.name.slice(0, 60)
+      : `Scenario ${index + 1}`;
+
+  const number = (
+    value: unknown,
+    key: keyof typeof INPUT_LIMITS,
+    fallback: number,
+  ) => {
+    const { min, max } = INPUT_LIMITS[key];
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      issues.push({
+        key: "share.missing",
+        scenario: name,
+        field: FIELD_LABELS[key],
+      });
+      return fallback;
+    }
+    const clamped = Math.min(Math.max(value, min), max);
+    if (clamped !== value) {
+      issues.push({
+        key: "share.clamped",
+        scenario: name,
+        field: FIELD_LABELS[key],
+        value,
+        clamped,
+      });
+    }
+    return clamped;
+  };
+
+  const optional = <T>(
+    value: unknown,
+    schema: ZodType<T>,
+    field: MessageKey,
+  ): T | undefined => {
+    if (value === undefined) return undefined;
+    const result = schema.safeParse(value);
+    if (result.success) return result.data;
+    issues.push({ key: "share.dropped", scenario: name, field });
+    return undefined;
+  };
+
+  const loan = isObject(source.loan) ? source.loan : {};
+  const sip = isObject(source.sip) ? source.sip : {};
+  const defaults = DEFAULT_INPUTS;
+
+  return {
+    id: index + 1,
+    name,
+    color:
+      typeof source.color === "string" && /^#[0-9a-f]{6}$/i.test(source.color)
+        ? source.color
+        : scenarioColor(index),
+    loan: {
+      loanAmount: number(
+        loan.loanAmount,
+        "loanAmount",
+        defaults.loan.loanAmount,
+      ),
+      interestRate: number(
+        loan.interestRate,
+        "interestRate",
+        defaults.loan.interestRate,
+      ),
+      tenure: number(loan.tenure, "tenure", defaults.loan.tenure),
+      prepayment: optional(
+        loan.prepayment,
+        prepaymentPlanSchema,
+        "shareField.prepayment",
+      ),
+      floatingRate: optional(
+        loan.floatingRate,
+        floatingRatePlanSchema,
+        "shareField.floatingRate",
+      ),
+    },
+    sip: {
+      sipAmount: number(sip.sipAmount, "sipAmount", defaults.sip.sipAmount),
+      sipReturnRate: number(
+        sip.sipReturnRate,
+        "sipReturnRate",
+        defaults.sip.sipReturnRate,
+      ),
+      sipTenure: number(sip.sipTenure, "sipTenure", defaults.sip.sipTenure),
+      stepUp: optional(sip.stepUp, stepUpSchema, "shareField.stepUp"),
+      capitalGains: optional(
+        sip.capitalGains,
+        capitalGainsProfileSchema,
+        "shareField.capitalGains",
+      ),
+    },
+    inflationRate: number(
+      source.inflationRate ?? defaults.inflationRate,
+      "inflationRate",
+      defaults.inflationRate,
+    ),
+    tax: optional(source.tax, taxProfileSchema, "shareField.tax"),
+    affordability: optional(
+      source.affordability,
+      affordabilityProfileSchema,
+      "shareField.affordability",
+    ),
+  };
+}
+
+/**
+ * Rebuild a scenario set from an encoded payload. Returns null only when the
+ * payload can't be read at all.
+ */
+export function decodeScenarios(encoded: string): DecodedShare | null {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(fromBase64Url(encoded));
+  } catch {
+    return null;
+  }
+  if (
+    !isObject(payload) ||
+    !Array.isArray(payload.s) ||
+    payload.s.length === 0
+  ) {
+    return null;
+  }
+
+  const issues: ShareIssue[] = [];
+  const scenarios = payload.s.map((raw, index) =>
+    decodeScenario(raw, index, issues),
+  );
+  const activeIndex =
+    typeof payload.a === "number" && scenarios[payload.a] ? payload.a : 0;
+
+  return { scenarios, activeScenario: scenarios[activeIndex].id, issues };
+}
+
+/**
+ * The encoded scenario set in a URL fragment such as `#s=...`, if any
+ */
+export function readShareHash(hash: string): string | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  return params.get(HASH_PARAM);
+}
+
+export const buildShareHash = (encoded: string) => `#${HASH_PARAM}=${encoded}`;
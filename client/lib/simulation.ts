@@ -0,0 +1,51 @@
+import type {
+  MonteCarloOptions,
+  ReturnSeries,
+  ValueBasis,
+} from "@shared/finance";
+import niftyHistory from "@shared/data/nifty50-annual-returns.json";
+
+/**
+ * The bundled index history the simulation can bootstrap from
+ */
+export const HISTORICAL_SERIES = niftyHistory as ReturnSeries & {
+  description: string;
+  startYear: number;
+};
+
+/** What the user picked in the simulation panel */
+export interface SimulationSettings {
+  model: "volatility" | "historical";
+  /** Annual volatility in percent, for the volatility model */
+  volatility: number;
+  paths: number;
+}
+
+export const DEFAULT_SIMULATION: SimulationSettings = {
+  model: "volatility",
+  volatility: 15,
+  paths: 5000,
+};
+
+/**
+ * Engine options for a run, measured against `target` (the loan outflow)
+ */
+export function toMonteCarloOptions(
+  settings: SimulationSettings,
+  {
+    basis,
+    inflationRate,
+    target,
+  }: { basis: ValueBasis; inflationRate: number; target: number },
+): MonteCarloOptions {
+  return {
+    model:
+      settings.model === "historical"
+        ? { kind: "historical", series: HISTORICAL_SERIES }
+        : { kind: "volatility", volatility: settings.volatility },
+    paths: settings.paths,
+    basis,
+    inflationRate,
+    target,
+  };
+}
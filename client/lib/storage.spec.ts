@@ -0,0 +1,99 @@
+import { describe, it, expect } from "vitest";
+import {
+  migrateSavedPlans,
+  migrateWorkspace,
+  normalizeScenario,
+  STORAGE_VERSION,
+} from "./storage";
+import { DEFAULT_INPUTS } from "./scenario";
+
+describe("normalizeScenario", () => {
+  it("should fill fields added since the scenario was saved", () => {
+    const scenario = normalizeScenario(
+      {
+        id: 2,
+        name: "Old",
+        color: "#000",
+        loan: { loanAmount: 3000000, interestRate: 9, tenure: 15 },
+        sip: { sipAmount: 10000, sipReturnRate: 11, sipTenure: 15 },
+      },
+      0,
+    );
+    expect(scenario.inflationRate).toBe(DEFAULT_INPUTS.inflationRate);
+    expect(scenario.loan.loanAmount).toBe(3000000);
+    expect(scenario.id).toBe(2);
+  });
+
+  it("should rebuild a scenario from garbage", () => {
+    const scenario = normalizeScenario("nope", 1);
+    expect(scenario.id).toBe(2);
+    expect(scenario.name).toBe("Scenario 2");
+    expect(scenario.loan).toEqual(DEFAULT_INPUTS.loan);
+  });
+});
+
+describe("migrateWorkspace", () => {
+  const envelope = (data: unknown, version = STORAGE_VERSION) => ({
+    version,
+    data,
+  });
+
+  it("should restore scenarios and preferences", () => {
+    const workspace = migrateWorkspace(
+      envelope({
+        scenarios: [
+          { id: 1, name: "A" },
+          { id: 3, name: "B" },
+        ],
+        activeScenario: 3,
+        preferences: { isDarkMode: true },
+      }),
+    );
+    expect(workspace.scenarios).toHaveLength(2);
+    expect(workspace.activeScenario).toBe(3);
+    expect(workspace.preferences).toEqual({
+      isDarkMode: true,
+      valueBasis: "nominal",
+      sipBasis: "pre-tax",
+      locale: "en-IN",
+    });
+  });
+
+  it("should fall back to the first scenario when the active one is gone", () => {
+    const workspace = migrateWorkspace(
+      envelope({ scenarios: [{ id: 4 }], activeScenario: 9 }),
+    );
+    expect(workspace.activeScenario).toBe(4);
+  });
+
+  it("should ignore unversioned, empty or newer data", () => {
+    expect(migrateWorkspace(null)).toBeNull();
+    expect(migrateWorkspace({ scenarios: [{ id: 1 }] })).toBeNull();
+    expect(migrateWorkspace(envelope({ scenarios: [] }))).toBeNull();
+    expect(
+      migrateWorkspace(
+        envelope({ scenarios: [{ id: 1 }] }, STORAGE_VERSION + 1),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("migrateSavedPlans", () => {
+  it("should keep valid plans and normalize their scenarios", () => {
+    const plans = migrateSavedPlans({
+      version: STORAGE_VERSION,
+      data: [
+        {
+          id: "plan-a",
+          name: "Family",
+          savedAt: "2026-01-01T00:00:00.000Z",
+          scenarios: [{ id: 1 }],
+        },
+        "junk",
+      ],
+    });
+    expect(plans).toHaveLength(1);
+    expect(plans[0].name).toBe("Family");
+    expect(plans[0].scenarios[0].sip).toEqual(DEFAULT_INPUTS.sip);
+  });
+});
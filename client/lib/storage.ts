@@ -0,0 +1,177 @@
+import type { SIPTaxBasis, ValueBasis } from "@shared/finance";
+import { scenarioColor } from "@shared/palette";
+import { DEFAULT_LOCALE, type LocaleId } from "./locale";
+import { DEFAULT_INPUTS, withUniqueIds, type Scenario } from "./scenario";
+import { isObject } from "./utils";
+
+/**
+ * Versioned localStorage persistence for the calculator.
+ *
+ * Everything is stored in an envelope carrying the schema version it was
+ * written with. On load, envelopes from older versions are run through
+ * `MIGRATIONS` step by step, and every scenario is normalized so fields added
+ * to `Scenario` since it was saved pick up their defaults.
+ */
+export const STORAGE_VERSION = 1;
+
+const WORKSPACE_KEY = "loancalc:workspace";
+const PLANS_KEY = "loancalc:plans";
+
+export interface Preferences {
+  isDarkMode: boolean;
+  valueBasis: ValueBasis;
+  /** Whether the net position counts the SIP before or after capital gains */
+  sipBasis: SIPTaxBasis;
+  /** Formatting, vocabulary and defaults; see locale.ts */
+  locale: LocaleId;
+}
+
+/** The scenarios being edited right now, plus UI preferences */
+export interface Workspace {
+  scenarios: Scenario[];
+  activeScenario: number;
+  preferences: Preferences;
+}
+
+/**
+ * A named copy of a full scenario set, as saved in this browser before plans
+ * were kept on the server. Only read now, to move them there.
+ */
+export interface SavedPlan {
+  id: string;
+  name: string;
+  /** ISO timestamp of the last save */
+  savedAt: string;
+  scenarios: Scenario[];
+}
+
+interface Envelope<T> {
+  version: number;
+  data: T;
+}
+
+export const DEFAULT_PREFERENCES: Preferences = {
+  isDarkMode: false,
+  valueBasis: "nominal",
+  sipBasis: "pre-tax",
+  locale: DEFAULT_LOCALE,
+};
+
+/**
+ * Upgrades keyed by the version they migrate *from*. Add an entry here
+ * whenever a stored shape changes in a way normalization can't cover.
+ */
+type Migration = (data: unknown) => unknown;
+const MIGRATIONS: Record<"workspace" | "plans", Record<number, Migration>> = {
+  workspace: {},
+  plans: {},
+};
+
+/**
+ * Fill in any field missing from a stored scenario with today's defaults
+ */
+export function normalizeScenario(raw: unknown, index: number): Scenario {
+  const scenario = isObject(raw) ? raw : {};
+  return {
+    ...DEFAULT_INPUTS,
+    ...scenario,
+    id: typeof scenario.id === "number" ? scenario.id : index + 1,
+    name:
+      typeof scenario.name === "string"
+        ? scenario.name
+        : `Scenario ${index + 1}`,
+    color:
+      typeof scenario.color === "string"
+        ? scenario.color
+        : scenarioColor(index),
+    loan: {
+      ...DEFAULT_INPUTS.loan,
+      ...(isObject(scenario.loan) ? scenario.loan : {}),
+    },
+    sip: {
+      ...DEFAULT_INPUTS.sip,
+      ...(isObject(scenario.sip) ? scenario.sip : {}),
+    },
+  };
+}
+
+export function normalizeScenarios(raw: unknown): Scenario[] {
+  return Array.isArray(raw) ? withUniqueIds(raw.map(normalizeScenario)) : [];
+}
+
+/**
+ * Bring a stored envelope up to `STORAGE_VERSION`. Returns null for data that
+ * isn't an envelope or was written by a newer build.
+ */
+function upgrade(kind: keyof typeof MIGRATIONS, stored: unknown): unknown {
+  if (!isObject(stored) || typeof stored.version !== "number") return null;
+  if (stored.version > STORAGE_VERSION) return null;
+
+  let version = stored.version;
+  let data = stored.data;
+  while (version < STORAGE_VERSION) {
+    const migrate = MIGRATIONS[kind][version];
+    if (migrate) data = migrate(data);
+    version++;
+  }
+  return data;
+}
+
+export function migrateWorkspace(stored: unknown): Workspace | null {
+  const data = upgrade("workspace", stored);
+  if (!isObject(data)) return null;
+
+  const scenarios = normalizeScenarios(data.scenarios);
+  if (scenarios.length === 0) return null;
+
+  const activeScenario =
+    scenarios.find((s) => s.id === data.activeScenario)?.id ?? scenarios[0].id;
+  return {
+    scenarios,
+    activeScenario,
+    preferences: {
+      ...DEFAULT_PREFERENCES,
+      ...(isObject(data.preferences) ? data.preferences : {}),
+    },
+  };
+}
+
+export function migrateSavedPlans(stored: unknown): SavedPlan[] {
+  const data = upgrade("plans", stored);
+  if (!Array.isArray(data)) return [];
+
+  return data.filter(isObject).map((plan, index) => ({
+    id: typeof plan.id === "string" ? plan.id : `plan-${index}`,
+    name: typeof plan.name === "string" ? plan.name : `Plan ${index + 1}`,
+    savedAt:
+      typeof plan.savedAt === "string"
+        ? plan.savedAt
+        : new Date(0).toISOString(),
+    scenarios: normalizeScenarios(plan.scenarios),
+  }));
+}
+
+const read = (key: string): unknown => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+const write = <T>(key: string, data: T) => {
+  try {
+    const envelope: Envelope<T> = { version: STORAGE_VERSION, data };
+    window.localStorage.setItem(key, JSON.stringify(envelope));
+  } catch {
+    // Storage full or disabled (e.g. private mode): keep working in memory
+  }
+};
+
+export const loadWorkspace = () => migrateWorkspace(read(WORKSPACE_KEY));
+export const saveWorkspace = (workspace: Workspace) =>
+  write(WORKSPACE_KEY, workspace);
+
+export const loadSavedPlans = () => migrateSavedPlans(read(PLANS_KEY));
+export const saveSavedPlans = (plans: SavedPlan[]) => write(PLANS_KEY, plans);
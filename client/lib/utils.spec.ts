@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { cn } from "./utils";
+import { cn, isObject } from "./utils";
 
 describe("cn function", () => {
   it("should merge classes correctly", () => {
@@ -30,3 +30,12 @@ describe("cn function", () => {
     );
   });
 });
+
+describe("isObject", () => {
+  it("accepts plain objects only", () => {
+    expect(isObject({ a: 1 })).toBe(true);
+    expect(isObject(null)).toBe(false);
+    expect(isObject([])).toBe(false);
+    expect(isObject("text")).toBe(false);
+  });
+});
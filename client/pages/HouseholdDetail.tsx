@@ -0,0 +1,235 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { Calculator, Plus, Trash2, Unlink } from "lucide-react";
+import { householdTotals } from "@shared/household";
+import { HouseholdForm } from "@/components/households/HouseholdForm";
+import { HouseholdsLayout } from "@/components/households/HouseholdsLayout";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useHouseholds } from "@/hooks/use-households";
+import { useLocale } from "@/hooks/use-locale";
+import { useSavedPlans } from "@/hooks/use-saved-plans";
+import { formatCurrency } from "@/lib/format";
+
+const HouseholdDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { locale, t } = useLocale();
+  const { households, isLoading, isSaving, updateHousehold, deleteHousehold } =
+    useHouseholds();
+  const { plans, attachPlan } = useSavedPlans();
+  const household = households.find((other) => other.id === id);
+
+  if (isLoading) {
+    return (
+      <HouseholdsLayout title={t("household.title")}>
+        <Skeleton className="mx-auto h-96 max-w-5xl rounded-3xl" />
+      </HouseholdsLayout>
+    );
+  }
+
+  if (!household) {
+    return (
+      <HouseholdsLayout title={t("household.title")}>
+        <p className="py-8 text-center text-sm text-muted-foreground">
+          {t("household.notFound")}
+        </p>
+      </HouseholdsLayout>
+    );
+  }
+
+  const householdPlans = plans.filter((plan) => plan.householdId === id);
+  const otherPlans = plans.filter((plan) => !plan.householdId);
+  const { monthlyIncome, existingEmis, outstanding } =
+    householdTotals(household);
+  const calculatorLink = `/?household=${encodeURIComponent(household.id)}`;
+
+  const remove = async () => {
+    const deleted = await deleteHousehold(household).then(
+      () => true,
+      () => false, // the hook has already shown the error
+    );
+    if (deleted) navigate("/households");
+  };
+
+  return (
+    <HouseholdsLayout
+      title={household.name}
+      actions={
+        <>
+          <Button asChild className="neumorph rounded-xl">
+            <Link to={calculatorLink} state={{ newPlan: true }}>
+              <Plus className="me-2 h-4 w-4" />
+              {t("history.newPlan")}
+            </Link>
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon"
+                aria-label={t("household.delete")}
+                disabled={isSaving}
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>
+                  {t("household.deleteTitle", { name: household.name })}
+                </AlertDialogTitle>
+                <AlertDialogDescription>
+                  {t("household.deleteHelp")}
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>{t("household.cancel")}</AlertDialogCancel>
+                <AlertDialogAction onClick={remove}>
+                  {t("household.confirmDelete")}
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      }
+    >
+      <div className="mx-auto max-w-5xl space-y-6">
+        <div className="grid gap-4 sm:grid-cols-3">
+          {[
+            { label: t("household.monthlyIncome"), value: monthlyIncome },
+            { label: t("household.existing"), value: existingEmis },
+            { label: t("household.outstandingLoans"), value: outstanding },
+          ].map(({ label, value }) => (
+            <Card
+              key={label}
+              className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm"
+            >
+              <CardHeader className="pb-2">
+                <CardDescription>{label}</CardDescription>
+                <CardTitle className="text-2xl tabular-nums">
+                  {formatCurrency(value)}
+                </CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+
+        <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle>{t("household.profile")}</CardTitle>
+            <CardDescription>{t("household.profileHelp")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <HouseholdForm
+              household={household}
+              disabled={isSaving}
+              onSubmit={(changes) => updateHousehold(household, changes)}
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm">
+          <CardHeader>
+            <CardTitle>{t("household.plans")}</CardTitle>
+            <CardDescription>{t("household.plansHelp")}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {householdPlans.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {t("household.noPlans")}
+              </p>
+            ) : (
+              <ul className="space-y-2">
+                {householdPlans.map((plan) => (
+                  <li
+                    key={plan.id}
+                    className="flex items-center gap-2 rounded-xl border p-3"
+                  >
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate font-medium">{plan.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {t("household.planSummary", {
+                          count: plan.scenarios.length,
+                          date: new Date(plan.updatedAt).toLocaleDateString(
+                            locale.id,
+                          ),
+                        })}
+                      </p>
+                    </div>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() =>
+                        navigate(calculatorLink, { state: { plan } })
+                      }
+                    >
+                      <Calculator className="me-2 h-4 w-4" />
+                      {t("household.open")}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => attachPlan(plan, null)}
+                      aria-label={t("household.detach", { name: plan.name })}
+                    >
+                      <Unlink className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {otherPlans.length > 0 && (
+              <Select
+                value=""
+                onValueChange={(planId) =>
+                  attachPlan(
+                    otherPlans.find((plan) => plan.id === planId),
+                    household.id,
+                  )
+                }
+              >
+                <SelectTrigger className="w-full sm:w-72">
+                  <SelectValue placeholder={t("household.attach")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {otherPlans.map((plan) => (
+                    <SelectItem key={plan.id} value={plan.id}>
+                      {plan.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </HouseholdsLayout>
+  );
+};
+
+export default HouseholdDetail;
@@ -0,0 +1,178 @@
+import * as React from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Plus } from "lucide-react";
+import type { RiskProfile } from "@shared/api";
+import { householdTotals, RISK_PROFILES } from "@shared/household";
+import { RISK_LABELS } from "@/components/households/HouseholdForm";
+import { HouseholdsLayout } from "@/components/households/HouseholdsLayout";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useHouseholds } from "@/hooks/use-households";
+import { useLocale } from "@/hooks/use-locale";
+import { useSavedPlans } from "@/hooks/use-saved-plans";
+import { formatCurrency } from "@/lib/format";
+
+const Households = () => {
+  const { households, isLoading, isError, isSaving, createHousehold } =
+    useHouseholds();
+  const { plans } = useSavedPlans();
+  const navigate = useNavigate();
+  const { t } = useLocale();
+  const [name, setName] = React.useState("");
+  const [riskProfile, setRiskProfile] = React.useState<RiskProfile>("moderate");
+
+  const create = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    const household = await createHousehold({
+      name: name.trim(),
+      incomes: [],
+      liabilities: [],
+      riskProfile,
+    }).catch(() => undefined); // the hook has already shown the error
+    if (!household) return;
+    setName("");
+    navigate(`/households/${household.id}`);
+  };
+
+  return (
+    <HouseholdsLayout title={t("household.list")}>
+      <div className="mx-auto max-w-5xl space-y-6">
+        <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm">
+          <CardContent className="pt-6">
+            <form onSubmit={create} className="flex flex-wrap items-end gap-3">
+              <Input
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                placeholder={t("household.newName")}
+                aria-label={t("household.newName")}
+                maxLength={100}
+                className="min-w-48 flex-1"
+              />
+              <Select
+                value={riskProfile}
+                onValueChange={(value) => setRiskProfile(value as RiskProfile)}
+              >
+                <SelectTrigger
+                  className="w-40"
+                  aria-label={t("household.risk")}
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RISK_PROFILES.map((risk) => (
+                    <SelectItem key={risk} value={risk}>
+                      {t(RISK_LABELS[risk])}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="submit"
+                disabled={!name.trim() || isSaving}
+                className="neumorph rounded-xl"
+              >
+                <Plus className="me-2 h-4 w-4" />
+                {t("household.add")}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm">
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="space-y-2">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+              </div>
+            ) : isError ? (
+              <p className="py-8 text-center text-sm text-destructive">
+                {t("household.loadFailed")}
+              </p>
+            ) : households.length === 0 ? (
+              <p className="py-8 text-center text-sm text-muted-foreground">
+                {t("household.empty")}
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t("household.nameColumn")}</TableHead>
+                    <TableHead className="text-end">
+                      {t("household.monthlyIncome")}
+                    </TableHead>
+                    <TableHead className="text-end">
+                      {t("household.existing")}
+                    </TableHead>
+                    <TableHead>{t("household.risk")}</TableHead>
+                    <TableHead className="text-end">
+                      {t("household.plans")}
+                    </TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {households.map((household) => {
+                    const { monthlyIncome, existingEmis } =
+                      householdTotals(household);
+                    return (
+                      <TableRow key={household.id}>
+                        <TableCell className="font-medium">
+                          <Link
+                            to={`/households/${household.id}`}
+                            className="hover:underline"
+                          >
+                            {household.name}
+                          </Link>
+                        </TableCell>
+                        <TableCell className="text-end tabular-nums">
+                          {formatCurrency(monthlyIncome)}
+                        </TableCell>
+                        <TableCell className="text-end tabular-nums">
+                          {formatCurrency(existingEmis)}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">
+                            {t(RISK_LABELS[household.riskProfile])}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-end tabular-nums">
+                          {
+                            plans.filter(
+                              (plan) => plan.householdId === household.id,
+                            ).length
+                          }
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </HouseholdsLayout>
+  );
+};
+
+export default Households;
@@ -1,6 +1,7 @@
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useEffect, useMemo } from "react";
+import { useLocation, useNavigate, useSearchParams } from "react-router-dom";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
-import { Slider } from "@/components/ui/slider";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
@@ -8,19 +9,11 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/comp
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
 import { 
-  LineChart, 
-  Line, 
-  XAxis, 
-  YAxis, 
-  CartesianGrid, 
   Tooltip as RechartsTooltip, 
   ResponsiveContainer,
   PieChart,
   Pie,
-  Cell,
-  BarChart,
-  Bar,
-  Legend
+  Cell
 } from "recharts";
 import { 
   Calculator, 
@@ -34,73 +27,168 @@ import {
   ChevronDown,
   ChevronUp,
   RefreshCw,
-  BarChart3,
   Wallet,
   ArrowDown
 } from "lucide-react";
-
-interface LoanData {
-  loanAmount: number;
-  interestRate: number;
-  tenure: number;
-}
-
-interface SIPData {
-  sipAmount: number;
-  sipReturnRate: number;
-  sipTenure: number;
-}
-
-interface Scenario {
-  id: number;
-  name: string;
-  loan: LoanData;
-  sip: SIPData;
-  color: string;
-}
-
-interface CalculationResults {
-  emi: number;
-  totalInterest: number;
-  totalPayment: number;
-  sipMaturityValue: number;
-  sipTotalInvestment: number;
-  sipReturns: number;
-  netPosition: number;
-  earlyClosureSavings: number;
-}
-
-interface AmortizationEntry {
-  month: number;
-  emi: number;
-  principal: number;
-  interest: number;
-  balance: number;
-}
-
-interface SIPGrowthEntry {
-  month: number;
-  investment: number;
-  balance: number;
-  returns: number;
-}
-
-const COLORS = ['#3B82F6', '#10B981', '#F59E0B', '#EF4444'];
+import {
+  calculateAffordability,
+  calculateResults,
+  scenarioSchedules,
+  type ScenarioInputs,
+  type SIPTaxBasis,
+  type ValueBasis,
+} from "@shared/finance";
+import { AmortizationTable } from "@/components/calculator/AmortizationTable";
+import { ComparisonChart } from "@/components/calculator/ComparisonChart";
+import { ComparisonTable } from "@/components/calculator/ComparisonTable";
+import { ExportMenu } from "@/components/calculator/ExportMenu";
+import { FloatingRatePanel } from "@/components/calculator/FloatingRatePanel";
+import { PrepaymentPlanner } from "@/components/calculator/PrepaymentPlanner";
+import { SIPGrowthTable } from "@/components/calculator/SIPGrowthTable";
+import { SavedPlansSheet } from "@/components/calculator/SavedPlansSheet";
+import { ShareMenu } from "@/components/calculator/ShareMenu";
+import { StepUpControls } from "@/components/calculator/StepUpControls";
+import { TaxPanel } from "@/components/calculator/TaxPanel";
+import { AffordabilityPanel } from "@/components/calculator/AffordabilityPanel";
+import { CapitalGainsPanel } from "@/components/calculator/CapitalGainsPanel";
+import { GoalSolverPanel } from "@/components/calculator/GoalSolverPanel";
+import { MonteCarloPanel } from "@/components/calculator/MonteCarloPanel";
+import { SIPGrowthChart } from "@/components/calculator/SIPGrowthChart";
+import { SliderField } from "@/components/calculator/SliderField";
+import { useMonteCarlo } from "@/hooks/use-monte-carlo";
+import { toMonteCarloOptions, type SimulationSettings } from "@/lib/simulation";
+import { TaxResultCards } from "@/components/calculator/TaxResultCards";
+import { ValuationControls } from "@/components/calculator/ValuationControls";
+import { buildChartData } from "@shared/chart-data";
+import { formatCurrency, formatRate, formatShorthand, formatYears } from "@/lib/format";
+import { scenarioColor, nextScenarioColor } from "@shared/palette";
+import {
+  cappedLoanAmount,
+  changedFields,
+  moveScenario,
+  nextScenarioId,
+  type Scenario
+} from "@/lib/scenario";
+import { translate, type MessageKey } from "@/lib/i18n";
+import { useHistory } from "@/hooks/use-history";
+import { HistoryPanel } from "@/components/calculator/HistoryPanel";
+import { LOCALES, setLocale, type LocaleId } from "@/lib/locale";
+import { useLocale } from "@/hooks/use-locale";
+import { LocaleSelect } from "@/components/calculator/LocaleSelect";
+import { ScenarioTabs } from "@/components/calculator/ScenarioTabs";
+import { HouseholdBanner } from "@/components/calculator/HouseholdBanner";
+import { useHouseholds } from "@/hooks/use-households";
+import { applyHouseholdFigures, householdDefaults } from "@shared/household";
+import { buildShareHash, decodeScenarios, describeShareIssue, encodeScenarios, readShareHash } from "@/lib/share";
+import {
+  DEFAULT_PREFERENCES,
+  loadWorkspace,
+  saveWorkspace
+} from "@/lib/storage";
+import type { Plan } from "@shared/api";
+
+/** How a changed scenario field is named in the undo history */
+const FIELD_LABELS: Record<string, MessageKey> = {
+  name: 'scenario.rename',
+  color: 'scenario.colour',
+  'loan.loanAmount': 'loan.amount',
+  'loan.interestRate': 'loan.rate',
+  'loan.tenure': 'loan.tenure',
+  'loan.prepayment': 'history.field.prepayment',
+  'loan.floatingRate': 'history.field.floatingRate',
+  'sip.sipAmount': 'invest.amount',
+  'sip.sipReturnRate': 'invest.return',
+  'sip.sipTenure': 'invest.period',
+  'sip.stepUp': 'history.field.stepUp',
+  'sip.capitalGains': 'history.field.capitalGains',
+  tax: 'history.field.tax',
+  affordability: 'history.field.affordability',
+  inflationRate: 'history.field.inflationRate'
+};
 
 export default function Index() {
-  const [isDarkMode, setIsDarkMode] = useState(false);
-  const [scenarios, setScenarios] = useState<Scenario[]>([
-    {
-      id: 1,
-      name: "Scenario 1",
-      loan: { loanAmount: 5000000, interestRate: 8.5, tenure: 20 },
-      sip: { sipAmount: 25000, sipReturnRate: 12, sipTenure: 20 },
-      color: COLORS[0]
-    }
-  ]);
-  const [activeScenario, setActiveScenario] = useState(1);
+  // A shared link in the URL takes precedence over the stored workspace
+  const [initial] = useState(() => {
+    const encoded = readShareHash(window.location.hash);
+    const shared = encoded ? decodeScenarios(encoded) : null;
+    const savedWorkspace = loadWorkspace();
+    // Formatting and the defaults below follow the saved locale
+    if (savedWorkspace) setLocale(savedWorkspace.preferences.locale);
+    return { savedWorkspace, shared, linkBroken: !!encoded && !shared };
+  });
+  const { locale, t, ranges } = useLocale();
+  const { savedWorkspace, shared } = initial;
+  // Planning for a household: new scenarios start from its figures
+  const [searchParams] = useSearchParams();
+  const { households, isLoading: householdsLoading } = useHouseholds();
+  const household = households.find(h => h.id === searchParams.get('household'));
+  const location = useLocation();
+  const navigate = useNavigate();
+  const preferences = savedWorkspace?.preferences ?? DEFAULT_PREFERENCES;
+  const [isDarkMode, setIsDarkMode] = useState(preferences.isDarkMode);
+  const {
+    state: scenarios,
+    set: setScenarios,
+    history,
+    undo,
+    redo,
+    jumpTo,
+    canUndo,
+    canRedo
+  } = useHistory<Scenario[]>(
+    () =>
+      shared?.scenarios ?? savedWorkspace?.scenarios ?? [
+        {
+          id: 1,
+          name: t('scenario.name', { n: 1 }),
+          ...locale.defaults,
+          color: scenarioColor(0)
+        }
+      ],
+    t('history.start')
+  );
+  const [activeScenario, setActiveScenario] = useState(
+    shared?.activeScenario ?? savedWorkspace?.activeScenario ?? 1
+  );
   const [showAmortization, setShowAmortization] = useState(false);
   const [showSIPGrowth, setShowSIPGrowth] = useState(false);
+  const [valueBasis, setValueBasis] = useState<ValueBasis>(preferences.valueBasis);
+  const [sipBasis, setSipBasis] = useState<SIPTaxBasis>(preferences.sipBasis);
+  const [simulationSettings, setSimulationSettings] = useState<SimulationSettings | null>(null);
+
+  // Tell the user what was fixed up when loading a shared link
+  useEffect(() => {
+    if (initial.linkBroken) {
+      toast.error(t('share.unreadable'), {
+        description: t('share.unreadableHelp')
+      });
+    } else if (initial.shared?.issues.length) {
+      toast.warning(t('share.adjusted'), {
+        description: initial.shared.issues
+          .map((issue) => describeShareIssue(t, issue))
+          .join('. ')
+      });
+    }
+  }, [initial]);
+
+  // Persist the workspace and keep the URL shareable, debounced so slider
+  // drags don't hammer storage or history
+  useEffect(() => {
+    const timeout = window.setTimeout(() => {
+      saveWorkspace({
+        scenarios,
+        activeScenario,
+        preferences: { isDarkMode, valueBasis, sipBasis, locale: locale.id }
+      });
+      const { pathname, search } = window.location;
+      window.history.replaceState(
+        window.history.state,
+        "",
+        `${pathname}${search}${buildShareHash(encodeScenarios(scenarios, activeScenario))}`
+      );
+    }, 300);
+    return () => window.clearTimeout(timeout);
+  }, [scenarios, activeScenario, isDarkMode, valueBasis, sipBasis, locale]);
 
   // Toggle dark mode
   useEffect(() => {
@@ -112,178 +200,210 @@ export default function Index() {
     }
   }, [isDarkMode]);
 
+  // Language and text direction follow the locale
+  useEffect(() => {
+    const root = window.document.documentElement;
+    root.lang = locale.id;
+    root.dir = locale.direction;
+  }, [locale]);
+
   // Scroll to calculator
   const scrollToCalculator = () => {
     const calculatorElement = document.getElementById('calculator');
     calculatorElement?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  // Financial calculations
-  const calculateEMI = useCallback((principal: number, rate: number, tenure: number): number => {
-    const monthlyRate = rate / 100 / 12;
-    const totalMonths = tenure * 12;
-    const emi = (principal * monthlyRate * Math.pow(1 + monthlyRate, totalMonths)) / 
-                 (Math.pow(1 + monthlyRate, totalMonths) - 1);
-    return Math.round(emi);
-  }, []);
-
-  const calculateSIPMaturity = useCallback((monthlyAmount: number, rate: number, years: number): number => {
-    const monthlyRate = rate / 100 / 12;
-    const totalMonths = years * 12;
-    const maturityValue = monthlyAmount * ((Math.pow(1 + monthlyRate, totalMonths) - 1) / monthlyRate) * (1 + monthlyRate);
-    return Math.round(maturityValue);
-  }, []);
-
-  const calculateResults = useCallback((scenario: Scenario): CalculationResults => {
-    const { loan, sip } = scenario;
-    const emi = calculateEMI(loan.loanAmount, loan.interestRate, loan.tenure);
-    const totalPayment = emi * loan.tenure * 12;
-    const totalInterest = totalPayment - loan.loanAmount;
-    
-    const sipMaturityValue = calculateSIPMaturity(sip.sipAmount, sip.sipReturnRate, sip.sipTenure);
-    const sipTotalInvestment = sip.sipAmount * sip.sipTenure * 12;
-    const sipReturns = sipMaturityValue - sipTotalInvestment;
-    
-    const netPosition = sipMaturityValue - totalPayment;
-    const earlyClosureSavings = totalInterest * 0.3; // Estimated 30% savings on early closure
-    
-    return {
-      emi,
-      totalInterest,
-      totalPayment,
-      sipMaturityValue,
-      sipTotalInvestment,
-      sipReturns,
-      netPosition,
-      earlyClosureSavings
-    };
-  }, [calculateEMI, calculateSIPMaturity]);
-
-  // Generate amortization schedule
-  const generateAmortizationSchedule = useCallback((loan: LoanData): AmortizationEntry[] => {
-    const schedule: AmortizationEntry[] = [];
-    const emi = calculateEMI(loan.loanAmount, loan.interestRate, loan.tenure);
-    const monthlyRate = loan.interestRate / 100 / 12;
-    let balance = loan.loanAmount;
-    
-    for (let month = 1; month <= loan.tenure * 12; month++) {
-      const interestAmount = balance * monthlyRate;
-      const principalAmount = emi - interestAmount;
-      balance -= principalAmount;
-      
-      schedule.push({
-        month,
-        emi,
-        principal: Math.round(principalAmount),
-        interest: Math.round(interestAmount),
-        balance: Math.round(Math.max(0, balance))
-      });
-    }
-    
-    return schedule;
-  }, [calculateEMI]);
-
-  // Generate SIP growth schedule
-  const generateSIPGrowthSchedule = useCallback((sip: SIPData): SIPGrowthEntry[] => {
-    const schedule: SIPGrowthEntry[] = [];
-    const monthlyRate = sip.sipReturnRate / 100 / 12;
-    let balance = 0;
-    
-    for (let month = 1; month <= sip.sipTenure * 12; month++) {
-      balance = (balance + sip.sipAmount) * (1 + monthlyRate);
-      const totalInvestment = sip.sipAmount * month;
-      const returns = balance - totalInvestment;
-      
-      schedule.push({
-        month,
-        investment: totalInvestment,
-        balance: Math.round(balance),
-        returns: Math.round(returns)
-      });
+  // Undoing can bring back a list without the selected scenario
+  useEffect(() => {
+    if (!scenarios.some(scenario => scenario.id === activeScenario)) {
+      setActiveScenario(scenarios[0].id);
     }
-    
-    return schedule;
-  }, []);
+  }, [scenarios, activeScenario]);
 
-  // Update scenario
+  // Update scenario. Repeated changes to the same fields, such as a slider
+  // being dragged, merge into one undo step
   const updateScenario = (id: number, updates: Partial<Scenario>) => {
-    setScenarios(prev => prev.map(scenario => 
-      scenario.id === id ? { ...scenario, ...updates } : scenario
-    ));
+    const scenario = scenarios.find(s => s.id === id);
+    if (!scenario) return;
+    const fields = changedFields(scenario, updates);
+    if (fields.length === 0) return;
+    setScenarios(
+      prev => prev.map(s => s.id === id ? { ...s, ...updates } : s),
+      {
+        label: t('history.edited', {
+          name: scenario.name,
+          field: fields.map(field => t(FIELD_LABELS[field] ?? 'history.field.other')).join(', ')
+        }),
+        mergeKey: `${id}:${fields.join()}`
+      }
+    );
   };
 
-  // Add new scenario
-  const addScenario = () => {
-    if (scenarios.length >= 3) return;
-    
+  // Add new scenario, from the household's or the locale's defaults unless
+  // given inputs
+  const addScenario = (
+    inputs: ScenarioInputs = household ? householdDefaults(locale.defaults, household) : locale.defaults
+  ) => {
+    const id = nextScenarioId(scenarios);
     const newScenario: Scenario = {
-      id: scenarios.length + 1,
-      name: `Scenario ${scenarios.length + 1}`,
-      loan: { loanAmount: 5000000, interestRate: 8.5, tenure: 20 },
-      sip: { sipAmount: 25000, sipReturnRate: 12, sipTenure: 20 },
-      color: COLORS[scenarios.length]
+      ...inputs,
+      id,
+      name: t('scenario.name', { n: id }),
+      color: nextScenarioColor(scenarios.map(scenario => scenario.color))
     };
     
-    setScenarios(prev => [...prev, newScenario]);
+    setScenarios(prev => [...prev, newScenario], {
+      label: t('history.added', { name: newScenario.name })
+    });
     setActiveScenario(newScenario.id);
   };
 
+  // Copy a scenario, placing the copy right after it
+  const duplicateScenario = (id: number) => {
+    const index = scenarios.findIndex(scenario => scenario.id === id);
+    if (index === -1) return;
+    const source = scenarios[index];
+    const copy: Scenario = {
+      ...source,
+      id: nextScenarioId(scenarios),
+      name: t('scenario.copyName', { name: source.name }),
+      color: nextScenarioColor(scenarios.map(scenario => scenario.color))
+    };
+
+    setScenarios(prev => [...prev.slice(0, index + 1), copy, ...prev.slice(index + 1)], {
+      label: t('history.duplicated', { name: source.name })
+    });
+    setActiveScenario(copy.id);
+  };
+
+  // Reorder scenarios
+  const reorderScenarios = (from: number, to: number) => {
+    setScenarios(prev => moveScenario(prev, from, to), {
+      label: t('history.moved', { name: scenarios[from]?.name ?? '' })
+    });
+  };
+
   // Remove scenario
   const removeScenario = (id: number) => {
     if (scenarios.length <= 1) return;
-    setScenarios(prev => prev.filter(scenario => scenario.id !== id));
+    const index = scenarios.findIndex(scenario => scenario.id === id);
+    const remaining = scenarios.filter(scenario => scenario.id !== id);
+    setScenarios(remaining, {
+      label: t('history.removed', { name: scenarios[index].name })
+    });
     if (activeScenario === id) {
-      setActiveScenario(scenarios[0].id);
+      // Select the neighbour that takes the removed scenario's place
+      setActiveScenario(remaining[Math.min(index, remaining.length - 1)].id);
     }
   };
 
+  // Switch locale. Amounts are kept as they are, with an offer to start the
+  // active scenario from the new locale's typical values instead
+  const changeLocale = (id: LocaleId) => {
+    setLocale(id);
+    const next = LOCALES[id];
+    toast(translate(next, 'locale.switched', { currency: next.currency }), {
+      description: translate(next, 'locale.keepAmounts'),
+      action: {
+        label: translate(next, 'locale.useDefaults'),
+        onClick: () => updateScenario(activeScenario, next.defaults)
+      }
+    });
+  };
+
+  // Load a saved plan. Scenarios of a household's plan without their own
+  // eligibility check get one from the household's figures
+  const loadPlan = (plan: Plan) => {
+    const owner = households.find(h => h.id === plan.householdId);
+    const loaded = owner
+      ? plan.scenarios.map(s => s.affordability ? s : { ...s, ...applyHouseholdFigures(s, owner) })
+      : plan.scenarios;
+    setScenarios(loaded, {
+      label: t('history.loaded', { name: plan.name })
+    });
+    setActiveScenario(loaded[0].id);
+  };
+
+  // Arriving from a household's page: open one of its plans, or start a new
+  // one from its figures. The request is cleared so a reload doesn't repeat it
+  useEffect(() => {
+    const request = location.state as { plan?: Plan; newPlan?: boolean } | null;
+    if (!request || householdsLoading) return;
+    if (request.plan) {
+      loadPlan(request.plan);
+    } else if (request.newPlan && household) {
+      setScenarios(
+        [
+          {
+            id: 1,
+            name: t('scenario.name', { n: 1 }),
+            ...householdDefaults(locale.defaults, household),
+            color: scenarioColor(0)
+          }
+        ],
+        { label: t('history.newPlan', { name: household.name }) }
+      );
+      setActiveScenario(1);
+    }
+    navigate({ search: location.search, hash: window.location.hash }, { replace: true });
+  }, [location.state, householdsLoading]);
+
   // Memoized calculations
   const allResults = useMemo(() => {
     return scenarios.map(scenario => ({
       scenario,
-      results: calculateResults(scenario)
+      results: calculateResults(scenario, valueBasis, sipBasis)
     }));
-  }, [scenarios, calculateResults]);
+  }, [scenarios, valueBasis, sipBasis]);
 
   const activeResults = useMemo(() => {
     const activeScenarioData = scenarios.find(s => s.id === activeScenario);
-    return activeScenarioData ? calculateResults(activeScenarioData) : null;
-  }, [scenarios, activeScenario, calculateResults]);
+    return activeScenarioData ? calculateResults(activeScenarioData, valueBasis, sipBasis) : null;
+  }, [scenarios, activeScenario, valueBasis, sipBasis]);
 
   // Chart data
-  const chartData = useMemo(() => {
-    const years = Math.max(...scenarios.map(s => s.loan.tenure));
-    const data = [];
-    
-    for (let year = 1; year <= years; year++) {
-      const yearData: any = { year };
-      
-      scenarios.forEach(scenario => {
-        const results = calculateResults(scenario);
-        const remainingBalance = scenario.loan.loanAmount * (1 - (year / scenario.loan.tenure));
-        const sipGrowth = calculateSIPMaturity(scenario.sip.sipAmount, scenario.sip.sipReturnRate, year);
-        
-        yearData[`loan_${scenario.id}`] = Math.max(0, remainingBalance);
-        yearData[`sip_${scenario.id}`] = sipGrowth;
-        yearData[`net_${scenario.id}`] = sipGrowth - remainingBalance;
-      });
-      
-      data.push(yearData);
-    }
-    
-    return data;
-  }, [scenarios, calculateResults, calculateSIPMaturity]);
-
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-IN', {
-      style: 'currency',
-      currency: 'INR',
-      maximumFractionDigits: 0
-    }).format(amount);
-  };
+  const chartData = useMemo(() => buildChartData(scenarios, valueBasis), [scenarios, valueBasis]);
 
   const currentScenario = scenarios.find(s => s.id === activeScenario);
 
+  const eligibility = useMemo(
+    () =>
+      currentScenario?.affordability
+        ? calculateAffordability(currentScenario.affordability, currentScenario.loan)
+        : null,
+    [currentScenario]
+  );
+  // Loan range, capped at the eligible amount when the user asks
+  const loanRange = currentScenario?.affordability?.capLoan
+    ? {
+        ...ranges.loanAmount,
+        max: Math.max(
+          ranges.loanAmount.min,
+          Math.min(ranges.loanAmount.max, eligibility.maxEligibleLoan)
+        ),
+      }
+    : ranges.loanAmount;
+  const breachesLimits = (scenario: Scenario) =>
+    !!scenario.affordability &&
+    calculateAffordability(scenario.affordability, scenario.loan).breaches.length > 0;
+
+  // Simulated SIP outcomes for the active scenario, run in a worker
+  const { result: simulation, running: simulationRunning } = useMonteCarlo(
+    currentScenario?.sip,
+    simulationSettings && currentScenario && activeResults
+      ? toMonteCarloOptions(simulationSettings, {
+          basis: valueBasis,
+          inflationRate: currentScenario.inflationRate ?? 0,
+          target: activeResults.totalPayment
+        })
+      : null
+  );
+
+  const schedules = useMemo(
+    () => currentScenario ? scenarioSchedules(currentScenario, valueBasis) : null,
+    [currentScenario, valueBasis]
+  );
+
   return (
     <div className="min-h-screen bg-background">
       {/* Hero Section */}
@@ -297,11 +417,10 @@ export default function Index() {
               LoanCalc
             </h1>
             <p className="text-xl md:text-2xl text-white/90 mb-8 font-light">
-              Home Loan + SIP Financial Planner
+              {t('hero.tagline')}
             </p>
             <p className="text-lg text-white/80 mb-12 max-w-2xl sm:mx-auto mx-auto leading-relaxed">
-              Make informed financial decisions with our comprehensive loan and investment calculator. 
-              Plan your home loan EMIs alongside SIP investments for optimal wealth creation.
+              {t('hero.intro')}
             </p>
             
             <div className="flex flex-col sm:flex-row gap-6 justify-center items-center">
@@ -310,11 +429,11 @@ export default function Index() {
                 onClick={scrollToCalculator}
                 className="bg-white text-financial-600 hover:bg-white/90 px-8 py-6 text-lg font-semibold rounded-2xl shadow-lg transform transition-all duration-300 hover:scale-105"
               >
-                <Calculator className="mr-2 h-6 w-6" />
-                Get Started
+                <Calculator className="me-2 h-6 w-6" />
+                {t('hero.start')}
               </Button>
               
-              <div className="flex items-center space-x-4">
+              <div className="flex items-center gap-4">
                 <Sun className="h-5 w-5 text-white" />
                 <Switch 
                   checked={isDarkMode} 
@@ -337,321 +456,269 @@ export default function Index() {
         <div className="max-w-7xl mx-auto">
           <div className="text-center mb-16">
             <h2 className="text-4xl md:text-5xl font-bold text-foreground mb-6">
-              Financial Calculator
+              {t('calculator.title')}
             </h2>
             <p className="text-xl text-muted-foreground max-w-3xl mx-auto">
-              Configure your loan and SIP parameters to see detailed projections and make informed decisions
+              {t('calculator.intro')}
             </p>
           </div>
 
+          {household && (
+            <HouseholdBanner
+              household={household}
+              onApply={() =>
+                currentScenario &&
+                updateScenario(activeScenario, {
+                  affordability: applyHouseholdFigures(currentScenario, household).affordability
+                })
+              }
+            />
+          )}
+
           {/* Scenario Management */}
           <div className="mb-8 flex flex-wrap gap-4 justify-center">
-            {scenarios.map((scenario) => (
-              <div key={scenario.id} className="relative flex items-center">
-                <Button
-                  variant={activeScenario === scenario.id ? "default" : "outline"}
-                  onClick={() => setActiveScenario(scenario.id)}
-                  className="neumorph rounded-xl"
-                  style={{ borderColor: scenario.color }}
-                >
-                  <div
-                    className="w-3 h-3 rounded-full mr-2"
-                    style={{ backgroundColor: scenario.color }}
-                  />
-                  {scenario.name}
-                </Button>
-                {scenarios.length > 1 && (
-                  <button
-                    onClick={() => removeScenario(scenario.id)}
-                    className="ml-2 p-1 text-destructive hover:text-destructive/80 rounded-full hover:bg-destructive/10 transition-colors"
-                    aria-label={`Remove ${scenario.name}`}
-                  >
-                    ×
-                  </button>
-                )}
-              </div>
-            ))}
-            
-            {scenarios.length < 3 && (
-              <Button 
-                variant="outline" 
-                onClick={addScenario}
-                className="neumorph rounded-xl"
-              >
-                + Add Scenario
-              </Button>
-            )}
+            <ScenarioTabs
+              scenarios={scenarios}
+              activeScenario={activeScenario}
+              onSelect={setActiveScenario}
+              onAdd={() => addScenario()}
+              onUpdate={updateScenario}
+              onDuplicate={duplicateScenario}
+              onMove={reorderScenarios}
+              onRemove={removeScenario}
+              isOverLimits={breachesLimits}
+            />
+
+            <HistoryPanel
+              history={history}
+              canUndo={canUndo}
+              canRedo={canRedo}
+              onUndo={undo}
+              onRedo={redo}
+              onJump={jumpTo}
+            />
+            <SavedPlansSheet scenarios={scenarios} onLoad={loadPlan} household={household} />
+            <ShareMenu scenarios={scenarios} activeScenario={activeScenario} />
+            <ExportMenu
+              scenarios={scenarios}
+              activeScenario={activeScenario}
+              valueBasis={valueBasis}
+            />
+            <LocaleSelect onChange={changeLocale} />
           </div>
 
           {currentScenario && (
-            <div className="grid lg:grid-cols-2 gap-8 mb-12">
-              {/* Loan Calculator */}
-              <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm">
-                <CardHeader className="text-center pb-6">
-                  <CardTitle className="text-2xl font-bold flex items-center justify-center gap-3">
-                    <DollarSign className="h-7 w-7 text-financial-500" />
-                    Home Loan Calculator
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-8">
-                  {/* Loan Amount */}
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <label className="text-sm font-medium text-foreground">
-                          Loan Amount
-                        </label>
-                        <TooltipProvider>
-                          <Tooltip>
-                            <TooltipTrigger>
-                              <Info className="h-4 w-4 text-muted-foreground" />
-                            </TooltipTrigger>
-                            <TooltipContent>
-                              <p>Total amount you want to borrow for your home</p>
-                            </TooltipContent>
-                          </Tooltip>
-                        </TooltipProvider>
-                      </div>
-                      <span className="text-lg font-semibold text-financial-600">
-                        {formatCurrency(currentScenario.loan.loanAmount)}
-                      </span>
-                    </div>
-                    <Slider
-                      value={[currentScenario.loan.loanAmount]}
-                      onValueChange={([value]) => 
-                        updateScenario(activeScenario, { 
+            <>
+              <div className="grid lg:grid-cols-2 gap-8 mb-12">
+                {/* Loan Calculator */}
+                <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm">
+                  <CardHeader className="text-center pb-6">
+                    <CardTitle className="text-2xl font-bold flex items-center justify-center gap-3">
+                      <DollarSign className="h-7 w-7 text-financial-500" />
+                      {t('loan.title')}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-8">
+                    {/* Loan Amount */}
+                    <SliderField
+                      label={t('loan.amount')}
+                      tooltip={t('loan.amountHelp')}
+                      value={currentScenario.loan.loanAmount}
+                      onChange={(value) =>
+                        updateScenario(activeScenario, {
                           loan: { ...currentScenario.loan, loanAmount: value }
                         })
                       }
-                      min={1000000}
-                      max={20000000}
-                      step={100000}
-                      className="neumorph rounded-full p-2"
+                      range={loanRange}
+                      format={formatShorthand}
+                      maxLabel={
+                        loanRange.max < ranges.loanAmount.max
+                          ? t('loan.eligible', { amount: formatShorthand(loanRange.max) })
+                          : undefined
+                      }
                     />
-                    <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>₹10L</span>
-                      <span>₹2Cr</span>
-                    </div>
-                  </div>
-
-                  {/* Interest Rate */}
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <label className="text-sm font-medium text-foreground">
-                          Interest Rate
-                        </label>
-                        <TooltipProvider>
-                          <Tooltip>
-                            <TooltipTrigger>
-                              <Info className="h-4 w-4 text-muted-foreground" />
-                            </TooltipTrigger>
-                            <TooltipContent>
-                              <p>Annual interest rate offered by your bank</p>
-                            </TooltipContent>
-                          </Tooltip>
-                        </TooltipProvider>
-                      </div>
-                      <span className="text-lg font-semibold text-financial-600">
-                        {currentScenario.loan.interestRate}%
-                      </span>
-                    </div>
-                    <Slider
-                      value={[currentScenario.loan.interestRate]}
-                      onValueChange={([value]) => 
-                        updateScenario(activeScenario, { 
+
+                    {/* Interest Rate */}
+                    <SliderField
+                      label={t('loan.rate')}
+                      tooltip={t('loan.rateHelp')}
+                      value={currentScenario.loan.interestRate}
+                      onChange={(value) =>
+                        updateScenario(activeScenario, {
                           loan: { ...currentScenario.loan, interestRate: value }
                         })
                       }
-                      min={6}
-                      max={15}
-                      step={0.1}
-                      className="neumorph rounded-full p-2"
+                      range={ranges.interestRate}
+                      format={formatRate}
                     />
-                    <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>6%</span>
-                      <span>15%</span>
-                    </div>
-                  </div>
-
-                  {/* Loan Tenure */}
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <label className="text-sm font-medium text-foreground">
-                          Loan Tenure
-                        </label>
-                        <TooltipProvider>
-                          <Tooltip>
-                            <TooltipTrigger>
-                              <Info className="h-4 w-4 text-muted-foreground" />
-                            </TooltipTrigger>
-                            <TooltipContent>
-                              <p>Number of years to repay the loan</p>
-                            </TooltipContent>
-                          </Tooltip>
-                        </TooltipProvider>
-                      </div>
-                      <span className="text-lg font-semibold text-financial-600">
-                        {currentScenario.loan.tenure} years
-                      </span>
-                    </div>
-                    <Slider
-                      value={[currentScenario.loan.tenure]}
-                      onValueChange={([value]) => 
-                        updateScenario(activeScenario, { 
+
+                    {/* Loan Tenure */}
+                    <SliderField
+                      label={t('loan.tenure')}
+                      tooltip={t('loan.tenureHelp')}
+                      value={currentScenario.loan.tenure}
+                      onChange={(value) =>
+                        updateScenario(activeScenario, {
                           loan: { ...currentScenario.loan, tenure: value }
                         })
                       }
-                      min={5}
-                      max={30}
-                      step={1}
-                      className="neumorph rounded-full p-2"
+                      range={ranges.tenure}
+                      format={formatYears}
                     />
-                    <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>5 years</span>
-                      <span>30 years</span>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-
-              {/* SIP Calculator */}
-              <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm">
-                <CardHeader className="text-center pb-6">
-                  <CardTitle className="text-2xl font-bold flex items-center justify-center gap-3">
-                    <TrendingUp className="h-7 w-7 text-financial-500" />
-                    SIP Investment Calculator
-                  </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-8">
-                  {/* SIP Amount */}
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <label className="text-sm font-medium text-foreground">
-                          Monthly SIP Amount
-                        </label>
-                        <TooltipProvider>
-                          <Tooltip>
-                            <TooltipTrigger>
-                              <Info className="h-4 w-4 text-muted-foreground" />
-                            </TooltipTrigger>
-                            <TooltipContent>
-                              <p>Amount you plan to invest monthly in SIP</p>
-                            </TooltipContent>
-                          </Tooltip>
-                        </TooltipProvider>
-                      </div>
-                      <span className="text-lg font-semibold text-financial-600">
-                        {formatCurrency(currentScenario.sip.sipAmount)}
-                      </span>
-                    </div>
-                    <Slider
-                      value={[currentScenario.sip.sipAmount]}
-                      onValueChange={([value]) => 
-                        updateScenario(activeScenario, { 
+                  </CardContent>
+                </Card>
+
+                {/* SIP Calculator */}
+                <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm">
+                  <CardHeader className="text-center pb-6">
+                    <CardTitle className="text-2xl font-bold flex items-center justify-center gap-3">
+                      <TrendingUp className="h-7 w-7 text-financial-500" />
+                      {t('invest.title')}
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-8">
+                    {/* SIP Amount */}
+                    <SliderField
+                      label={t('invest.amount')}
+                      tooltip={t('invest.amountHelp')}
+                      value={currentScenario.sip.sipAmount}
+                      onChange={(value) =>
+                        updateScenario(activeScenario, {
                           sip: { ...currentScenario.sip, sipAmount: value }
                         })
                       }
-                      min={5000}
-                      max={100000}
-                      step={1000}
-                      className="neumorph rounded-full p-2"
+                      range={ranges.sipAmount}
+                      format={formatShorthand}
                     />
-                    <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>₹5K</span>
-                      <span>₹1L</span>
-                    </div>
-                  </div>
-
-                  {/* SIP Return Rate */}
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <label className="text-sm font-medium text-foreground">
-                          Expected Annual Returns
-                        </label>
-                        <TooltipProvider>
-                          <Tooltip>
-                            <TooltipTrigger>
-                              <Info className="h-4 w-4 text-muted-foreground" />
-                            </TooltipTrigger>
-                            <TooltipContent>
-                              <p>Expected annual return rate from your SIP investments</p>
-                            </TooltipContent>
-                          </Tooltip>
-                        </TooltipProvider>
-                      </div>
-                      <span className="text-lg font-semibold text-financial-600">
-                        {currentScenario.sip.sipReturnRate}%
-                      </span>
-                    </div>
-                    <Slider
-                      value={[currentScenario.sip.sipReturnRate]}
-                      onValueChange={([value]) => 
-                        updateScenario(activeScenario, { 
+
+                    {/* SIP Return Rate */}
+                    <SliderField
+                      label={t('invest.return')}
+                      tooltip={t('invest.returnHelp')}
+                      value={currentScenario.sip.sipReturnRate}
+                      onChange={(value) =>
+                        updateScenario(activeScenario, {
                           sip: { ...currentScenario.sip, sipReturnRate: value }
                         })
                       }
-                      min={8}
-                      max={20}
-                      step={0.5}
-                      className="neumorph rounded-full p-2"
+                      range={ranges.sipReturnRate}
+                      format={formatRate}
                     />
-                    <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>8%</span>
-                      <span>20%</span>
-                    </div>
-                  </div>
-
-                  {/* SIP Tenure */}
-                  <div className="space-y-4">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center gap-2">
-                        <label className="text-sm font-medium text-foreground">
-                          Investment Period
-                        </label>
-                        <TooltipProvider>
-                          <Tooltip>
-                            <TooltipTrigger>
-                              <Info className="h-4 w-4 text-muted-foreground" />
-                            </TooltipTrigger>
-                            <TooltipContent>
-                              <p>Number of years you plan to continue SIP</p>
-                            </TooltipContent>
-                          </Tooltip>
-                        </TooltipProvider>
-                      </div>
-                      <span className="text-lg font-semibold text-financial-600">
-                        {currentScenario.sip.sipTenure} years
-                      </span>
-                    </div>
-                    <Slider
-                      value={[currentScenario.sip.sipTenure]}
-                      onValueChange={([value]) => 
-                        updateScenario(activeScenario, { 
+
+                    {/* SIP Tenure */}
+                    <SliderField
+                      label={t('invest.period')}
+                      tooltip={t('invest.periodHelp')}
+                      value={currentScenario.sip.sipTenure}
+                      onChange={(value) =>
+                        updateScenario(activeScenario, {
                           sip: { ...currentScenario.sip, sipTenure: value }
                         })
                       }
-                      min={5}
-                      max={30}
-                      step={1}
-                      className="neumorph rounded-full p-2"
+                      range={ranges.sipTenure}
+                      format={formatYears}
                     />
-                    <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>5 years</span>
-                      <span>30 years</span>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            </div>
+
+                    <StepUpControls
+                      sip={currentScenario.sip}
+                      onChange={(stepUp) =>
+                        updateScenario(activeScenario, {
+                          sip: { ...currentScenario.sip, stepUp }
+                        })
+                      }
+                    />
+                  </CardContent>
+                </Card>
+              </div>
+
+              <AffordabilityPanel
+                affordability={currentScenario.affordability}
+                loan={currentScenario.loan}
+                onChange={(affordability) => {
+                  // Bring the loan within the cap as soon as it is switched on
+                  const loanAmount = cappedLoanAmount(
+                    { ...currentScenario, affordability },
+                    ranges.loanAmount.min
+                  );
+                  updateScenario(activeScenario, {
+                    affordability,
+                    loan: { ...currentScenario.loan, loanAmount }
+                  });
+                }}
+              />
+
+              <PrepaymentPlanner
+                plan={currentScenario.loan.prepayment}
+                tenure={currentScenario.loan.tenure}
+                onChange={(prepayment) =>
+                  updateScenario(activeScenario, {
+                    loan: { ...currentScenario.loan, prepayment }
+                  })
+                }
+              />
+
+              <FloatingRatePanel
+                plan={currentScenario.loan.floatingRate}
+                interestRate={currentScenario.loan.interestRate}
+                tenure={currentScenario.loan.tenure}
+                onChange={(floatingRate) =>
+                  updateScenario(activeScenario, {
+                    loan: { ...currentScenario.loan, floatingRate }
+                  })
+                }
+              />
+
+              <TaxPanel
+                tax={currentScenario.tax}
+                loan={currentScenario.loan}
+                onChange={(tax) => updateScenario(activeScenario, { tax })}
+              />
+
+              <CapitalGainsPanel
+                sip={currentScenario.sip}
+                onChange={(capitalGains) =>
+                  updateScenario(activeScenario, {
+                    sip: { ...currentScenario.sip, capitalGains }
+                  })
+                }
+                sipBasis={sipBasis}
+                onSipBasisChange={setSipBasis}
+              />
+
+              <MonteCarloPanel
+                settings={simulationSettings}
+                onChange={setSimulationSettings}
+                result={simulation}
+                running={simulationRunning}
+                target={activeResults?.totalPayment ?? 0}
+              />
+
+              <GoalSolverPanel
+                inputs={currentScenario}
+                scenarioName={currentScenario.name}
+                basis={valueBasis}
+                sipBasis={sipBasis}
+                onApply={(inputs) => {
+                  updateScenario(activeScenario, inputs);
+                  toast.success(t('solver.applied', { name: currentScenario.name }));
+                }}
+                onApplyAsNew={addScenario}
+              />
+            </>
           )}
 
           {/* Results Section */}
           {activeResults && (
             <>
+              <ValuationControls
+                basis={valueBasis}
+                onBasisChange={setValueBasis}
+                inflationRate={currentScenario!.inflationRate ?? 0}
+                onInflationRateChange={(inflationRate) =>
+                  updateScenario(activeScenario, { inflationRate })
+                }
+              />
+
               {/* Summary Cards */}
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-12">
                 <Card className="neumorph-outset rounded-2xl border-0 bg-card/50 backdrop-blur-sm overflow-hidden group hover:scale-105 transition-transform duration-300">
@@ -666,17 +733,17 @@ export default function Index() {
                             <Info className="h-4 w-4 text-muted-foreground" />
                           </TooltipTrigger>
                           <TooltipContent>
-                            <p>Total interest you'll pay over the loan tenure</p>
+                            <p>{t('results.interestHelp')}</p>
                           </TooltipContent>
                         </Tooltip>
                       </TooltipProvider>
                     </div>
-                    <h3 className="text-sm font-medium text-muted-foreground mb-2">Total Interest Paid</h3>
+                    <h3 className="text-sm font-medium text-muted-foreground mb-2">{t('results.interest')}</h3>
                     <p className="text-2xl font-bold text-destructive">
                       {formatCurrency(activeResults.totalInterest)}
                     </p>
                     <p className="text-xs text-muted-foreground mt-2">
-                      EMI: {formatCurrency(activeResults.emi)}
+                      {t('results.payment', { amount: formatCurrency(activeResults.emi) })}
                     </p>
                   </CardContent>
                 </Card>
@@ -693,18 +760,23 @@ export default function Index() {
                             <Info className="h-4 w-4 text-muted-foreground" />
                           </TooltipTrigger>
                           <TooltipContent>
-                            <p>Total returns from your SIP investments</p>
+                            <p>{t('results.returnsHelp')}</p>
                           </TooltipContent>
                         </Tooltip>
                       </TooltipProvider>
                     </div>
-                    <h3 className="text-sm font-medium text-muted-foreground mb-2">SIP Returns</h3>
+                    <h3 className="text-sm font-medium text-muted-foreground mb-2">{t('results.returns')}</h3>
                     <p className="text-2xl font-bold text-green-500">
                       {formatCurrency(activeResults.sipReturns)}
                     </p>
                     <p className="text-xs text-muted-foreground mt-2">
-                      Maturity: {formatCurrency(activeResults.sipMaturityValue)}
+                      {t('results.maturity', { amount: formatCurrency(activeResults.sipMaturityValue) })}
                     </p>
+                    {currentScenario!.sip.capitalGains && (
+                      <p className="text-xs text-muted-foreground">
+                        {t('results.afterTax', { amount: formatCurrency(activeResults.sipPostTaxMaturityValue) })}
+                      </p>
+                    )}
                   </CardContent>
                 </Card>
 
@@ -712,7 +784,7 @@ export default function Index() {
                   <CardContent className="p-6">
                     <div className="flex items-center justify-between mb-4">
                       <div className={`p-3 rounded-full ${activeResults.netPosition >= 0 ? 'bg-green-500/10' : 'bg-destructive/10'}`}>
-                        <Target className="h-6 w-6" className={activeResults.netPosition >= 0 ? 'text-green-500' : 'text-destructive'} />
+                        <Target className={`h-6 w-6 ${activeResults.netPosition >= 0 ? 'text-green-500' : 'text-destructive'}`} />
                       </div>
                       <TooltipProvider>
                         <Tooltip>
@@ -720,17 +792,17 @@ export default function Index() {
                             <Info className="h-4 w-4 text-muted-foreground" />
                           </TooltipTrigger>
                           <TooltipContent>
-                            <p>Net financial position (SIP maturity - Total loan payment)</p>
+                            <p>{t(sipBasis === 'post-tax' ? 'results.netHelpAfterTax' : 'results.netHelp')}</p>
                           </TooltipContent>
                         </Tooltip>
                       </TooltipProvider>
                     </div>
-                    <h3 className="text-sm font-medium text-muted-foreground mb-2">Net Financial Position</h3>
+                    <h3 className="text-sm font-medium text-muted-foreground mb-2">{t('results.net')}</h3>
                     <p className={`text-2xl font-bold ${activeResults.netPosition >= 0 ? 'text-green-500' : 'text-destructive'}`}>
                       {formatCurrency(activeResults.netPosition)}
                     </p>
                     <Badge variant={activeResults.netPosition >= 0 ? "default" : "destructive"} className="mt-2">
-                      {activeResults.netPosition >= 0 ? "Positive" : "Negative"}
+                      {t(activeResults.netPosition >= 0 ? 'results.positive' : 'results.negative')}
                     </Badge>
                   </CardContent>
                 </Card>
@@ -747,75 +819,44 @@ export default function Index() {
                             <Info className="h-4 w-4 text-muted-foreground" />
                           </TooltipTrigger>
                           <TooltipContent>
-                            <p>Potential savings from early loan closure</p>
+                            <p>{t('results.savingsHelp')}</p>
                           </TooltipContent>
                         </Tooltip>
                       </TooltipProvider>
                     </div>
-                    <h3 className="text-sm font-medium text-muted-foreground mb-2">Early Closure Savings</h3>
+                    <h3 className="text-sm font-medium text-muted-foreground mb-2">{t('results.savings')}</h3>
                     <p className="text-2xl font-bold text-financial-500">
                       {formatCurrency(activeResults.earlyClosureSavings)}
                     </p>
                     <p className="text-xs text-muted-foreground mt-2">
-                      Estimated savings
+                      {activeResults.monthsSaved > 0
+                        ? t('results.monthsSaved', { count: activeResults.monthsSaved })
+                        : t('results.noPrepayments')}
                     </p>
                   </CardContent>
                 </Card>
               </div>
 
+              {currentScenario!.tax && (
+                <TaxResultCards
+                  results={activeResults}
+                  interestRate={currentScenario!.loan.interestRate}
+                />
+              )}
+
+              {scenarios.length > 1 && <ComparisonTable results={allResults} />}
+
               {/* Charts Section */}
               <div className="space-y-8">
                 <Tabs defaultValue="comparison" className="w-full">
                   <TabsList className="grid w-full grid-cols-3 neumorph rounded-2xl bg-muted/50 p-1">
-                    <TabsTrigger value="comparison" className="rounded-xl text-xs sm:text-sm">Comparison Chart</TabsTrigger>
-                    <TabsTrigger value="breakdown" className="rounded-xl text-xs sm:text-sm">Loan Breakdown</TabsTrigger>
-                    <TabsTrigger value="growth" className="rounded-xl text-xs sm:text-sm">SIP Growth</TabsTrigger>
+                    <TabsTrigger value="comparison" className="rounded-xl text-xs sm:text-sm">{t('charts.comparison')}</TabsTrigger>
+                    <TabsTrigger value="breakdown" className="rounded-xl text-xs sm:text-sm">{t('charts.breakdown')}</TabsTrigger>
+                    <TabsTrigger value="growth" className="rounded-xl text-xs sm:text-sm">{t('charts.growth')}</TabsTrigger>
                   </TabsList>
 
                   <TabsContent value="comparison" className="mt-8">
-                    <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm">
-                      <CardHeader>
-                        <CardTitle className="flex items-center gap-3">
-                          <BarChart3 className="h-6 w-6 text-financial-500" />
-                          Financial Projection Comparison
-                        </CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="h-96">
-                          <ResponsiveContainer width="100%" height="100%">
-                            <LineChart data={chartData}>
-                              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-                              <XAxis dataKey="year" />
-                              <YAxis 
-                                tickFormatter={(value) => `₹${(value / 100000).toFixed(0)}L`}
-                              />
-                              <RechartsTooltip 
-                                formatter={(value: number) => formatCurrency(value)}
-                                labelFormatter={(year) => `Year ${year}`}
-                                contentStyle={{
-                                  backgroundColor: 'hsl(var(--card))',
-                                  border: 'none',
-                                  borderRadius: '12px',
-                                  boxShadow: '0 8px 32px rgba(0,0,0,0.1)'
-                                }}
-                              />
-                              <Legend />
-                              {scenarios.map((scenario) => (
-                                <Line
-                                  key={`net_${scenario.id}`}
-                                  type="monotone"
-                                  dataKey={`net_${scenario.id}`}
-                                  stroke={scenario.color}
-                                  strokeWidth={3}
-                                  name={`${scenario.name} Net Position`}
-                                  dot={{ r: 4 }}
-                                />
-                              ))}
-                            </LineChart>
-                          </ResponsiveContainer>
-                        </div>
-                      </CardContent>
-                    </Card>
+                    <ComparisonChart data={chartData} scenarios={scenarios} />
                   </TabsContent>
 
                   <TabsContent value="breakdown" className="mt-8">
@@ -823,7 +864,7 @@ export default function Index() {
                       <CardHeader>
                         <CardTitle className="flex items-center gap-3">
                           <DollarSign className="h-6 w-6 text-financial-500" />
-                          Loan Payment Breakdown
+                          {t('charts.breakdownTitle')}
                         </CardTitle>
                       </CardHeader>
                       <CardContent>
@@ -832,8 +873,8 @@ export default function Index() {
                             <PieChart>
                               <Pie
                                 data={[
-                                  { name: 'Principal', value: currentScenario!.loan.loanAmount, fill: '#10B981' },
-                                  { name: 'Interest', value: activeResults.totalInterest, fill: '#EF4444' }
+                                  { name: t('charts.principal'), value: activeResults.totalPayment - activeResults.totalInterest, fill: '#10B981' },
+                                  { name: t('charts.interest'), value: activeResults.totalInterest, fill: '#EF4444' }
                                 ]}
                                 cx="50%"
                                 cy="50%"
@@ -855,47 +896,13 @@ export default function Index() {
                   </TabsContent>
 
                   <TabsContent value="growth" className="mt-8">
-                    <Card className="neumorph-outset rounded-3xl border-0 bg-card/50 backdrop-blur-sm">
-                      <CardHeader>
-                        <CardTitle className="flex items-center gap-3">
-                          <TrendingUp className="h-6 w-6 text-financial-500" />
-                          SIP Investment Growth
-                        </CardTitle>
-                      </CardHeader>
-                      <CardContent>
-                        <div className="h-96">
-                          <ResponsiveContainer width="100%" height="100%">
-                            <BarChart data={chartData.slice(0, 10)}>
-                              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-                              <XAxis dataKey="year" />
-                              <YAxis 
-                                tickFormatter={(value) => `₹${(value / 100000).toFixed(0)}L`}
-                              />
-                              <RechartsTooltip 
-                                formatter={(value: number) => formatCurrency(value)}
-                                labelFormatter={(year) => `Year ${year}`}
-                                contentStyle={{
-                                  backgroundColor: 'hsl(var(--card))',
-                                  border: 'none',
-                                  borderRadius: '12px',
-                                  boxShadow: '0 8px 32px rgba(0,0,0,0.1)'
-                                }}
-                              />
-                              <Legend />
-                              {scenarios.map((scenario) => (
-                                <Bar
-                                  key={`sip_${scenario.id}`}
-                                  dataKey={`sip_${scenario.id}`}
-                                  fill={scenario.color}
-                                  name={`${scenario.name} SIP Value`}
-                                  radius={[4, 4, 0, 0]}
-                                />
-                              ))}
-                            </BarChart>
-                          </ResponsiveContainer>
-                        </div>
-                      </CardContent>
-                    </Card>
+                    <SIPGrowthChart
+                      data={chartData}
+                      scenarios={scenarios}
+                      simulation={
+                        simulation && currentScenario ? { scenario: currentScenario, years: simulation.years } : null
+                      }
+                    />
                   </TabsContent>
                 </Tabs>
               </div>
@@ -910,32 +917,15 @@ export default function Index() {
                         <CardTitle className="flex items-center justify-between">
                           <div className="flex items-center gap-3">
                             <Calculator className="h-6 w-6 text-financial-500" />
-                            Loan Amortization Schedule
+                            {t('schedule.amortization')}
                           </div>
                           {showAmortization ? <ChevronUp /> : <ChevronDown />}
                         </CardTitle>
                       </CardHeader>
                     </CollapsibleTrigger>
                     <CollapsibleContent>
-                      <CardContent className="max-h-96 overflow-auto">
-                        <div className="space-y-2">
-                          <div className="grid grid-cols-5 gap-2 text-xs font-semibold text-muted-foreground border-b pb-2">
-                            <span>Month</span>
-                            <span>EMI</span>
-                            <span>Principal</span>
-                            <span>Interest</span>
-                            <span>Balance</span>
-                          </div>
-                          {generateAmortizationSchedule(currentScenario!.loan).slice(0, 60).map((entry) => (
-                            <div key={entry.month} className="grid grid-cols-5 gap-2 text-xs py-1 hover:bg-muted/30 rounded">
-                              <span>{entry.month}</span>
-                              <span>{formatCurrency(entry.emi)}</span>
-                              <span className="text-green-600">{formatCurrency(entry.principal)}</span>
-                              <span className="text-red-600">{formatCurrency(entry.interest)}</span>
-                              <span>{formatCurrency(entry.balance)}</span>
-                            </div>
-                          ))}
-                        </div>
+                      <CardContent>
+                        <AmortizationTable schedule={schedules.amortization} />
                       </CardContent>
                     </CollapsibleContent>
                   </Card>
@@ -949,30 +939,15 @@ export default function Index() {
                         <CardTitle className="flex items-center justify-between">
                           <div className="flex items-center gap-3">
                             <TrendingUp className="h-6 w-6 text-financial-500" />
-                            SIP Growth Schedule
+                            {t('schedule.growth')}
                           </div>
                           {showSIPGrowth ? <ChevronUp /> : <ChevronDown />}
                         </CardTitle>
                       </CardHeader>
                     </CollapsibleTrigger>
                     <CollapsibleContent>
-                      <CardContent className="max-h-96 overflow-auto">
-                        <div className="space-y-2">
-                          <div className="grid grid-cols-4 gap-2 text-xs font-semibold text-muted-foreground border-b pb-2">
-                            <span>Month</span>
-                            <span>Investment</span>
-                            <span>Returns</span>
-                            <span>Total Value</span>
-                          </div>
-                          {generateSIPGrowthSchedule(currentScenario!.sip).slice(0, 60).map((entry) => (
-                            <div key={entry.month} className="grid grid-cols-4 gap-2 text-xs py-1 hover:bg-muted/30 rounded">
-                              <span>{entry.month}</span>
-                              <span>{formatCurrency(entry.investment)}</span>
-                              <span className="text-green-600">{formatCurrency(entry.returns)}</span>
-                              <span className="font-medium">{formatCurrency(entry.balance)}</span>
-                            </div>
-                          ))}
-                        </div>
+                      <CardContent>
+                        <SIPGrowthTable schedule={schedules.sipGrowth} />
                       </CardContent>
                     </CollapsibleContent>
                   </Card>
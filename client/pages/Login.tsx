@@ -0,0 +1,37 @@
+import { Link, Navigate, useNavigate } from "react-router-dom";
+import { AuthForm } from "@/components/auth/AuthForm";
+import { useAuth } from "@/hooks/use-auth";
+import { useLocale } from "@/hooks/use-locale";
+
+const Login = () => {
+  const { user, login } = useAuth();
+  const navigate = useNavigate();
+  const { t } = useLocale();
+
+  if (user) return <Navigate to="/" replace />;
+
+  return (
+    <AuthForm
+      title={t("auth.login")}
+      description={t("auth.loginDescription")}
+      submitLabel={t("auth.login")}
+      onSubmit={async (credentials) => {
+        await login.mutateAsync(credentials);
+        navigate("/");
+      }}
+      footer={
+        <>
+          {t("auth.noAccount")}{" "}
+          <Link
+            to="/signup"
+            className="text-financial-600 hover:text-financial-700 underline"
+          >
+            {t("auth.signup")}
+          </Link>
+        </>
+      }
+    />
+  );
+};
+
+export default Login;
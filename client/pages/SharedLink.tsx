@@ -0,0 +1,60 @@
+import { useQuery } from "@tanstack/react-query";
+import { Navigate, useParams } from "react-router-dom";
+import type { ResolveShareLinkResponse } from "@shared/api";
+import { useLocale } from "@/hooks/use-locale";
+import { apiRequest } from "@/lib/api";
+import { buildShareHash } from "@/lib/share";
+
+/**
+ * Resolves a short link (/s/:id) and hands its scenarios to the calculator
+ */
+const SharedLink = () => {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useLocale();
+  const { data, isError } = useQuery({
+    queryKey: ["share", id],
+    queryFn: () =>
+      apiRequest<ResolveShareLinkResponse>(
+        `/api/share/${encodeURIComponent(id)}`,
+      ),
+    retry: false,
+  });
+
+  if (data) {
+    return (
+      <Navigate
+        to={{ pathname: "/", hash: buildShareHash(data.payload) }}
+        replace
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background">
+      <div className="text-center">
+        {isError ? (
+          <>
+            <h1 className="text-4xl font-bold mb-4">
+              {t("shareLink.notFound")}
+            </h1>
+            <p className="text-xl text-muted-foreground mb-4">
+              {t("shareLink.notFoundHelp")}
+            </p>
+            <a
+              href="/"
+              className="text-financial-600 hover:text-financial-700 underline"
+            >
+              {t("shareLink.open")}
+            </a>
+          </>
+        ) : (
+          <p className="text-xl text-muted-foreground">
+            {t("shareLink.loading")}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedLink;
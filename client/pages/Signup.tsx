@@ -0,0 +1,38 @@
+import { Link, Navigate, useNavigate } from "react-router-dom";
+import { AuthForm } from "@/components/auth/AuthForm";
+import { useAuth } from "@/hooks/use-auth";
+import { useLocale } from "@/hooks/use-locale";
+
+const Signup = () => {
+  const { user, signup } = useAuth();
+  const navigate = useNavigate();
+  const { t } = useLocale();
+
+  if (user) return <Navigate to="/" replace />;
+
+  return (
+    <AuthForm
+      title={t("auth.signupTitle")}
+      description={t("auth.signupDescription")}
+      submitLabel={t("auth.signup")}
+      newPassword
+      onSubmit={async (credentials) => {
+        await signup.mutateAsync(credentials);
+        navigate("/");
+      }}
+      footer={
+        <>
+          {t("auth.haveAccount")}{" "}
+          <Link
+            to="/login"
+            className="text-financial-600 hover:text-financial-700 underline"
+          >
+            {t("auth.login")}
+          </Link>
+        </>
+      }
+    />
+  );
+};
+
+export default Signup;
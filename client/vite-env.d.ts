@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** JSON overrides for the slider ranges, see client/lib/input-ranges.ts */
+  readonly VITE_INPUT_RANGES?: string;
+}
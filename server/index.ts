@@ -1,12 +1,59 @@
+import path from "path";
 import express from "express";
 import cors from "cors";
+import { JsonFileStore } from "./lib/json-store";
+import {
+  createSessions,
+  type StoredSession,
+  type StoredUser,
+} from "./lib/session";
+import { createAuthRouter } from "./routes/auth";
 import { handleDemo } from "./routes/demo";
+import { handleExport } from "./routes/export";
+import {
+  handleAmortization,
+  handleCalculate,
+  handleLoanEmi,
+  handleSIPProjection,
+} from "./routes/finance";
+import {
+  createHouseholdsRouter,
+  type StoredHousehold,
+} from "./routes/households";
+import { createPlansRouter, type StoredPlan } from "./routes/plans";
+import { handleReport } from "./routes/report";
+import { createShareRouter, type StoredShareLink } from "./routes/share";
+import { handleSolve } from "./routes/solve";
 
-export function createServer() {
+export interface ServerOptions {
+  /**
+   * Directory for the file-backed stores. Defaults to $DATA_DIR or ./.data;
+   * pass `null` to keep everything in memory.
+   */
+  dataDir?: string | null;
+  /**
+   * Other origins allowed to call the API with the user's cookies. Defaults
+   * to the comma-separated $CORS_ORIGINS; same-origin requests need none.
+   */
+  corsOrigins?: string[];
+}
+
+const envOrigins = () =>
+  (process.env.CORS_ORIGINS ?? "")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+
+export function createServer({
+  dataDir = process.env.DATA_DIR ?? path.join(process.cwd(), ".data"),
+  corsOrigins = envOrigins(),
+}: ServerOptions = {}) {
   const app = express();
+  const storeFile = (name: string) =>
+    dataDir === null ? null : path.join(dataDir, `${name}.json`);
 
   // Middleware
-  app.use(cors());
+  app.use(cors({ origin: corsOrigins, credentials: true }));
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
@@ -17,5 +64,44 @@ export function createServer() {
 
   app.get("/api/demo", handleDemo);
 
+  // Finance engine routes
+  app.post("/api/loan/emi", handleLoanEmi);
+  app.post("/api/loan/amortization", handleAmortization);
+  app.post("/api/sip/projection", handleSIPProjection);
+  app.post("/api/calculate", handleCalculate);
+  app.post("/api/solve", handleSolve);
+  app.post("/api/export", handleExport);
+  app.post("/api/report", handleReport);
+
+  // Short links for shared scenario sets
+  app.use(
+    "/api/share",
+    createShareRouter(
+      new JsonFileStore<StoredShareLink>(storeFile("share-links")),
+    ),
+  );
+
+  // Accounts, and each account's households and saved plans
+  const users = new JsonFileStore<StoredUser>(storeFile("users"));
+  const sessions = createSessions(
+    users,
+    new JsonFileStore<StoredSession>(storeFile("sessions")),
+  );
+  const households = new JsonFileStore<StoredHousehold>(
+    storeFile("households"),
+  );
+  const plans = new JsonFileStore<StoredPlan>(storeFile("plans"));
+  app.use("/api/auth", createAuthRouter(users, sessions));
+  app.use(
+    "/api/households",
+    sessions.requireUser,
+    createHouseholdsRouter(households, plans),
+  );
+  app.use(
+    "/api/plans",
+    sessions.requireUser,
+    createPlansRouter(plans, households),
+  );
+
   return app;
 }
@@ -0,0 +1,17 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+
+/**
+ * Express 4 doesn't catch rejected promises from handlers; forward them to
+ * the error middleware instead of leaving the request hanging.
+ */
+export const asyncHandler =
+  (
+    handler: (
+      req: Request,
+      res: Response,
+      next: NextFunction,
+    ) => Promise<unknown>,
+  ): RequestHandler =>
+  (req, res, next) => {
+    handler(req, res, next).catch(next);
+  };
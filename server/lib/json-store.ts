@@ -0,0 +1,85 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+/**
+ * A tiny key-value store kept in a single JSON file, for data that must
+ * survive restarts without an external database. Pass `null` as the file to
+ * keep everything in memory (tests, serverless previews).
+ *
+ * Writes are serialized and go through a temp file + rename, so a crash never
+ * leaves a half-written store behind.
+ */
+export class JsonFileStore<T> {
+  private records: Map<string, T> | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly file: string | null) {}
+
+  private async load(): Promise<Map<string, T>> {
+    if (this.records) return this.records;
+    let entries: Record<string, T> = {};
+    if (this.file) {
+      try {
+        entries = JSON.parse(await fs.readFile(this.file, "utf8"));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      }
+    }
+    this.records ??= new Map(Object.entries(entries));
+    return this.records;
+  }
+
+  private persist(records: Map<string, T>): Promise<void> {
+    if (!this.file) return Promise.resolve();
+    const file = this.file;
+    const next = this.writing.then(async () => {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      const temp = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(temp, JSON.stringify(Object.fromEntries(records)));
+      await fs.rename(temp, file);
+    });
+    // Keep the chain alive even if one write fails
+    this.writing = next.catch(() => undefined);
+    return next;
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    return (await this.load()).get(id);
+  }
+
+  async values(): Promise<T[]> {
+    return [...(await this.load()).values()];
+  }
+
+  async set(id: string, value: T): Promise<void> {
+    const records = await this.load();
+    records.set(id, value);
+    await this.persist(records);
+  }
+
+  /**
+   * Read and write a record in one step, so no other change can land in
+   * between. `change` gets the current value and returns the new one, the
+   * same value to leave it alone, or undefined to delete it.
+   */
+  async update(
+    id: string,
+    change: (current: T | undefined) => T | undefined,
+  ): Promise<T | undefined> {
+    const records = await this.load();
+    const current = records.get(id);
+    const next = change(current);
+    if (next === current) return current;
+    if (next === undefined) records.delete(id);
+    else records.set(id, next);
+    await this.persist(records);
+    return next;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const records = await this.load();
+    const deleted = records.delete(id);
+    if (deleted) await this.persist(records);
+    return deleted;
+  }
+}
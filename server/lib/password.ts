@@ -0,0 +1,31 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 64;
+
+const derive = (password: string, salt: Buffer) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password.normalize("NFKC"), salt, KEY_LENGTH, (error, key) =>
+      error ? reject(error) : resolve(key),
+    ),
+  );
+
+/**
+ * Hash a password with scrypt and a random salt, as "scrypt:<salt>:<key>"
+ * in base64url
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const key = await derive(password, salt);
+  return `scrypt:${salt.toString("base64url")}:${key.toString("base64url")}`;
+}
+
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<boolean> {
+  const [scheme, salt, key] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+  const expected = Buffer.from(key, "base64url");
+  const actual = await derive(password, Buffer.from(salt, "base64url"));
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
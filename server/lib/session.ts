@@ -0,0 +1,104 @@
+import { createHash, randomBytes } from "crypto";
+import type { Request, RequestHandler, Response } from "express";
+import type { ApiErrorResponse, AuthUser } from "@shared/api";
+import { asyncHandler } from "./async-handler";
+import type { JsonFileStore } from "./json-store";
+
+/** An account, keyed in its store by the lower-cased email */
+export interface StoredUser extends AuthUser {
+  passwordHash: string;
+  createdAt: string;
+}
+
+/**
+ * A signed-in browser, keyed in its store by a hash of the cookie token so
+ * the store alone can't be used to sign in
+ */
+export interface StoredSession {
+  email: string;
+  expiresAt: string;
+}
+
+export const SESSION_COOKIE = "session";
+
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const sessionKey = (token: string) =>
+  createHash("sha256").update(token).digest("base64url");
+
+/** The session token from the Cookie header, if there is one */
+function readToken(req: Request): string | undefined {
+  for (const pair of (req.headers.cookie ?? "").split(";")) {
+    const [name, ...value] = pair.trim().split("=");
+    if (name === SESSION_COOKIE) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+/**
+ * Sign-in state kept in an httpOnly cookie holding a random token, with the
+ * sessions themselves in a store so they can be revoked
+ */
+export function createSessions(
+  users: JsonFileStore<StoredUser>,
+  sessions: JsonFileStore<StoredSession>,
+) {
+  /** Start a session for the user and set its cookie */
+  const start = async (res: Response, user: StoredUser) => {
+    const token = randomBytes(32).toString("base64url");
+    await sessions.set(sessionKey(token), {
+      email: user.email,
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+    });
+    res.cookie(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_TTL_MS,
+      path: "/",
+    });
+  };
+
+  /** End the request's session, if any, and clear its cookie */
+  const end = async (req: Request, res: Response) => {
+    const token = readToken(req);
+    if (token) await sessions.delete(sessionKey(token));
+    res.clearCookie(SESSION_COOKIE, { path: "/" });
+  };
+
+  /** The signed-in user, or undefined for a missing or expired session */
+  const userFor = async (req: Request): Promise<AuthUser | undefined> => {
+    const token = readToken(req);
+    if (!token) return undefined;
+    const key = sessionKey(token);
+    const session = await sessions.get(key);
+    if (!session) return undefined;
+    if (Date.parse(session.expiresAt) <= Date.now()) {
+      await sessions.delete(key);
+      return undefined;
+    }
+    const user = await users.get(session.email);
+    return user && { id: user.id, email: user.email };
+  };
+
+  /**
+   * Only lets signed-in requests through, with the user in `res.locals.user`
+   * (see `currentUser`); everything else gets a 401
+   */
+  const requireUser: RequestHandler = asyncHandler(async (req, res, next) => {
+    const user = await userFor(req);
+    if (!user) {
+      const response: ApiErrorResponse = { error: "Sign in to continue" };
+      return res.status(401).json(response);
+    }
+    res.locals.user = user;
+    next();
+  });
+
+  return { start, end, userFor, requireUser };
+}
+
+export type Sessions = ReturnType<typeof createSessions>;
+
+/** The user `requireUser` let through */
+export const currentUser = (res: Response): AuthUser => res.locals.user;
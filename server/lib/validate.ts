@@ -0,0 +1,26 @@
+import type { Response } from "express";
+import type { ZodType } from "zod";
+import { ApiErrorResponse } from "@shared/api";
+
+/**
+ * Parse a request body against a schema. On failure a structured 400 is sent
+ * and `null` is returned, so handlers can simply bail out.
+ */
+export function parseBody<T>(
+  schema: ZodType<T>,
+  body: unknown,
+  res: Response,
+): T | null {
+  const result = schema.safeParse(body);
+  if (result.success) return result.data;
+
+  const response: ApiErrorResponse = {
+    error: "Invalid request body",
+    issues: result.error.issues.map((issue) => ({
+      path: issue.path.join("."),
+      message: issue.message,
+    })),
+  };
+  res.status(400).json(response);
+  return null;
+}
@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer } from "../test-utils";
+
+let baseUrl: string;
+let close: () => Promise<void>;
+
+beforeAll(async () => {
+  ({ baseUrl, close } = await startTestServer());
+});
+
+afterAll(() => close());
+
+const post = (path: string, body?: unknown, cookie?: string) =>
+  fetch(`${baseUrl}/api/auth${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(cookie ? { Cookie: cookie } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const me = (cookie?: string) =>
+  fetch(`${baseUrl}/api/auth/me`, {
+    headers: cookie ? { Cookie: cookie } : {},
+  });
+
+/** The session cookie a response set, ready to send back */
+const sessionCookie = (res: Response) =>
+  res.headers.get("set-cookie")?.split(";")[0];
+
+describe("auth routes", () => {
+  it("should sign up, keep the session and sign out", async () => {
+    const res = await post("/signup", {
+      email: " Advisor@Example.com ",
+      password: "correct horse",
+    });
+    expect(res.status).toBe(201);
+    const { user } = await res.json();
+    expect(user.email).toBe("advisor@example.com");
+    expect(user).not.toHaveProperty("passwordHash");
+    expect(res.headers.get("set-cookie")).toMatch(/HttpOnly/);
+
+    const cookie = sessionCookie(res);
+    expect(await (await me(cookie)).json()).toEqual({ user });
+
+    expect((await post("/logout", undefined, cookie)).status).toBe(204);
+    expect((await me(cookie)).status).toBe(401);
+  });
+
+  it("should refuse a second account for the same email", async () => {
+    const credentials = { email: "twice@example.com", password: "password1" };
+    expect((await post("/signup", credentials)).status).toBe(201);
+    const res = await post("/signup", {
+      ...credentials,
+      email: "TWICE@example.com",
+    });
+    expect(res.status).toBe(409);
+  });
+
+  it("should reject short passwords and bad emails", async () => {
+    expect(
+      (await post("/signup", { email: "a@example.com", password: "short" }))
+        .status,
+    ).toBe(400);
+    expect(
+      (await post("/signup", { email: "nope", password: "long enough" }))
+        .status,
+    ).toBe(400);
+  });
+
+  it("should log in only with the right password", async () => {
+    const credentials = { email: "login@example.com", password: "password1" };
+    await post("/signup", credentials);
+
+    const wrong = await post("/login", { ...credentials, password: "nope" });
+    expect(wrong.status).toBe(401);
+    const unknown = await post("/login", {
+      ...credentials,
+      email: "nobody@example.com",
+    });
+    expect(unknown.status).toBe(401);
+    expect(await unknown.json()).toEqual(await wrong.json());
+
+    const res = await post("/login", credentials);
+    expect(res.status).toBe(200);
+    expect((await me(sessionCookie(res))).status).toBe(200);
+  });
+
+  it("should not trust a made-up session", async () => {
+    expect((await me("session=forged")).status).toBe(401);
+  });
+});
+
+describe("cors", () => {
+  it("should only allow listed origins", async () => {
+    const listed = await startTestServer({
+      corsOrigins: ["https://advisor.example.com"],
+    });
+    const url = `${listed.baseUrl}/api/ping`;
+
+    const allowed = await fetch(url, {
+      headers: { Origin: "https://advisor.example.com" },
+    });
+    expect(allowed.headers.get("access-control-allow-origin")).toBe(
+      "https://advisor.example.com",
+    );
+    const other = await fetch(url, {
+      headers: { Origin: "https://evil.example.com" },
+    });
+    expect(other.headers.get("access-control-allow-origin")).toBeNull();
+    await listed.close();
+  });
+});
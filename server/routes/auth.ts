@@ -0,0 +1,115 @@
+import { randomUUID } from "crypto";
+import { Router } from "express";
+import { z } from "zod";
+import { ApiErrorResponse, AuthResponse, Credentials } from "@shared/api";
+import { asyncHandler } from "../lib/async-handler";
+import type { JsonFileStore } from "../lib/json-store";
+import { hashPassword, verifyPassword } from "../lib/password";
+import type { Sessions, StoredUser } from "../lib/session";
+import { parseBody } from "../lib/validate";
+
+const email = z.string().trim().toLowerCase().email().max(254);
+
+const signupSchema = z.object({
+  email,
+  password: z
+    .string()
+    .min(8, "Use at least 8 characters")
+    .max(200, "Use at most 200 characters"),
+}) as z.ZodType<Credentials>;
+
+const loginSchema = z.object({
+  email,
+  password: z.string().min(1).max(200),
+}) as z.ZodType<Credentials>;
+
+const authResponse = ({ id, email }: StoredUser): AuthResponse => ({
+  user: { id, email },
+});
+
+/**
+ * Checked against when the email is unknown, so a failed login takes as long
+ * whether or not the account exists
+ */
+const decoyHash = hashPassword("decoy password");
+
+export function createAuthRouter(
+  users: JsonFileStore<StoredUser>,
+  sessions: Sessions,
+) {
+  const router = Router();
+
+  router.post(
+    "/signup",
+    asyncHandler(async (req, res) => {
+      const body = parseBody(signupSchema, req.body, res);
+      if (!body) return;
+
+      const candidate: StoredUser = {
+        id: randomUUID(),
+        email: body.email,
+        passwordHash: await hashPassword(body.password),
+        createdAt: new Date().toISOString(),
+      };
+      const user = await users.update(
+        body.email,
+        (current) => current ?? candidate,
+      );
+      if (user !== candidate) {
+        const response: ApiErrorResponse = {
+          error: "An account with this email already exists",
+        };
+        return res.status(409).json(response);
+      }
+
+      await sessions.start(res, user);
+      res.status(201).json(authResponse(user));
+    }),
+  );
+
+  router.post(
+    "/login",
+    asyncHandler(async (req, res) => {
+      const body = parseBody(loginSchema, req.body, res);
+      if (!body) return;
+
+      const user = await users.get(body.email);
+      const valid = await verifyPassword(
+        body.password,
+        user?.passwordHash ?? (await decoyHash),
+      );
+      if (!user || !valid) {
+        const response: ApiErrorResponse = {
+          error: "Incorrect email or password",
+        };
+        return res.status(401).json(response);
+      }
+
+      await sessions.start(res, user);
+      res.status(200).json(authResponse(user));
+    }),
+  );
+
+  router.post(
+    "/logout",
+    asyncHandler(async (req, res) => {
+      await sessions.end(req, res);
+      res.status(204).end();
+    }),
+  );
+
+  router.get(
+    "/me",
+    asyncHandler(async (req, res) => {
+      const user = await sessions.userFor(req);
+      if (!user) {
+        const response: ApiErrorResponse = { error: "Not signed in" };
+        return res.status(401).json(response);
+      }
+      const response: AuthResponse = { user };
+      res.status(200).json(response);
+    }),
+  );
+
+  return router;
+}
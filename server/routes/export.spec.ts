@@ -0,0 +1,66 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer } from "../test-utils";
+
+let baseUrl: string;
+let close: () => Promise<void>;
+
+beforeAll(async () => {
+  ({ baseUrl, close } = await startTestServer());
+});
+
+afterAll(() => close());
+
+const post = (body: unknown) =>
+  fetch(`${baseUrl}/api/export`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+const scenario = {
+  name: "Home loan",
+  inputs: {
+    loan: { loanAmount: 1000000, interestRate: 10, tenure: 10 },
+    sip: { sipAmount: 10000, sipReturnRate: 12, sipTenure: 10 },
+  },
+};
+
+describe("export route", () => {
+  it("should return the full schedules as CSV", async () => {
+    const res = await post({ format: "csv", scenarios: [scenario] });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toContain("text/csv");
+    expect(res.headers.get("content-disposition")).toContain(
+      'filename="schedules-home-loan.csv"',
+    );
+
+    const csv = await res.text();
+    expect(csv).toContain("Home loan - Loan");
+    expect(csv).toContain("Home loan - SIP");
+    expect(csv).toContain("Year 10 total");
+    expect(csv).toContain("\r\n120,10,");
+  });
+
+  it("should return an XLSX workbook", async () => {
+    const res = await post({
+      format: "xlsx",
+      scenarios: [scenario, { ...scenario, name: "Shorter" }],
+      schedules: ["amortization"],
+      label: "All scenarios",
+    });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-disposition")).toContain(
+      "schedules-all-scenarios.xlsx",
+    );
+
+    const bytes = new Uint8Array(await res.arrayBuffer());
+    expect(Array.from(bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+  });
+
+  it("should reject an unknown format", async () => {
+    const res = await post({ format: "pdf", scenarios: [scenario] });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.issues[0].path).toBe("format");
+  });
+});
@@ -0,0 +1,54 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { ExportRequest } from "@shared/api";
+import {
+  buildScheduleSheets,
+  EXPORT_CONTENT_TYPES,
+  exportFileName,
+  renderSheets,
+} from "@shared/export";
+import { scenarioInputsSchema } from "@shared/schemas";
+import { parseBody } from "../lib/validate";
+
+const exportRequestSchema = z.object({
+  format: z.enum(["csv", "xlsx"]),
+  scenarios: z
+    .array(
+      z.object({
+        name: z.string().min(1).max(100),
+        inputs: scenarioInputsSchema,
+      }),
+    )
+    .min(1)
+    .max(20),
+  schedules: z
+    .array(z.enum(["amortization", "sip"]))
+    .min(1)
+    .optional(),
+  basis: z.enum(["nominal", "real"]).optional(),
+  label: z.string().max(100).optional(),
+}) as z.ZodType<ExportRequest>;
+
+/**
+ * Same files as the download menu in the calculator, for batch use
+ */
+export const handleExport: RequestHandler = (req, res) => {
+  const body = parseBody(exportRequestSchema, req.body, res);
+  if (!body) return;
+
+  const sheets = buildScheduleSheets(body.scenarios, {
+    schedules: body.schedules,
+    basis: body.basis,
+  });
+  const file = renderSheets(sheets, body.format);
+  const fileName = exportFileName(
+    body.label ?? body.scenarios[0].name,
+    body.format,
+  );
+
+  res
+    .status(200)
+    .type(EXPORT_CONTENT_TYPES[body.format])
+    .attachment(fileName)
+    .send(typeof file === "string" ? file : Buffer.from(file));
+};
@@ -0,0 +1,82 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer } from "../test-utils";
+
+let baseUrl: string;
+let close: () => Promise<void>;
+
+beforeAll(async () => {
+  ({ baseUrl, close } = await startTestServer());
+});
+
+afterAll(() => close());
+
+const post = (path: string, body: unknown) =>
+  fetch(`${baseUrl}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+const loan = { loanAmount: 1000000, interestRate: 10, tenure: 10 };
+const sip = { sipAmount: 10000, sipReturnRate: 12, sipTenure: 10 };
+
+describe("finance routes", () => {
+  it("should return the EMI for a loan", async () => {
+    const res = await post("/api/loan/emi", loan);
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      emi: 13215,
+      totalPayment: 1585815,
+      totalInterest: 585815,
+    });
+  });
+
+  it("should return the full amortization schedule", async () => {
+    const res = await post("/api/loan/amortization", loan);
+    const { schedule } = await res.json();
+    expect(schedule).toHaveLength(120);
+    expect(schedule[119].balance).toBe(0);
+  });
+
+  it("should return a SIP projection", async () => {
+    const res = await post("/api/sip/projection", sip);
+    const body = await res.json();
+    expect(body.maturityValue).toBe(2323391);
+    expect(body.totalInvestment).toBe(1200000);
+    expect(body.schedule).toHaveLength(120);
+  });
+
+  it("should return the combined results for a scenario", async () => {
+    const res = await post("/api/calculate", { loan, sip });
+    const body = await res.json();
+    expect(body.netPosition).toBe(2323391 - 1585815);
+  });
+
+  it("should reject bad input with a structured 400", async () => {
+    const res = await post("/api/loan/emi", { ...loan, tenure: -1 });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.error).toBe("Invalid request body");
+    expect(body.issues[0].path).toBe("tenure");
+  });
+
+  it("should report the path of nested fields", async () => {
+    const res = await post("/api/calculate", {
+      loan,
+      sip: { ...sip, sipAmount: "lots" },
+    });
+    const body = await res.json();
+    expect(res.status).toBe(400);
+    expect(body.issues.map((i) => i.path)).toContain("sip.sipAmount");
+  });
+
+  it("should cap a percentage step-up at 100% but not an amount", async () => {
+    const calculate = (stepUp: unknown) =>
+      post("/api/calculate", { loan, sip: { ...sip, stepUp } });
+
+    const percent = await calculate({ kind: "percent", value: 500 });
+    expect(percent.status).toBe(400);
+    expect((await percent.json()).issues[0].path).toBe("sip.stepUp.value");
+    expect((await calculate({ kind: "amount", value: 500 })).status).toBe(200);
+  });
+});
@@ -0,0 +1,61 @@
+import { RequestHandler } from "express";
+import {
+  AmortizationResponse,
+  CalculateResponse,
+  LoanEmiResponse,
+  SIPProjectionResponse,
+} from "@shared/api";
+import {
+  calculateLoanTotals,
+  calculateResults,
+  calculateSIPTotals,
+  generateAmortizationSchedule,
+  generateSIPGrowthSchedule,
+} from "@shared/finance";
+import { parseBody } from "../lib/validate";
+import {
+  loanDataSchema,
+  scenarioInputsSchema,
+  sipDataSchema,
+} from "@shared/schemas";
+
+export const handleLoanEmi: RequestHandler = (req, res) => {
+  const loan = parseBody(loanDataSchema, req.body, res);
+  if (!loan) return;
+
+  const { emi, totalPayment, totalInterest } = calculateLoanTotals(loan);
+  const response: LoanEmiResponse = { emi, totalPayment, totalInterest };
+  res.status(200).json(response);
+};
+
+export const handleAmortization: RequestHandler = (req, res) => {
+  const loan = parseBody(loanDataSchema, req.body, res);
+  if (!loan) return;
+
+  const response: AmortizationResponse = {
+    schedule: generateAmortizationSchedule(loan),
+  };
+  res.status(200).json(response);
+};
+
+export const handleSIPProjection: RequestHandler = (req, res) => {
+  const sip = parseBody(sipDataSchema, req.body, res);
+  if (!sip) return;
+
+  const { maturityValue, totalInvestment, returns } = calculateSIPTotals(sip);
+  const response: SIPProjectionResponse = {
+    maturityValue,
+    totalInvestment,
+    returns,
+    schedule: generateSIPGrowthSchedule(sip),
+  };
+  res.status(200).json(response);
+};
+
+export const handleCalculate: RequestHandler = (req, res) => {
+  const inputs = parseBody(scenarioInputsSchema, req.body, res);
+  if (!inputs) return;
+
+  const response: CalculateResponse = calculateResults(inputs);
+  res.status(200).json(response);
+};
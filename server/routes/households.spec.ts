@@ -0,0 +1,143 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { Household, HouseholdProfile, Plan } from "@shared/api";
+import { startTestServer } from "../test-utils";
+
+let baseUrl: string;
+let close: () => Promise<void>;
+let cookie: string;
+let otherCookie: string;
+
+const signUp = async (email: string) => {
+  const res = await fetch(`${baseUrl}/api/auth/signup`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, password: "password1" }),
+  });
+  return res.headers.get("set-cookie").split(";")[0];
+};
+
+beforeAll(async () => {
+  ({ baseUrl, close } = await startTestServer());
+  cookie = await signUp("advisor@example.com");
+  otherCookie = await signUp("other@example.com");
+});
+
+afterAll(() => close());
+
+const profile: HouseholdProfile = {
+  name: "Sharma family",
+  incomes: [{ label: "Salary", monthlyAmount: 150000 }],
+  liabilities: [{ label: "Car loan", monthlyEmi: 15000, outstanding: 400000 }],
+  riskProfile: "moderate",
+};
+
+const send = (method: string, path: string, body?: unknown, as = cookie) =>
+  fetch(`${baseUrl}/api${path}`, {
+    method,
+    headers: { "Content-Type": "application/json", Cookie: as },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const create = async (): Promise<Household> =>
+  (await send("POST", "/households", profile)).json();
+
+const planBody = {
+  name: "Plan",
+  scenarios: [
+    {
+      id: 1,
+      name: "Scenario 1",
+      color: "#3B82F6",
+      loan: { loanAmount: 5000000, interestRate: 8.5, tenure: 20 },
+      sip: { sipAmount: 25000, sipReturnRate: 12, sipTenure: 20 },
+    },
+  ],
+};
+
+const createPlan = (householdId?: string) =>
+  send("POST", "/plans", { ...planBody, householdId });
+
+describe("household routes", () => {
+  it("should create, update and list households", async () => {
+    const household = await create();
+    expect(household).toMatchObject({ ...profile, version: 1 });
+
+    const res = await send("PUT", `/households/${household.id}`, {
+      version: 1,
+      riskProfile: "aggressive",
+    });
+    expect(await res.json()).toMatchObject({
+      name: "Sharma family",
+      riskProfile: "aggressive",
+      version: 2,
+    });
+
+    const { households } = await (await send("GET", "/households")).json();
+    expect(households.map((h: Household) => h.id)).toContain(household.id);
+  });
+
+  it("should validate the risk profile and amounts", async () => {
+    const res = await send("POST", "/households", {
+      ...profile,
+      riskProfile: "reckless",
+      incomes: [{ label: "Salary", monthlyAmount: -1 }],
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it("should refuse stale updates", async () => {
+    const household = await create();
+    await send("PUT", `/households/${household.id}`, { version: 1, name: "A" });
+    const res = await send("PUT", `/households/${household.id}`, {
+      version: 1,
+      name: "B",
+    });
+    expect(res.status).toBe(409);
+    expect((await res.json()).household.name).toBe("A");
+  });
+
+  it("should hide households from other users", async () => {
+    const household = await create();
+    const other = await send(
+      "GET",
+      `/households/${household.id}`,
+      undefined,
+      otherCookie,
+    );
+    expect(other.status).toBe(404);
+  });
+
+  it("should attach plans and list them by household", async () => {
+    const household = await create();
+    const attached: Plan = await (await createPlan(household.id)).json();
+    await createPlan();
+
+    const { plans } = await (
+      await send("GET", `/plans?householdId=${household.id}`)
+    ).json();
+    expect(plans.map((p: Plan) => p.id)).toEqual([attached.id]);
+  });
+
+  it("should not attach plans to someone else's household", async () => {
+    const household = await create();
+    const res = await send(
+      "POST",
+      "/plans",
+      { ...planBody, householdId: household.id },
+      otherCookie,
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it("should detach plans when the household is deleted", async () => {
+    const household = await create();
+    const plan: Plan = await (await createPlan(household.id)).json();
+
+    const res = await send("DELETE", `/households/${household.id}?version=1`);
+    expect(res.status).toBe(204);
+
+    const kept: Plan = await (await send("GET", `/plans/${plan.id}`)).json();
+    expect(kept.householdId).toBeUndefined();
+    expect(kept.version).toBe(2);
+  });
+});
@@ -0,0 +1,185 @@
+import { randomUUID } from "crypto";
+import { Router, type Response } from "express";
+import { z } from "zod";
+import {
+  ApiErrorResponse,
+  CreateHouseholdRequest,
+  DeleteHouseholdRequest,
+  Household,
+  HouseholdConflictResponse,
+  HouseholdListResponse,
+  UpdateHouseholdRequest,
+} from "@shared/api";
+import { RISK_PROFILES } from "@shared/household";
+import { asyncHandler } from "../lib/async-handler";
+import type { JsonFileStore } from "../lib/json-store";
+import { currentUser } from "../lib/session";
+import { parseBody } from "../lib/validate";
+import type { StoredPlan } from "./plans";
+
+/** A household with the id of the account that owns it */
+export interface StoredHousehold extends Household {
+  ownerId: string;
+}
+
+const label = z.string().trim().max(100);
+const amount = z.number().min(0).max(1e10);
+
+const profileFields = {
+  name: z.string().trim().min(1).max(100),
+  incomes: z.array(z.object({ label, monthlyAmount: amount })).max(20),
+  liabilities: z
+    .array(z.object({ label, monthlyEmi: amount, outstanding: amount }))
+    .max(20),
+  riskProfile: z.enum(RISK_PROFILES as [string, ...string[]]),
+};
+
+const createHouseholdSchema = z.object(
+  profileFields,
+) as z.ZodType<CreateHouseholdRequest>;
+
+const updateHouseholdSchema = z.object(profileFields).partial().extend({
+  version: z.number().int().positive(),
+}) as z.ZodType<UpdateHouseholdRequest>;
+
+const deleteHouseholdSchema = z.object({
+  version: z.coerce.number().int().positive(),
+}) as z.ZodType<DeleteHouseholdRequest>;
+
+const notFound = (res: Response) => {
+  const response: ApiErrorResponse = { error: "Household not found" };
+  return res.status(404).json(response);
+};
+
+/** The household as clients see it, without its owner */
+const toHousehold = ({
+  ownerId: _ownerId,
+  ...household
+}: StoredHousehold): Household => household;
+
+const conflict = (res: Response, household: StoredHousehold) => {
+  const response: HouseholdConflictResponse = {
+    error: "The household was changed by someone else",
+    household: toHousehold(household),
+  };
+  return res.status(409).json(response);
+};
+
+/**
+ * CRUD for the signed-in user's client households; mount it behind
+ * `requireUser`. Versioned like plans. Deleting a household detaches its
+ * plans rather than deleting them.
+ */
+export function createHouseholdsRouter(
+  store: JsonFileStore<StoredHousehold>,
+  plans: JsonFileStore<StoredPlan>,
+) {
+  const router = Router();
+
+  router.get(
+    "/",
+    asyncHandler(async (_req, res) => {
+      const { id: ownerId } = currentUser(res);
+      const households = (await store.values())
+        .filter((household) => household.ownerId === ownerId)
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(toHousehold);
+      const response: HouseholdListResponse = { households };
+      res.status(200).json(response);
+    }),
+  );
+
+  router.post(
+    "/",
+    asyncHandler(async (req, res) => {
+      const body = parseBody(createHouseholdSchema, req.body, res);
+      if (!body) return;
+
+      const now = new Date().toISOString();
+      const household: StoredHousehold = {
+        ...body,
+        id: randomUUID(),
+        ownerId: currentUser(res).id,
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await store.set(household.id, household);
+      res.status(201).json(toHousehold(household));
+    }),
+  );
+
+  router.get(
+    "/:id",
+    asyncHandler(async (req, res) => {
+      const household = await store.get(req.params.id);
+      if (household?.ownerId !== currentUser(res).id) return notFound(res);
+      res.status(200).json(toHousehold(household));
+    }),
+  );
+
+  router.put(
+    "/:id",
+    asyncHandler(async (req, res) => {
+      const body = parseBody(updateHouseholdSchema, req.body, res);
+      if (!body) return;
+
+      const { id: ownerId } = currentUser(res);
+      const { version, ...changes } = body;
+      let owned = false;
+      let stale: StoredHousehold | undefined;
+      const household = await store.update(req.params.id, (current) => {
+        if (current?.ownerId !== ownerId) return current;
+        owned = true;
+        if (current.version !== version) {
+          stale = current;
+          return current;
+        }
+        return {
+          ...current,
+          ...changes,
+          version: current.version + 1,
+          updatedAt: new Date().toISOString(),
+        };
+      });
+      if (!owned) return notFound(res);
+      if (stale) return conflict(res, stale);
+      res.status(200).json(toHousehold(household));
+    }),
+  );
+
+  router.delete(
+    "/:id",
+    asyncHandler(async (req, res) => {
+      const query = parseBody(deleteHouseholdSchema, req.query, res);
+      if (!query) return;
+
+      const { id: ownerId } = currentUser(res);
+      let existing: StoredHousehold | undefined;
+      await store.update(req.params.id, (current) => {
+        if (current?.ownerId !== ownerId) return current;
+        existing = current;
+        return current.version === query.version ? undefined : current;
+      });
+      if (!existing) return notFound(res);
+      if (existing.version !== query.version) return conflict(res, existing);
+
+      for (const plan of await plans.values()) {
+        if (plan.householdId !== existing.id) continue;
+        await plans.update(plan.id, (current) =>
+          current?.householdId === existing.id
+            ? {
+                ...current,
+                householdId: undefined,
+                version: current.version + 1,
+                updatedAt: new Date().toISOString(),
+              }
+            : current,
+        );
+      }
+      res.status(204).end();
+    }),
+  );
+
+  return router;
+}
@@ -0,0 +1,136 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { Plan, PlanScenario } from "@shared/api";
+import { startTestServer } from "../test-utils";
+
+let baseUrl: string;
+let close: () => Promise<void>;
+/** Session cookies for two advisors */
+let cookie: string;
+let otherCookie: string;
+
+const signUp = async (email: string) => {
+  const res = await fetch(`${baseUrl}/api/auth/signup`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, password: "password1" }),
+  });
+  return res.headers.get("set-cookie").split(";")[0];
+};
+
+beforeAll(async () => {
+  ({ baseUrl, close } = await startTestServer());
+  cookie = await signUp("advisor@example.com");
+  otherCookie = await signUp("other@example.com");
+});
+
+afterAll(() => close());
+
+const scenario: PlanScenario = {
+  id: 1,
+  name: "Scenario 1",
+  color: "#3B82F6",
+  loan: { loanAmount: 5000000, interestRate: 8.5, tenure: 20 },
+  sip: { sipAmount: 25000, sipReturnRate: 12, sipTenure: 20 },
+};
+
+const send = (method: string, path: string, body?: unknown, as = cookie) =>
+  fetch(`${baseUrl}/api/plans${path}`, {
+    method,
+    headers: {
+      "Content-Type": "application/json",
+      ...(as ? { Cookie: as } : {}),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+const create = async (name = "Sharma family"): Promise<Plan> =>
+  (await send("POST", "", { name, scenarios: [scenario] })).json();
+
+describe("plan routes", () => {
+  it("should create a plan at version 1 and list it", async () => {
+    const plan = await create();
+    expect(plan.version).toBe(1);
+    expect(plan.scenarios[0]).toEqual(scenario);
+
+    const { plans } = await (await send("GET", "")).json();
+    expect(plans.map((p: Plan) => p.id)).toContain(plan.id);
+    expect(await (await send("GET", `/${plan.id}`)).json()).toEqual(plan);
+  });
+
+  it("should reject a plan without scenarios", async () => {
+    const res = await send("POST", "", { name: "Empty", scenarios: [] });
+    expect(res.status).toBe(400);
+  });
+
+  it("should bump the version on update", async () => {
+    const plan = await create();
+    const res = await send("PUT", `/${plan.id}`, {
+      version: 1,
+      name: "Renamed",
+    });
+    expect(res.status).toBe(200);
+    const updated: Plan = await res.json();
+    expect(updated).toMatchObject({ name: "Renamed", version: 2 });
+    expect(updated.scenarios).toEqual(plan.scenarios);
+  });
+
+  it("should refuse an update based on an old version", async () => {
+    const plan = await create();
+    await send("PUT", `/${plan.id}`, { version: 1, name: "First" });
+
+    const res = await send("PUT", `/${plan.id}`, { version: 1, name: "Late" });
+    expect(res.status).toBe(409);
+    const body = await res.json();
+    expect(body.plan).toMatchObject({ name: "First", version: 2 });
+  });
+
+  it("should apply only one of two concurrent updates", async () => {
+    const plan = await create();
+    const statuses = await Promise.all(
+      ["A", "B"].map(
+        async (name) =>
+          (await send("PUT", `/${plan.id}`, { version: 1, name })).status,
+      ),
+    );
+    expect(statuses.sort()).toEqual([200, 409]);
+  });
+
+  it("should delete only at the current version", async () => {
+    const plan = await create();
+    expect((await send("DELETE", `/${plan.id}?version=2`)).status).toBe(409);
+    expect((await send("DELETE", `/${plan.id}`)).status).toBe(400);
+    expect((await send("DELETE", `/${plan.id}?version=1`)).status).toBe(204);
+    expect((await send("GET", `/${plan.id}`)).status).toBe(404);
+  });
+
+  it("should require a signed-in user", async () => {
+    expect((await send("GET", "", undefined, null)).status).toBe(401);
+    expect(
+      (await send("POST", "", { name: "X", scenarios: [scenario] }, null))
+        .status,
+    ).toBe(401);
+  });
+
+  it("should keep each user's plans to themselves", async () => {
+    const plan = await create("Private");
+    const other = (method: string, path: string, body?: unknown) =>
+      send(method, path, body, otherCookie);
+
+    const { plans } = await (await other("GET", "")).json();
+    expect(plans.map((p: Plan) => p.id)).not.toContain(plan.id);
+    expect((await other("GET", `/${plan.id}`)).status).toBe(404);
+    expect(
+      (await other("PUT", `/${plan.id}`, { version: 1, name: "Mine" })).status,
+    ).toBe(404);
+    expect((await other("DELETE", `/${plan.id}?version=1`)).status).toBe(404);
+
+    const mine = await (await send("GET", `/${plan.id}`)).json();
+    expect(mine).toMatchObject({ name: "Private", version: 1 });
+    expect(mine).not.toHaveProperty("ownerId");
+  });
+
+  it("should 404 for unknown plans", async () => {
+    expect((await send("PUT", "/missing", { version: 1 })).status).toBe(404);
+    expect((await send("DELETE", "/missing?version=1")).status).toBe(404);
+  });
+});
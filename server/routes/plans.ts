@@ -0,0 +1,215 @@
+import { randomUUID } from "crypto";
+import { Router, type Response } from "express";
+import { z } from "zod";
+import {
+  ApiErrorResponse,
+  CreatePlanRequest,
+  DeletePlanRequest,
+  Plan,
+  PlanConflictResponse,
+  PlanListResponse,
+  PlanScenario,
+  UpdatePlanRequest,
+} from "@shared/api";
+import { scenarioInputsSchema } from "@shared/schemas";
+import { asyncHandler } from "../lib/async-handler";
+import type { JsonFileStore } from "../lib/json-store";
+import { currentUser } from "../lib/session";
+import { parseBody } from "../lib/validate";
+import type { StoredHousehold } from "./households";
+
+/** A plan with the id of the account that owns it */
+export interface StoredPlan extends Plan {
+  ownerId: string;
+}
+
+const planScenarioSchema = z.intersection(
+  scenarioInputsSchema,
+  z.object({
+    id: z.number().int().positive(),
+    name: z.string().max(100),
+    color: z.string().max(32),
+  }),
+) as z.ZodType<PlanScenario>;
+
+const planName = z.string().trim().min(1).max(100);
+const planScenarios = z.array(planScenarioSchema).min(1).max(100);
+const version = z.number().int().positive();
+
+const householdId = z.string().min(1).max(100);
+
+const createPlanSchema = z.object({
+  name: planName,
+  scenarios: planScenarios,
+  householdId: householdId.optional(),
+}) as z.ZodType<CreatePlanRequest>;
+
+const updatePlanSchema = z.object({
+  version,
+  name: planName.optional(),
+  scenarios: planScenarios.optional(),
+  householdId: householdId.nullable().optional(),
+}) as z.ZodType<UpdatePlanRequest>;
+
+const listPlansSchema = z.object({
+  householdId: householdId.optional(),
+}) as z.ZodType<{ householdId?: string }>;
+
+const deletePlanSchema = z.object({
+  version: z.coerce.number().pipe(version),
+}) as z.ZodType<DeletePlanRequest>;
+
+const notFound = (res: Response) => {
+  const response: ApiErrorResponse = { error: "Plan not found" };
+  return res.status(404).json(response);
+};
+
+/** The plan as clients see it, without its owner */
+const toPlan = ({ ownerId: _ownerId, ...plan }: StoredPlan): Plan => plan;
+
+const conflict = (res: Response, plan: StoredPlan) => {
+  const response: PlanConflictResponse = {
+    error: "The plan was changed by someone else",
+    plan: toPlan(plan),
+  };
+  return res.status(409).json(response);
+};
+
+const unknownHousehold = (res: Response) => {
+  const response: ApiErrorResponse = {
+    error: "Invalid request body",
+    issues: [{ path: "householdId", message: "Household not found" }],
+  };
+  return res.status(400).json(response);
+};
+
+/**
+ * CRUD for the signed-in user's saved plans; mount it behind `requireUser`.
+ * Other users' plans look like they don't exist, and a plan can only be
+ * attached to one of the user's own households. Every change bumps the
+ * plan's version, and PUT and DELETE only apply when the client sends the
+ * version it last saw.
+ */
+export function createPlansRouter(
+  store: JsonFileStore<StoredPlan>,
+  households: JsonFileStore<StoredHousehold>,
+) {
+  const router = Router();
+
+  /** Whether the id is missing or names one of the owner's households */
+  const ownsHousehold = async (ownerId: string, id: string | null) =>
+    !id || (await households.get(id))?.ownerId === ownerId;
+
+  router.get(
+    "/",
+    asyncHandler(async (req, res) => {
+      const query = parseBody(listPlansSchema, req.query, res);
+      if (!query) return;
+
+      const { id: ownerId } = currentUser(res);
+      const plans = (await store.values())
+        .filter(
+          (plan) =>
+            plan.ownerId === ownerId &&
+            (!query.householdId || plan.householdId === query.householdId),
+        )
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .map(toPlan);
+      const response: PlanListResponse = { plans };
+      res.status(200).json(response);
+    }),
+  );
+
+  router.post(
+    "/",
+    asyncHandler(async (req, res) => {
+      const body = parseBody(createPlanSchema, req.body, res);
+      if (!body) return;
+
+      const { id: ownerId } = currentUser(res);
+      if (!(await ownsHousehold(ownerId, body.householdId))) {
+        return unknownHousehold(res);
+      }
+      const now = new Date().toISOString();
+      const plan: StoredPlan = {
+        id: randomUUID(),
+        ownerId,
+        name: body.name,
+        scenarios: body.scenarios,
+        householdId: body.householdId,
+        version: 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await store.set(plan.id, plan);
+      res.status(201).json(toPlan(plan));
+    }),
+  );
+
+  router.get(
+    "/:id",
+    asyncHandler(async (req, res) => {
+      const plan = await store.get(req.params.id);
+      if (plan?.ownerId !== currentUser(res).id) return notFound(res);
+      res.status(200).json(toPlan(plan));
+    }),
+  );
+
+  router.put(
+    "/:id",
+    asyncHandler(async (req, res) => {
+      const body = parseBody(updatePlanSchema, req.body, res);
+      if (!body) return;
+
+      const { id: ownerId } = currentUser(res);
+      if (!(await ownsHousehold(ownerId, body.householdId))) {
+        return unknownHousehold(res);
+      }
+      let owned = false;
+      let stale: StoredPlan | undefined;
+      const plan = await store.update(req.params.id, (current) => {
+        if (current?.ownerId !== ownerId) return current;
+        owned = true;
+        if (current.version !== body.version) {
+          stale = current;
+          return current;
+        }
+        return {
+          ...current,
+          name: body.name ?? current.name,
+          scenarios: body.scenarios ?? current.scenarios,
+          householdId:
+            body.householdId === undefined
+              ? current.householdId
+              : (body.householdId ?? undefined),
+          version: current.version + 1,
+          updatedAt: new Date().toISOString(),
+        };
+      });
+      if (!owned) return notFound(res);
+      if (stale) return conflict(res, stale);
+      res.status(200).json(toPlan(plan));
+    }),
+  );
+
+  router.delete(
+    "/:id",
+    asyncHandler(async (req, res) => {
+      const query = parseBody(deletePlanSchema, req.query, res);
+      if (!query) return;
+
+      const { id: ownerId } = currentUser(res);
+      let existing: StoredPlan | undefined;
+      await store.update(req.params.id, (current) => {
+        if (current?.ownerId !== ownerId) return current;
+        existing = current;
+        return current.version === query.version ? undefined : current;
+      });
+      if (!existing) return notFound(res);
+      if (existing.version !== query.version) return conflict(res, existing);
+      res.status(204).end();
+    }),
+  );
+
+  return router;
+}
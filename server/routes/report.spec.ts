@@ -0,0 +1,48 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer } from "../test-utils";
+
+let baseUrl: string;
+let close: () => Promise<void>;
+
+beforeAll(async () => {
+  ({ baseUrl, close } = await startTestServer());
+});
+
+afterAll(() => close());
+
+const post = (body: unknown) =>
+  fetch(`${baseUrl}/api/report`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+const scenario = {
+  name: "Home loan",
+  inputs: {
+    loan: { loanAmount: 1000000, interestRate: 10, tenure: 10 },
+    sip: { sipAmount: 10000, sipReturnRate: 12, sipTenure: 10 },
+  },
+};
+
+describe("report route", () => {
+  it("should return a PDF report", async () => {
+    const res = await post({ scenarios: [scenario], title: "Sharma family" });
+    expect(res.status).toBe(200);
+    expect(res.headers.get("content-type")).toBe("application/pdf");
+    expect(res.headers.get("content-disposition")).toContain(
+      'filename="report-sharma-family.pdf"',
+    );
+
+    const pdf = Buffer.from(await res.arrayBuffer()).toString("latin1");
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("(Sharma family) Tj");
+  });
+
+  it("should reject an invalid colour", async () => {
+    const res = await post({ scenarios: [{ ...scenario, color: "blue" }] });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.issues[0].path).toBe("scenarios.0.color");
+  });
+});
@@ -0,0 +1,54 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { ReportRequest } from "@shared/api";
+import { scenarioColor } from "@shared/palette";
+import {
+  renderReport,
+  REPORT_CONTENT_TYPE,
+  reportFileName,
+} from "@shared/report";
+import { scenarioInputsSchema } from "@shared/schemas";
+import { parseBody } from "../lib/validate";
+
+const reportRequestSchema = z.object({
+  scenarios: z
+    .array(
+      z.object({
+        name: z.string().min(1).max(100),
+        color: z
+          .string()
+          .regex(/^#[0-9a-f]{6}$/i)
+          .optional(),
+        inputs: scenarioInputsSchema,
+      }),
+    )
+    .min(1)
+    .max(20),
+  basis: z.enum(["nominal", "real"]).optional(),
+  title: z.string().min(1).max(100).optional(),
+}) as z.ZodType<ReportRequest>;
+
+/**
+ * Same report as "Generate report" in the calculator, for batch use
+ */
+export const handleReport: RequestHandler = (req, res) => {
+  const body = parseBody(reportRequestSchema, req.body, res);
+  if (!body) return;
+
+  const pdf = renderReport(
+    body.scenarios.map(({ name, color, inputs }, i) => ({
+      ...inputs,
+      id: i + 1,
+      name,
+      // Same colour the calculator would give the scenario at this position
+      color: color ?? scenarioColor(i),
+    })),
+    { basis: body.basis, title: body.title },
+  );
+
+  res
+    .status(200)
+    .type(REPORT_CONTENT_TYPE)
+    .attachment(reportFileName(body.title ?? body.scenarios[0].name))
+    .send(Buffer.from(pdf));
+};
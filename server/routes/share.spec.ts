@@ -0,0 +1,45 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer } from "../test-utils";
+
+let baseUrl: string;
+let close: () => Promise<void>;
+
+beforeAll(async () => {
+  ({ baseUrl, close } = await startTestServer());
+});
+
+afterAll(() => close());
+
+const share = (payload: unknown) =>
+  fetch(`${baseUrl}/api/share`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ payload }),
+  });
+
+describe("share routes", () => {
+  it("should store a payload and resolve it by id", async () => {
+    const res = await share("eyJ2IjoxfQ");
+    expect(res.status).toBe(201);
+    const { id } = await res.json();
+
+    const resolved = await fetch(`${baseUrl}/api/share/${id}`);
+    expect(await resolved.json()).toEqual({ payload: "eyJ2IjoxfQ" });
+  });
+
+  it("should return the same id for the same payload", async () => {
+    const first = await (await share("abc_DEF-123")).json();
+    const second = await (await share("abc_DEF-123")).json();
+    expect(second.id).toBe(first.id);
+  });
+
+  it("should reject payloads that aren't base64url", async () => {
+    const res = await share("not base64!");
+    expect(res.status).toBe(400);
+  });
+
+  it("should 404 for unknown ids", async () => {
+    const res = await fetch(`${baseUrl}/api/share/missing`);
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,69 @@
+import { createHash } from "crypto";
+import { Router } from "express";
+import { z } from "zod";
+import {
+  ApiErrorResponse,
+  ResolveShareLinkResponse,
+  ShareLinkRequest,
+  ShareLinkResponse,
+} from "@shared/api";
+import { asyncHandler } from "../lib/async-handler";
+import type { JsonFileStore } from "../lib/json-store";
+import { parseBody } from "../lib/validate";
+
+export interface StoredShareLink {
+  payload: string;
+  createdAt: string;
+}
+
+const shareLinkSchema = z.object({
+  payload: z
+    .string()
+    .min(1)
+    .max(16000)
+    .regex(/^[A-Za-z0-9_-]+$/, "Expected a base64url-encoded payload"),
+}) as z.ZodType<ShareLinkRequest>;
+
+/**
+ * Short ids are derived from the payload, so sharing the same scenario set
+ * twice returns the same link
+ */
+const shortId = (payload: string) =>
+  createHash("sha256").update(payload).digest("base64url").slice(0, 10);
+
+export function createShareRouter(store: JsonFileStore<StoredShareLink>) {
+  const router = Router();
+
+  router.post(
+    "/",
+    asyncHandler(async (req, res) => {
+      const body = parseBody(shareLinkSchema, req.body, res);
+      if (!body) return;
+
+      const id = shortId(body.payload);
+      if (!(await store.get(id))) {
+        await store.set(id, {
+          payload: body.payload,
+          createdAt: new Date().toISOString(),
+        });
+      }
+      const response: ShareLinkResponse = { id };
+      res.status(201).json(response);
+    }),
+  );
+
+  router.get(
+    "/:id",
+    asyncHandler(async (req, res) => {
+      const link = await store.get(req.params.id);
+      if (!link) {
+        const response: ApiErrorResponse = { error: "Share link not found" };
+        return res.status(404).json(response);
+      }
+      const response: ResolveShareLinkResponse = { payload: link.payload };
+      res.status(200).json(response);
+    }),
+  );
+
+  return router;
+}
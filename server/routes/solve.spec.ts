@@ -0,0 +1,50 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestServer } from "../test-utils";
+
+let baseUrl: string;
+let close: () => Promise<void>;
+
+beforeAll(async () => {
+  ({ baseUrl, close } = await startTestServer());
+});
+
+afterAll(() => close());
+
+const post = (body: unknown) =>
+  fetch(`${baseUrl}/api/solve`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+const inputs = {
+  loan: { loanAmount: 1000000, interestRate: 10, tenure: 10 },
+  sip: { sipAmount: 10000, sipReturnRate: 12, sipTenure: 10 },
+};
+
+describe("POST /api/solve", () => {
+  it("should solve for the free variable and return the new inputs", async () => {
+    const res = await post({
+      inputs,
+      goal: { metric: "emi", target: 40000 },
+      variable: "loanAmount",
+    });
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.status).toBe("solved");
+    expect(body.achieved).toBe(40000);
+    expect(body.inputs.loan.loanAmount).toBe(body.value);
+    expect(body.inputs.sip).toEqual(inputs.sip);
+  });
+
+  it("should require a year for a corpus goal", async () => {
+    const res = await post({
+      inputs,
+      goal: { metric: "corpusAtYear", target: 500000 },
+      variable: "sipAmount",
+    });
+    expect(res.status).toBe(400);
+    const body = await res.json();
+    expect(body.issues.map((i) => i.path)).toContain("goal.year");
+  });
+});
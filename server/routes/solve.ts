@@ -0,0 +1,51 @@
+import { RequestHandler } from "express";
+import { z } from "zod";
+import { SolveRequest, SolveResponse } from "@shared/api";
+import { solveGoal } from "@shared/finance";
+import { scenarioInputsSchema } from "@shared/schemas";
+import { parseBody } from "../lib/validate";
+
+const solveRequestSchema = z.object({
+  inputs: scenarioInputsSchema,
+  goal: z.discriminatedUnion("metric", [
+    z.object({
+      metric: z.enum([
+        "netPosition",
+        "sipMaturityValue",
+        "emi",
+        "totalInterest",
+      ]),
+      target: z.number().finite(),
+    }),
+    z.object({
+      metric: z.literal("corpusAtYear"),
+      year: z.number().int().min(1).max(50),
+      target: z.number().finite(),
+    }),
+  ]),
+  variable: z.enum([
+    "sipAmount",
+    "sipTenure",
+    "loanAmount",
+    "tenure",
+    "interestRate",
+  ]),
+  basis: z.enum(["nominal", "real"]).optional(),
+  sipBasis: z.enum(["pre-tax", "post-tax"]).optional(),
+}) as z.ZodType<SolveRequest>;
+
+/**
+ * The goal solver from the calculator, for "what would it take" questions
+ */
+export const handleSolve: RequestHandler = (req, res) => {
+  const body = parseBody(solveRequestSchema, req.body, res);
+  if (!body) return;
+
+  const response: SolveResponse = solveGoal(
+    body.inputs,
+    body.goal,
+    body.variable,
+    { basis: body.basis, sipBasis: body.sipBasis },
+  );
+  res.status(200).json(response);
+};
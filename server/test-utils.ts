@@ -0,0 +1,24 @@
+import type { AddressInfo } from "net";
+import { createServer, type ServerOptions } from "./index";
+
+export interface TestServer {
+  baseUrl: string;
+  close: () => Promise<void>;
+}
+
+/**
+ * Starts the app on a free port with in-memory storage, for route specs
+ */
+export async function startTestServer(
+  options: Omit<ServerOptions, "dataDir"> = {},
+): Promise<TestServer> {
+  const server = createServer({ ...options, dataDir: null }).listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () =>
+      new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve())),
+      ),
+  };
+}
@@ -3,6 +3,20 @@
  * Useful to share types between client and server
  * and/or small pure JS functions that can be used on both client and server
  */
+import type {
+  AmortizationEntry,
+  CalculationResults,
+  LoanData,
+  ScenarioInputs,
+  SIPData,
+  SIPGrowthEntry,
+  SIPTaxBasis,
+  SolverGoal,
+  SolverResult,
+  SolverVariable,
+  ValueBasis,
+} from "./finance";
+import type { ExportFormat, ExportScenario, ScheduleKind } from "./export";
 
 /**
  * Example response type for /api/demo
@@ -10,3 +24,278 @@
 export interface DemoResponse {
   message: string;
 }
+
+/**
+ * Error body returned by every /api route on bad input
+ */
+export interface ApiErrorResponse {
+  error: string;
+  issues?: ApiValidationIssue[];
+}
+
+export interface ApiValidationIssue {
+  /** Dotted path to the offending field, e.g. "loan.tenure" */
+  path: string;
+  message: string;
+}
+
+/**
+ * POST /api/loan/emi
+ */
+export type LoanEmiRequest = LoanData;
+
+export interface LoanEmiResponse {
+  emi: number;
+  totalInterest: number;
+  totalPayment: number;
+}
+
+/**
+ * POST /api/loan/amortization
+ */
+export type AmortizationRequest = LoanData;
+
+export interface AmortizationResponse {
+  schedule: AmortizationEntry[];
+}
+
+/**
+ * POST /api/sip/projection
+ */
+export type SIPProjectionRequest = SIPData;
+
+export interface SIPProjectionResponse {
+  maturityValue: number;
+  totalInvestment: number;
+  returns: number;
+  schedule: SIPGrowthEntry[];
+}
+
+/**
+ * POST /api/calculate - the figures behind the results cards
+ */
+export type CalculateRequest = ScenarioInputs;
+
+export type CalculateResponse = CalculationResults;
+
+/**
+ * POST /api/solve - the value of one input that makes a result hit a target
+ */
+export interface SolveRequest {
+  inputs: ScenarioInputs;
+  goal: SolverGoal;
+  variable: SolverVariable;
+  /** Defaults to "nominal" */
+  basis?: ValueBasis;
+  /** Defaults to "pre-tax" */
+  sipBasis?: SIPTaxBasis;
+}
+
+export type SolveResponse = SolverResult;
+
+/**
+ * POST /api/share - store an encoded scenario set behind a short id
+ */
+export interface ShareLinkRequest {
+  payload: string;
+}
+
+export interface ShareLinkResponse {
+  id: string;
+}
+
+/**
+ * GET /api/share/:id
+ */
+export interface ResolveShareLinkResponse {
+  payload: string;
+}
+
+/**
+ * POST /api/export - full schedules as a CSV or XLSX download
+ */
+export interface ExportRequest {
+  format: ExportFormat;
+  scenarios: ExportScenario[];
+  /** Defaults to both schedules */
+  schedules?: ScheduleKind[];
+  /** Defaults to "nominal" */
+  basis?: ValueBasis;
+  /** Used to name the downloaded file; defaults to the first scenario's name */
+  label?: string;
+}
+
+/**
+ * POST /api/report - the PDF client report
+ */
+export interface ReportRequest {
+  scenarios: (ExportScenario & { color?: string })[];
+  /** Defaults to "nominal" */
+  basis?: ValueBasis;
+  title?: string;
+}
+
+/**
+ * A scenario inside a saved plan: the calculation inputs plus how the
+ * calculator shows it
+ */
+export interface PlanScenario extends ScenarioInputs {
+  id: number;
+  name: string;
+  color: string;
+}
+
+/**
+ * A named scenario set stored on the server, visible only to the account
+ * that saved it. `version` goes up by one on every change; updates and
+ * deletes must send the version they were based on, and get a 409 with the
+ * current plan when someone else got there first.
+ */
+export interface Plan {
+  id: string;
+  name: string;
+  scenarios: PlanScenario[];
+  /** The household the plan was made for, if any */
+  householdId?: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * GET /api/plans - newest changes first. `?householdId=` lists only that
+ * household's plans.
+ */
+export interface PlanListResponse {
+  plans: Plan[];
+}
+
+/**
+ * POST /api/plans
+ */
+export interface CreatePlanRequest {
+  name: string;
+  scenarios: PlanScenario[];
+  householdId?: string;
+}
+
+/**
+ * PUT /api/plans/:id - fields left out are kept
+ */
+export interface UpdatePlanRequest {
+  version: number;
+  name?: string;
+  scenarios?: PlanScenario[];
+  /** Move the plan to another household, or `null` to detach it */
+  householdId?: string | null;
+}
+
+/**
+ * DELETE /api/plans/:id?version=N
+ */
+export interface DeletePlanRequest {
+  version: number;
+}
+
+/**
+ * 409 from PUT or DELETE /api/plans/:id when the plan has changed since the
+ * version the client sent
+ */
+export interface PlanConflictResponse extends ApiErrorResponse {
+  plan: Plan;
+}
+
+/**
+ * The signed-in account
+ */
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+/**
+ * POST /api/auth/signup and POST /api/auth/login. Both set the session
+ * cookie on success.
+ */
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+/**
+ * Returned by signup, login and GET /api/auth/me (401 when signed out)
+ */
+export interface AuthResponse {
+  user: AuthUser;
+}
+
+export type RiskProfile = "conservative" | "moderate" | "aggressive";
+
+export interface HouseholdIncome {
+  /** Whose income or where it comes from, e.g. "Priya's salary" */
+  label: string;
+  /** Net monthly amount */
+  monthlyAmount: number;
+}
+
+export interface HouseholdLiability {
+  /** e.g. "Car loan" */
+  label: string;
+  monthlyEmi: number;
+  outstanding: number;
+}
+
+/**
+ * What an advisor knows about a client household. Its income and existing
+ * EMIs seed every scenario's eligibility check, and its risk profile the
+ * expected investment return.
+ */
+export interface HouseholdProfile {
+  name: string;
+  incomes: HouseholdIncome[];
+  liabilities: HouseholdLiability[];
+  riskProfile: RiskProfile;
+}
+
+/**
+ * A client household, owned by the account that created it. Versioned like
+ * plans: updates and deletes send the version they were based on.
+ */
+export interface Household extends HouseholdProfile {
+  id: string;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * GET /api/households - by name
+ */
+export interface HouseholdListResponse {
+  households: Household[];
+}
+
+/**
+ * POST /api/households
+ */
+export type CreateHouseholdRequest = HouseholdProfile;
+
+/**
+ * PUT /api/households/:id - fields left out are kept
+ */
+export interface UpdateHouseholdRequest extends Partial<HouseholdProfile> {
+  version: number;
+}
+
+/**
+ * DELETE /api/households/:id?version=N - the household's plans are kept,
+ * detached from it
+ */
+export type DeleteHouseholdRequest = DeletePlanRequest;
+
+/**
+ * 409 from PUT or DELETE /api/households/:id
+ */
+export interface HouseholdConflictResponse extends ApiErrorResponse {
+  household: Household;
+}
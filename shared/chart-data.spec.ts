@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { buildChartData, seriesKey, type ChartScenario } from "./chart-data";
+
+const scenario: ChartScenario = {
+  id: 1,
+  loan: { loanAmount: 1000000, interestRate: 10, tenure: 5 },
+  sip: { sipAmount: 10000, sipReturnRate: 12, sipTenure: 5 },
+};
+
+describe("buildChartData", () => {
+  it("should have one point per year", () => {
+    const data = buildChartData([scenario]);
+    expect(data.map((point) => point.year)).toEqual([1, 2, 3, 4, 5]);
+    expect(data[4][seriesKey("loan", 1)]).toBeCloseTo(0);
+  });
+
+  it("should keep a final part-year", () => {
+    const data = buildChartData([
+      { ...scenario, sip: { ...scenario.sip, sipTenure: 6.5 } },
+    ]);
+    expect(data).toHaveLength(7);
+    expect(data[6][seriesKey("sip", 1)]).toBeGreaterThan(
+      data[5][seriesKey("sip", 1)],
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import {
+  scenarioSchedules,
+  summarizeScheduleByYear,
+  type ScenarioInputs,
+  type ValueBasis,
+} from "./finance";
+
+/** Anything with inputs and a stable id to key its series by */
+export type ChartScenario = ScenarioInputs & { id: number };
+
+/**
+ * One row per year, with per-scenario series keyed by `<series>_<scenarioId>`
+ */
+export type ChartPoint = { year: number } & Record<string, number>;
+
+export type ChartSeries = "net" | "loan" | "interest" | "principal" | "sip";
+
+export const seriesKey = (series: ChartSeries, scenarioId: number) =>
+  `${series}_${scenarioId}`;
+
+/**
+ * Year-end figures for every scenario, driven by the month-by-month
+ * amortization and SIP schedules.
+ */
+export function buildChartData(
+  scenarios: ChartScenario[],
+  basis: ValueBasis = "nominal",
+): ChartPoint[] {
+  // Rate rises on a keep-EMI loan can run past the nominal tenure
+  const schedules = scenarios.map((scenario) => ({
+    scenario,
+    ...scenarioSchedules(scenario, basis),
+  }));
+  // A final part-year still gets its own point
+  const years = Math.max(
+    ...schedules.map(({ amortization, sipGrowth }) =>
+      Math.ceil(Math.max(amortization.length, sipGrowth.length) / 12),
+    ),
+  );
+  const data: ChartPoint[] = [];
+  for (let year = 1; year <= years; year++) data.push({ year } as ChartPoint);
+
+  schedules.forEach(({ scenario, amortization, sipGrowth }) => {
+    const loanByYear = summarizeScheduleByYear(amortization, years);
+    const sipAt = (year: number) =>
+      sipGrowth[Math.min(year * 12, sipGrowth.length) - 1]?.balance ?? 0;
+
+    data.forEach((point, index) => {
+      const loan = loanByYear[index];
+      const sip = sipAt(point.year);
+      point[seriesKey("loan", scenario.id)] = loan.balance;
+      point[seriesKey("interest", scenario.id)] = loan.cumulativeInterest;
+      point[seriesKey("principal", scenario.id)] = loan.cumulativePrincipal;
+      point[seriesKey("sip", scenario.id)] = sip;
+      point[seriesKey("net", scenario.id)] = sip - loan.balance;
+    });
+  });
+
+  return data;
+}
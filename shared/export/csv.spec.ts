@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { toCSV } from "./csv";
+import type { ExportSheet } from "./sheets";
+
+const sheet: ExportSheet = {
+  name: 'Plan "A", revised',
+  header: [["Loan amount", 500000]],
+  columns: ["Month", "EMI"],
+  rows: [
+    { cells: [1, 10000] },
+    { cells: ["Year 1 total", 10000], subtotal: true },
+  ],
+};
+
+describe("toCSV", () => {
+  it("should write the name, header block, columns and rows", () => {
+    const lines = toCSV([sheet]).slice(1).split("\r\n");
+    expect(lines).toEqual([
+      '"Plan ""A"", revised"',
+      "Loan amount,500000",
+      "",
+      "Month,EMI",
+      "1,10000",
+      "Year 1 total,10000",
+      "",
+    ]);
+  });
+
+  it("should separate sheets with a blank line", () => {
+    const csv = toCSV([sheet, { ...sheet, name: "B" }]);
+    expect(csv).toContain("Year 1 total,10000\r\n\r\nB\r\n");
+  });
+
+  it("should keep text from being read as a formula", () => {
+    const csv = toCSV([
+      {
+        name: "=SUM(A1)+1",
+        header: [["Scenario", "@cmd"]],
+        columns: ["+1", "-1"],
+        rows: [{ cells: [-1500, "-2"] }],
+      },
+    ]);
+    expect(csv.slice(1).split("\r\n").slice(0, 5)).toEqual([
+      "'=SUM(A1)+1",
+      "Scenario,'@cmd",
+      "",
+      "'+1,'-1",
+      "-1500,'-2",
+    ]);
+  });
+
+  it("should start with a byte-order mark so Excel reads UTF-8", () => {
+    expect(toCSV([sheet]).charCodeAt(0)).toBe(0xfeff);
+  });
+});
@@ -0,0 +1,34 @@
+import type { Cell, ExportSheet } from "./sheets";
+
+// Spreadsheets run text starting with these as a formula, even when quoted
+const FORMULA_START = /^[=+\-@]/;
+
+const escapeCell = (cell: Cell): string => {
+  if (cell === null || cell === undefined) return "";
+  const text =
+    typeof cell === "string" && FORMULA_START.test(cell)
+      ? `'${cell}`
+      : String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const line = (cells: Cell[]) => cells.map(escapeCell).join(",");
+
+/**
+ * RFC 4180 CSV. Text that a spreadsheet would read as a formula gets a
+ * leading apostrophe; numbers are written as they are. Several sheets are written one after another, each starting
+ * with its name and separated by a blank line. The leading byte-order mark
+ * makes Excel read the file as UTF-8.
+ */
+export function toCSV(sheets: ExportSheet[]): string {
+  const sections = sheets.map((sheet) =>
+    [
+      line([sheet.name]),
+      ...sheet.header.map(([label, value]) => line([label, value])),
+      "",
+      line(sheet.columns),
+      ...sheet.rows.map((row) => line(row.cells)),
+    ].join("\r\n"),
+  );
+  return `\uFEFF${sections.join("\r\n\r\n")}\r\n`;
+}
@@ -0,0 +1,40 @@
+/**
+ * Schedule export (CSV and XLSX) shared by the client download menu and the
+ * server's batch endpoint
+ */
+import { toCSV } from "./csv";
+import type { ExportSheet } from "./sheets";
+import { toXLSX } from "./xlsx";
+
+export * from "./sheets";
+export { toCSV } from "./csv";
+export { toXLSX, sheetNames } from "./xlsx";
+
+export type ExportFormat = "csv" | "xlsx";
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+export function renderSheets(
+  sheets: ExportSheet[],
+  format: ExportFormat,
+): string | Uint8Array {
+  return format === "csv" ? toCSV(sheets) : toXLSX(sheets);
+}
+
+/**
+ * File-name-safe form of a label, e.g. "Home Loan (v2)" -> "home-loan-v2"
+ */
+export const fileSlug = (label: string) =>
+  label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "") || "scenario";
+
+/**
+ * e.g. `schedules-home-loan.xlsx`, or `schedules-all-scenarios.csv`
+ */
+export const exportFileName = (label: string, format: ExportFormat) =>
+  `schedules-${fileSlug(label)}.${format}`;
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { buildScheduleSheets, type ExportScenario } from "./sheets";
+
+const scenario: ExportScenario = {
+  name: "Home loan",
+  inputs: {
+    loan: { loanAmount: 1000000, interestRate: 10, tenure: 2 },
+    sip: { sipAmount: 10000, sipReturnRate: 12, sipTenure: 1.5 },
+    inflationRate: 6,
+  },
+};
+
+describe("buildScheduleSheets", () => {
+  it("should build a loan and a SIP sheet per scenario", () => {
+    const sheets = buildScheduleSheets([scenario, scenario]);
+    expect(sheets.map((s) => s.name)).toEqual([
+      "Home loan - Loan",
+      "Home loan - SIP",
+      "Home loan - Loan",
+      "Home loan - SIP",
+    ]);
+  });
+
+  it("should only include the requested schedules", () => {
+    const sheets = buildScheduleSheets([scenario], { schedules: ["sip"] });
+    expect(sheets.map((s) => s.name)).toEqual(["Home loan - SIP"]);
+  });
+
+  it("should start with a header block of the inputs", () => {
+    const [loan] = buildScheduleSheets([scenario]);
+    expect(loan.header).toContainEqual(["Scenario", "Home loan"]);
+    expect(loan.header).toContainEqual(["Loan amount", 1000000]);
+    expect(loan.header).toContainEqual(["Values", "Nominal"]);
+  });
+
+  it("should include every month plus a subtotal after each year", () => {
+    const [loan, sip] = buildScheduleSheets([scenario]);
+    expect(loan.rows).toHaveLength(24 + 2);
+    // 18 months: a full year and a final part-year
+    expect(sip.rows).toHaveLength(18 + 2);
+
+    const subtotals = loan.rows.filter((row) => row.subtotal);
+    expect(subtotals.map((row) => row.cells[0])).toEqual([
+      "Year 1 total",
+      "Year 2 total",
+    ]);
+    expect(loan.rows[12]).toBe(subtotals[0]);
+  });
+
+  it("should sum the year in each subtotal row", () => {
+    const [loan] = buildScheduleSheets([scenario]);
+    const principal = loan.columns.indexOf("Principal");
+    const balance = loan.columns.indexOf("Balance");
+    const firstYear = loan.rows.slice(0, 12);
+    const subtotal = loan.rows[12];
+
+    expect(subtotal.cells[principal]).toBe(
+      firstYear.reduce((total, row) => total + Number(row.cells[principal]), 0),
+    );
+    expect(subtotal.cells[balance]).toBe(firstYear[11].cells[balance]);
+
+    const lastSubtotal = loan.rows[loan.rows.length - 1];
+    expect(lastSubtotal.cells[balance]).toBe(0);
+  });
+
+  it("should export real values when asked", () => {
+    const [nominal] = buildScheduleSheets([scenario]);
+    const [real] = buildScheduleSheets([scenario], { basis: "real" });
+    const emi = nominal.columns.indexOf("EMI");
+    expect(real.rows[0].cells[emi]).toBeLessThan(
+      nominal.rows[0].cells[emi] as number,
+    );
+  });
+});
@@ -0,0 +1,230 @@
+import {
+  scenarioSchedules,
+  type AmortizationEntry,
+  type ScenarioInputs,
+  type SIPGrowthEntry,
+  type ValueBasis,
+} from "../finance";
+
+export type Cell = string | number | null;
+
+export interface SheetRow {
+  cells: Cell[];
+  /** Yearly subtotal rows are set in bold */
+  subtotal?: boolean;
+}
+
+/**
+ * One exported table: a block of scenario inputs, then the schedule with a
+ * subtotal row after every year
+ */
+export interface ExportSheet {
+  name: string;
+  header: [label: string, value: Cell][];
+  columns: string[];
+  rows: SheetRow[];
+}
+
+export type ScheduleKind = "amortization" | "sip";
+
+export interface ExportScenario {
+  name: string;
+  inputs: ScenarioInputs;
+}
+
+const describePrepayment = ({ loan }: ScenarioInputs): string => {
+  const events = loan.prepayment?.events ?? [];
+  if (events.length === 0) return "None";
+  const strategy =
+    loan.prepayment.strategy === "reduce-emi" ? "reduce EMI" : "reduce tenure";
+  return `${events.length} payment${events.length === 1 ? "" : "s"}, ${strategy}`;
+};
+
+const describeFloatingRate = ({ loan }: ScenarioInputs): string => {
+  const plan = loan.floatingRate;
+  if (!plan) return "Fixed";
+  const mode = plan.mode === "keep-emi" ? "keep EMI" : "keep tenure";
+  return plan.source === "repo-linked"
+    ? `Repo-linked (+${plan.repoLinked?.spread ?? 0}%), ${mode}`
+    : `${plan.changes.length} manual reset${plan.changes.length === 1 ? "" : "s"}, ${mode}`;
+};
+
+const describeStepUp = ({ sip }: ScenarioInputs): string => {
+  if (!sip.stepUp) return "None";
+  const { kind, value, maxMonthlyAmount } = sip.stepUp;
+  const step = kind === "percent" ? `${value}% a year` : `${value} a year`;
+  return maxMonthlyAmount ? `${step}, capped at ${maxMonthlyAmount}` : step;
+};
+
+export const describeTax = ({ tax }: ScenarioInputs): string => {
+  if (!tax) return "Not included";
+  const parts = [
+    `${tax.regime === "old" ? "Old" : "New"} regime`,
+    `${tax.slabRate}% slab`,
+    tax.propertyUse === "let-out" ? "let out" : "self-occupied",
+  ];
+  if (tax.coBorrowerShare) parts.push(`${tax.coBorrowerShare}% co-borrower`);
+  return parts.join(", ");
+};
+
+export const describeCapitalGains = ({ sip }: ScenarioInputs): string => {
+  const profile = sip.capitalGains;
+  if (!profile) return "Not included";
+  const parts = [
+    `${profile.stcgRate}% STCG`,
+    `${profile.ltcgRate}% LTCG`,
+    `long-term after ${profile.longTermAfterMonths} months`,
+  ];
+  if (profile.exitLoad) {
+    parts.push(
+      `${profile.exitLoad.rate}% exit load within ${profile.exitLoad.withinMonths} months`,
+    );
+  }
+  return parts.join(", ");
+};
+
+function inputsHeader(
+  { name, inputs }: ExportScenario,
+  basis: ValueBasis,
+): ExportSheet["header"] {
+  return [
+    ["Scenario", name],
+    ["Loan amount", inputs.loan.loanAmount],
+    ["Interest rate (%)", inputs.loan.interestRate],
+    ["Loan tenure (years)", inputs.loan.tenure],
+    ["Prepayments", describePrepayment(inputs)],
+    ["Rate type", describeFloatingRate(inputs)],
+    ["Monthly SIP", inputs.sip.sipAmount],
+    ["Expected return (%)", inputs.sip.sipReturnRate],
+    ["SIP period (years)", inputs.sip.sipTenure],
+    ["Step-up", describeStepUp(inputs)],
+    ["Inflation (%)", inputs.inflationRate ?? 0],
+    ["Tax", describeTax(inputs)],
+    ["Capital gains", describeCapitalGains(inputs)],
+    [
+      "Values",
+      basis === "real" ? "Today's rupees (inflation-adjusted)" : "Nominal",
+    ],
+  ];
+}
+
+/**
+ * Emit each entry as a row, followed by a subtotal row at the end of every
+ * year (and after a final part-year)
+ */
+function withYearlySubtotals<T extends { month: number }>(
+  entries: T[],
+  row: (entry: T) => Cell[],
+  subtotal: (year: number, entries: T[]) => Cell[],
+): SheetRow[] {
+  const rows: SheetRow[] = [];
+  let year: T[] = [];
+  entries.forEach((entry, index) => {
+    rows.push({ cells: row(entry) });
+    year.push(entry);
+    if (entry.month % 12 === 0 || index === entries.length - 1) {
+      rows.push({
+        cells: subtotal(Math.ceil(entry.month / 12), year),
+        subtotal: true,
+      });
+      year = [];
+    }
+  });
+  return rows;
+}
+
+const sum = <T>(items: T[], value: (item: T) => number) =>
+  items.reduce((total, item) => total + value(item), 0);
+
+export function amortizationSheet(
+  scenario: ExportScenario,
+  schedule: AmortizationEntry[],
+  basis: ValueBasis,
+): ExportSheet {
+  return {
+    name: `${scenario.name} - Loan`,
+    header: inputsHeader(scenario, basis),
+    columns: [
+      "Month",
+      "Rate (%)",
+      "EMI",
+      "Principal",
+      "Interest",
+      "Prepayment",
+      "Balance",
+    ],
+    rows: withYearlySubtotals(
+      schedule,
+      (e) => [
+        e.month,
+        e.rate,
+        e.emi,
+        e.principal,
+        e.interest,
+        e.prepayment,
+        e.balance,
+      ],
+      (year, entries) => [
+        `Year ${year} total`,
+        null,
+        sum(entries, (e) => e.emi),
+        sum(entries, (e) => e.principal),
+        sum(entries, (e) => e.interest),
+        sum(entries, (e) => e.prepayment),
+        entries[entries.length - 1].balance,
+      ],
+    ),
+  };
+}
+
+export function sipSheet(
+  scenario: ExportScenario,
+  schedule: SIPGrowthEntry[],
+  basis: ValueBasis,
+): ExportSheet {
+  return {
+    name: `${scenario.name} - SIP`,
+    header: inputsHeader(scenario, basis),
+    columns: ["Month", "Contribution", "Total invested", "Value", "Returns"],
+    rows: withYearlySubtotals(
+      schedule,
+      (e) => [e.month, e.contribution, e.investment, e.balance, e.returns],
+      (year, entries) => {
+        const last = entries[entries.length - 1];
+        return [
+          `Year ${year} total`,
+          sum(entries, (e) => e.contribution),
+          last.investment,
+          last.balance,
+          last.returns,
+        ];
+      },
+    ),
+  };
+}
+
+/**
+ * Full-length schedules for every scenario, loan sheet before SIP sheet
+ */
+export function buildScheduleSheets(
+  scenarios: ExportScenario[],
+  {
+    schedules = ["amortization", "sip"],
+    basis = "nominal",
+  }: { schedules?: ScheduleKind[]; basis?: ValueBasis } = {},
+): ExportSheet[] {
+  return scenarios.flatMap((scenario) => {
+    const { amortization, sipGrowth } = scenarioSchedules(
+      scenario.inputs,
+      basis,
+    );
+    const sheets: ExportSheet[] = [];
+    if (schedules.includes("amortization")) {
+      sheets.push(amortizationSheet(scenario, amortization, basis));
+    }
+    if (schedules.includes("sip")) {
+      sheets.push(sipSheet(scenario, sipGrowth, basis));
+    }
+    return sheets;
+  });
+}
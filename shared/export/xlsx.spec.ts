@@ -0,0 +1,63 @@
+import { describe, it, expect } from "vitest";
+import type { ExportSheet } from "./sheets";
+import { sheetNames, toXLSX } from "./xlsx";
+import { crc32 } from "./zip";
+
+const sheet: ExportSheet = {
+  name: "Home loan - Loan",
+  header: [["Scenario", "Home <loan> & co"]],
+  columns: ["Month", "EMI"],
+  rows: [
+    { cells: [1, 10000] },
+    { cells: ["Year 1 total", 10000], subtotal: true },
+  ],
+};
+
+// Parts are stored uncompressed, so their XML can be read straight out
+const text = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe("toXLSX", () => {
+  it("should produce a zip with a worksheet per sheet", () => {
+    const xlsx = toXLSX([sheet, { ...sheet, name: "Home loan - SIP" }]);
+    const content = text(xlsx);
+    expect(content.startsWith("PK\u0003\u0004")).toBe(true);
+    expect(content).toContain("xl/worksheets/sheet1.xml");
+    expect(content).toContain("xl/worksheets/sheet2.xml");
+    expect(content).toContain('<sheet name="Home loan - SIP" sheetId="2"');
+  });
+
+  it("should escape text and bold subtotal rows", () => {
+    const content = text(toXLSX([sheet]));
+    expect(content).toContain("Home &lt;loan&gt; &amp; co");
+    expect(content).toMatch(
+      /<c r="A5" s="1" t="inlineStr"><is><t[^>]*>Year 1 total/,
+    );
+    expect(content).toContain('<c r="B5" s="3"><v>10000</v></c>');
+  });
+});
+
+describe("sheetNames", () => {
+  it("should strip invalid characters, truncate and de-duplicate", () => {
+    expect(
+      sheetNames([
+        "A/B: plan",
+        "A very long scenario name that goes on - Loan",
+        "a very long scenario name that goes on - SIP",
+        "Same",
+        "same",
+      ]),
+    ).toEqual([
+      "A B  plan",
+      "A very long scenario name that",
+      "a very long scenario name t (2)",
+      "Same",
+      "same (2)",
+    ]);
+  });
+});
+
+describe("crc32", () => {
+  it("should match the standard check value", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+});
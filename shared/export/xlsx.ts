@@ -0,0 +1,171 @@
+import type { Cell, ExportSheet, SheetRow } from "./sheets";
+import { createZip } from "./zip";
+
+/**
+ * SpreadsheetML (.xlsx) writer: one worksheet per sheet, inline strings,
+ * thousands separators on amounts and bold subtotal rows
+ */
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const MAIN_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const PACKAGE_REL_NS =
+  "http://schemas.openxmlformats.org/package/2006/relationships";
+
+// Style indexes into cellXfs below
+const STYLE = { text: 0, bold: 1, amount: 2, boldAmount: 3, decimal: 4 };
+
+const STYLES = `${XML_HEADER}
+<styleSheet xmlns="${MAIN_NS}">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="5">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="3" fontId="1" fillId="0" borderId="0" xfId="0" applyNumberFormat="1" applyFont="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+</styleSheet>`;
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters other than tab/newline are not allowed in XML
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "");
+
+const columnName = (index: number) => {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+function cellXml(cell: Cell, ref: string, bold: boolean): string {
+  if (cell === null || cell === undefined) return "";
+  if (typeof cell === "number") {
+    const style = Number.isInteger(cell)
+      ? bold
+        ? STYLE.boldAmount
+        : STYLE.amount
+      : STYLE.decimal;
+    return `<c r="${ref}" s="${style}"><v>${cell}</v></c>`;
+  }
+  const style = bold ? STYLE.bold : STYLE.text;
+  return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+}
+
+const rowXml = (cells: Cell[], index: number, bold = false) =>
+  `<row r="${index + 1}">${cells
+    .map((cell, column) =>
+      cellXml(cell, `${columnName(column)}${index + 1}`, bold),
+    )
+    .join("")}</row>`;
+
+function worksheetXml(sheet: ExportSheet): string {
+  const rows: SheetRow[] = [
+    ...sheet.header.map(([label, value]) => ({ cells: [label, value] })),
+    { cells: [] },
+    { cells: sheet.columns, subtotal: true },
+    ...sheet.rows,
+  ];
+  const columnsRow = sheet.header.length + 1;
+  const widths = Math.max(sheet.columns.length, 2);
+
+  return `${XML_HEADER}
+<worksheet xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="${columnsRow + 1}" topLeftCell="A${columnsRow + 2}" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols><col min="1" max="${widths}" width="18" customWidth="1"/></cols>
+<sheetData>${rows
+    .map((row, index) => rowXml(row.cells, index, row.subtotal))
+    .join("")}</sheetData>
+</worksheet>`;
+}
+
+/**
+ * Excel sheet names: at most 31 characters, none of []:*?/\ and unique
+ * (case-insensitively) within the workbook
+ */
+export function sheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((raw) => {
+    const base = raw.replace(/[[\]:*?/\\]/g, " ").trim() || "Sheet";
+    let name = base.slice(0, 31).trim();
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`;
+      name = base.slice(0, 31 - suffix.length).trim() + suffix;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+export function toXLSX(sheets: ExportSheet[]): Uint8Array {
+  const names = sheetNames(sheets.map((sheet) => sheet.name));
+  const encoder = new TextEncoder();
+  const file = (path: string, xml: string) => ({
+    path,
+    data: encoder.encode(xml),
+  });
+
+  return createZip([
+    file(
+      "[Content_Types].xml",
+      `${XML_HEADER}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets
+  .map(
+    (_, i) =>
+      `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+  )
+  .join("\n")}
+</Types>`,
+    ),
+    file(
+      "_rels/.rels",
+      `${XML_HEADER}
+<Relationships xmlns="${PACKAGE_REL_NS}">
+<Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`,
+    ),
+    file(
+      "xl/workbook.xml",
+      `${XML_HEADER}
+<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}">
+<sheets>${names
+        .map(
+          (name, i) =>
+            `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+        )
+        .join("")}</sheets>
+</workbook>`,
+    ),
+    file(
+      "xl/_rels/workbook.xml.rels",
+      `${XML_HEADER}
+<Relationships xmlns="${PACKAGE_REL_NS}">
+${sheets
+  .map(
+    (_, i) =>
+      `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+  )
+  .join("\n")}
+<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>
+</Relationships>`,
+    ),
+    file("xl/styles.xml", STYLES),
+    ...sheets.map((sheet, i) =>
+      file(`xl/worksheets/sheet${i + 1}.xml`, worksheetXml(sheet)),
+    ),
+  ]);
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { calculateAffordability, principalForEMI } from "./affordability";
+import { calculateEMI } from "./loan";
+import type { AffordabilityProfile, LoanData } from "./types";
+
+const loan: LoanData = { loanAmount: 1000000, interestRate: 10, tenure: 10 };
+const profile: AffordabilityProfile = {
+  monthlyIncome: 50000,
+  existingEmis: 5000,
+  foirLimit: 50,
+  maxLtv: 80,
+  propertyValue: 2000000,
+};
+
+describe("principalForEMI", () => {
+  it("should invert the EMI formula", () => {
+    expect(principalForEMI(13215, 10, 10)).toBeGreaterThan(999900);
+    expect(calculateEMI(principalForEMI(13215, 10, 10), 10, 10)).toBe(13215);
+    expect(principalForEMI(10000, 0, 10)).toBe(1200000);
+    expect(principalForEMI(0, 10, 10)).toBe(0);
+  });
+});
+
+describe("calculateAffordability", () => {
+  it("should size the loan by the FOIR limit when income binds", () => {
+    const result = calculateAffordability(profile, loan);
+    // Half of ₹50,000 less the ₹5,000 already committed
+    expect(result.maxEmi).toBe(20000);
+    expect(result.maxLoanByLtv).toBe(1600000);
+    expect(result.maxLoanByIncome).toBe(principalForEMI(20000, 10, 10));
+    expect(result.limitedBy).toBe("foir");
+    expect(result.maxEligibleLoan).toBe(result.maxLoanByIncome);
+    expect(result.eligibleEmi).toBeLessThanOrEqual(20000);
+    expect(result.downPayment).toBe(1000000);
+    expect(result.minDownPayment).toBe(400000);
+    expect(result.breaches).toEqual([]);
+  });
+
+  it("should flag a loan over either limit", () => {
+    const result = calculateAffordability(profile, {
+      ...loan,
+      loanAmount: 1700000,
+    });
+    expect(result.ltv).toBe(85);
+    expect(result.foir).toBeGreaterThan(50);
+    expect(result.breaches).toEqual(["foir", "ltv"]);
+  });
+
+  it("should let the LTV bind for a high earner", () => {
+    const result = calculateAffordability(
+      { ...profile, monthlyIncome: 500000 },
+      loan,
+    );
+    expect(result.limitedBy).toBe("ltv");
+    expect(result.maxEligibleLoan).toBe(1600000);
+  });
+
+  it("should leave no room when existing EMIs use up the limit", () => {
+    const result = calculateAffordability(
+      { ...profile, existingEmis: 30000 },
+      loan,
+    );
+    expect(result.maxEmi).toBe(0);
+    expect(result.maxEligibleLoan).toBe(0);
+    expect(result.breaches).toContain("foir");
+  });
+});
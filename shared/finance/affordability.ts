@@ -0,0 +1,89 @@
+import { calculateEMI } from "./loan";
+import type {
+  AffordabilityLimit,
+  AffordabilityProfile,
+  AffordabilityResult,
+  LoanData,
+} from "./types";
+
+/**
+ * A typical salaried profile to start the eligibility check from, with the
+ * property priced so the loan is 80% of it
+ */
+export const defaultAffordabilityProfile = (
+  loan: LoanData,
+): AffordabilityProfile => ({
+  monthlyIncome: 150000,
+  existingEmis: 0,
+  foirLimit: 50,
+  maxLtv: 80,
+  propertyValue: Math.round(loan.loanAmount / 0.8 / 100000) * 100000,
+});
+
+/**
+ * Largest principal the given EMI repays over the tenure at the rate, to the
+ * rupee below
+ */
+export function principalForEMI(
+  emi: number,
+  rate: number,
+  tenure: number,
+): number {
+  const months = Math.round(tenure * 12);
+  if (emi <= 0 || months <= 0) return 0;
+  const monthlyRate = rate / 100 / 12;
+  if (monthlyRate === 0) return Math.floor(emi * months);
+  return Math.floor(
+    (emi * (1 - Math.pow(1 + monthlyRate, -months))) / monthlyRate,
+  );
+}
+
+/**
+ * How large a loan the borrower qualifies for at the loan's rate and tenure,
+ * and whether the loan as chosen breaks the FOIR or LTV limit. FOIR counts
+ * the opening EMI plus existing EMIs against net monthly income.
+ */
+export function calculateAffordability(
+  profile: AffordabilityProfile,
+  loan: LoanData,
+): AffordabilityResult {
+  const { monthlyIncome, existingEmis, foirLimit, maxLtv, propertyValue } =
+    profile;
+  const maxEmi = Math.max(
+    0,
+    Math.floor((monthlyIncome * foirLimit) / 100 - existingEmis),
+  );
+  const maxLoanByIncome = principalForEMI(
+    maxEmi,
+    loan.interestRate,
+    loan.tenure,
+  );
+  const maxLoanByLtv = Math.floor((propertyValue * maxLtv) / 100);
+  const limitedBy: AffordabilityLimit =
+    maxLoanByIncome <= maxLoanByLtv ? "foir" : "ltv";
+  const maxEligibleLoan = Math.min(maxLoanByIncome, maxLoanByLtv);
+
+  const emi = calculateEMI(loan.loanAmount, loan.interestRate, loan.tenure);
+  const foir =
+    monthlyIncome > 0 ? ((existingEmis + emi) / monthlyIncome) * 100 : Infinity;
+  const ltv =
+    propertyValue > 0 ? (loan.loanAmount / propertyValue) * 100 : Infinity;
+
+  const breaches: AffordabilityLimit[] = [];
+  if (foir > foirLimit) breaches.push("foir");
+  if (ltv > maxLtv) breaches.push("ltv");
+
+  return {
+    maxEmi,
+    maxLoanByIncome,
+    maxLoanByLtv,
+    maxEligibleLoan,
+    limitedBy,
+    eligibleEmi: calculateEMI(maxEligibleLoan, loan.interestRate, loan.tenure),
+    downPayment: Math.max(0, propertyValue - loan.loanAmount),
+    minDownPayment: Math.max(0, propertyValue - maxLoanByLtv),
+    foir,
+    ltv,
+    breaches,
+  };
+}
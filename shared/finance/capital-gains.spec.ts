@@ -0,0 +1,156 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSIPLots,
+  calculateSIPRedemption,
+  EQUITY_CAPITAL_GAINS,
+  redeemFIFO,
+} from "./capital-gains";
+import { calculateResults } from "./results";
+import { calculateSIPTotals } from "./sip";
+import type { CapitalGainsProfile, SIPData } from "./types";
+
+const noExitLoad: CapitalGainsProfile = {
+  ...EQUITY_CAPITAL_GAINS,
+  exitLoad: undefined,
+};
+const sip = (overrides: Partial<SIPData> = {}): SIPData => ({
+  sipAmount: 10000,
+  sipReturnRate: 12,
+  sipTenure: 10,
+  capitalGains: noExitLoad,
+  ...overrides,
+});
+
+describe("calculateSIPRedemption", () => {
+  it("should match the SIP schedule when there is no profile", () => {
+    const plain = sip({ capitalGains: undefined });
+    const redemption = calculateSIPRedemption(plain);
+    expect(redemption.grossValue).toBe(calculateSIPTotals(plain).maturityValue);
+    expect(redemption.tax).toBe(0);
+    expect(redemption.netValue).toBe(redemption.grossValue);
+  });
+
+  it("should tax a one-year SIP entirely as short-term", () => {
+    const oneYear = sip({ sipTenure: 1 });
+    const gain = calculateSIPTotals(oneYear).returns;
+    const redemption = calculateSIPRedemption(oneYear);
+
+    expect(redemption.longTermGain).toBe(0);
+    expect(redemption.shortTermGain).toBeCloseTo(gain, -1);
+    // 20% plus 4% cess
+    expect(redemption.tax).toBeCloseTo(gain * 0.2 * 1.04, -1);
+  });
+
+  it("should split lots at the holding period and exempt long-term gains", () => {
+    const redemption = calculateSIPRedemption(sip());
+    const { maturityValue, totalInvestment } = calculateSIPTotals(sip());
+
+    expect(redemption.shortTermGain).toBeGreaterThan(0);
+    expect(redemption.longTermGain).toBeGreaterThan(redemption.shortTermGain);
+    expect(redemption.shortTermGain + redemption.longTermGain).toBeCloseTo(
+      maturityValue - totalInvestment,
+      -1,
+    );
+    expect(redemption.exemptGain).toBe(EQUITY_CAPITAL_GAINS.ltcgExemption);
+    const expectedTax =
+      (redemption.shortTermGain * 0.2 +
+        (redemption.longTermGain - redemption.exemptGain) * 0.125) *
+      1.04;
+    expect(redemption.tax).toBeCloseTo(expectedTax, -1);
+    expect(redemption.netValue).toBe(redemption.grossValue - redemption.tax);
+  });
+
+  it("should charge the exit load only on lots inside the load window", () => {
+    const withLoad = sip({ capitalGains: EQUITY_CAPITAL_GAINS });
+    const lots = buildSIPLots(withLoad);
+    const { redemption } = redeemFIFO(
+      withLoad,
+      lots.slice(-12),
+      lots.slice(-12).reduce((sum, lot) => sum + lot.units, 0),
+      lots.length,
+      EQUITY_CAPITAL_GAINS,
+    );
+    const full = calculateSIPRedemption(withLoad);
+
+    expect(full.exitLoad).toBe(redemption.exitLoad);
+    expect(full.exitLoad).toBeCloseTo(redemption.grossValue * 0.01, 0);
+  });
+
+  it("should set short-term losses off against long-term gains", () => {
+    // At 0% the only short-term result is the exit-load loss
+    const flat = sip({
+      sipReturnRate: 0,
+      capitalGains: EQUITY_CAPITAL_GAINS,
+    });
+    const redemption = calculateSIPRedemption(flat);
+
+    expect(redemption.exitLoad).toBe(1200);
+    expect(redemption.shortTermGain).toBe(0);
+    expect(redemption.longTermGain).toBe(-1200);
+    expect(redemption.tax).toBe(0);
+    expect(redemption.netValue).toBe(1200000 - 1200);
+  });
+});
+
+describe("redeemFIFO", () => {
+  it("should sell the oldest units first and keep the rest", () => {
+    const plan = sip();
+    const lots = buildSIPLots(plan);
+    const { redemption, remaining } = redeemFIFO(
+      plan,
+      lots,
+      lots[0].units + lots[1].units / 2,
+      lots.length,
+      noExitLoad,
+    );
+
+    expect(remaining).toHaveLength(lots.length - 1);
+    expect(remaining[0].month).toBe(2);
+    expect(remaining[0].units).toBeCloseTo(lots[1].units / 2);
+    expect(remaining[0].cost).toBeCloseTo(5000);
+    expect(redemption.shortTermGain).toBe(0);
+    expect(redemption.longTermGain).toBeGreaterThan(0);
+    // Well inside the exemption
+    expect(redemption.tax).toBe(0);
+  });
+});
+
+describe("calculateResults with capital gains", () => {
+  const inputs = {
+    loan: { loanAmount: 1000000, interestRate: 10, tenure: 10 },
+    sip: sip({ capitalGains: EQUITY_CAPITAL_GAINS }),
+  };
+
+  it("should report the corpus both before and after tax", () => {
+    const results = calculateResults(inputs);
+    const redemption = calculateSIPRedemption(inputs.sip);
+
+    expect(results.sipPostTaxMaturityValue).toBe(redemption.netValue);
+    expect(results.sipRedemptionCost).toBe(
+      results.sipMaturityValue - redemption.netValue,
+    );
+    expect(results.netPosition).toBe(
+      results.sipMaturityValue - results.totalPayment,
+    );
+  });
+
+  it("should measure the net position on the post-tax corpus when asked", () => {
+    const preTax = calculateResults(inputs, "nominal", "pre-tax");
+    const postTax = calculateResults(inputs, "nominal", "post-tax");
+    expect(preTax.netPosition - postTax.netPosition).toBe(
+      preTax.sipRedemptionCost,
+    );
+
+    const real = calculateResults(
+      { ...inputs, inflationRate: 6 },
+      "real",
+      "post-tax",
+    );
+    expect(real.netPosition).toBe(
+      real.sipPostTaxMaturityValue - real.totalPayment,
+    );
+    expect(real.sipPostTaxMaturityValue).toBeLessThan(
+      postTax.sipPostTaxMaturityValue,
+    );
+  });
+});
@@ -0,0 +1,135 @@
+import { sipContributionForMonth } from "./sip";
+import { CESS } from "./tax";
+import type { CapitalGainsProfile, SIPData, SIPRedemption } from "./types";
+
+/**
+ * Equity mutual fund rules from 23 July 2024: 20% STCG, 12.5% LTCG after
+ * twelve months with ₹1.25 lakh of long-term gains exempt each year, and the
+ * common 1% exit load within a year
+ */
+export const EQUITY_CAPITAL_GAINS: CapitalGainsProfile = {
+  stcgRate: 20,
+  ltcgRate: 12.5,
+  ltcgExemption: 125000,
+  longTermAfterMonths: 12,
+  exitLoad: { rate: 1, withinMonths: 12 },
+};
+
+/** Units bought by one instalment */
+export interface SIPLot {
+  /** Month (1-based) the instalment was invested, at the start of the month */
+  month: number;
+  units: number;
+  cost: number;
+}
+
+/**
+ * NAV at the start of `month`, on a fund that starts at 1 and compounds at
+ * the SIP's monthly return. The end of month N is the start of month N + 1.
+ */
+export const navAt = (sip: SIPData, month: number) =>
+  Math.pow(1 + sip.sipReturnRate / 100 / 12, month - 1);
+
+/**
+ * One lot per instalment, oldest first
+ */
+export function buildSIPLots(sip: SIPData): SIPLot[] {
+  const totalMonths = Math.round(sip.sipTenure * 12);
+  const lots: SIPLot[] = [];
+  for (let month = 1; month <= totalMonths; month++) {
+    const cost = sipContributionForMonth(sip, month);
+    lots.push({ month, units: cost / navAt(sip, month), cost });
+  }
+  return lots;
+}
+
+/**
+ * Sell `units` first-in-first-out at the end of `month` and work out the
+ * exit load and tax, including the 4% cess. Short-term losses are set against short-term gains
+ * first, then long-term; long-term losses only against long-term gains.
+ * Returns the lots left over alongside the redemption.
+ */
+export function redeemFIFO(
+  sip: SIPData,
+  lots: SIPLot[],
+  units: number,
+  month: number,
+  profile: CapitalGainsProfile,
+): { redemption: SIPRedemption; remaining: SIPLot[] } {
+  const nav = navAt(sip, month + 1);
+  const remaining: SIPLot[] = [];
+  let toSell = units;
+  let grossValue = 0;
+  let exitLoad = 0;
+  let shortTerm = 0;
+  let longTerm = 0;
+
+  for (const lot of lots) {
+    if (toSell <= 1e-9) {
+      remaining.push(lot);
+      continue;
+    }
+    const sold = Math.min(lot.units, toSell);
+    const cost = lot.cost * (sold / lot.units);
+    const value = sold * nav;
+    const held = month - lot.month + 1;
+    const load =
+      profile.exitLoad && held <= profile.exitLoad.withinMonths
+        ? (value * profile.exitLoad.rate) / 100
+        : 0;
+    const gain = value - load - cost;
+    if (held > profile.longTermAfterMonths) longTerm += gain;
+    else shortTerm += gain;
+
+    grossValue += value;
+    exitLoad += load;
+    toSell -= sold;
+    if (sold < lot.units) {
+      remaining.push({
+        ...lot,
+        units: lot.units - sold,
+        cost: lot.cost - cost,
+      });
+    }
+  }
+
+  if (shortTerm < 0) {
+    longTerm += shortTerm;
+    shortTerm = 0;
+  }
+  const taxableLongTerm = Math.max(0, longTerm - profile.ltcgExemption);
+  const exemptGain = Math.max(0, longTerm) - taxableLongTerm;
+  const tax =
+    ((shortTerm * profile.stcgRate + taxableLongTerm * profile.ltcgRate) /
+      100) *
+    (1 + CESS);
+
+  return {
+    redemption: {
+      grossValue: Math.round(grossValue),
+      exitLoad: Math.round(exitLoad),
+      shortTermGain: Math.round(shortTerm),
+      longTermGain: Math.round(longTerm),
+      exemptGain: Math.round(exemptGain),
+      tax: Math.round(tax),
+      netValue: Math.round(grossValue - exitLoad - tax),
+    },
+    remaining,
+  };
+}
+
+/**
+ * Redeem the whole corpus at maturity. Without a capital-gains profile the
+ * net value is the gross value.
+ */
+export function calculateSIPRedemption(sip: SIPData): SIPRedemption {
+  const lots = buildSIPLots(sip);
+  const profile: CapitalGainsProfile = sip.capitalGains ?? {
+    stcgRate: 0,
+    ltcgRate: 0,
+    ltcgExemption: 0,
+    longTermAfterMonths: 0,
+  };
+  const units = lots.reduce((sum, lot) => sum + lot.units, 0);
+  return redeemFIFO(sip, lots, units, lots.length, profile).redemption;
+}
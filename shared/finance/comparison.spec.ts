@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { compareResults, rankScenarios } from "./comparison";
+import { calculateResults } from "./results";
+
+const cheap = calculateResults({
+  loan: { loanAmount: 1000000, interestRate: 8, tenure: 10 },
+  sip: { sipAmount: 10000, sipReturnRate: 12, sipTenure: 10 },
+});
+const reference = calculateResults({
+  loan: { loanAmount: 1000000, interestRate: 10, tenure: 10 },
+  sip: { sipAmount: 10000, sipReturnRate: 12, sipTenure: 10 },
+});
+const bigSip = calculateResults({
+  loan: { loanAmount: 1000000, interestRate: 10, tenure: 10 },
+  sip: { sipAmount: 20000, sipReturnRate: 12, sipTenure: 10 },
+});
+
+const row = (rows: ReturnType<typeof compareResults>, metric: string) =>
+  rows.find((r) => r.metric === metric);
+
+describe("compareResults", () => {
+  it("should measure every value against the baseline", () => {
+    const rows = compareResults([reference, cheap], 0);
+    const emi = row(rows, "emi");
+
+    expect(reference.emi).toBe(13215);
+    expect(emi.cells[0]).toMatchObject({
+      value: 13215,
+      delta: 0,
+      deltaPercent: 0,
+      versusBaseline: "same",
+    });
+    expect(emi.cells[1].delta).toBe(cheap.emi - 13215);
+    expect(emi.cells[1].deltaPercent).toBeCloseTo(
+      ((cheap.emi - 13215) / 13215) * 100,
+    );
+    expect(emi.cells[1].versusBaseline).toBe("better");
+  });
+
+  it("should mark the best value in each row, honouring its direction", () => {
+    const rows = compareResults([reference, cheap, bigSip], 0);
+
+    expect(row(rows, "totalInterest").cells.map((c) => c.best)).toEqual([
+      false,
+      true,
+      false,
+    ]);
+    expect(row(rows, "sipMaturityValue").cells.map((c) => c.best)).toEqual([
+      false,
+      false,
+      true,
+    ]);
+    // Level rows and rows without a direction have no best
+    expect(row(rows, "taxSaved").cells.some((c) => c.best)).toBe(false);
+    expect(row(rows, "sipTotalInvestment").cells.some((c) => c.best)).toBe(
+      false,
+    );
+  });
+
+  it("should leave the percentage out when the baseline is zero", () => {
+    const withSavings = { ...reference, earlyClosureSavings: 50000 };
+    const cell = row(
+      compareResults([reference, withSavings], 0),
+      "earlyClosureSavings",
+    ).cells[1];
+    expect(cell.delta).toBe(50000);
+    expect(cell.deltaPercent).toBeNull();
+  });
+});
+
+describe("rankScenarios", () => {
+  it("should rank on a single criterion", () => {
+    const ranking = rankScenarios([reference, cheap, bigSip], {
+      totalInterest: 1,
+    });
+    expect(ranking[0]).toMatchObject({ index: 1, score: 100, rank: 1 });
+    // The other two pay the same interest and share second place
+    expect(ranking.slice(1).map((r) => [r.index, r.score, r.rank])).toEqual([
+      [0, 0, 2],
+      [2, 0, 2],
+    ]);
+  });
+
+  it("should blend criteria by weight", () => {
+    const ranking = rankScenarios([reference, cheap, bigSip], {
+      totalInterest: 1,
+      netPosition: 3,
+    });
+    expect(ranking.map((r) => r.index)).toEqual([2, 1, 0]);
+    expect(ranking[0].score).toBeCloseTo(75);
+  });
+
+  it("should score everyone level without usable criteria", () => {
+    const ranking = rankScenarios([reference, cheap], {
+      sipTotalInvestment: 5,
+      emi: 0,
+    });
+    expect(ranking.map((r) => r.rank)).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,125 @@
+import type {
+  CalculationResults,
+  ComparisonCell,
+  ComparisonMetric,
+  ComparisonRow,
+  MetricDirection,
+  RankingWeights,
+  ScenarioRanking,
+} from "./types";
+
+/**
+ * Which way each results figure improves. Money invested is a choice rather
+ * than an outcome, so it is never marked best.
+ */
+export const METRIC_DIRECTIONS: Record<ComparisonMetric, MetricDirection> = {
+  emi: "lower",
+  totalInterest: "lower",
+  totalPayment: "lower",
+  sipMaturityValue: "higher",
+  sipTotalInvestment: null,
+  sipReturns: "higher",
+  netPosition: "higher",
+  earlyClosureSavings: "higher",
+  monthsSaved: "higher",
+  sipPostTaxMaturityValue: "higher",
+  sipRedemptionCost: "lower",
+  taxSaved: "higher",
+  postTaxEffectiveRate: "lower",
+  postTaxNetPosition: "higher",
+};
+
+export const COMPARISON_METRICS = Object.keys(
+  METRIC_DIRECTIONS,
+) as ComparisonMetric[];
+
+/** Differences smaller than this (half a paisa, or 0.005%) count as equal */
+const EPSILON = 0.005;
+
+const same = (a: number, b: number) => Math.abs(a - b) < EPSILON;
+
+/** Positive when `value` is better than `other` in the given direction */
+const advantage = (value: number, other: number, direction: MetricDirection) =>
+  direction === "higher"
+    ? value - other
+    : direction === "lower"
+      ? other - value
+      : 0;
+
+/**
+ * Every results metric side by side, each value measured against the
+ * scenario at `baseline`. A row marks its best value only when the
+ * scenarios actually differ.
+ */
+export function compareResults(
+  results: CalculationResults[],
+  baseline: number,
+): ComparisonRow[] {
+  const base = results[baseline] ?? results[0];
+  return COMPARISON_METRICS.map((metric) => {
+    const direction = METRIC_DIRECTIONS[metric];
+    const values = results.map((result) => result[metric]);
+    const bestValue = direction
+      ? values.reduce((best, value) =>
+          advantage(value, best, direction) > 0 ? value : best,
+        )
+      : null;
+    const allSame = values.every((value) => same(value, values[0]));
+
+    const cells = values.map((value): ComparisonCell => {
+      const delta = value - base[metric];
+      const edge = advantage(value, base[metric], direction);
+      return {
+        value,
+        delta,
+        deltaPercent:
+          base[metric] === 0 ? null : (delta / Math.abs(base[metric])) * 100,
+        best: bestValue !== null && !allSame && same(value, bestValue),
+        versusBaseline:
+          !direction || same(edge, 0) ? "same" : edge > 0 ? "better" : "worse",
+      };
+    });
+    return { metric, direction, cells };
+  });
+}
+
+/**
+ * Rank scenarios on weighted criteria. Each criterion is scaled so the best
+ * scenario on it scores 1 and the worst 0 (all 1 when they're level), then
+ * the scores are averaged by weight. Criteria without a direction, or with
+ * no positive weight, are ignored.
+ */
+export function rankScenarios(
+  results: CalculationResults[],
+  weights: RankingWeights,
+): ScenarioRanking[] {
+  const criteria = (
+    Object.entries(weights) as [ComparisonMetric, number][]
+  ).filter(([metric, weight]) => weight > 0 && METRIC_DIRECTIONS[metric]);
+  const totalWeight = criteria.reduce((sum, [, weight]) => sum + weight, 0);
+
+  const scores = results.map((result) => {
+    if (totalWeight === 0) return 0;
+    const weighted = criteria.reduce((sum, [metric, weight]) => {
+      const values = results.map((other) => other[metric]);
+      const min = Math.min(...values);
+      const max = Math.max(...values);
+      if (same(min, max)) return sum + weight;
+      const scaled = (result[metric] - min) / (max - min);
+      return (
+        sum +
+        weight * (METRIC_DIRECTIONS[metric] === "higher" ? scaled : 1 - scaled)
+      );
+    }, 0);
+    return (weighted / totalWeight) * 100;
+  });
+
+  const order = scores
+    .map((score, index) => ({ index, score }))
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+  return order.map(({ index, score }) => ({
+    index,
+    score,
+    rank: 1 + order.filter((other) => other.score - score > EPSILON).length,
+  }));
+}
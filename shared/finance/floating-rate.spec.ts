@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  generateRepoLinkedRateChanges,
+  monthsToRepay,
+  resolveRateChanges,
+} from "./floating-rate";
+import { calculateEMI, generateAmortizationSchedule } from "./loan";
+import type { FloatingRatePlan, LoanData } from "./types";
+
+const loan: LoanData = { loanAmount: 5000000, interestRate: 8.5, tenure: 20 };
+
+const rise = (mode: FloatingRatePlan["mode"]): FloatingRatePlan => ({
+  mode,
+  source: "manual",
+  changes: [{ month: 25, rate: 9.5 }],
+});
+
+describe("generateRepoLinkedRateChanges", () => {
+  it("should apply repo moves plus the spread at each reset date", () => {
+    const changes = generateRepoLinkedRateChanges(
+      {
+        spread: 2.5,
+        resetFrequency: 3,
+        repoPath: [
+          { month: 1, repoRate: 6 },
+          { month: 5, repoRate: 6.5 },
+          { month: 11, repoRate: 6.25 },
+        ],
+      },
+      8.5,
+      24,
+    );
+    // Quarterly resets fall in months 4, 7, 10, 13...
+    expect(changes).toEqual([
+      { month: 7, rate: 9 },
+      { month: 13, rate: 8.75 },
+    ]);
+  });
+});
+
+describe("resolveRateChanges", () => {
+  it("should sort manual changes and drop ones at the opening month", () => {
+    expect(
+      resolveRateChanges(
+        {
+          mode: "keep-emi",
+          source: "manual",
+          changes: [
+            { month: 30, rate: 9 },
+            { month: 1, rate: 7 },
+            { month: 12, rate: 8 },
+          ],
+        },
+        8.5,
+        240,
+      ),
+    ).toEqual([
+      { month: 12, rate: 8 },
+      { month: 30, rate: 9 },
+    ]);
+  });
+});
+
+describe("monthsToRepay", () => {
+  it("should invert the EMI formula", () => {
+    const emi = calculateEMI(1000000, 10, 10);
+    expect(monthsToRepay(1000000, 10, emi)).toBe(120);
+  });
+
+  it("should be infinite when the EMI doesn't cover the interest", () => {
+    expect(monthsToRepay(1000000, 12, 10000)).toBe(Infinity);
+  });
+});
+
+describe("floating rates in the amortization schedule", () => {
+  it("should keep the EMI and stretch the tenure on a rate rise", () => {
+    const schedule = generateAmortizationSchedule({
+      ...loan,
+      floatingRate: rise("keep-emi"),
+    });
+    expect(schedule.length).toBeGreaterThan(240);
+    expect(schedule[30].emi).toBe(schedule[0].emi);
+    expect(schedule[schedule.length - 1].balance).toBe(0);
+  });
+
+  it("should keep the tenure and raise the EMI when asked", () => {
+    const schedule = generateAmortizationSchedule({
+      ...loan,
+      floatingRate: rise("keep-tenure"),
+    });
+    expect(schedule).toHaveLength(240);
+    expect(schedule[24].emi).toBeGreaterThan(schedule[0].emi);
+    expect(schedule[239].balance).toBe(0);
+  });
+
+  it("should mark the month of every reset", () => {
+    const schedule = generateAmortizationSchedule({
+      ...loan,
+      floatingRate: rise("keep-emi"),
+    });
+    const resets = schedule.filter((entry) => entry.rateReset);
+    expect(resets.map((entry) => entry.month)).toEqual([25]);
+    expect(schedule[23].rate).toBe(8.5);
+    expect(schedule[24].rate).toBe(9.5);
+  });
+
+  it("should fall back to a higher EMI when the old one can't cover interest", () => {
+    const schedule = generateAmortizationSchedule({
+      ...loan,
+      floatingRate: {
+        mode: "keep-emi",
+        source: "manual",
+        changes: [{ month: 13, rate: 14 }],
+      },
+    });
+    expect(schedule[12].principal).toBeGreaterThan(0);
+    expect(schedule[schedule.length - 1].balance).toBe(0);
+  });
+});
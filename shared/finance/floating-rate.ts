@@ -0,0 +1,70 @@
+import type { FloatingRatePlan, RateChange, RepoLinkedRate } from "./types";
+
+/**
+ * Lending rates produced by a repo-linked loan over `totalMonths`. The repo
+ * rate is sampled at every reset date and only actual changes are returned.
+ */
+export function generateRepoLinkedRateChanges(
+  { spread, resetFrequency, repoPath }: RepoLinkedRate,
+  openingRate: number,
+  totalMonths: number,
+): RateChange[] {
+  const path = [...repoPath].sort((a, b) => a.month - b.month);
+  const frequency = Math.max(1, Math.round(resetFrequency));
+  const changes: RateChange[] = [];
+  let currentRate = openingRate;
+
+  for (let month = 1 + frequency; month <= totalMonths; month += frequency) {
+    const point = path.filter((p) => p.month <= month).pop();
+    if (!point) continue;
+
+    const rate = Math.max(0, Math.round((point.repoRate + spread) * 100) / 100);
+    if (rate !== currentRate) {
+      changes.push({ month, rate });
+      currentRate = rate;
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * The rate resets a plan produces, sorted by month, whichever way they were
+ * entered.
+ */
+export function resolveRateChanges(
+  plan: FloatingRatePlan | undefined,
+  openingRate: number,
+  totalMonths: number,
+): RateChange[] {
+  if (!plan) return [];
+  const changes =
+    plan.source === "repo-linked" && plan.repoLinked
+      ? generateRepoLinkedRateChanges(plan.repoLinked, openingRate, totalMonths)
+      : plan.changes;
+
+  return changes
+    .filter((change) => change.month > 1 && change.rate >= 0)
+    .sort((a, b) => a.month - b.month);
+}
+
+/**
+ * Months needed to clear `balance` at a fixed EMI, or Infinity when the EMI
+ * doesn't even cover the interest.
+ */
+export function monthsToRepay(
+  balance: number,
+  rate: number,
+  emi: number,
+): number {
+  const monthlyRate = rate / 100 / 12;
+  if (balance <= 0) return 0;
+  if (monthlyRate === 0) return Math.ceil(balance / emi - 0.01);
+  if (emi <= balance * monthlyRate) return Infinity;
+
+  const months =
+    -Math.log(1 - (monthlyRate * balance) / emi) / Math.log(1 + monthlyRate);
+  // A rupee-rounded EMI overshoots by a sliver of a month; the final
+  // instalment absorbs that residue rather than adding a month for it
+  return Math.ceil(months - 0.01);
+}
@@ -0,0 +1,16 @@
+/**
+ * Framework-free loan + SIP finance engine shared by the client and server
+ */
+export * from "./types";
+export * from "./loan";
+export * from "./floating-rate";
+export * from "./prepayment";
+export * from "./sip";
+export * from "./results";
+export * from "./inflation";
+export * from "./tax";
+export * from "./capital-gains";
+export * from "./solver";
+export * from "./monte-carlo";
+export * from "./affordability";
+export * from "./comparison";
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { discountFactor, toRealSIPGrowth } from "./inflation";
+import { calculateResults } from "./results";
+import { generateSIPGrowthSchedule } from "./sip";
+
+const inputs = {
+  loan: { loanAmount: 5000000, interestRate: 8.5, tenure: 20 },
+  sip: { sipAmount: 25000, sipReturnRate: 12, sipTenure: 20 },
+  inflationRate: 6,
+};
+
+describe("discountFactor", () => {
+  it("should discount a year out by the inflation rate", () => {
+    expect(discountFactor(6, 12)).toBeCloseTo(1 / 1.06, 10);
+    expect(discountFactor(0, 120)).toBe(1);
+  });
+});
+
+describe("real-value results", () => {
+  it("should match the nominal figures at zero inflation", () => {
+    const zero = { ...inputs, inflationRate: 0 };
+    const nominal = calculateResults(zero);
+    const real = calculateResults(zero, "real");
+    expect(real.totalPayment).toBe(nominal.totalPayment);
+    expect(real.sipMaturityValue).toBe(nominal.sipMaturityValue);
+  });
+
+  it("should shrink every future amount", () => {
+    const nominal = calculateResults(inputs);
+    const real = calculateResults(inputs, "real");
+    expect(real.totalPayment).toBeLessThan(nominal.totalPayment);
+    expect(real.sipMaturityValue).toBeCloseTo(
+      nominal.sipMaturityValue * discountFactor(6, 240),
+      -1,
+    );
+    expect(real.netPosition).toBe(real.sipMaturityValue - real.totalPayment);
+  });
+
+  it("should count SIP returns against discounted contributions", () => {
+    const real = toRealSIPGrowth(generateSIPGrowthSchedule(inputs.sip), 6);
+    const last = real[real.length - 1];
+    expect(last.investment).toBeLessThan(25000 * 240);
+    expect(
+      Math.abs(last.returns - (last.balance - last.investment)),
+    ).toBeLessThanOrEqual(1);
+  });
+});
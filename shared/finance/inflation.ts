@@ -0,0 +1,149 @@
+import { generateAmortizationSchedule } from "./loan";
+import { generateSIPGrowthSchedule } from "./sip";
+import { calculateTaxBenefits } from "./tax";
+import type {
+  AmortizationEntry,
+  CalculationResults,
+  ScenarioInputs,
+  SIPGrowthEntry,
+  SIPTaxBasis,
+  ValueBasis,
+} from "./types";
+
+/**
+ * Multiplier that turns rupees paid in `month` (1-based) into today's rupees
+ */
+export function discountFactor(inflationRate: number, month: number): number {
+  if (!inflationRate) return 1;
+  return Math.pow(1 + inflationRate / 100, -month / 12);
+}
+
+/**
+ * Every amount in the schedule expressed in today's rupees. The balance is
+ * the outstanding principal's real value at the end of that month.
+ */
+export function toRealAmortization(
+  schedule: AmortizationEntry[],
+  inflationRate: number,
+): AmortizationEntry[] {
+  return schedule.map((entry) => {
+    const factor = discountFactor(inflationRate, entry.month);
+    return {
+      ...entry,
+      emi: Math.round(entry.emi * factor),
+      principal: Math.round(entry.principal * factor),
+      interest: Math.round(entry.interest * factor),
+      prepayment: Math.round(entry.prepayment * factor),
+      balance: Math.round(entry.balance * factor),
+    };
+  });
+}
+
+/**
+ * Every amount in the schedule expressed in today's rupees. Investment is
+ * the running total of discounted contributions, so returns are real gains.
+ */
+export function toRealSIPGrowth(
+  schedule: SIPGrowthEntry[],
+  inflationRate: number,
+): SIPGrowthEntry[] {
+  let investment = 0;
+  return schedule.map((entry) => {
+    const factor = discountFactor(inflationRate, entry.month);
+    const contribution = entry.contribution * factor;
+    const balance = entry.balance * factor;
+    investment += contribution;
+    return {
+      ...entry,
+      contribution: Math.round(contribution),
+      investment: Math.round(investment),
+      balance: Math.round(balance),
+      returns: Math.round(balance - investment),
+    };
+  });
+}
+
+/**
+ * A scenario's month-by-month schedules, in today's rupees when `basis` is
+ * "real"
+ */
+export function scenarioSchedules(
+  inputs: ScenarioInputs,
+  basis: ValueBasis,
+): { amortization: AmortizationEntry[]; sipGrowth: SIPGrowthEntry[] } {
+  const amortization = generateAmortizationSchedule(inputs.loan);
+  const sipGrowth = generateSIPGrowthSchedule(inputs.sip);
+  if (basis === "nominal") return { amortization, sipGrowth };
+
+  const inflationRate = inputs.inflationRate ?? 0;
+  return {
+    amortization: toRealAmortization(amortization, inflationRate),
+    sipGrowth: toRealSIPGrowth(sipGrowth, inflationRate),
+  };
+}
+
+const sum = <T>(items: T[], value: (item: T) => number) =>
+  items.reduce((total, item) => total + value(item), 0);
+
+/**
+ * The results cards in today's rupees: each payment and contribution is
+ * discounted from the month it happens in, and the SIP corpus from maturity.
+ */
+export function toRealResults(
+  inputs: ScenarioInputs,
+  nominal: CalculationResults,
+  sipBasis: SIPTaxBasis = "pre-tax",
+): CalculationResults {
+  const inflationRate = inputs.inflationRate ?? 0;
+  const loan = toRealAmortization(
+    generateAmortizationSchedule(inputs.loan),
+    inflationRate,
+  );
+  const withoutPrepayment = toRealAmortization(
+    generateAmortizationSchedule({ ...inputs.loan, prepayment: undefined }),
+    inflationRate,
+  );
+  const sip = toRealSIPGrowth(
+    generateSIPGrowthSchedule(inputs.sip),
+    inflationRate,
+  );
+
+  // Tax saved in a loan year arrives with that year's return
+  const taxSaved = inputs.tax
+    ? sum(calculateTaxBenefits(inputs.loan, inputs.tax).years, (y) =>
+        Math.round(y.taxSaved * discountFactor(inflationRate, y.year * 12)),
+      )
+    : 0;
+
+  const totalPayment = sum(loan, (e) => e.emi + e.prepayment);
+  const totalInterest = sum(loan, (e) => e.interest);
+  const sipMaturityValue = sip[sip.length - 1]?.balance ?? 0;
+  const sipTotalInvestment = sip[sip.length - 1]?.investment ?? 0;
+  // The corpus is redeemed, and taxed, at maturity
+  const maturityFactor = discountFactor(inflationRate, sip.length);
+  const sipPostTaxMaturityValue = Math.round(
+    nominal.sipPostTaxMaturityValue * maturityFactor,
+  );
+  const netPosition =
+    (sipBasis === "post-tax" ? sipPostTaxMaturityValue : sipMaturityValue) -
+    totalPayment;
+
+  return {
+    ...nominal,
+    emi: loan[0]?.emi ?? 0,
+    totalPayment,
+    totalInterest,
+    sipMaturityValue,
+    sipTotalInvestment,
+    sipReturns: sipMaturityValue - sipTotalInvestment,
+    netPosition,
+    earlyClosureSavings: Math.max(
+      0,
+      sum(withoutPrepayment, (e) => e.interest) - totalInterest,
+    ),
+    sipPostTaxMaturityValue,
+    sipRedemptionCost: sipMaturityValue - sipPostTaxMaturityValue,
+    taxSaved,
+    postTaxNetPosition: netPosition + taxSaved,
+  };
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateEMI,
+  generateAmortizationSchedule,
+  groupScheduleByYear,
+  summarizeScheduleByYear,
+} from "./loan";
+
+describe("calculateEMI", () => {
+  it("should match published bank EMI tables", () => {
+    expect(calculateEMI(1000000, 10, 10)).toBe(13215);
+    expect(calculateEMI(5000000, 8.5, 20)).toBe(43391);
+    expect(calculateEMI(100000, 12, 1)).toBe(8885);
+    expect(calculateEMI(2500000, 9, 15)).toBe(25357);
+  });
+
+  it("should split the principal evenly at a 0% rate", () => {
+    expect(calculateEMI(1200000, 0, 10)).toBe(10000);
+  });
+
+  it("should return 0 for an empty loan or tenure", () => {
+    expect(calculateEMI(0, 8.5, 20)).toBe(0);
+    expect(calculateEMI(1000000, 8.5, 0)).toBe(0);
+  });
+});
+
+describe("generateAmortizationSchedule", () => {
+  const loan = { loanAmount: 1000000, interestRate: 10, tenure: 10 };
+
+  it("should produce one entry per month and close at a zero balance", () => {
+    const schedule = generateAmortizationSchedule(loan);
+    expect(schedule).toHaveLength(120);
+    expect(schedule[schedule.length - 1].balance).toBe(0);
+  });
+
+  it("should split the first EMI into interest and principal", () => {
+    const [first] = generateAmortizationSchedule(loan);
+    expect(first.interest).toBe(8333);
+    expect(first.principal).toBe(4882);
+    expect(first.balance).toBe(995118);
+  });
+
+  it("should repay exactly the principal", () => {
+    const schedule = generateAmortizationSchedule(loan);
+    const principal = schedule.reduce((sum, e) => sum + e.principal, 0);
+    expect(Math.abs(principal - loan.loanAmount)).toBeLessThanOrEqual(120);
+  });
+
+  it("should handle a 0% rate without dividing by zero", () => {
+    const schedule = generateAmortizationSchedule({
+      loanAmount: 120000,
+      interestRate: 0,
+      tenure: 1,
+    });
+    expect(schedule).toHaveLength(12);
+    expect(schedule.every((e) => e.interest === 0)).toBe(true);
+    expect(schedule[11].balance).toBe(0);
+  });
+});
+
+describe("summarizeScheduleByYear", () => {
+  const schedule = generateAmortizationSchedule({
+    loanAmount: 5000000,
+    interestRate: 8.5,
+    tenure: 20,
+  });
+
+  it("should report the amortized balance, not a straight-line decline", () => {
+    const [first] = summarizeScheduleByYear(schedule);
+    expect(first.balance).toBe(schedule[11].balance);
+    // A straight line would have repaid 5% of the principal after a year
+    expect(first.balance).toBeGreaterThan(5000000 * 0.95);
+  });
+
+  it("should accumulate interest and principal year on year", () => {
+    const summary = summarizeScheduleByYear(schedule);
+    expect(summary).toHaveLength(20);
+    const last = summary[19];
+    expect(last.balance).toBe(0);
+    expect(Math.abs(last.cumulativePrincipal - 5000000)).toBeLessThanOrEqual(
+      240,
+    );
+    expect(last.cumulativeInterest).toBe(
+      schedule.reduce((sum, e) => sum + e.interest, 0),
+    );
+  });
+
+  it("should pad years after the loan closes with a zero balance", () => {
+    const summary = summarizeScheduleByYear(schedule, 25);
+    expect(summary).toHaveLength(25);
+    expect(summary[24].balance).toBe(0);
+    expect(summary[24].cumulativeInterest).toBe(summary[19].cumulativeInterest);
+  });
+});
+
+describe("groupScheduleByYear", () => {
+  it("should total each year's payments and keep the year-end balance", () => {
+    const schedule = generateAmortizationSchedule({
+      loanAmount: 1000000,
+      interestRate: 10,
+      tenure: 10,
+      prepayment: {
+        strategy: "reduce-tenure",
+        events: [{ kind: "lump-sum", month: 18, amount: 100000 }],
+      },
+    });
+    const years = groupScheduleByYear(schedule);
+    expect(years).toHaveLength(Math.ceil(schedule.length / 12));
+
+    const second = years[1];
+    const months = schedule.slice(12, 24);
+    expect(second.year).toBe(2);
+    expect(second.interest).toBe(months.reduce((t, e) => t + e.interest, 0));
+    expect(second.prepayment).toBe(100000);
+    expect(second.balance).toBe(months[11].balance);
+    expect(years[years.length - 1].balance).toBe(0);
+  });
+
+  it("should flag years with a rate reset", () => {
+    const years = groupScheduleByYear(
+      generateAmortizationSchedule({
+        loanAmount: 1000000,
+        interestRate: 9,
+        tenure: 5,
+        floatingRate: {
+          mode: "keep-tenure",
+          source: "manual",
+          changes: [{ month: 30, rate: 10 }],
+        },
+      }),
+    );
+    expect(years.map((y) => y.rateReset)).toEqual([
+      false,
+      false,
+      true,
+      false,
+      false,
+    ]);
+    expect(years[2].rate).toBe(10);
+  });
+});
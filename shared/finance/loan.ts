@@ -0,0 +1,189 @@
+import { monthsToRepay, resolveRateChanges } from "./floating-rate";
+import { prepaymentForMonth } from "./prepayment";
+import type {
+  AmortizationEntry,
+  AmortizationYear,
+  LoanData,
+  LoanTotals,
+  YearlyLoanSummary,
+} from "./types";
+
+/**
+ * Monthly EMI for a reducing-balance loan, rounded to the rupee.
+ * A 0% rate spreads the principal evenly across the tenure.
+ */
+export function calculateEMI(
+  principal: number,
+  rate: number,
+  tenure: number,
+): number {
+  return emiForMonths(principal, rate, Math.round(tenure * 12));
+}
+
+function emiForMonths(principal: number, rate: number, months: number) {
+  const monthlyRate = rate / 100 / 12;
+  if (principal <= 0 || months <= 0) return 0;
+  if (monthlyRate === 0) return Math.round(principal / months);
+
+  const growth = Math.pow(1 + monthlyRate, months);
+  const emi = (principal * monthlyRate * growth) / (growth - 1);
+  return Math.round(emi);
+}
+
+/** Hard stop for schedules stretched by rate rises: 50 years */
+const MAX_MONTHS = 600;
+
+/**
+ * Month-by-month split of each EMI into principal and interest.
+ *
+ * Floating-rate resets from `loan.floatingRate` apply at the start of their
+ * month; part-payments from `loan.prepayment` apply after that month's EMI.
+ * Either may move the closing month or the EMI, depending on the plan. The
+ * final instalment absorbs the rounding residue so the loan closes at 0.
+ */
+export function generateAmortizationSchedule(
+  loan: LoanData,
+): AmortizationEntry[] {
+  const schedule: AmortizationEntry[] = [];
+  const totalMonths = Math.round(loan.tenure * 12);
+  const strategy = loan.prepayment?.strategy ?? "reduce-tenure";
+  const resetMode = loan.floatingRate?.mode ?? "keep-tenure";
+  const rateChanges = resolveRateChanges(
+    loan.floatingRate,
+    loan.interestRate,
+    totalMonths,
+  );
+  let rate = loan.interestRate;
+  let emi = calculateEMI(loan.loanAmount, loan.interestRate, loan.tenure);
+  let balance = loan.loanAmount;
+  // The month the loan is currently due to close in
+  let endMonth = totalMonths;
+
+  for (let month = 1; month <= endMonth && balance > 0; month++) {
+    const change = rateChanges.find((c) => c.month === month);
+    const rateReset = !!change && change.rate !== rate;
+    if (rateReset) {
+      rate = change.rate;
+      const stretchedEnd = month - 1 + monthsToRepay(balance, rate, emi);
+      if (resetMode === "keep-emi" && stretchedEnd <= MAX_MONTHS) {
+        endMonth = stretchedEnd;
+      } else {
+        emi = emiForMonths(balance, rate, endMonth - month + 1);
+      }
+    }
+
+    const interestAmount = (balance * rate) / 100 / 12;
+    const principalAmount =
+      month === endMonth ? balance : Math.min(emi - interestAmount, balance);
+    balance -= principalAmount;
+
+    const prepayment = Math.min(
+      prepaymentForMonth(loan.prepayment, month),
+      balance,
+    );
+    balance -= prepayment;
+    if (prepayment > 0 && balance > 0) {
+      if (strategy === "reduce-emi") {
+        emi = emiForMonths(balance, rate, endMonth - month);
+      } else {
+        endMonth = month + monthsToRepay(balance, rate, emi);
+      }
+    }
+
+    schedule.push({
+      month,
+      emi: Math.round(principalAmount + interestAmount),
+      principal: Math.round(principalAmount),
+      interest: Math.round(interestAmount),
+      prepayment: Math.round(prepayment),
+      balance: Math.round(Math.max(0, balance)),
+      rate,
+      rateReset,
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Totals for a loan, following its schedule so prepayments are accounted for
+ */
+export function calculateLoanTotals(loan: LoanData): LoanTotals {
+  const schedule = generateAmortizationSchedule(loan);
+  let totalPrepayment = 0;
+  let totalPayment = 0;
+  for (const entry of schedule) {
+    totalPrepayment += entry.prepayment;
+    totalPayment += entry.emi + entry.prepayment;
+  }
+
+  return {
+    emi: calculateEMI(loan.loanAmount, loan.interestRate, loan.tenure),
+    totalPayment,
+    totalInterest: Math.max(0, totalPayment - loan.loanAmount),
+    totalPrepayment,
+    months: schedule.length,
+  };
+}
+
+/**
+ * Collapse a monthly schedule into year-end balances and running totals.
+ * Years after the loan closes are reported with a zero balance.
+ */
+export function summarizeScheduleByYear(
+  schedule: AmortizationEntry[],
+  years = Math.ceil(schedule.length / 12),
+): YearlyLoanSummary[] {
+  const summary: YearlyLoanSummary[] = [];
+  let cumulativeInterest = 0;
+  let cumulativePrincipal = 0;
+  let balance = 0;
+
+  for (let year = 1; year <= years; year++) {
+    const yearEntries = schedule.slice((year - 1) * 12, year * 12);
+    for (const entry of yearEntries) {
+      cumulativeInterest += entry.interest;
+      cumulativePrincipal += entry.principal + entry.prepayment;
+      balance = entry.balance;
+    }
+    if (yearEntries.length === 0) balance = 0;
+
+    summary.push({ year, balance, cumulativeInterest, cumulativePrincipal });
+  }
+
+  return summary;
+}
+
+/**
+ * Roll a monthly schedule up into calendar years of the loan
+ */
+export function groupScheduleByYear(
+  schedule: AmortizationEntry[],
+): AmortizationYear[] {
+  const years: AmortizationYear[] = [];
+  for (const entry of schedule) {
+    const year = Math.ceil(entry.month / 12);
+    let current = years[years.length - 1];
+    if (!current || current.year !== year) {
+      current = {
+        year,
+        emi: 0,
+        principal: 0,
+        interest: 0,
+        prepayment: 0,
+        balance: 0,
+        rate: entry.rate,
+        rateReset: false,
+      };
+      years.push(current);
+    }
+    current.emi += entry.emi;
+    current.principal += entry.principal;
+    current.interest += entry.interest;
+    current.prepayment += entry.prepayment;
+    current.balance = entry.balance;
+    current.rate = entry.rate;
+    current.rateReset ||= entry.rateReset;
+  }
+  return years;
+}
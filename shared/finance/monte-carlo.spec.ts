@@ -0,0 +1,108 @@
+import { describe, it, expect } from "vitest";
+import history from "../data/nifty50-annual-returns.json";
+import { createRandom, simulateSIP } from "./monte-carlo";
+import { calculateSIPTotals } from "./sip";
+import type { ReturnSeries, SIPData } from "./types";
+
+const sip: SIPData = { sipAmount: 10000, sipReturnRate: 12, sipTenure: 10 };
+
+describe("simulateSIP", () => {
+  it("should collapse to the deterministic schedule at zero volatility", () => {
+    const result = simulateSIP(sip, {
+      model: { kind: "volatility", volatility: 0 },
+      paths: 10,
+    });
+    const { maturityValue } = calculateSIPTotals(sip);
+    expect(result.maturity.p10).toBe(result.maturity.p90);
+    expect(Math.abs(result.maturity.p50 - maturityValue)).toBeLessThan(2);
+    expect(result.years).toHaveLength(10);
+  });
+
+  it("should spread the bands around the expected corpus", () => {
+    const result = simulateSIP(sip, {
+      model: { kind: "volatility", volatility: 18 },
+      paths: 4000,
+    });
+    const { maturityValue } = calculateSIPTotals(sip);
+    const { p10, p50, p90 } = result.maturity;
+
+    expect(p10).toBeLessThan(p50);
+    expect(p50).toBeLessThan(p90);
+    // Lognormal: the median sits a little under the mean
+    expect(p50).toBeLessThan(maturityValue);
+    expect(p50).toBeGreaterThan(maturityValue * 0.85);
+    result.years.forEach((year, index) => {
+      if (index > 0)
+        expect(year.p50).toBeGreaterThan(result.years[index - 1].p50);
+    });
+  });
+
+  it("should repeat a run with the same seed", () => {
+    const options = {
+      model: { kind: "volatility" as const, volatility: 15 },
+      paths: 200,
+      seed: 42,
+    };
+    expect(simulateSIP(sip, options)).toEqual(simulateSIP(sip, options));
+    expect(simulateSIP(sip, { ...options, seed: 7 })).not.toEqual(
+      simulateSIP(sip, options),
+    );
+  });
+
+  it("should report the chance of beating a target", () => {
+    const model = { kind: "volatility" as const, volatility: 15 };
+    const { maturity } = simulateSIP(sip, { model, paths: 2000 });
+    const low = simulateSIP(sip, { model, paths: 2000, target: maturity.p10 });
+    const high = simulateSIP(sip, { model, paths: 2000, target: maturity.p90 });
+
+    expect(low.probabilityAboveTarget).toBeCloseTo(0.9, 2);
+    expect(high.probabilityAboveTarget).toBeCloseTo(0.1, 2);
+    expect(
+      simulateSIP(sip, { model, paths: 10 }).probabilityAboveTarget,
+    ).toBeNull();
+  });
+
+  it("should bootstrap from the bundled index history", () => {
+    const series = history as ReturnSeries;
+    const result = simulateSIP(sip, {
+      model: { kind: "historical", series },
+      paths: 2000,
+    });
+    expect(result.maturity.p10).toBeLessThan(result.maturity.p90);
+    // Never worse than every year repeating the worst calendar year
+    const worst = Math.min(...series.returns);
+    const floor = simulateSIP(sip, {
+      model: {
+        kind: "historical",
+        series: { ...series, returns: [worst] },
+      },
+      paths: 1,
+    });
+    expect(result.maturity.p10).toBeGreaterThan(floor.maturity.p50);
+  });
+
+  it("should discount the bands in real terms", () => {
+    const model = { kind: "volatility" as const, volatility: 0 };
+    const nominal = simulateSIP(sip, { model, paths: 1 });
+    const real = simulateSIP(sip, {
+      model,
+      paths: 1,
+      basis: "real",
+      inflationRate: 6,
+    });
+    expect(real.maturity.p50).toBe(
+      Math.round(nominal.maturity.p50 * Math.pow(1.06, -10)),
+    );
+  });
+});
+
+describe("createRandom", () => {
+  it("should stay within [0, 1)", () => {
+    const random = createRandom(3);
+    for (let i = 0; i < 1000; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
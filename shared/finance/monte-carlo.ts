@@ -0,0 +1,135 @@
+import { discountFactor } from "./inflation";
+import { sipContributionForMonth } from "./sip";
+import type {
+  MonteCarloOptions,
+  MonteCarloResult,
+  PercentileBand,
+  ReturnModel,
+  SIPData,
+} from "./types";
+
+export const MAX_SIMULATION_PATHS = 20000;
+
+/**
+ * Small, fast seeded generator (mulberry32) returning numbers in [0, 1)
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal draw (Box-Muller) */
+const normal = (random: () => number) =>
+  Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+
+/**
+ * A function giving the growth factor for each month of one path. Historical
+ * annual returns are drawn once per year and spread evenly over its months.
+ */
+function monthlyGrowth(
+  model: ReturnModel,
+  expectedReturn: number,
+  random: () => number,
+): (month: number) => number {
+  if (model.kind === "volatility") {
+    // Lognormal with the same mean monthly return as the deterministic SIP
+    const sigma = model.volatility / 100 / Math.sqrt(12);
+    const mu = Math.log(1 + expectedReturn / 100 / 12) - (sigma * sigma) / 2;
+    return () => Math.exp(mu + sigma * normal(random));
+  }
+
+  const { returns, frequency } = model.series;
+  const draw = () => returns[Math.floor(random() * returns.length)] / 100;
+  if (frequency === "monthly") return () => 1 + draw();
+
+  let yearGrowth = 1;
+  return (month) => {
+    if ((month - 1) % 12 === 0) yearGrowth = Math.pow(1 + draw(), 1 / 12);
+    return yearGrowth;
+  };
+}
+
+/** Value at the given fraction of an ascending list, interpolated */
+function percentile(sorted: Float64Array, fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+const band = (values: Float64Array): PercentileBand => {
+  const sorted = values.slice().sort();
+  return {
+    p10: Math.round(percentile(sorted, 0.1)),
+    p50: Math.round(percentile(sorted, 0.5)),
+    p90: Math.round(percentile(sorted, 0.9)),
+  };
+};
+
+/**
+ * Run the SIP (with its step-ups) along many random return paths and report
+ * the 10th, 50th and 90th percentile corpus at every year-end and at
+ * maturity. Contributions go in at the start of each month, as in the
+ * deterministic schedule. Capital-gains tax is not applied.
+ */
+export function simulateSIP(
+  sip: SIPData,
+  {
+    model,
+    paths,
+    seed = 1,
+    basis = "nominal",
+    inflationRate = 0,
+    target,
+  }: MonteCarloOptions,
+): MonteCarloResult {
+  const totalMonths = Math.round(sip.sipTenure * 12);
+  const pathCount = Math.min(
+    MAX_SIMULATION_PATHS,
+    Math.max(1, Math.round(paths)),
+  );
+  const yearCount = Math.ceil(totalMonths / 12);
+  const random = createRandom(seed);
+
+  const contributions = Array.from({ length: totalMonths }, (_, i) =>
+    sipContributionForMonth(sip, i + 1),
+  );
+  const factor = (month: number) =>
+    basis === "real" ? discountFactor(inflationRate, month) : 1;
+
+  // Corpus of every path at each year-end; the last year may be partial
+  const atYearEnd = Array.from(
+    { length: yearCount },
+    () => new Float64Array(pathCount),
+  );
+  for (let path = 0; path < pathCount; path++) {
+    const growth = monthlyGrowth(model, sip.sipReturnRate, random);
+    let balance = 0;
+    for (let month = 1; month <= totalMonths; month++) {
+      balance = (balance + contributions[month - 1]) * growth(month);
+      if (month % 12 === 0 || month === totalMonths) {
+        atYearEnd[Math.ceil(month / 12) - 1][path] = balance * factor(month);
+      }
+    }
+  }
+
+  const final = atYearEnd[yearCount - 1] ?? new Float64Array(pathCount);
+  let above = 0;
+  if (target !== undefined) final.forEach((value) => value > target && above++);
+
+  return {
+    paths: pathCount,
+    years: atYearEnd.map((values, index) => ({
+      year: index + 1,
+      ...band(values),
+    })),
+    maturity: band(final),
+    probabilityAboveTarget: target === undefined ? null : above / pathCount,
+  };
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { generateAmortizationSchedule } from "./loan";
+import { prepaymentForMonth } from "./prepayment";
+import { calculateResults } from "./results";
+import type { LoanData } from "./types";
+
+const loan: LoanData = { loanAmount: 5000000, interestRate: 8.5, tenure: 20 };
+const sip = { sipAmount: 25000, sipReturnRate: 12, sipTenure: 20 };
+
+describe("prepaymentForMonth", () => {
+  it("should schedule annual prepayments every 12 months within range", () => {
+    const plan = {
+      strategy: "reduce-tenure" as const,
+      events: [
+        {
+          kind: "annual" as const,
+          startMonth: 12,
+          endMonth: 36,
+          amount: 100000,
+        },
+        { kind: "lump-sum" as const, month: 24, amount: 50000 },
+      ],
+    };
+    expect(prepaymentForMonth(plan, 12)).toBe(100000);
+    expect(prepaymentForMonth(plan, 13)).toBe(0);
+    expect(prepaymentForMonth(plan, 24)).toBe(150000);
+    expect(prepaymentForMonth(plan, 48)).toBe(0);
+  });
+});
+
+describe("prepayments in the amortization schedule", () => {
+  it("should keep the EMI and shorten the tenure by default", () => {
+    const schedule = generateAmortizationSchedule({
+      ...loan,
+      prepayment: {
+        strategy: "reduce-tenure",
+        events: [{ kind: "lump-sum", month: 12, amount: 1000000 }],
+      },
+    });
+    expect(schedule[12].emi).toBe(schedule[0].emi);
+    expect(schedule[11].prepayment).toBe(1000000);
+    expect(schedule.length).toBeLessThan(240);
+    expect(schedule[schedule.length - 1].balance).toBe(0);
+  });
+
+  it("should lower the EMI and keep the tenure when asked", () => {
+    const schedule = generateAmortizationSchedule({
+      ...loan,
+      prepayment: {
+        strategy: "reduce-emi",
+        events: [{ kind: "lump-sum", month: 12, amount: 1000000 }],
+      },
+    });
+    expect(schedule).toHaveLength(240);
+    expect(schedule[12].emi).toBeLessThan(schedule[0].emi);
+    expect(schedule[239].balance).toBe(0);
+  });
+
+  it("should never prepay more than the outstanding balance", () => {
+    const schedule = generateAmortizationSchedule({
+      ...loan,
+      prepayment: {
+        strategy: "reduce-tenure",
+        events: [{ kind: "lump-sum", month: 6, amount: 99999999 }],
+      },
+    });
+    expect(schedule).toHaveLength(6);
+    expect(schedule[5].balance).toBe(0);
+    expect(schedule[5].prepayment).toBeLessThan(5000000);
+  });
+});
+
+describe("early closure savings", () => {
+  it("should be zero without a prepayment plan", () => {
+    const results = calculateResults({ loan, sip });
+    expect(results.earlyClosureSavings).toBe(0);
+    expect(results.monthsSaved).toBe(0);
+  });
+
+  it("should report the interest saved and months cut", () => {
+    const base = calculateResults({ loan, sip });
+    const prepaid = calculateResults({
+      loan: {
+        ...loan,
+        prepayment: {
+          strategy: "reduce-tenure",
+          events: [{ kind: "annual", startMonth: 12, amount: 100000 }],
+        },
+      },
+      sip,
+    });
+    expect(prepaid.monthsSaved).toBeGreaterThan(0);
+    expect(prepaid.earlyClosureSavings).toBe(
+      base.totalInterest - prepaid.totalInterest,
+    );
+  });
+});
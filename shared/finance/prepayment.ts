@@ -0,0 +1,30 @@
+import type { PrepaymentEvent, PrepaymentPlan } from "./types";
+
+const paymentInMonth = (event: PrepaymentEvent, month: number): number => {
+  if (event.amount <= 0) return 0;
+  if (event.kind === "lump-sum") {
+    return event.month === month ? event.amount : 0;
+  }
+
+  const { startMonth, endMonth = Infinity } = event;
+  if (month < startMonth || month > endMonth) return 0;
+  return (month - startMonth) % 12 === 0 ? event.amount : 0;
+};
+
+/**
+ * Total part-payment scheduled for a month across every event in the plan
+ */
+export function prepaymentForMonth(
+  plan: PrepaymentPlan | undefined,
+  month: number,
+): number {
+  if (!plan) return 0;
+  return plan.events.reduce(
+    (sum, event) => sum + paymentInMonth(event, month),
+    0,
+  );
+}
+
+export function hasPrepayments(plan: PrepaymentPlan | undefined): boolean {
+  return !!plan && plan.events.some((event) => event.amount > 0);
+}
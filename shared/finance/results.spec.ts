@@ -0,0 +1,30 @@
+import { describe, it, expect } from "vitest";
+import { calculateResults } from "./results";
+
+describe("calculateResults", () => {
+  it("should combine loan and SIP figures into a net position", () => {
+    const results = calculateResults({
+      loan: { loanAmount: 1000000, interestRate: 10, tenure: 10 },
+      sip: { sipAmount: 10000, sipReturnRate: 12, sipTenure: 10 },
+    });
+
+    expect(results.emi).toBe(13215);
+    // The last EMI absorbs the rounding residue of the rupee-rounded EMI
+    expect(results.totalPayment).toBe(1585815);
+    expect(results.totalInterest).toBe(585815);
+    expect(results.sipTotalInvestment).toBe(1200000);
+    expect(results.sipReturns).toBe(results.sipMaturityValue - 1200000);
+    expect(results.netPosition).toBe(
+      results.sipMaturityValue - results.totalPayment,
+    );
+  });
+
+  it("should not report negative interest for a 0% loan", () => {
+    const results = calculateResults({
+      loan: { loanAmount: 1200000, interestRate: 0, tenure: 10 },
+      sip: { sipAmount: 5000, sipReturnRate: 0, sipTenure: 10 },
+    });
+    expect(results.totalInterest).toBe(0);
+    expect(results.sipReturns).toBe(0);
+  });
+});
@@ -0,0 +1,75 @@
+import { calculateSIPRedemption } from "./capital-gains";
+import { toRealResults } from "./inflation";
+import { calculateLoanTotals, generateAmortizationSchedule } from "./loan";
+import { calculateSIPTotals } from "./sip";
+import { calculateTaxBenefits, effectiveLoanRate } from "./tax";
+import type {
+  CalculationResults,
+  ScenarioInputs,
+  SIPTaxBasis,
+  ValueBasis,
+} from "./types";
+
+/**
+ * Headline figures shown in the results cards for one scenario, either as
+ * paid (nominal) or in today's rupees using the scenario's inflation rate.
+ * `sipBasis` picks whether the net position counts the SIP corpus before or
+ * after capital-gains tax and exit load.
+ */
+export function calculateResults(
+  inputs: ScenarioInputs,
+  basis: ValueBasis = "nominal",
+  sipBasis: SIPTaxBasis = "pre-tax",
+): CalculationResults {
+  const { loan, sip } = inputs;
+  const { emi, totalPayment, totalInterest, months } =
+    calculateLoanTotals(loan);
+  const withoutPrepayment = calculateLoanTotals({
+    ...loan,
+    prepayment: undefined,
+  });
+
+  const {
+    maturityValue: sipMaturityValue,
+    totalInvestment: sipTotalInvestment,
+    returns: sipReturns,
+  } = calculateSIPTotals(sip);
+
+  const redemption = inputs.sip.capitalGains
+    ? calculateSIPRedemption(sip)
+    : null;
+  const sipPostTaxMaturityValue = redemption?.netValue ?? sipMaturityValue;
+  const netPosition =
+    (sipBasis === "post-tax" ? sipPostTaxMaturityValue : sipMaturityValue) -
+    totalPayment;
+  const earlyClosureSavings = Math.max(
+    0,
+    withoutPrepayment.totalInterest - totalInterest,
+  );
+  const monthsSaved = withoutPrepayment.months - months;
+
+  const schedule = generateAmortizationSchedule(loan);
+  const tax = inputs.tax
+    ? calculateTaxBenefits(loan, inputs.tax, schedule)
+    : null;
+  const taxSaved = tax?.totalTaxSaved ?? 0;
+
+  const nominal: CalculationResults = {
+    emi,
+    totalInterest,
+    totalPayment,
+    sipMaturityValue,
+    sipTotalInvestment,
+    sipReturns,
+    netPosition,
+    earlyClosureSavings,
+    monthsSaved,
+    sipPostTaxMaturityValue,
+    sipRedemptionCost: sipMaturityValue - sipPostTaxMaturityValue,
+    taxSaved,
+    postTaxEffectiveRate:
+      tax?.postTaxEffectiveRate ?? effectiveLoanRate(loan.loanAmount, schedule),
+    postTaxNetPosition: netPosition + taxSaved,
+  };
+  return basis === "real" ? toRealResults(inputs, nominal, sipBasis) : nominal;
+}
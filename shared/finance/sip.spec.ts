@@ -0,0 +1,93 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateSIPMaturity,
+  calculateSIPTotals,
+  generateSIPGrowthSchedule,
+  groupSIPGrowthByYear,
+  sipContributionForMonth,
+} from "./sip";
+
+describe("calculateSIPMaturity", () => {
+  it("should compound monthly contributions made at the start of the month", () => {
+    expect(calculateSIPMaturity(10000, 12, 10)).toBe(2323391);
+    expect(calculateSIPMaturity(25000, 12, 20)).toBe(24978698);
+  });
+
+  it("should return the amount invested at a 0% return", () => {
+    expect(calculateSIPMaturity(10000, 0, 5)).toBe(600000);
+  });
+});
+
+describe("generateSIPGrowthSchedule", () => {
+  const sip = { sipAmount: 10000, sipReturnRate: 12, sipTenure: 10 };
+
+  it("should end at the closed-form maturity value", () => {
+    const schedule = generateSIPGrowthSchedule(sip);
+    expect(schedule).toHaveLength(120);
+    expect(schedule[119].balance).toBe(calculateSIPMaturity(10000, 12, 10));
+    expect(schedule[119].investment).toBe(1200000);
+  });
+
+  it("should report returns as balance minus investment", () => {
+    const schedule = generateSIPGrowthSchedule(sip);
+    for (const entry of schedule) {
+      expect(
+        Math.abs(entry.returns - (entry.balance - entry.investment)),
+      ).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe("step-up SIP", () => {
+  const base = { sipAmount: 10000, sipReturnRate: 12, sipTenure: 3 };
+
+  it("should raise the contribution by a percentage every year", () => {
+    const sip = { ...base, stepUp: { kind: "percent" as const, value: 10 } };
+    expect(sipContributionForMonth(sip, 12)).toBe(10000);
+    expect(sipContributionForMonth(sip, 13)).toBe(11000);
+    expect(sipContributionForMonth(sip, 25)).toBe(12100);
+  });
+
+  it("should raise the contribution by a fixed amount every year", () => {
+    const sip = { ...base, stepUp: { kind: "amount" as const, value: 2500 } };
+    expect(sipContributionForMonth(sip, 25)).toBe(15000);
+  });
+
+  it("should stop at the monthly cap", () => {
+    const sip = {
+      ...base,
+      stepUp: { kind: "amount" as const, value: 2500, maxMonthlyAmount: 12000 },
+    };
+    expect(sipContributionForMonth(sip, 13)).toBe(12000);
+    expect(sipContributionForMonth(sip, 25)).toBe(12000);
+  });
+
+  it("should grow the corpus and investment beyond a flat SIP", () => {
+    const flat = calculateSIPTotals(base);
+    const stepped = calculateSIPTotals({
+      ...base,
+      stepUp: { kind: "percent", value: 10 },
+    });
+    expect(flat.maturityValue).toBe(calculateSIPMaturity(10000, 12, 3));
+    expect(stepped.totalInvestment).toBe(12 * (10000 + 11000 + 12100));
+    expect(stepped.maturityValue).toBeGreaterThan(flat.maturityValue);
+    expect(stepped.finalMonthlyAmount).toBe(12100);
+  });
+});
+
+describe("groupSIPGrowthByYear", () => {
+  it("should total contributions and keep year-end values, including a part-year", () => {
+    const schedule = generateSIPGrowthSchedule({
+      sipAmount: 10000,
+      sipReturnRate: 12,
+      sipTenure: 1.5,
+      stepUp: { kind: "percent", value: 10 },
+    });
+    const years = groupSIPGrowthByYear(schedule);
+    expect(years).toHaveLength(2);
+    expect(years[0].contribution).toBe(120000);
+    expect(years[1].contribution).toBe(6 * 11000);
+    expect(years[1].balance).toBe(schedule[17].balance);
+    expect(years[1].investment).toBe(186000);
+  });
+});
@@ -0,0 +1,124 @@
+import type {
+  SIPData,
+  SIPGrowthEntry,
+  SIPGrowthYear,
+  SIPTotals,
+} from "./types";
+
+/**
+ * Maturity value of a monthly SIP, with contributions made at the start of
+ * each month. A 0% return gives back exactly what was invested.
+ */
+export function calculateSIPMaturity(
+  monthlyAmount: number,
+  rate: number,
+  years: number,
+): number {
+  const monthlyRate = rate / 100 / 12;
+  const totalMonths = Math.round(years * 12);
+  if (totalMonths <= 0) return 0;
+  if (monthlyRate === 0) return Math.round(monthlyAmount * totalMonths);
+
+  const maturityValue =
+    monthlyAmount *
+    ((Math.pow(1 + monthlyRate, totalMonths) - 1) / monthlyRate) *
+    (1 + monthlyRate);
+  return Math.round(maturityValue);
+}
+
+/**
+ * Contribution for a given month (1-based), after any annual step-ups
+ */
+export function sipContributionForMonth(sip: SIPData, month: number): number {
+  const { stepUp } = sip;
+  const year = Math.floor((month - 1) / 12);
+  if (!stepUp || stepUp.value <= 0 || year === 0) return sip.sipAmount;
+
+  const stepped =
+    stepUp.kind === "percent"
+      ? sip.sipAmount * Math.pow(1 + stepUp.value / 100, year)
+      : sip.sipAmount + stepUp.value * year;
+  const capped = stepUp.maxMonthlyAmount
+    ? Math.min(stepped, Math.max(stepUp.maxMonthlyAmount, sip.sipAmount))
+    : stepped;
+  return Math.round(capped);
+}
+
+/**
+ * Running corpus, amount invested and gains at the end of every month
+ */
+export function generateSIPGrowthSchedule(sip: SIPData): SIPGrowthEntry[] {
+  const schedule: SIPGrowthEntry[] = [];
+  const monthlyRate = sip.sipReturnRate / 100 / 12;
+  const totalMonths = Math.round(sip.sipTenure * 12);
+  let balance = 0;
+  let totalInvestment = 0;
+
+  for (let month = 1; month <= totalMonths; month++) {
+    const contribution = sipContributionForMonth(sip, month);
+    balance = (balance + contribution) * (1 + monthlyRate);
+    totalInvestment += contribution;
+    const returns = balance - totalInvestment;
+
+    schedule.push({
+      month,
+      contribution,
+      investment: totalInvestment,
+      balance: Math.round(balance),
+      returns: Math.round(returns),
+    });
+  }
+
+  return schedule;
+}
+
+/**
+ * Maturity figures for a SIP, following its schedule so step-ups count
+ */
+export function calculateSIPTotals(sip: SIPData): SIPTotals {
+  const schedule = generateSIPGrowthSchedule(sip);
+  const last = schedule[schedule.length - 1];
+  if (!last) {
+    return {
+      maturityValue: 0,
+      totalInvestment: 0,
+      returns: 0,
+      finalMonthlyAmount: sip.sipAmount,
+    };
+  }
+
+  return {
+    maturityValue: last.balance,
+    totalInvestment: last.investment,
+    returns: last.balance - last.investment,
+    finalMonthlyAmount: last.contribution,
+  };
+}
+
+/**
+ * Roll a monthly SIP schedule up into years
+ */
+export function groupSIPGrowthByYear(
+  schedule: SIPGrowthEntry[],
+): SIPGrowthYear[] {
+  const years: SIPGrowthYear[] = [];
+  for (const entry of schedule) {
+    const year = Math.ceil(entry.month / 12);
+    let current = years[years.length - 1];
+    if (!current || current.year !== year) {
+      current = {
+        year,
+        contribution: 0,
+        investment: 0,
+        balance: 0,
+        returns: 0,
+      };
+      years.push(current);
+    }
+    current.contribution += entry.contribution;
+    current.investment = entry.investment;
+    current.balance = entry.balance;
+    current.returns = entry.returns;
+  }
+  return years;
+}
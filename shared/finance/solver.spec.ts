@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import { calculateResults } from "./results";
+import { goalValue, solveGoal } from "./solver";
+import type { ScenarioInputs } from "./types";
+
+const inputs: ScenarioInputs = {
+  loan: { loanAmount: 1000000, interestRate: 10, tenure: 10 },
+  sip: { sipAmount: 10000, sipReturnRate: 12, sipTenure: 10 },
+};
+
+describe("solveGoal", () => {
+  it("should find the largest loan an EMI supports", () => {
+    const result = solveGoal(
+      inputs,
+      { metric: "emi", target: 13215 },
+      "loanAmount",
+    );
+    expect(result.status).toBe("solved");
+    expect(result.achieved).toBe(13215);
+    expect(Math.abs(result.value - 1000000)).toBeLessThan(100);
+    expect(result.inputs.loan.loanAmount).toBe(result.value);
+  });
+
+  it("should solve for the rate and tenure behind an EMI", () => {
+    const rate = solveGoal(
+      inputs,
+      { metric: "emi", target: 13215 },
+      "interestRate",
+    );
+    expect(rate.value).toBe(10);
+
+    const tenure = solveGoal(
+      inputs,
+      { metric: "emi", target: 13215 },
+      "tenure",
+    );
+    // Whole months only
+    expect(tenure.value * 12).toBe(120);
+  });
+
+  it("should find the SIP behind a maturity value", () => {
+    const target = calculateResults({
+      ...inputs,
+      sip: { ...inputs.sip, sipAmount: 25000 },
+    }).sipMaturityValue;
+    const result = solveGoal(
+      inputs,
+      { metric: "sipMaturityValue", target },
+      "sipAmount",
+    );
+    expect(result.value).toBe(25000);
+    expect(result.achieved).toBe(target);
+  });
+
+  it("should size a SIP to cover the loan's interest by a given year", () => {
+    const { totalInterest } = calculateResults(inputs);
+    const goal = {
+      metric: "corpusAtYear" as const,
+      year: 5,
+      target: totalInterest,
+    };
+    const result = solveGoal(inputs, goal, "sipAmount");
+
+    expect(result.status).toBe("solved");
+    // One rupee a month less would fall short
+    expect(
+      goalValue(
+        { ...inputs, sip: { ...inputs.sip, sipAmount: result.value - 1 } },
+        goal,
+      ),
+    ).toBeLessThan(totalInterest);
+    expect(Math.abs(result.achieved - totalInterest)).toBeLessThan(100);
+  });
+
+  it("should return the closest value when the target is out of reach", () => {
+    const result = solveGoal(
+      inputs,
+      { metric: "netPosition", target: 1e9 },
+      "sipAmount",
+      { ranges: { sipAmount: { min: 0, max: 50000, step: 100 } } },
+    );
+    expect(result.status).toBe("unreachable");
+    expect(result.value).toBe(50000);
+  });
+});
@@ -0,0 +1,154 @@
+import { scenarioSchedules } from "./inflation";
+import { calculateResults } from "./results";
+import type {
+  ScenarioInputs,
+  SIPTaxBasis,
+  SolverGoal,
+  SolverResult,
+  SolverVariable,
+  ValueBasis,
+} from "./types";
+
+export interface SolverRange {
+  min: number;
+  max: number;
+  /** Resolution of the answer, e.g. one month for tenures */
+  step: number;
+}
+
+/**
+ * Where the solver looks for each variable, and how finely it rounds
+ */
+export const SOLVER_RANGES: Record<SolverVariable, SolverRange> = {
+  sipAmount: { min: 0, max: 1e7, step: 1 },
+  sipTenure: { min: 1 / 12, max: 50, step: 1 / 12 },
+  loanAmount: { min: 1000, max: 1e9, step: 1 },
+  tenure: { min: 1 / 12, max: 50, step: 1 / 12 },
+  interestRate: { min: 0, max: 50, step: 0.01 },
+};
+
+export interface SolverOptions {
+  basis?: ValueBasis;
+  sipBasis?: SIPTaxBasis;
+  /** Narrower search ranges, e.g. the UI slider limits */
+  ranges?: Partial<Record<SolverVariable, SolverRange>>;
+}
+
+/** Points sampled across the range to find a bracket around the answer */
+const SCAN_POINTS = 64;
+const MAX_BISECTIONS = 100;
+
+/**
+ * The inputs with one variable replaced
+ */
+export function withVariable(
+  inputs: ScenarioInputs,
+  variable: SolverVariable,
+  value: number,
+): ScenarioInputs {
+  switch (variable) {
+    case "sipAmount":
+    case "sipTenure":
+      return { ...inputs, sip: { ...inputs.sip, [variable]: value } };
+    case "loanAmount":
+    case "tenure":
+    case "interestRate":
+      return { ...inputs, loan: { ...inputs.loan, [variable]: value } };
+  }
+}
+
+/**
+ * The figure a goal is measured on. The corpus at a year after the SIP ends
+ * is the final corpus.
+ */
+export function goalValue(
+  inputs: ScenarioInputs,
+  goal: SolverGoal,
+  { basis = "nominal", sipBasis = "pre-tax" }: SolverOptions = {},
+): number {
+  if (goal.metric === "corpusAtYear") {
+    const { sipGrowth } = scenarioSchedules(inputs, basis);
+    const month = Math.min(Math.round(goal.year * 12), sipGrowth.length);
+    return sipGrowth[month - 1]?.balance ?? 0;
+  }
+  return calculateResults(inputs, basis, sipBasis)[goal.metric];
+}
+
+const roundTo = (value: number, step: number) =>
+  Math.round(Math.round(value / step) * step * 1e6) / 1e6;
+
+/**
+ * Find the value of `variable` that makes the goal's figure hit its target,
+ * holding every other input fixed. The range is scanned for the first sign
+ * change and the bracket narrowed by bisection, so it copes with the step
+ * changes whole-month tenures and rupee rounding cause. When no value in the
+ * range reaches the target, the closest one is returned as "unreachable".
+ */
+export function solveGoal(
+  inputs: ScenarioInputs,
+  goal: SolverGoal,
+  variable: SolverVariable,
+  options: SolverOptions = {},
+): SolverResult {
+  const { min, max, step } = {
+    ...SOLVER_RANGES[variable],
+    ...options.ranges?.[variable],
+  };
+  const gap = (value: number) =>
+    goalValue(withVariable(inputs, variable, value), goal, options) -
+    goal.target;
+  const result = (status: SolverResult["status"], value: number) => {
+    const solved = withVariable(inputs, variable, value);
+    return {
+      status,
+      value,
+      achieved: goalValue(solved, goal, options),
+      inputs: solved,
+    };
+  };
+
+  let closest = min;
+  let closestGap = Infinity;
+  let previous = min;
+  let previousGap = gap(min);
+  let bracket: [number, number] | null = previousGap === 0 ? [min, min] : null;
+
+  for (let i = 1; i <= SCAN_POINTS && !bracket; i++) {
+    const value = min + ((max - min) * i) / SCAN_POINTS;
+    const valueGap = gap(value);
+    if (Math.abs(previousGap) < closestGap) {
+      closest = previous;
+      closestGap = Math.abs(previousGap);
+    }
+    if (Math.sign(valueGap) !== Math.sign(previousGap)) {
+      bracket = [previous, value];
+    }
+    previous = value;
+    previousGap = valueGap;
+  }
+
+  if (!bracket) {
+    if (Math.abs(previousGap) < closestGap) closest = previous;
+    return result("unreachable", roundTo(closest, step));
+  }
+
+  let [low, high] = bracket;
+  const lowSign = Math.sign(gap(low));
+  for (let i = 0; i < MAX_BISECTIONS && high - low > step / 4; i++) {
+    const middle = (low + high) / 2;
+    if (Math.sign(gap(middle)) === lowSign) low = middle;
+    else high = middle;
+  }
+
+  // Settle on whichever neighbouring step lands nearest the target
+  const candidates = [low, high]
+    .flatMap((value) => [
+      Math.floor(value / step) * step,
+      Math.ceil(value / step) * step,
+    ])
+    .map((value) => Math.min(max, Math.max(min, roundTo(value, step))));
+  const best = candidates.reduce((a, b) =>
+    Math.abs(gap(b)) < Math.abs(gap(a)) ? b : a,
+  );
+  return result("solved", best);
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect } from "vitest";
+import { generateAmortizationSchedule } from "./loan";
+import { calculateResults } from "./results";
+import {
+  calculateTaxBenefits,
+  effectiveLoanRate,
+  SECTION_24B_LIMIT,
+  SECTION_80C_LIMIT,
+} from "./tax";
+import type { LoanData, TaxProfile } from "./types";
+
+// Large enough that year-one interest and principal both exceed their caps
+const loan: LoanData = { loanAmount: 5000000, interestRate: 9, tenure: 10 };
+const oldRegime: TaxProfile = {
+  regime: "old",
+  slabRate: 30,
+  propertyUse: "self-occupied",
+};
+
+describe("calculateTaxBenefits", () => {
+  it("should cap self-occupied deductions at the 24(b) and 80C limits", () => {
+    const [first] = calculateTaxBenefits(loan, oldRegime).years;
+    expect(first.interestDeduction).toBe(SECTION_24B_LIMIT);
+    expect(first.principalDeduction).toBe(SECTION_80C_LIMIT);
+    // 30% slab plus 4% cess on ₹3.5 lakh
+    expect(first.taxSaved).toBe(109200);
+  });
+
+  it("should give each co-borrower their own limits", () => {
+    const sole = calculateTaxBenefits(loan, oldRegime);
+    const shared = calculateTaxBenefits(loan, {
+      ...oldRegime,
+      coBorrowerShare: 50,
+    });
+    expect(shared.years[0].interestDeduction).toBe(2 * SECTION_24B_LIMIT);
+    expect(shared.totalTaxSaved).toBeGreaterThan(sole.totalTaxSaved);
+  });
+
+  it("should allow nothing on a self-occupied home under the new regime", () => {
+    const summary = calculateTaxBenefits(loan, {
+      ...oldRegime,
+      regime: "new",
+    });
+    expect(summary.totalTaxSaved).toBe(0);
+  });
+
+  it("should set let-out interest against rent, then cap the loss set-off", () => {
+    const letOut = { ...oldRegime, propertyUse: "let-out" as const };
+    const schedule = generateAmortizationSchedule(loan);
+    const firstYearInterest = schedule
+      .slice(0, 12)
+      .reduce((sum, e) => sum + e.interest, 0);
+
+    const noRent = calculateTaxBenefits(loan, letOut).years[0];
+    expect(noRent.interestDeduction).toBe(SECTION_24B_LIMIT);
+
+    const withRent = calculateTaxBenefits(loan, {
+      ...letOut,
+      annualRent: 300000,
+    }).years[0];
+    // ₹2.1 lakh of rent after the 30% standard deduction, plus the set-off
+    expect(withRent.interestDeduction).toBe(
+      Math.round(Math.min(firstYearInterest, 210000 + SECTION_24B_LIMIT)),
+    );
+
+    const newRegime = calculateTaxBenefits(loan, {
+      ...letOut,
+      regime: "new",
+      annualRent: 300000,
+    }).years[0];
+    expect(newRegime.interestDeduction).toBe(210000);
+    expect(newRegime.principalDeduction).toBe(0);
+  });
+
+  it("should use carried-forward losses once rent exceeds interest", () => {
+    // Early losses beyond the ₹2 lakh set-off are carried forward
+    const summary = calculateTaxBenefits(loan, {
+      ...oldRegime,
+      propertyUse: "let-out",
+      annualRent: 200000,
+    });
+    const schedule = generateAmortizationSchedule(loan);
+    const yearInterest = summary.years.map((y) =>
+      schedule
+        .slice((y.year - 1) * 12, y.year * 12)
+        .reduce((sum, e) => sum + e.interest, 0),
+    );
+    expect(summary.years[0].interestDeduction).toBe(140000 + SECTION_24B_LIMIT);
+    // Late in the loan spare rent recovers them
+    expect(
+      summary.years.some(
+        (y, i) => y.interestDeduction > Math.round(yearInterest[i]),
+      ),
+    ).toBe(true);
+  });
+
+  it("should spread pre-construction interest over five years", () => {
+    const small: LoanData = { loanAmount: 500000, interestRate: 9, tenure: 10 };
+    const without = calculateTaxBenefits(small, oldRegime).years;
+    const withPre = calculateTaxBenefits(small, {
+      ...oldRegime,
+      preConstructionInterest: 100000,
+    }).years;
+    expect(withPre[0].interestDeduction - without[0].interestDeduction).toBe(
+      20000,
+    );
+    expect(withPre[5].interestDeduction).toBe(without[5].interestDeduction);
+  });
+});
+
+describe("effectiveLoanRate", () => {
+  it("should recover the contract rate from the EMI cash flows", () => {
+    const schedule = generateAmortizationSchedule(loan);
+    expect(effectiveLoanRate(loan.loanAmount, schedule)).toBeCloseTo(9, 1);
+  });
+
+  it("should fall when tax savings come back each year", () => {
+    const { postTaxEffectiveRate } = calculateTaxBenefits(loan, oldRegime);
+    expect(postTaxEffectiveRate).toBeLessThan(9);
+    expect(postTaxEffectiveRate).toBeGreaterThan(6);
+  });
+});
+
+describe("post-tax results", () => {
+  it("should add the tax saved to the net position", () => {
+    const inputs = {
+      loan,
+      sip: { sipAmount: 20000, sipReturnRate: 12, sipTenure: 10 },
+      inflationRate: 6,
+      tax: oldRegime,
+    };
+    const results = calculateResults(inputs);
+    expect(results.taxSaved).toBeGreaterThan(0);
+    expect(results.postTaxNetPosition).toBe(
+      results.netPosition + results.taxSaved,
+    );
+
+    const real = calculateResults(inputs, "real");
+    expect(real.taxSaved).toBeLessThan(results.taxSaved);
+  });
+
+  it("should report no tax saved without a tax profile", () => {
+    const results = calculateResults({
+      loan,
+      sip: { sipAmount: 20000, sipReturnRate: 12, sipTenure: 10 },
+    });
+    expect(results.taxSaved).toBe(0);
+    expect(results.postTaxNetPosition).toBe(results.netPosition);
+  });
+});
@@ -0,0 +1,191 @@
+import { generateAmortizationSchedule } from "./loan";
+import type {
+  AmortizationEntry,
+  LoanData,
+  TaxProfile,
+  TaxSummary,
+  TaxYear,
+} from "./types";
+
+/**
+ * Home-loan tax benefits under the Income Tax Act, per borrower and per loan
+ * year (years are counted from the first EMI, not financial years):
+ *
+ * - Section 24(b): interest on a self-occupied home, capped at ₹2 lakh. On a
+ *   let-out home interest is set against 70% of the rent (after the standard
+ *   deduction); any loss offsets other income up to ₹2 lakh and the rest is
+ *   carried forward for eight years against future rent.
+ * - Section 80C: principal repaid, capped at ₹1.5 lakh.
+ * - The new regime allows neither, except interest on a let-out home against
+ *   its own rent, with no set-off or carry-forward.
+ */
+export const SECTION_24B_LIMIT = 200000;
+export const SECTION_80C_LIMIT = 150000;
+const LOSS_SET_OFF_LIMIT = 200000;
+const RENT_STANDARD_DEDUCTION = 0.3;
+const CARRY_FORWARD_YEARS = 8;
+const PRE_CONSTRUCTION_INSTALMENTS = 5;
+/** Health and education cess, charged on top of income tax */
+export const CESS = 0.04;
+
+interface BorrowerYear {
+  interest: number;
+  principal: number;
+}
+
+interface Deduction {
+  interest: number;
+  principal: number;
+}
+
+function borrowerDeductions(
+  tax: TaxProfile,
+  years: BorrowerYear[],
+  share: number,
+): Deduction[] {
+  const netRent = (tax.annualRent ?? 0) * share * (1 - RENT_STANDARD_DEDUCTION);
+  const preConstruction =
+    ((tax.preConstructionInterest ?? 0) * share) / PRE_CONSTRUCTION_INSTALMENTS;
+  const carriedForward: { year: number; amount: number }[] = [];
+
+  return years.map((entry, index) => {
+    const claim =
+      entry.interest * share +
+      (index < PRE_CONSTRUCTION_INSTALMENTS ? preConstruction : 0);
+    const principal = entry.principal * share;
+    const selfOccupied = tax.propertyUse === "self-occupied";
+
+    if (tax.regime === "new") {
+      return {
+        interest: selfOccupied ? 0 : Math.min(claim, netRent),
+        principal: 0,
+      };
+    }
+    const principalDeduction = Math.min(principal, SECTION_80C_LIMIT);
+    if (selfOccupied) {
+      return {
+        interest: Math.min(claim, SECTION_24B_LIMIT),
+        principal: principalDeduction,
+      };
+    }
+
+    // Let out: rent absorbs interest first, then the loss is set off or
+    // carried forward; spare rent soaks up older carried-forward losses
+    const absorbed = Math.min(claim, netRent);
+    const loss = claim - absorbed;
+    const setOff = Math.min(loss, LOSS_SET_OFF_LIMIT);
+    let spareRent = netRent - absorbed;
+    let recovered = 0;
+    for (const carry of carriedForward) {
+      if (index - carry.year > CARRY_FORWARD_YEARS || spareRent <= 0) continue;
+      const used = Math.min(carry.amount, spareRent);
+      carry.amount -= used;
+      spareRent -= used;
+      recovered += used;
+    }
+    if (loss > setOff) {
+      carriedForward.push({ year: index, amount: loss - setOff });
+    }
+
+    return {
+      interest: absorbed + setOff + recovered,
+      principal: principalDeduction,
+    };
+  });
+}
+
+/**
+ * Annual rate (percent) that discounts the loan's cash flows to zero: the
+ * amount borrowed, every EMI and prepayment, and any yearly credits (such as
+ * tax saved) received at the end of each loan year
+ */
+export function effectiveLoanRate(
+  loanAmount: number,
+  schedule: AmortizationEntry[],
+  yearlyCredits: number[] = [],
+): number {
+  const flows = new Map<number, number>();
+  const add = (month: number, amount: number) =>
+    flows.set(month, (flows.get(month) ?? 0) + amount);
+  add(0, loanAmount);
+  schedule.forEach((e) => add(e.month, -(e.emi + e.prepayment)));
+  yearlyCredits.forEach((credit, i) => add((i + 1) * 12, credit));
+
+  const npv = (rate: number) => {
+    let total = 0;
+    flows.forEach((amount, month) => {
+      total += amount / Math.pow(1 + rate, month);
+    });
+    return total;
+  };
+
+  // NPV rises with the rate for a borrower's cash flows, so bisect
+  let low = -0.05;
+  let high = 0.1;
+  for (let i = 0; i < 80; i++) {
+    const mid = (low + high) / 2;
+    if (npv(mid) < 0) low = mid;
+    else high = mid;
+  }
+  return Math.round(((low + high) / 2) * 12 * 100 * 100) / 100;
+}
+
+/**
+ * Yearly 24(b) and 80C deductions and the tax they save, plus the loan's
+ * post-tax effective rate. Tax saved counts the 4% cess; the effective rate
+ * only credits the interest deduction, since 80C room is usually filled by
+ * other investments anyway.
+ */
+export function calculateTaxBenefits(
+  loan: LoanData,
+  tax: TaxProfile,
+  schedule: AmortizationEntry[] = generateAmortizationSchedule(loan),
+): TaxSummary {
+  const loanYears = Math.ceil(schedule.length / 12);
+  const yearCount = Math.max(
+    loanYears,
+    tax.preConstructionInterest ? PRE_CONSTRUCTION_INSTALMENTS : 0,
+  );
+  const years: BorrowerYear[] = Array.from({ length: yearCount }, (_, i) => {
+    const months = schedule.slice(i * 12, (i + 1) * 12);
+    return {
+      interest: months.reduce((sum, e) => sum + e.interest, 0),
+      principal: months.reduce((sum, e) => sum + e.principal + e.prepayment, 0),
+    };
+  });
+
+  const coBorrowerShare = Math.min(Math.max(tax.coBorrowerShare ?? 0, 0), 100);
+  const borrowers = [1 - coBorrowerShare / 100, coBorrowerShare / 100]
+    .filter((share) => share > 0)
+    .map((share) => borrowerDeductions(tax, years, share));
+
+  const rate = (tax.slabRate / 100) * (1 + CESS);
+  const taxYears: TaxYear[] = years.map((_, i) => {
+    const interestDeduction = Math.round(
+      borrowers.reduce((sum, b) => sum + b[i].interest, 0),
+    );
+    const principalDeduction = Math.round(
+      borrowers.reduce((sum, b) => sum + b[i].principal, 0),
+    );
+    return {
+      year: i + 1,
+      interestDeduction,
+      principalDeduction,
+      taxSaved: Math.round((interestDeduction + principalDeduction) * rate),
+    };
+  });
+
+  const interestCredits = taxYears.map((y) => y.interestDeduction * rate);
+  return {
+    years: taxYears,
+    totalTaxSaved: taxYears.reduce((sum, y) => sum + y.taxSaved, 0),
+    interestTaxSaved: Math.round(
+      interestCredits.reduce((sum, credit) => sum + credit, 0),
+    ),
+    postTaxEffectiveRate: effectiveLoanRate(
+      loan.loanAmount,
+      schedule,
+      interestCredits,
+    ),
+  };
+}
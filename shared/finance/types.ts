@@ -0,0 +1,496 @@
+/**
+ * Input and output shapes for the loan + SIP finance engine
+ */
+
+export interface LoanData {
+  loanAmount: number;
+  /** Annual interest rate in percent, e.g. 8.5 */
+  interestRate: number;
+  /** Loan tenure in years */
+  tenure: number;
+  /** Optional part-payments made on top of the regular EMI */
+  prepayment?: PrepaymentPlan;
+  /** Rate resets for a floating-rate loan; `interestRate` is the opening rate */
+  floatingRate?: FloatingRatePlan;
+}
+
+/**
+ * What the bank does with a part-payment: keep the EMI and close the loan
+ * sooner, or keep the end date and lower the EMI.
+ */
+export type PrepaymentStrategy = "reduce-tenure" | "reduce-emi";
+
+/** A one-time part-payment made in the given month (1-based) */
+export interface LumpSumPrepayment {
+  kind: "lump-sum";
+  month: number;
+  amount: number;
+}
+
+/** The same part-payment every 12 months, starting at `startMonth` */
+export interface AnnualPrepayment {
+  kind: "annual";
+  startMonth: number;
+  /** Last month a payment may fall in; defaults to the end of the loan */
+  endMonth?: number;
+  amount: number;
+}
+
+export type PrepaymentEvent = LumpSumPrepayment | AnnualPrepayment;
+
+export interface PrepaymentPlan {
+  strategy: PrepaymentStrategy;
+  events: PrepaymentEvent[];
+}
+
+/**
+ * What the bank does when the rate resets: keep the EMI and stretch or shrink
+ * the tenure, or keep the end date and recompute the EMI.
+ */
+export type RateResetMode = "keep-emi" | "keep-tenure";
+
+/** A new annual rate (percent) that applies from the given month onwards */
+export interface RateChange {
+  month: number;
+  rate: number;
+}
+
+/** The RBI repo rate that applies from the given month onwards */
+export interface RepoRatePoint {
+  month: number;
+  repoRate: number;
+}
+
+/**
+ * An external-benchmark (repo-linked) loan: the lending rate is the repo rate
+ * plus a fixed spread, re-read every `resetFrequency` months.
+ */
+export interface RepoLinkedRate {
+  spread: number;
+  resetFrequency: number;
+  repoPath: RepoRatePoint[];
+}
+
+export interface FloatingRatePlan {
+  mode: RateResetMode;
+  /** Whether the resets come from `changes` or are derived from `repoLinked` */
+  source: "manual" | "repo-linked";
+  changes: RateChange[];
+  repoLinked?: RepoLinkedRate;
+}
+
+export interface SIPData {
+  sipAmount: number;
+  /** Expected annual return in percent, e.g. 12 */
+  sipReturnRate: number;
+  /** Investment period in years */
+  sipTenure: number;
+  /** Optional yearly increase of the monthly contribution */
+  stepUp?: SIPStepUp;
+  /** Capital-gains tax and exit load applied when the corpus is redeemed */
+  capitalGains?: CapitalGainsProfile;
+}
+
+/**
+ * How redeeming the SIP is taxed. Each instalment is its own lot; units are
+ * sold first-in-first-out and a lot held longer than `longTermAfterMonths`
+ * is long-term.
+ */
+export interface CapitalGainsProfile {
+  /** Short-term capital gains rate in percent, before the 4% cess */
+  stcgRate: number;
+  /** Long-term capital gains rate in percent, before the 4% cess */
+  ltcgRate: number;
+  /** Long-term gains exempt from tax each financial year */
+  ltcgExemption: number;
+  longTermAfterMonths: number;
+  exitLoad?: ExitLoad;
+}
+
+/**
+ * Fee charged on units redeemed within `withinMonths` of purchase
+ */
+export interface ExitLoad {
+  /** Percent of the redemption value */
+  rate: number;
+  withinMonths: number;
+}
+
+/**
+ * Whether the SIP corpus is counted before or after capital-gains tax and
+ * exit load
+ */
+export type SIPTaxBasis = "pre-tax" | "post-tax";
+
+export interface SIPRedemption {
+  /** Value of the units sold, before exit load */
+  grossValue: number;
+  exitLoad: number;
+  shortTermGain: number;
+  longTermGain: number;
+  /** Long-term gains covered by the annual exemption */
+  exemptGain: number;
+  tax: number;
+  /** What reaches the investor: gross value less exit load and tax */
+  netValue: number;
+}
+
+/**
+ * Raise the SIP at the start of every investment year, either by a percentage
+ * of the current amount or by a fixed rupee amount.
+ */
+export interface SIPStepUp {
+  kind: "percent" | "amount";
+  value: number;
+  /** Ceiling for the monthly contribution, if any */
+  maxMonthlyAmount?: number;
+}
+
+/**
+ * The calculation inputs of a scenario, without any UI-only fields
+ */
+export interface ScenarioInputs {
+  loan: LoanData;
+  sip: SIPData;
+  /** Expected annual inflation in percent, used for the real-value view */
+  inflationRate?: number;
+  /** Income-tax position of the borrower, for home-loan deductions */
+  tax?: TaxProfile;
+  /** Income and property figures for the eligibility check */
+  affordability?: AffordabilityProfile;
+}
+
+/**
+ * What a lender looks at to size a home loan: how much of the monthly income
+ * may go to EMIs (FOIR) and how much of the property it will fund (LTV)
+ */
+export interface AffordabilityProfile {
+  /** Net monthly income */
+  monthlyIncome: number;
+  /** EMIs already being paid each month */
+  existingEmis: number;
+  /** Fixed obligations to income ratio limit, in percent */
+  foirLimit: number;
+  /** Maximum loan-to-value ratio, in percent */
+  maxLtv: number;
+  propertyValue: number;
+  /** Keep the loan amount at or under the eligible amount */
+  capLoan?: boolean;
+}
+
+export type AffordabilityLimit = "foir" | "ltv";
+
+export interface AffordabilityResult {
+  /** Largest EMI the FOIR limit leaves room for */
+  maxEmi: number;
+  maxLoanByIncome: number;
+  maxLoanByLtv: number;
+  /** The smaller of the two limits */
+  maxEligibleLoan: number;
+  limitedBy: AffordabilityLimit;
+  /** EMI on the eligible loan */
+  eligibleEmi: number;
+  /** Property value not covered by the chosen loan */
+  downPayment: number;
+  /** Property value not covered by the largest loan the LTV allows */
+  minDownPayment: number;
+  /** FOIR and LTV with the chosen loan, in percent */
+  foir: number;
+  ltv: number;
+  /** The limits the chosen loan breaks */
+  breaches: AffordabilityLimit[];
+}
+
+export type TaxRegime = "old" | "new";
+
+export type PropertyUse = "self-occupied" | "let-out";
+
+/**
+ * What the borrower's tax return looks like, for Section 24(b) (interest)
+ * and Section 80C (principal) deductions
+ */
+export interface TaxProfile {
+  regime: TaxRegime;
+  /** Marginal slab rate in percent, before the 4% cess */
+  slabRate: number;
+  propertyUse: PropertyUse;
+  /**
+   * Percentage of the loan held by a co-borrower who is also a co-owner.
+   * Each borrower claims their share against their own limits; both are
+   * assumed to be on the same regime and slab.
+   */
+  coBorrowerShare?: number;
+  /**
+   * Interest paid before possession, claimable in five equal instalments
+   * from the first year of the schedule
+   */
+  preConstructionInterest?: number;
+  /** Yearly rent for a let-out property */
+  annualRent?: number;
+}
+
+/**
+ * Deductions and tax saved in one loan year, across all borrowers
+ */
+export interface TaxYear {
+  year: number;
+  interestDeduction: number;
+  principalDeduction: number;
+  taxSaved: number;
+}
+
+export interface TaxSummary {
+  years: TaxYear[];
+  totalTaxSaved: number;
+  /** Tax saved by the interest deduction alone */
+  interestTaxSaved: number;
+  /** Annual rate of the loan's cash flows after the interest tax saving */
+  postTaxEffectiveRate: number;
+}
+
+/**
+ * Whether money is shown as paid on the day (nominal) or discounted back to
+ * today's rupees (real)
+ */
+export type ValueBasis = "nominal" | "real";
+
+export interface CalculationResults {
+  emi: number;
+  totalInterest: number;
+  totalPayment: number;
+  sipMaturityValue: number;
+  sipTotalInvestment: number;
+  sipReturns: number;
+  /** SIP corpus less total loan outflow, on the SIP basis asked for */
+  netPosition: number;
+  /** Interest saved by the prepayment plan, 0 without one */
+  earlyClosureSavings: number;
+  /** How many months sooner the loan closes thanks to prepayments */
+  monthsSaved: number;
+  /** SIP corpus after capital-gains tax and exit load */
+  sipPostTaxMaturityValue: number;
+  /** Capital-gains tax plus exit load on redeeming the SIP */
+  sipRedemptionCost: number;
+  /** Tax saved over the loan; zero without a tax profile */
+  taxSaved: number;
+  postTaxEffectiveRate: number;
+  /** Net position with the tax saved added back */
+  postTaxNetPosition: number;
+}
+
+export type ComparisonMetric = keyof CalculationResults;
+
+/** Which way a metric improves; null when neither is better */
+export type MetricDirection = "higher" | "lower" | null;
+
+/** One scenario's value of a metric, measured against the baseline's */
+export interface ComparisonCell {
+  value: number;
+  /** value minus the baseline's value */
+  delta: number;
+  /** delta as a percentage of the baseline; null when the baseline is 0 */
+  deltaPercent: number | null;
+  /** Whether this is the best value in the row (ties share it) */
+  best: boolean;
+  /** Whether the value beats, trails or matches the baseline */
+  versusBaseline: "better" | "worse" | "same";
+}
+
+export interface ComparisonRow {
+  metric: ComparisonMetric;
+  direction: MetricDirection;
+  /** One cell per scenario, in the order given */
+  cells: ComparisonCell[];
+}
+
+/** Relative importance of each ranking criterion; missing means 0 */
+export type RankingWeights = Partial<Record<ComparisonMetric, number>>;
+
+export interface ScenarioRanking {
+  /** Position of the scenario in the list that was ranked */
+  index: number;
+  /** Weighted score from 0 (worst on every criterion) to 100 (best) */
+  score: number;
+  /** 1 for the best; tied scores share a rank */
+  rank: number;
+}
+
+/**
+ * An input the goal solver can vary to hit a target
+ */
+export type SolverVariable =
+  | "sipAmount"
+  | "sipTenure"
+  | "loanAmount"
+  | "tenure"
+  | "interestRate";
+
+export type GoalMetric =
+  | "netPosition"
+  | "sipMaturityValue"
+  | "emi"
+  | "totalInterest";
+
+/** A results figure that should equal `target` */
+export interface ResultGoal {
+  metric: GoalMetric;
+  target: number;
+}
+
+/** The SIP corpus at the end of `year` should equal `target` */
+export interface CorpusGoal {
+  metric: "corpusAtYear";
+  year: number;
+  target: number;
+}
+
+export type SolverGoal = ResultGoal | CorpusGoal;
+
+export interface SolverResult {
+  /** "unreachable" when no value in range hits the target; `value` is then the closest */
+  status: "solved" | "unreachable";
+  value: number;
+  /** The goal's figure with `value` applied */
+  achieved: number;
+  /** The scenario inputs with `value` applied */
+  inputs: ScenarioInputs;
+}
+
+/**
+ * A series of past index returns to bootstrap from, in percent per period
+ */
+export interface ReturnSeries {
+  name: string;
+  frequency: "monthly" | "annual";
+  returns: number[];
+}
+
+/**
+ * How monthly returns are drawn: lognormal around the SIP's expected return
+ * with the given annual volatility (percent), or resampled from history
+ */
+export type ReturnModel =
+  | { kind: "volatility"; volatility: number }
+  | { kind: "historical"; series: ReturnSeries };
+
+export interface MonteCarloOptions {
+  model: ReturnModel;
+  /** Number of simulated paths */
+  paths: number;
+  /** Seed for the random draws, so a run can be repeated */
+  seed?: number;
+  basis?: ValueBasis;
+  inflationRate?: number;
+  /** Corpus to beat, e.g. the total loan outflow */
+  target?: number;
+}
+
+export interface PercentileBand {
+  p10: number;
+  p50: number;
+  p90: number;
+}
+
+/** Spread of the simulated corpus at the end of a SIP year */
+export interface MonteCarloYear extends PercentileBand {
+  year: number;
+}
+
+export interface MonteCarloResult {
+  paths: number;
+  years: MonteCarloYear[];
+  /** Spread of the corpus at maturity */
+  maturity: PercentileBand;
+  /** Share of paths (0-1) whose corpus beats `target`; null without one */
+  probabilityAboveTarget: number | null;
+}
+
+export interface AmortizationEntry {
+  month: number;
+  emi: number;
+  principal: number;
+  interest: number;
+  /** Part-payment made this month, after the EMI */
+  prepayment: number;
+  balance: number;
+  /** Annual rate charged this month */
+  rate: number;
+  /** True when a floating-rate reset took effect this month */
+  rateReset: boolean;
+}
+
+/**
+ * Totals of a (possibly prepaid) loan, taken from its amortization schedule
+ */
+export interface LoanTotals {
+  /** EMI at the start of the loan */
+  emi: number;
+  /** Every EMI and part-payment made */
+  totalPayment: number;
+  totalInterest: number;
+  totalPrepayment: number;
+  /** Months until the loan actually closes */
+  months: number;
+}
+
+export interface SIPGrowthEntry {
+  month: number;
+  /** Amount invested this month */
+  contribution: number;
+  /** Amount invested up to and including this month */
+  investment: number;
+  balance: number;
+  returns: number;
+}
+
+/**
+ * Totals of a (possibly stepped-up) SIP, taken from its growth schedule
+ */
+export interface SIPTotals {
+  maturityValue: number;
+  totalInvestment: number;
+  returns: number;
+  /** Monthly contribution in the final month */
+  finalMonthlyAmount: number;
+}
+
+/**
+ * One year of an amortization schedule: amounts are totals paid during the
+ * year, balance and rate are as at its last month
+ */
+export interface AmortizationYear {
+  year: number;
+  emi: number;
+  principal: number;
+  interest: number;
+  prepayment: number;
+  balance: number;
+  rate: number;
+  /** Whether the rate reset at any point in the year */
+  rateReset: boolean;
+}
+
+/**
+ * One year of a SIP schedule: contributions made during the year, the rest
+ * as at its last month
+ */
+export interface SIPGrowthYear {
+  year: number;
+  contribution: number;
+  investment: number;
+  balance: number;
+  returns: number;
+}
+
+/**
+ * Year-end snapshot of an amortization schedule
+ */
+export interface YearlyLoanSummary {
+  year: number;
+  /** Outstanding principal at the end of the year */
+  balance: number;
+  /** Interest paid from the start of the loan up to the end of the year */
+  cumulativeInterest: number;
+  /** Principal repaid from the start of the loan up to the end of the year */
+  cumulativePrincipal: number;
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest";
+import type { HouseholdProfile } from "./api";
+import type { ScenarioInputs } from "./finance";
+import {
+  applyHouseholdFigures,
+  householdDefaults,
+  householdTotals,
+} from "./household";
+
+const household: HouseholdProfile = {
+  name: "Sharma family",
+  incomes: [
+    { label: "Salary", monthlyAmount: 120000 },
+    { label: "Rent", monthlyAmount: 30000 },
+  ],
+  liabilities: [{ label: "Car loan", monthlyEmi: 15000, outstanding: 400000 }],
+  riskProfile: "conservative",
+};
+
+const inputs: ScenarioInputs = {
+  loan: { loanAmount: 4000000, interestRate: 8.5, tenure: 20 },
+  sip: { sipAmount: 20000, sipReturnRate: 12, sipTenure: 20 },
+};
+
+describe("householdTotals", () => {
+  it("should sum incomes and liabilities", () => {
+    expect(householdTotals(household)).toEqual({
+      monthlyIncome: 150000,
+      existingEmis: 15000,
+      outstanding: 400000,
+    });
+  });
+});
+
+describe("applyHouseholdFigures", () => {
+  it("should start an eligibility check from the household's figures", () => {
+    const { affordability } = applyHouseholdFigures(inputs, household);
+    expect(affordability).toMatchObject({
+      monthlyIncome: 150000,
+      existingEmis: 15000,
+      foirLimit: 50,
+      maxLtv: 80,
+      propertyValue: 5000000,
+    });
+  });
+
+  it("should keep the scenario's own limits", () => {
+    const { affordability } = applyHouseholdFigures(
+      {
+        ...inputs,
+        affordability: {
+          monthlyIncome: 1,
+          existingEmis: 1,
+          foirLimit: 40,
+          maxLtv: 75,
+          propertyValue: 6000000,
+        },
+      },
+      household,
+    );
+    expect(affordability).toEqual({
+      monthlyIncome: 150000,
+      existingEmis: 15000,
+      foirLimit: 40,
+      maxLtv: 75,
+      propertyValue: 6000000,
+    });
+  });
+});
+
+describe("householdDefaults", () => {
+  it("should use the risk profile's return", () => {
+    expect(householdDefaults(inputs, household).sip.sipReturnRate).toBe(8);
+    expect(inputs.sip.sipReturnRate).toBe(12);
+  });
+});
@@ -0,0 +1,67 @@
+import type { HouseholdProfile, RiskProfile } from "./api";
+import { defaultAffordabilityProfile, type ScenarioInputs } from "./finance";
+
+/** Long-run annual return, in percent, assumed for each risk profile */
+export const RISK_RETURN_RATES: Record<RiskProfile, number> = {
+  conservative: 8,
+  moderate: 10,
+  aggressive: 12,
+};
+
+export const RISK_PROFILES = Object.keys(RISK_RETURN_RATES) as RiskProfile[];
+
+/** Monthly income and EMIs, and outstanding debt, summed over the household */
+export function householdTotals({ incomes, liabilities }: HouseholdProfile) {
+  return {
+    monthlyIncome: incomes.reduce(
+      (sum, { monthlyAmount }) => sum + monthlyAmount,
+      0,
+    ),
+    existingEmis: liabilities.reduce(
+      (sum, { monthlyEmi }) => sum + monthlyEmi,
+      0,
+    ),
+    outstanding: liabilities.reduce(
+      (sum, { outstanding }) => sum + outstanding,
+      0,
+    ),
+  };
+}
+
+/**
+ * The scenario with the household's income and existing EMIs in its
+ * eligibility check. The scenario's own FOIR and LTV limits and property
+ * value are kept, or typical ones used when it has no check yet.
+ */
+export function applyHouseholdFigures(
+  inputs: ScenarioInputs,
+  household: HouseholdProfile,
+): ScenarioInputs {
+  const { monthlyIncome, existingEmis } = householdTotals(household);
+  return {
+    ...inputs,
+    affordability: {
+      ...(inputs.affordability ?? defaultAffordabilityProfile(inputs.loan)),
+      monthlyIncome,
+      existingEmis,
+    },
+  };
+}
+
+/**
+ * Inputs for a new scenario planned for the household: its figures in the
+ * eligibility check and the investment return for its risk profile
+ */
+export function householdDefaults(
+  base: ScenarioInputs,
+  household: HouseholdProfile,
+): ScenarioInputs {
+  const inputs = applyHouseholdFigures(base, household);
+  return {
+    ...inputs,
+    sip: {
+      ...inputs.sip,
+      sipReturnRate: RISK_RETURN_RATES[household.riskProfile],
+    },
+  };
+}
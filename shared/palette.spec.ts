@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import {
+  contrastRatio,
+  MIN_CONTRAST,
+  minContrast,
+  nextScenarioColor,
+  scenarioColor,
+} from "./palette";
+
+describe("contrastRatio", () => {
+  it("should match the WCAG extremes", () => {
+    expect(contrastRatio("#000000", "#FFFFFF")).toBeCloseTo(21);
+    expect(contrastRatio("#777777", "#777777")).toBeCloseTo(1);
+  });
+});
+
+describe("scenarioColor", () => {
+  const colors = Array.from({ length: 30 }, (_, index) => scenarioColor(index));
+
+  it("should keep every colour readable on both themes", () => {
+    for (const color of colors) {
+      expect(minContrast(color)).toBeGreaterThanOrEqual(MIN_CONTRAST);
+    }
+  });
+
+  it("should never repeat a colour", () => {
+    expect(new Set(colors).size).toBe(colors.length);
+  });
+});
+
+describe("nextScenarioColor", () => {
+  it("should pick the first colour not in use", () => {
+    expect(nextScenarioColor([])).toBe(scenarioColor(0));
+    expect(
+      nextScenarioColor([scenarioColor(0).toLowerCase(), scenarioColor(2)]),
+    ).toBe(scenarioColor(1));
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Scenario colours. Every colour keeps at least a 3:1 contrast ratio (the
+ * WCAG minimum for chart lines and other graphics) against the card
+ * background in both the light and the dark theme. The first few are
+ * hand-picked; after those, hues step round the colour wheel by the golden
+ * angle so any number of scenarios stay apart.
+ */
+const BASE_COLORS = [
+  "#3B82F6",
+  "#059669",
+  "#B45309",
+  "#EF4444",
+  "#DB2777",
+  "#0891B2",
+];
+
+/** --card in global.css, light and dark */
+const BACKGROUNDS = ["#F6F7F9", "#181D25"];
+
+export const MIN_CONTRAST = 3;
+
+const GOLDEN_ANGLE = 137.508;
+
+const channel = (hex: string, offset: number) =>
+  parseInt(hex.slice(offset, offset + 2), 16) / 255;
+
+/** WCAG relative luminance of a #rrggbb colour */
+export function luminance(hex: string): number {
+  const [r, g, b] = [1, 3, 5].map((offset) => {
+    const value = channel(hex, offset);
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+export function contrastRatio(a: string, b: string): number {
+  const [light, dark] = [luminance(a), luminance(b)].sort((x, y) => y - x);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+/** Lowest contrast the colour has against either theme's background */
+export const minContrast = (hex: string) =>
+  Math.min(...BACKGROUNDS.map((background) => contrastRatio(hex, background)));
+
+function hslToHex(hue: number, saturation: number, lightness: number) {
+  const s = saturation / 100;
+  const l = lightness / 100;
+  const a = s * Math.min(l, 1 - l);
+  const component = (n: number) => {
+    const k = (n + hue / 30) % 12;
+    const value = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255)
+      .toString(16)
+      .padStart(2, "0");
+  };
+  return `#${component(0)}${component(8)}${component(4)}`.toUpperCase();
+}
+
+/**
+ * The best-contrasting lightness for a hue: the one whose worse contrast
+ * against the two backgrounds is highest
+ */
+function accessibleShade(hue: number): string {
+  let best = hslToHex(hue, 70, 45);
+  for (let lightness = 25; lightness <= 65; lightness++) {
+    const candidate = hslToHex(hue, 70, lightness);
+    if (minContrast(candidate) > minContrast(best)) best = candidate;
+  }
+  return best;
+}
+
+/** The colour for the scenario at `index` in a list of any length */
+export function scenarioColor(index: number): string {
+  if (index < BASE_COLORS.length) return BASE_COLORS[index];
+  const step = index - BASE_COLORS.length + 1;
+  return accessibleShade((15 + step * GOLDEN_ANGLE) % 360);
+}
+
+/** The first palette colour none of the given colours already uses */
+export function nextScenarioColor(used: string[]): string {
+  const taken = new Set(used.map((color) => color.toUpperCase()));
+  let index = 0;
+  while (taken.has(scenarioColor(index))) index++;
+  return scenarioColor(index);
+}
@@ -0,0 +1,226 @@
+import type { ChartPoint } from "../chart-data";
+import { hexToRgb, type PdfPage, type Rgb } from "./pdf";
+
+/**
+ * Vector versions of the calculator's recharts charts, drawn from the same
+ * chart data
+ */
+export interface Box {
+  x: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export interface ChartLine {
+  key: string;
+  label: string;
+  color: string;
+}
+
+const AXIS: Rgb = [0.6, 0.6, 0.6];
+const GRID: Rgb = [0.9, 0.9, 0.9];
+const MUTED: Rgb = [0.4, 0.4, 0.4];
+
+/** Round-number axis ticks spanning [min, max], always including zero */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  const low = Math.min(0, min);
+  const high = Math.max(0, max);
+  if (high === low) return [0];
+  const rough = (high - low) / count;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const step =
+    [1, 2, 2.5, 5, 10].map((m) => m * magnitude).find((s) => s >= rough) ??
+    10 * magnitude;
+  const ticks: number[] = [];
+  for (let t = Math.floor(low / step) * step; t <= high + step / 2; t += step) {
+    ticks.push(Math.round(t));
+  }
+  if (ticks[ticks.length - 1] < high) {
+    ticks.push(ticks[ticks.length - 1] + step);
+  }
+  return ticks;
+}
+
+const PLOT_LEFT = 44;
+const PLOT_BOTTOM = 34;
+
+/**
+ * Gridlines, y-axis labels and year labels; returns a mapping from values
+ * to page coordinates
+ */
+function drawAxes(
+  page: PdfPage,
+  box: Box,
+  years: number[],
+  values: number[],
+  formatTick: (value: number) => string,
+) {
+  const ticks = niceTicks(Math.min(...values), Math.max(...values));
+  const plot = {
+    left: box.x + PLOT_LEFT,
+    right: box.x + box.width,
+    top: box.top,
+    bottom: box.top + box.height - PLOT_BOTTOM,
+  };
+  const [lowest, highest] = [ticks[0], ticks[ticks.length - 1]];
+  const toY = (value: number) =>
+    plot.bottom -
+    ((value - lowest) / (highest - lowest || 1)) * (plot.bottom - plot.top);
+
+  ticks.forEach((tick) => {
+    const y = toY(tick);
+    page.line(
+      [
+        [plot.left, y],
+        [plot.right, y],
+      ],
+      { color: tick === 0 ? AXIS : GRID, width: 0.5 },
+    );
+    page.text(plot.left - 4, y + 3, formatTick(tick), {
+      size: 7,
+      color: MUTED,
+      align: "right",
+    });
+  });
+
+  // Label at most ~12 years so long tenures stay readable
+  const every = Math.ceil(years.length / 12);
+  const slot = (plot.right - plot.left) / years.length;
+  years.forEach((year, i) => {
+    if (i % every !== 0 && i !== years.length - 1) return;
+    page.text(plot.left + slot * (i + 0.5), plot.bottom + 11, String(year), {
+      size: 7,
+      color: MUTED,
+      align: "center",
+    });
+  });
+  page.text((plot.left + plot.right) / 2, plot.bottom + 22, "Year", {
+    size: 7,
+    color: MUTED,
+    align: "center",
+  });
+
+  return { plot, slot, toY };
+}
+
+function drawLegend(page: PdfPage, box: Box, items: ChartLine[]) {
+  let x = box.x + PLOT_LEFT;
+  const top = box.top + box.height - 6;
+  items.forEach((item) => {
+    page.rect(x, top - 6, 8, 8, { fill: hexToRgb(item.color) });
+    page.text(x + 11, top + 1, item.label, { size: 7.5 });
+    x += 24 + item.label.length * 4;
+  });
+}
+
+export function lineChart(
+  page: PdfPage,
+  box: Box,
+  data: ChartPoint[],
+  lines: ChartLine[],
+  formatTick: (value: number) => string,
+) {
+  if (data.length === 0 || lines.length === 0) return;
+  const values = data.flatMap((point) => lines.map((l) => point[l.key] ?? 0));
+  const { plot, slot, toY } = drawAxes(
+    page,
+    { ...box, height: box.height - 14 },
+    data.map((point) => point.year),
+    values,
+    formatTick,
+  );
+
+  lines.forEach((line) => {
+    page.line(
+      data.map((point, i) => [
+        plot.left + slot * (i + 0.5),
+        toY(point[line.key] ?? 0),
+      ]),
+      { color: hexToRgb(line.color), width: 1.75 },
+    );
+  });
+  drawLegend(page, box, lines);
+}
+
+export function barChart(
+  page: PdfPage,
+  box: Box,
+  data: ChartPoint[],
+  bars: ChartLine[],
+  formatTick: (value: number) => string,
+) {
+  if (data.length === 0 || bars.length === 0) return;
+  const values = data.flatMap((point) => bars.map((b) => point[b.key] ?? 0));
+  const { slot, toY, plot } = drawAxes(
+    page,
+    { ...box, height: box.height - 14 },
+    data.map((point) => point.year),
+    values,
+    formatTick,
+  );
+
+  const groupWidth = slot * 0.8;
+  const barWidth = groupWidth / bars.length;
+  data.forEach((point, i) => {
+    const groupLeft = plot.left + slot * i + (slot - groupWidth) / 2;
+    bars.forEach((bar, j) => {
+      const value = point[bar.key] ?? 0;
+      const [from, to] = [toY(0), toY(value)];
+      page.rect(
+        groupLeft + j * barWidth,
+        Math.min(from, to),
+        barWidth * 0.9,
+        Math.abs(from - to),
+        { fill: hexToRgb(bar.color) },
+      );
+    });
+  });
+  drawLegend(page, box, bars);
+}
+
+/**
+ * A pie of named values with a legend to its right
+ */
+export function pieChart(
+  page: PdfPage,
+  box: Box,
+  slices: { label: string; value: number; color: string }[],
+  format: (value: number) => string,
+) {
+  const total = slices.reduce(
+    (sum, slice) => sum + Math.max(0, slice.value),
+    0,
+  );
+  const radius = Math.min(box.height / 2, box.width / 4) - 4;
+  const cx = box.x + radius + 4;
+  const cy = box.top + box.height / 2;
+
+  let angle = 0;
+  slices.forEach((slice, i) => {
+    const share = total > 0 ? Math.max(0, slice.value) / total : 0;
+    if (share > 0) {
+      page.wedge(
+        cx,
+        cy,
+        radius,
+        angle,
+        angle + share * 2 * Math.PI,
+        hexToRgb(slice.color),
+      );
+    }
+    angle += share * 2 * Math.PI;
+
+    const legendTop = box.top + 14 + i * 26;
+    page.rect(cx + radius + 14, legendTop - 7, 8, 8, {
+      fill: hexToRgb(slice.color),
+    });
+    page.text(cx + radius + 26, legendTop, slice.label, { size: 8 });
+    page.text(
+      cx + radius + 26,
+      legendTop + 11,
+      `${format(slice.value)} (${Math.round(share * 100)}%)`,
+      { size: 8, bold: true },
+    );
+  });
+}
@@ -0,0 +1,17 @@
+import { describe, it, expect } from "vitest";
+import { reportFormatters } from "./format";
+
+describe("reportFormatters", () => {
+  it("should group rupees in the Indian style by default", () => {
+    const format = reportFormatters();
+    expect(format.currency(1234567.4)).toBe("₹12,34,567");
+    expect(format.compact(2500000)).toBe("25L");
+  });
+
+  it("should format an Arabic locale with its region's English conventions", () => {
+    const format = reportFormatters({ locale: "ar-AE", currency: "AED" });
+    expect(format.currency(-500)).toBe("-AED 500");
+    expect(format.compact(2500000)).toBe("2.5M");
+    expect(format.date(new Date("2026-01-15"))).toBe("15 Jan 2026");
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Amount and date formatting for the report. The PDF is set in the standard
+ * Latin fonts, so its text stays in English; amounts and dates follow the
+ * region of the caller's locale ("ar-AE" is formatted as "en-AE").
+ */
+export interface ReportLocale {
+  /** BCP 47 tag, e.g. "en-IN" */
+  locale: string;
+  /** ISO 4217 code */
+  currency: string;
+}
+
+export interface ReportFormatters {
+  currency: (amount: number) => string;
+  /** Short axis label in the region's number system, e.g. "25L" or "2.5M" */
+  compact: (value: number) => string;
+  date: (date: Date) => string;
+}
+
+export const DEFAULT_REPORT_LOCALE: ReportLocale = {
+  locale: "en-IN",
+  currency: "INR",
+};
+
+const englishFor = (locale: string) => {
+  const [language, region] = locale.split("-");
+  return language === "en" || !region ? locale : `en-${region}`;
+};
+
+export function reportFormatters({
+  locale,
+  currency,
+}: ReportLocale = DEFAULT_REPORT_LOCALE): ReportFormatters {
+  const id = englishFor(locale);
+  const money = new Intl.NumberFormat(id, {
+    style: "currency",
+    currency,
+    maximumFractionDigits: 0,
+  });
+  const compact = new Intl.NumberFormat(id, { notation: "compact" });
+  const date = new Intl.DateTimeFormat(id, { dateStyle: "medium" });
+  return {
+    currency: (amount) => money.format(amount),
+    compact: (value) => compact.format(value),
+    date: (value) => date.format(value),
+  };
+}
@@ -0,0 +1,15 @@
+/**
+ * PDF report generation shared by the client "Generate report" action and
+ * the server's batch endpoint
+ */
+import { fileSlug } from "../export";
+
+export * from "./report";
+export * from "./format";
+export { PdfDocument, PdfPage } from "./pdf";
+
+export const REPORT_CONTENT_TYPE = "application/pdf";
+
+/** e.g. `report-home-loan.pdf` */
+export const reportFileName = (label: string) =>
+  `report-${fileSlug(label)}.pdf`;
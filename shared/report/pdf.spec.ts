@@ -0,0 +1,49 @@
+import { describe, it, expect } from "vitest";
+import { hexToRgb, PdfDocument } from "./pdf";
+
+const latin1 = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+
+describe("PdfDocument", () => {
+  it("should write a cross-reference table pointing at every object", () => {
+    const doc = new PdfDocument("Test");
+    doc.addPage().text(40, 40, "Hello");
+    doc.addPage().rect(40, 40, 100, 20, { fill: [1, 0, 0] });
+    const pdf = latin1(doc.render());
+
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+    expect(pdf).toContain("/Count 2");
+
+    const xref = Number(/startxref\n(\d+)/.exec(pdf)[1]);
+    expect(pdf.slice(xref, xref + 4)).toBe("xref");
+    const offsets = pdf
+      .slice(xref)
+      .split("\n")
+      .slice(3)
+      .filter((line) => line.endsWith(" n "))
+      .map((line) => Number(line.slice(0, 10)));
+    offsets.forEach((offset, i) =>
+      expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true),
+    );
+  });
+
+  it("should escape text and replace characters the fonts lack", () => {
+    const doc = new PdfDocument();
+    doc.addPage().text(40, 40, "Plan (draft) \\ ₹5L");
+    expect(latin1(doc.render())).toContain("(Plan \\(draft\\) \\\\ Rs. 5L) Tj");
+  });
+
+  it("should flip coordinates so the top of the page is y = 0", () => {
+    const doc = new PdfDocument();
+    doc.addPage().text(40, 0, "Top");
+    expect(latin1(doc.render())).toContain("40 841.89 Td (Top) Tj");
+  });
+});
+
+describe("hexToRgb", () => {
+  it("should convert hex colours to 0-1 channels", () => {
+    expect(hexToRgb("#ff0000")).toEqual([1, 0, 0]);
+    expect(hexToRgb("nonsense")).toEqual([0, 0, 0]);
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Minimal PDF 1.4 writer: A4 pages of text in the standard Helvetica fonts
+ * plus simple vector shapes. Coordinates are in points from the top-left of
+ * the page, like the screen, and flipped to PDF space on output.
+ */
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+
+export type Rgb = [number, number, number];
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: Rgb;
+  align?: "left" | "right" | "center";
+}
+
+export interface StrokeOptions {
+  color?: Rgb;
+  width?: number;
+  dash?: number[];
+}
+
+const BLACK: Rgb = [0, 0, 0];
+
+/** "#10B981" -> [0.06, 0.73, 0.51]; anything unparseable is black */
+export function hexToRgb(hex: string): Rgb {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex);
+  if (!match) return BLACK;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255].map(
+    (channel) => channel / 255,
+  ) as Rgb;
+}
+
+// Helvetica advance widths (per 1000 em) for the characters reports use
+// most; everything else is approximated by the width of a digit
+const NARROW = new Set(" ,.:;!|()[]/-'ijlftI");
+const WIDE = new Set("mwMW%@");
+
+export function textWidth(text: string, size: number, bold = false): number {
+  let width = 0;
+  for (const char of text) {
+    if (NARROW.has(char)) width += 278;
+    else if (WIDE.has(char)) width += 889;
+    else if (char >= "A" && char <= "Z") width += 667;
+    else width += 556;
+  }
+  return (width * size * (bold ? 1.05 : 1)) / 1000;
+}
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+// Standard fonts only cover WinAnsi; swap the rupee sign and drop the rest
+const escapeText = (text: string) =>
+  text
+    .replace(/₹/g, "Rs. ")
+    .replace(/[–—]/g, "-")
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?")
+    .replace(/([\\()])/g, "\\$1");
+
+const color = ([r, g, b]: Rgb) => `${num(r)} ${num(g)} ${num(b)}`;
+
+export class PdfPage {
+  private readonly ops: string[] = [];
+
+  private y(top: number) {
+    return num(PAGE_HEIGHT - top);
+  }
+
+  text(x: number, top: number, content: string, options: TextOptions = {}) {
+    const { size = 10, bold = false, color: fill = BLACK, align } = options;
+    const width = textWidth(content, size, bold);
+    const left =
+      align === "right" ? x - width : align === "center" ? x - width / 2 : x;
+    this.ops.push(
+      `BT ${color(fill)} rg /${bold ? "F2" : "F1"} ${num(size)} Tf ${num(left)} ${this.y(top)} Td (${escapeText(content)}) Tj ET`,
+    );
+    return this;
+  }
+
+  rect(
+    x: number,
+    top: number,
+    width: number,
+    height: number,
+    { fill, stroke }: { fill?: Rgb; stroke?: StrokeOptions } = {},
+  ) {
+    const path = `${num(x)} ${this.y(top + height)} ${num(width)} ${num(height)} re`;
+    this.paint(path, fill, stroke);
+    return this;
+  }
+
+  line(points: [number, number][], stroke: StrokeOptions = {}) {
+    if (points.length < 2) return this;
+    const path = points
+      .map(([x, top], i) => `${num(x)} ${this.y(top)} ${i === 0 ? "m" : "l"}`)
+      .join(" ");
+    this.paint(path, undefined, stroke);
+    return this;
+  }
+
+  /**
+   * Pie slice centred on (cx, cy) from `start` to `end` radians, clockwise
+   * from twelve o'clock
+   */
+  wedge(
+    cx: number,
+    cy: number,
+    radius: number,
+    start: number,
+    end: number,
+    fill: Rgb,
+  ) {
+    const point = (angle: number, r = radius): [number, number] => [
+      cx + r * Math.sin(angle),
+      cy - r * Math.cos(angle),
+    ];
+    const parts = [`${num(cx)} ${this.y(cy)} m`];
+    const [sx, sy] = point(start);
+    parts.push(`${num(sx)} ${this.y(sy)} l`);
+
+    // Cubic Bezier arcs of at most a quarter turn each
+    const segments = Math.max(1, Math.ceil((end - start) / (Math.PI / 2)));
+    const step = (end - start) / segments;
+    const handle = (4 / 3) * Math.tan(step / 4) * radius;
+    for (let i = 0; i < segments; i++) {
+      const a = start + i * step;
+      const b = a + step;
+      const [x1, y1] = point(a);
+      const [x2, y2] = point(b);
+      const c1: [number, number] = [
+        x1 + handle * Math.cos(a),
+        y1 + handle * Math.sin(a),
+      ];
+      const c2: [number, number] = [
+        x2 - handle * Math.cos(b),
+        y2 - handle * Math.sin(b),
+      ];
+      parts.push(
+        `${num(c1[0])} ${this.y(c1[1])} ${num(c2[0])} ${this.y(c2[1])} ${num(x2)} ${this.y(y2)} c`,
+      );
+    }
+    this.paint(`${parts.join(" ")} h`, fill);
+    return this;
+  }
+
+  private paint(path: string, fill?: Rgb, stroke?: StrokeOptions) {
+    const ops: string[] = ["q"];
+    if (fill) ops.push(`${color(fill)} rg`);
+    if (stroke) {
+      ops.push(
+        `${color(stroke.color ?? BLACK)} RG ${num(stroke.width ?? 1)} w [${(stroke.dash ?? []).map(num).join(" ")}] 0 d`,
+      );
+    }
+    ops.push(path, fill && stroke ? "B" : fill ? "f" : "S", "Q");
+    this.ops.push(ops.join(" "));
+  }
+
+  /** @internal */
+  content() {
+    return this.ops.join("\n");
+  }
+}
+
+export class PdfDocument {
+  readonly pages: PdfPage[] = [];
+
+  constructor(private readonly title = "Report") {}
+
+  addPage(): PdfPage {
+    const page = new PdfPage();
+    this.pages.push(page);
+    return page;
+  }
+
+  render(): Uint8Array {
+    // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a
+    // page and its content stream per page
+    const pageIds = this.pages.map((_, i) => 6 + i * 2);
+    const objects: string[] = [
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${this.pages.length} >>`,
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+      "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+      `<< /Title (${escapeText(this.title)}) /Producer (Loan & SIP Calculator) >>`,
+    ];
+    this.pages.forEach((page, i) => {
+      const content = page.content();
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+      );
+    });
+
+    let output = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+    const offsets = objects.map((body, i) => {
+      const offset = output.length;
+      output += `${i + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xref = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets
+      .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+      .join("");
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    // Everything above is Latin-1, one byte per character
+    return Uint8Array.from(output, (char) => char.charCodeAt(0) & 0xff);
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { buildReport, type ReportScenario } from "./report";
+
+const scenario = (id: number, name: string): ReportScenario => ({
+  id,
+  name,
+  color: "#3B82F6",
+  loan: { loanAmount: 1000000, interestRate: 10, tenure: 10 },
+  sip: { sipAmount: 10000, sipReturnRate: 12, sipTenure: 10 },
+});
+
+const text = (bytes: Uint8Array) =>
+  Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+
+describe("buildReport", () => {
+  it("should give the charts and each yearly summary their own page", () => {
+    const doc = buildReport([scenario(1, "Base"), scenario(2, "Faster")]);
+    // Inputs and results, charts, then one summary per scenario
+    expect(doc.pages).toHaveLength(4);
+  });
+
+  it("should include the inputs, results cards and yearly summary", () => {
+    const pdf = text(
+      buildReport([scenario(1, "Base")], {
+        generatedAt: new Date("2026-01-15"),
+      }).render(),
+    );
+    expect(pdf).toContain("(Rs. 10,00,000) Tj");
+    expect(pdf).toContain("(Total Interest Paid) Tj");
+    expect(pdf).toContain("(Rs. 5,85,815) Tj");
+    expect(pdf).toContain("(Early Closure Savings) Tj");
+    expect(pdf).toContain("(Yearly summary - Base) Tj");
+    expect(pdf).toContain("(Page 3 of 3) Tj");
+  });
+
+  it("should use the locale's currency, number grouping and date", () => {
+    const pdf = text(
+      buildReport([scenario(1, "Base")], {
+        generatedAt: new Date("2026-01-15"),
+        locale: { locale: "en-US", currency: "USD" },
+      }).render(),
+    );
+    expect(pdf).toContain("($1,000,000) Tj");
+    expect(pdf).toContain("(Generated Jan 15, 2026 - nominal values) Tj");
+    expect(pdf).toContain("(1M) Tj");
+    expect(pdf).not.toContain("Rs.");
+  });
+
+  it("should continue long summaries on a new page with the header repeated", () => {
+    const long = {
+      ...scenario(1, "Long"),
+      loan: { loanAmount: 1000000, interestRate: 10, tenure: 50 },
+    };
+    const doc = buildReport([long]);
+    expect(doc.pages.length).toBeGreaterThan(3);
+    expect(text(doc.render()).match(/\(Loan balance\) Tj/g)).toHaveLength(2);
+  });
+});
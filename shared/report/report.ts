@@ -0,0 +1,455 @@
+import { buildChartData, seriesKey, type ChartScenario } from "../chart-data";
+import { describeTax } from "../export";
+import {
+  calculateResults,
+  type CalculationResults,
+  type ValueBasis,
+} from "../finance";
+import { barChart, lineChart, pieChart } from "./charts";
+import {
+  reportFormatters,
+  type ReportFormatters,
+  type ReportLocale,
+} from "./format";
+import {
+  hexToRgb,
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  PdfDocument,
+  type PdfPage,
+  type Rgb,
+} from "./pdf";
+
+export interface ReportScenario extends ChartScenario {
+  name: string;
+  color: string;
+}
+
+export interface ReportOptions {
+  basis?: ValueBasis;
+  title?: string;
+  generatedAt?: Date;
+  /** Currency and number/date conventions; defaults to India (INR) */
+  locale?: ReportLocale;
+}
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM = PAGE_HEIGHT - MARGIN - 20;
+const MUTED: Rgb = [0.4, 0.4, 0.4];
+const RULE: Rgb = [0.85, 0.85, 0.85];
+const CARD: Rgb = [0.96, 0.97, 0.98];
+const PRINCIPAL_COLOR = "#10B981";
+const INTEREST_COLOR = "#EF4444";
+/** Scenario columns per inputs table before it wraps into another block */
+const COLUMNS_PER_BLOCK = 4;
+
+const years = (value: number) =>
+  `${Number(value.toFixed(2))} year${value === 1 ? "" : "s"}`;
+
+const chunk = <T>(items: T[], size: number): T[][] =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, i) =>
+    items.slice(i * size, i * size + size),
+  );
+
+/**
+ * Tracks the write position and starts a new page when content won't fit
+ */
+class Layout {
+  page: PdfPage;
+  top = MARGIN;
+
+  constructor(private readonly doc: PdfDocument) {
+    this.page = doc.addPage();
+  }
+
+  newPage() {
+    this.page = this.doc.addPage();
+    this.top = MARGIN;
+  }
+
+  /** Make room for `height` points, breaking the page if needed */
+  ensure(height: number) {
+    if (this.top + height > BOTTOM) this.newPage();
+  }
+
+  heading(text: string) {
+    this.ensure(40);
+    this.top += 8;
+    this.page.text(MARGIN, this.top + 12, text, { size: 13, bold: true });
+    this.top += 18;
+    this.page.line(
+      [
+        [MARGIN, this.top],
+        [MARGIN + CONTENT_WIDTH, this.top],
+      ],
+      { color: RULE, width: 0.75 },
+    );
+    this.top += 10;
+  }
+}
+
+function scenarioInputRows(
+  scenario: ReportScenario,
+  format: ReportFormatters,
+): [label: string, value: string][] {
+  const { loan, sip } = scenario;
+  const prepayments = loan.prepayment?.events.length ?? 0;
+  return [
+    ["Loan amount", format.currency(loan.loanAmount)],
+    ["Interest rate", `${loan.interestRate}%`],
+    ["Loan tenure", years(loan.tenure)],
+    [
+      "Rate type",
+      loan.floatingRate
+        ? loan.floatingRate.source === "repo-linked"
+          ? "Floating, repo-linked"
+          : "Floating"
+        : "Fixed",
+    ],
+    ["Prepayments", prepayments ? `${prepayments} planned` : "None"],
+    ["Monthly SIP", format.currency(sip.sipAmount)],
+    ["Expected return", `${sip.sipReturnRate}%`],
+    ["SIP period", years(sip.sipTenure)],
+    [
+      "Annual step-up",
+      sip.stepUp
+        ? sip.stepUp.kind === "percent"
+          ? `${sip.stepUp.value}%`
+          : format.currency(sip.stepUp.value)
+        : "None",
+    ],
+    ["Inflation", `${scenario.inflationRate ?? 0}%`],
+    ["Tax", describeTax(scenario)],
+    [
+      "STCG / LTCG",
+      sip.capitalGains
+        ? `${sip.capitalGains.stcgRate}% / ${sip.capitalGains.ltcgRate}%`
+        : "Not included",
+    ],
+  ];
+}
+
+function drawInputs(
+  layout: Layout,
+  scenarios: ReportScenario[],
+  format: ReportFormatters,
+) {
+  layout.heading("Scenario inputs");
+  const labelWidth = 120;
+
+  chunk(scenarios, COLUMNS_PER_BLOCK).forEach((block) => {
+    const rows = block.map((scenario) => scenarioInputRows(scenario, format));
+    const columnWidth = (CONTENT_WIDTH - labelWidth) / COLUMNS_PER_BLOCK;
+    layout.ensure(16 * (rows[0].length + 1) + 12);
+    const { page } = layout;
+
+    block.forEach((scenario, i) => {
+      const x = MARGIN + labelWidth + i * columnWidth;
+      page.rect(x, layout.top + 2, 8, 8, { fill: hexToRgb(scenario.color) });
+      page.text(x + 12, layout.top + 10, scenario.name, {
+        bold: true,
+        size: 9,
+      });
+    });
+    layout.top += 18;
+
+    rows[0].forEach(([label], row) => {
+      page.text(MARGIN, layout.top + 10, label, { size: 9, color: MUTED });
+      rows.forEach((values, i) =>
+        page.text(
+          MARGIN + labelWidth + i * columnWidth + 12,
+          layout.top + 10,
+          values[row][1],
+          { size: 9 },
+        ),
+      );
+      layout.top += 16;
+    });
+    layout.top += 12;
+  });
+}
+
+const RESULT_CARDS: {
+  title: string;
+  value: (r: CalculationResults) => number;
+  detail: (r: CalculationResults, format: ReportFormatters) => string;
+}[] = [
+  {
+    title: "Total Interest Paid",
+    value: (r) => r.totalInterest,
+    detail: (r, format) => `EMI ${format.currency(r.emi)}`,
+  },
+  {
+    title: "SIP Returns",
+    value: (r) => r.sipReturns,
+    detail: (r, format) =>
+      `On ${format.currency(r.sipTotalInvestment)} invested`,
+  },
+  {
+    title: "Net Position",
+    value: (r) => r.netPosition,
+    detail: (r) =>
+      r.netPosition >= 0
+        ? "SIP beats loan outflow"
+        : "Loan outflow exceeds SIP",
+  },
+  {
+    title: "Early Closure Savings",
+    value: (r) => r.earlyClosureSavings,
+    detail: (r) =>
+      r.monthsSaved > 0
+        ? `Loan closes ${r.monthsSaved} months sooner`
+        : "No prepayments planned",
+  },
+];
+
+function drawResults(
+  layout: Layout,
+  scenarios: ReportScenario[],
+  results: CalculationResults[],
+  format: ReportFormatters,
+) {
+  layout.heading("Results");
+  const gap = 8;
+  const cardWidth = (CONTENT_WIDTH - gap * 3) / 4;
+  const cardHeight = 52;
+
+  scenarios.forEach((scenario, i) => {
+    layout.ensure(cardHeight + 28);
+    const { page } = layout;
+    page.rect(MARGIN, layout.top + 2, 8, 8, { fill: hexToRgb(scenario.color) });
+    page.text(MARGIN + 12, layout.top + 10, scenario.name, {
+      bold: true,
+      size: 10,
+    });
+    layout.top += 16;
+
+    RESULT_CARDS.forEach((card, j) => {
+      const x = MARGIN + j * (cardWidth + gap);
+      page.rect(x, layout.top, cardWidth, cardHeight, { fill: CARD });
+      page.text(x + 8, layout.top + 14, card.title, { size: 8, color: MUTED });
+      page.text(
+        x + 8,
+        layout.top + 31,
+        format.currency(card.value(results[i])),
+        {
+          size: 12,
+          bold: true,
+        },
+      );
+      page.text(x + 8, layout.top + 44, card.detail(results[i], format), {
+        size: 7,
+        color: MUTED,
+      });
+    });
+    layout.top += cardHeight + 12;
+  });
+}
+
+function drawCharts(
+  layout: Layout,
+  scenarios: ReportScenario[],
+  results: CalculationResults[],
+  basis: ValueBasis,
+  format: ReportFormatters,
+) {
+  const data = buildChartData(scenarios, basis);
+
+  layout.heading("Financial projection comparison");
+  layout.ensure(220);
+  lineChart(
+    layout.page,
+    { x: MARGIN, top: layout.top, width: CONTENT_WIDTH, height: 210 },
+    data,
+    scenarios.map((s) => ({
+      key: seriesKey("net", s.id),
+      label: `${s.name} net position`,
+      color: s.color,
+    })),
+    format.compact,
+  );
+  layout.top += 220;
+
+  layout.heading("Loan payment breakdown");
+  const pieWidth = CONTENT_WIDTH / 2;
+  chunk(
+    scenarios.map((s, i) => [s, results[i]] as const),
+    2,
+  ).forEach((pair) => {
+    layout.ensure(130);
+    pair.forEach(([scenario, result], i) => {
+      const x = MARGIN + i * pieWidth;
+      layout.page.text(x, layout.top + 10, scenario.name, {
+        bold: true,
+        size: 9,
+      });
+      pieChart(
+        layout.page,
+        { x, top: layout.top + 16, width: pieWidth - 10, height: 100 },
+        [
+          {
+            label: "Principal",
+            value: result.totalPayment - result.totalInterest,
+            color: PRINCIPAL_COLOR,
+          },
+          {
+            label: "Interest",
+            value: result.totalInterest,
+            color: INTEREST_COLOR,
+          },
+        ],
+        format.currency,
+      );
+    });
+    layout.top += 126;
+  });
+
+  layout.heading("SIP investment growth (first 10 years)");
+  layout.ensure(220);
+  barChart(
+    layout.page,
+    { x: MARGIN, top: layout.top, width: CONTENT_WIDTH, height: 210 },
+    data.slice(0, 10),
+    scenarios.map((s) => ({
+      key: seriesKey("sip", s.id),
+      label: `${s.name} SIP value`,
+      color: s.color,
+    })),
+    format.compact,
+  );
+  layout.top += 220;
+
+  return data;
+}
+
+const SUMMARY_COLUMNS = [
+  "Year",
+  "Interest paid",
+  "Principal repaid",
+  "Loan balance",
+  "SIP value",
+  "Net position",
+];
+
+function drawYearlySummary(
+  layout: Layout,
+  scenario: ReportScenario,
+  data: ReturnType<typeof buildChartData>,
+  format: ReportFormatters,
+) {
+  layout.heading(`Yearly summary - ${scenario.name}`);
+  const columnWidth = CONTENT_WIDTH / SUMMARY_COLUMNS.length;
+  const rowHeight = 15;
+  const header = () => {
+    SUMMARY_COLUMNS.forEach((column, i) =>
+      layout.page.text(
+        MARGIN + (i + 1) * columnWidth - 4,
+        layout.top + 10,
+        column,
+        { size: 8, bold: true, align: "right" },
+      ),
+    );
+    layout.top += rowHeight + 2;
+  };
+  header();
+
+  const key = (series: Parameters<typeof seriesKey>[0]) =>
+    seriesKey(series, scenario.id);
+  data.forEach((point, index) => {
+    if (layout.top + rowHeight > BOTTOM) {
+      layout.newPage();
+      header();
+    }
+    const previous = data[index - 1];
+    const cells = [
+      String(point.year),
+      format.currency(
+        point[key("interest")] - (previous?.[key("interest")] ?? 0),
+      ),
+      format.currency(
+        point[key("principal")] - (previous?.[key("principal")] ?? 0),
+      ),
+      format.currency(point[key("loan")]),
+      format.currency(point[key("sip")]),
+      format.currency(point[key("net")]),
+    ];
+    if (index % 2 === 0) {
+      layout.page.rect(MARGIN, layout.top, CONTENT_WIDTH, rowHeight, {
+        fill: CARD,
+      });
+    }
+    cells.forEach((cell, i) =>
+      layout.page.text(
+        MARGIN + (i + 1) * columnWidth - 4,
+        layout.top + 10.5,
+        cell,
+        { size: 8, align: "right" },
+      ),
+    );
+    layout.top += rowHeight;
+  });
+  layout.top += 12;
+}
+
+/**
+ * The multi-page client report: inputs, results cards, charts and a yearly
+ * summary per scenario
+ */
+export function buildReport(
+  scenarios: ReportScenario[],
+  {
+    basis = "nominal",
+    title = "Loan & SIP Plan Report",
+    generatedAt = new Date(),
+    locale,
+  }: ReportOptions = {},
+): PdfDocument {
+  const format = reportFormatters(locale);
+  const doc = new PdfDocument(title);
+  const layout = new Layout(doc);
+  const results = scenarios.map((s) => calculateResults(s, basis));
+
+  layout.page.text(MARGIN, layout.top + 20, title, { size: 20, bold: true });
+  layout.page.text(
+    MARGIN,
+    layout.top + 38,
+    `Generated ${format.date(generatedAt)} - ${
+      basis === "real"
+        ? "values in today's money (inflation-adjusted)"
+        : "nominal values"
+    }`,
+    { size: 9, color: MUTED },
+  );
+  layout.top += 52;
+
+  drawInputs(layout, scenarios, format);
+  drawResults(layout, scenarios, results, format);
+
+  layout.newPage();
+  const data = drawCharts(layout, scenarios, results, basis, format);
+
+  scenarios.forEach((scenario) => {
+    layout.newPage();
+    drawYearlySummary(layout, scenario, data, format);
+  });
+
+  doc.pages.forEach((page, i) => {
+    page.text(MARGIN, PAGE_HEIGHT - MARGIN + 4, title, {
+      size: 7,
+      color: MUTED,
+    });
+    page.text(
+      PAGE_WIDTH - MARGIN,
+      PAGE_HEIGHT - MARGIN + 4,
+      `Page ${i + 1} of ${doc.pages.length}`,
+      { size: 7, color: MUTED, align: "right" },
+    );
+  });
+  return doc;
+}
+
+export const renderReport = (
+  scenarios: ReportScenario[],
+  options?: ReportOptions,
+): Uint8Array => buildReport(scenarios, options).render();
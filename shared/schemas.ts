@@ -0,0 +1,151 @@
+import { z } from "zod";
+import type {
+  AffordabilityProfile,
+  CapitalGainsProfile,
+  FloatingRatePlan,
+  LoanData,
+  PrepaymentPlan,
+  ScenarioInputs,
+  SIPData,
+  SIPStepUp,
+  TaxProfile,
+} from "./finance";
+
+/**
+ * The widest values the finance engine accepts for each core input. These are
+ * deliberately wider than the UI sliders so internal tools can model edge
+ * cases; API requests are rejected and shared links are clamped outside them.
+ */
+export const INPUT_LIMITS = {
+  loanAmount: { min: 1, max: 1e10 },
+  interestRate: { min: 0, max: 50 },
+  tenure: { min: 1 / 12, max: 50 },
+  sipAmount: { min: 0, max: 1e8 },
+  sipReturnRate: { min: 0, max: 50 },
+  sipTenure: { min: 1 / 12, max: 50 },
+  inflationRate: { min: 0, max: 30 },
+} as const;
+
+const limited = (key: keyof typeof INPUT_LIMITS) =>
+  z.number().min(INPUT_LIMITS[key].min).max(INPUT_LIMITS[key].max);
+
+/*
+ * Schemas for the finance inputs, shared by the API routes and shared-link
+ * decoding. The explicit casts pin the output types to the shared interfaces:
+ * with strictNullChecks off, zod would otherwise infer every key as optional.
+ */
+const prepaymentEventSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("lump-sum"),
+    month: z.number().int().positive(),
+    amount: z.number().min(0),
+  }),
+  z.object({
+    kind: z.literal("annual"),
+    startMonth: z.number().int().positive(),
+    endMonth: z.number().int().positive().optional(),
+    amount: z.number().min(0),
+  }),
+]);
+
+export const prepaymentPlanSchema = z.object({
+  strategy: z.enum(["reduce-tenure", "reduce-emi"]),
+  events: z.array(prepaymentEventSchema).max(600),
+}) as z.ZodType<PrepaymentPlan>;
+
+export const floatingRatePlanSchema = z.object({
+  mode: z.enum(["keep-emi", "keep-tenure"]),
+  source: z.enum(["manual", "repo-linked"]),
+  changes: z
+    .array(
+      z.object({
+        month: z.number().int().positive(),
+        rate: z.number().min(0).max(50),
+      }),
+    )
+    .max(600),
+  repoLinked: z
+    .object({
+      spread: z.number().min(-10).max(20),
+      resetFrequency: z.number().int().min(1).max(60),
+      repoPath: z
+        .array(
+          z.object({
+            month: z.number().int().positive(),
+            repoRate: z.number().min(0).max(30),
+          }),
+        )
+        .max(600),
+    })
+    .optional(),
+}) as z.ZodType<FloatingRatePlan>;
+
+export const loanDataSchema = z.object({
+  loanAmount: limited("loanAmount"),
+  interestRate: limited("interestRate"),
+  tenure: limited("tenure"),
+  prepayment: prepaymentPlanSchema.optional(),
+  floatingRate: floatingRatePlanSchema.optional(),
+}) as z.ZodType<LoanData>;
+
+const maxMonthlyAmount = z.number().positive().optional();
+
+export const stepUpSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("percent"),
+    value: z.number().min(0).max(100),
+    maxMonthlyAmount,
+  }),
+  z.object({
+    kind: z.literal("amount"),
+    value: z.number().min(0).max(1e7),
+    maxMonthlyAmount,
+  }),
+]) as z.ZodType<SIPStepUp>;
+
+export const capitalGainsProfileSchema = z.object({
+  stcgRate: z.number().min(0).max(50),
+  ltcgRate: z.number().min(0).max(50),
+  ltcgExemption: z.number().min(0).max(1e8),
+  longTermAfterMonths: z.number().int().min(0).max(600),
+  exitLoad: z
+    .object({
+      rate: z.number().min(0).max(10),
+      withinMonths: z.number().int().min(0).max(600),
+    })
+    .optional(),
+}) as z.ZodType<CapitalGainsProfile>;
+
+export const sipDataSchema = z.object({
+  sipAmount: limited("sipAmount"),
+  sipReturnRate: limited("sipReturnRate"),
+  sipTenure: limited("sipTenure"),
+  stepUp: stepUpSchema.optional(),
+  capitalGains: capitalGainsProfileSchema.optional(),
+}) as z.ZodType<SIPData>;
+
+export const taxProfileSchema = z.object({
+  regime: z.enum(["old", "new"]),
+  slabRate: z.number().min(0).max(50),
+  propertyUse: z.enum(["self-occupied", "let-out"]),
+  coBorrowerShare: z.number().min(0).max(100).optional(),
+  preConstructionInterest: z.number().min(0).max(1e10).optional(),
+  annualRent: z.number().min(0).max(1e10).optional(),
+}) as z.ZodType<TaxProfile>;
+
+export const affordabilityProfileSchema = z.object({
+  monthlyIncome: z.number().min(0).max(1e9),
+  existingEmis: z.number().min(0).max(1e9),
+  foirLimit: z.number().min(0).max(100),
+  maxLtv: z.number().min(0).max(100),
+  propertyValue: z.number().min(0).max(1e11),
+  capLoan: z.boolean().optional(),
+}) as z.ZodType<AffordabilityProfile>;
+
+export const scenarioInputsSchema = z.object({
+  loan: loanDataSchema,
+  sip: sipDataSchema,
+  inflationRate: limited("inflationRate").optional(),
+  tax: taxProfileSchema.optional(),
+  affordability: affordabilityProfileSchema.optional(),
+}) as z.ZodType<ScenarioInputs>;